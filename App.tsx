@@ -3,6 +3,7 @@
 import React, { useState, useEffect, useRef, useLayoutEffect, useCallback } from 'react';
 import StudyList from './components/StudyList';
 import ViewerCanvas from './components/ViewerCanvas';
+import MprViewer from './components/MprViewer';
 import SeriesSelector from './components/SeriesSelector';
 import MeasurementPanel from './components/MeasurementPanel';
 import SegmentationPanel from './components/SegmentationPanel';
@@ -10,16 +11,64 @@ import AiAssistantPanel from './components/AiAssistantPanel';
 import SafetyModal from './components/SafetyModal';
 import GuidedTour, { TourId } from './components/GuidedTour';
 import FloatingToolbar from './components/FloatingToolbar';
-import { TOOLS, MOCK_SEGMENTATION_DATA } from './constants';
-import { Study, Series, ToolMode, ConnectionType, DicomWebConfig, Measurement, SegmentationLayer, ViewerHandle } from './types';
+import LayoutToolbar from './components/LayoutToolbar';
+import HangingProtocolMenu from './components/HangingProtocolMenu';
+import FusionControls from './components/FusionControls';
+import CinePlayer from './components/CinePlayer';
+import SessionMenu from './components/SessionMenu';
+import AiReportModal from './components/AiReportModal';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import { TOOLS, MOCK_SEGMENTATION_DATA, VIEWPORT_LAYOUTS, AI_WELCOME_MESSAGE, getWlPresets } from './constants';
+import { Study, Series, ToolMode, ConnectionType, DicomWebConfig, Measurement, SegmentationLayer, SegmentationExportFormat, ViewerHandle, ViewerPane, ViewportLayout, HangingProtocol, FusionSettings, SyncOptions, ViewportState, LinkedViewportUpdate, ChatMessage, StudySession, ArrowAnnotation, ViewerAction } from './types';
 import { fetchDicomWebSeries } from './services/dicomService';
-import { Ruler, Activity, Sparkles, GripVertical, Shield, Loader2, X, Camera, HelpCircle, HardDrive, Map, GraduationCap } from 'lucide-react';
+import { saveAutosave, loadAutosave, collectSessionMasks, restoreSessionMasks } from './services/sessionStore';
+import { loadDicomImage } from './services/imageLoader';
+import { importSegmentationFiles } from './services/segmentationImport';
+import { getCalibration } from './utils/calibration';
+import { normalizeMeasurement, translateMeasurement, getPixelValueUnit } from './utils/measurements';
+import { BUILT_IN_HANGING_PROTOCOLS, findMatchingHangingProtocols, hangSeries, createHangingProtocol, loadSavedHangingProtocols, saveHangingProtocols } from './utils/hangingProtocols';
+import { createMaskStore } from './utils/maskStore';
+import { createLabelWorker } from './utils/labelWorker';
+import { interpolateSegment } from './utils/sliceInterpolation';
+import { collectSegmentStats } from './utils/segmentStats';
+import { findSyncedSliceIndex } from './utils/sliceSync';
+import { buildLabelVolume, buildSegmentLut } from './utils/labelVolume';
+import { encodeNiftiLabels } from './utils/nifti';
+import { encodeDicomSeg, canExportDicomSeg } from './utils/dicomSeg';
+import { downloadBlob } from './utils/download';
+import { decodeMeasurementReportSr, mapSrMeasurementsToSeries } from './utils/dicomSr';
+import { ViewerToolContext } from './utils/viewerTools';
+import { CommandId, Keymap, TOOL_COMMANDS, loadKeymap, saveKeymap, keyFromEvent, findCommandForKey, formatKeyHint } from './utils/keymap';
+import { Ruler, Activity, Sparkles, GripVertical, Shield, Loader2, X, Camera, HelpCircle, HardDrive, Map, GraduationCap, Keyboard } from 'lucide-react';
+
+// Autosave waits for this long after the last change (strokes, measurements, chat)
+const AUTOSAVE_DELAY_MS = 1500;
+
+// Segmentation settings of a freshly opened study
+const INITIAL_SEGMENTATION_LAYER: SegmentationLayer = {
+  opacity: 0.5,
+  isVisible: true,
+  activeSegmentId: null,
+  segments: MOCK_SEGMENTATION_DATA,
+  brushSize: 15,
+  thresholdRange: null,
+  growTolerance: 0.1,
+  growIn3d: false,
+  segmentedSlices: []
+};
+
+// Keyboard shortcuts are ignored while the user is typing
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
 
 const App: React.FC = () => {
   // Default to DICOMWEB (which is now effectively Local Mode via the service swap)
   const [connectionType, setConnectionType] = useState<ConnectionType>('DICOMWEB');
   const [showSafetyModal, setShowSafetyModal] = useState(false);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   const [showTourMenu, setShowTourMenu] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   
   // Config is less relevant now, but kept for type compatibility
   const [dicomConfig, setDicomConfig] = useState<DicomWebConfig>({ 
@@ -29,15 +78,37 @@ const App: React.FC = () => {
 
   const [selectedStudy, setSelectedStudy] = useState<Study | null>(null);
   const [studySeries, setStudySeries] = useState<Series[]>([]);
-  const [activeSeries, setActiveSeries] = useState<Series | null>(null);
   const [activeTool, setActiveTool] = useState<ToolMode>(ToolMode.SCROLL);
   
   // No more auto-booting needed for local files
   const [isAutoBooting, setIsAutoBooting] = useState(false);
   
-  const viewerRef = useRef<ViewerHandle>(null);
-  
-  const [sliceIndex, setSliceIndex] = useState(0);
+  // --- VIEWPORT PANES ---
+  // Each pane shows its own series and slice; the active pane drives the side panels, MPR and capture.
+  const [layout, setLayout] = useState<ViewportLayout>('1x1');
+  const [panes, setPanes] = useState<ViewerPane[]>([{ id: 'pane-1', seriesId: null, sliceIndex: 0 }]);
+  const [activePaneId, setActivePaneId] = useState('pane-1');
+  const [syncOptions, setSyncOptions] = useState<SyncOptions>({ scroll: true, zoomPan: false, windowLevel: false });
+  const [linkedViewport, setLinkedViewport] = useState<{ sourcePaneId: string; update: LinkedViewportUpdate } | null>(null);
+  const viewerRefs = useRef<Record<string, ViewerHandle | null>>({});
+  // Hanging protocols: saved ones first, so they win ties with the built-in rules
+  const [savedProtocols, setSavedProtocols] = useState<HangingProtocol[]>(loadSavedHangingProtocols);
+  const [activeProtocolId, setActiveProtocolId] = useState<string | null>(null);
+  const hangingProtocols = [...savedProtocols, ...BUILT_IN_HANGING_PROTOCOLS];
+  const matchingProtocols = selectedStudy ? findMatchingHangingProtocols(hangingProtocols, selectedStudy, studySeries) : [];
+  // Segmentation masks are shared by all panes so a series painted in one pane shows in the others.
+  // Created once (not per render): the label worker runs bulk mask jobs off the main thread.
+  const [labelWorker] = useState(createLabelWorker);
+  const [maskStore] = useState(() => createMaskStore(labelWorker));
+
+  const activePane = panes.find(p => p.id === activePaneId) ?? panes[0];
+  const activeSeries = studySeries.find(s => s.id === activePane.seriesId) ?? null;
+  const sliceIndex = activePane.sliceIndex;
+  // 'stack' = 2D viewport panes, 'mpr' = orthogonal reformats of the active series
+  const [viewMode, setViewMode] = useState<'stack' | 'mpr'>('stack');
+  // Cine plays the active pane (linked panes follow through scroll sync)
+  const [showCine, setShowCine] = useState(false);
+  const [isCinePlaying, setIsCinePlaying] = useState(false);
   
   // Measurements State (Scoped by Series ID)
   const [measurementsBySeries, setMeasurementsBySeries] = useState<Record<string, Measurement[]>>({});
@@ -47,16 +118,28 @@ const App: React.FC = () => {
   const activeSeriesId = activeSeries?.id;
   const measurements = activeSeriesId ? (measurementsBySeries[activeSeriesId] || []) : [];
 
+  // Arrows placed by the AI tutor (Scoped by Series ID)
+  const [annotationsBySeries, setAnnotationsBySeries] = useState<Record<string, ArrowAnnotation[]>>({});
+
   // Default to AI tab
   const [activeRightTab, setActiveRightTab] = useState<'measure' | 'segment' | 'ai'>('ai');
-  const [segmentationLayer, setSegmentationLayer] = useState<SegmentationLayer>({
-    opacity: 0.5,
-    isVisible: true,
-    activeSegmentId: null,
-    segments: MOCK_SEGMENTATION_DATA,
-    brushSize: 15,
-    segmentedSlices: [] // Initialize new list
-  });
+  const [segmentationLayer, setSegmentationLayer] = useState<SegmentationLayer>(INITIAL_SEGMENTATION_LAYER);
+
+  // AI chat history (lifted from AiAssistantPanel so it is saved with the session)
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([AI_WELCOME_MESSAGE]);
+
+  // --- SESSION PERSISTENCE ---
+  // The open study's session is autosaved to IndexedDB and restored when the study is reopened
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  // Bumped on restore so the active-series effect re-derives segmented slices from the new masks
+  const [sessionRevision, setSessionRevision] = useState(0);
+  // Autosave stays off until the study's saved session has been loaded, so it cannot be overwritten
+  const restoredStudyIdRef = useRef<string | null>(null);
+  const autosaveTimerRef = useRef<number | null>(null);
+  // Masks are only saved once the series list belongs to the study being saved
+  const studySeriesRef = useRef(studySeries);
+  studySeriesRef.current = studySeries;
 
   const [sidebarWidth, setSidebarWidth] = useState(320);
   const [isResizingSidebar, setIsResizingSidebar] = useState(false);
@@ -195,6 +278,11 @@ const App: React.FC = () => {
     }
   }, [selectedStudy]);
 
+  const closeCine = () => {
+    setIsCinePlaying(false);
+    setShowCine(false);
+  };
+
   const handleCloseTour = () => {
     // Only mark completed if we finished the quick start
     if (activeTour === 'quick-start') {
@@ -238,23 +326,47 @@ const App: React.FC = () => {
     };
   }, [isResizingSidebar]);
 
+  // New panes pick series that are not on screen yet (in series order), then repeat the first one
+  const fillPanes = (count: number, existing: ViewerPane[], seriesList: Series[]): ViewerPane[] => {
+    const shown = new Set(existing.map(p => p.seriesId));
+    const unused = seriesList.filter(s => !shown.has(s.id));
+    const next = existing.slice(0, count);
+    for (let i = next.length; i < count; i++) {
+      const series = unused.shift() ?? seriesList[0];
+      next.push({
+        id: `pane-${i + 1}`,
+        seriesId: series?.id ?? null,
+        sliceIndex: series ? Math.floor(series.instanceCount / 2) : 0,
+      });
+    }
+    return next;
+  };
+
+  const getPaneCount = (id: ViewportLayout) => {
+    const def = VIEWPORT_LAYOUTS.find(l => l.id === id)!;
+    return def.columns * def.rows;
+  };
+
   useEffect(() => {
     async function loadSeries() {
       if (!selectedStudy) {
         setStudySeries([]);
-        setActiveSeries(null);
+        setPanes(prev => prev.map(p => ({ ...p, seriesId: null, sliceIndex: 0 })));
         return;
       }
       try {
         const seriesData = await fetchDicomWebSeries(dicomConfig, selectedStudy.id);
         setStudySeries(seriesData);
-        if (seriesData.length > 0) {
-          // Default to first series (T1 likely)
-          setActiveSeries(seriesData[0]);
-          setActiveRightTab('ai');
+        const [protocol] = findMatchingHangingProtocols(hangingProtocols, selectedStudy, seriesData);
+        if (protocol) {
+          applyHangingProtocol(protocol, seriesData);
         } else {
-          setActiveSeries(null);
+          // Default to first series (T1 likely) in the first pane, the following ones in the other panes
+          setPanes(fillPanes(getPaneCount(layout), [], seriesData));
+          setActiveProtocolId(null);
         }
+        setActivePaneId('pane-1');
+        if (seriesData.length > 0) setActiveRightTab('ai');
       } catch (err) {
         console.error("Error loading series", err);
       }
@@ -262,21 +374,204 @@ const App: React.FC = () => {
     loadSeries();
   }, [selectedStudy, connectionType, dicomConfig]);
 
+  const applyHangingProtocol = (protocol: HangingProtocol, seriesList: Series[]) => {
+    const hung = hangSeries(protocol, seriesList);
+    // Panes that keep their series are already windowed, so the protocol's preset is applied directly
+    hung.panes.forEach(pane => {
+      const series = seriesList.find(s => s.id === pane.seriesId);
+      const preset = series && pane.windowPreset && getWlPresets(series.modality).find(p => p.label === pane.windowPreset);
+      if (preset && panes.some(p => p.id === pane.id && p.seriesId === pane.seriesId)) viewerRefs.current[pane.id]?.applyWindowPreset(preset);
+    });
+    setLayout(hung.layout);
+    setPanes(hung.panes);
+    setActiveProtocolId(protocol.id);
+    if (!hung.panes.some(p => p.id === activePaneId)) setActivePaneId('pane-1');
+  };
+
+  const handleSaveProtocol = (name: string) => {
+    if (!selectedStudy) return;
+    const protocol = createHangingProtocol(name, selectedStudy, layout, panes, studySeries);
+    const next = [protocol, ...savedProtocols];
+    setSavedProtocols(next);
+    saveHangingProtocols(next);
+    setActiveProtocolId(protocol.id);
+  };
+
+  const handleDeleteProtocol = (id: string) => {
+    const next = savedProtocols.filter(p => p.id !== id);
+    setSavedProtocols(next);
+    saveHangingProtocols(next);
+    if (activeProtocolId === id) setActiveProtocolId(null);
+  };
+
+  const handleLayoutChange = (next: ViewportLayout) => {
+    const count = getPaneCount(next);
+    setLayout(next);
+    setActiveProtocolId(null);
+    setPanes(prev => fillPanes(count, prev, studySeries));
+    if (panes.findIndex(p => p.id === activePaneId) >= count) setActivePaneId('pane-1');
+  };
+
+  const assignSeriesToActivePane = useCallback((series: Series) => {
+    setPanes(prev => prev.map(p => p.id === activePaneId
+      // A fusion overlay stays, unless it is the series now shown underneath
+      ? { id: p.id, seriesId: series.id, sliceIndex: Math.floor(series.instanceCount / 2), fusion: p.fusion?.seriesId === series.id ? undefined : p.fusion }
+      : p
+    ));
+  }, [activePaneId]);
+
+  const handleFusionChange = useCallback((fusion: FusionSettings) => {
+    setPanes(prev => prev.map(p => p.id === activePaneId ? { ...p, fusion } : p));
+  }, [activePaneId]);
+
+  // Scrolling a pane moves the linked panes to the matching slice (by position, or by index)
+  const handlePaneSliceChange = useCallback((paneId: string, index: number) => {
+    setPanes(prev => {
+      const sourceSeries = studySeries.find(s => s.id === prev.find(p => p.id === paneId)?.seriesId);
+      return prev.map(p => {
+        if (p.id === paneId) return { ...p, sliceIndex: index };
+        if (!syncOptions.scroll || !sourceSeries) return p;
+        const target = studySeries.find(s => s.id === p.seriesId);
+        // Panes whose stack does not reach this location stay where they are
+        const synced = target ? findSyncedSliceIndex(sourceSeries, index, target) : null;
+        return synced === null ? p : { ...p, sliceIndex: synced };
+      });
+    });
+  }, [studySeries, syncOptions.scroll]);
+
+  const setSliceIndex = useCallback((index: number) => {
+    handlePaneSliceChange(activePaneId, index);
+  }, [handlePaneSliceChange, activePaneId]);
+
+  const handlePaneViewportChange = useCallback((paneId: string, changes: Partial<ViewportState>) => {
+    const patch: Partial<ViewportState> = {};
+    if (syncOptions.zoomPan) {
+      if (changes.scale !== undefined) patch.scale = changes.scale;
+      if (changes.pan !== undefined) patch.pan = changes.pan;
+    }
+    if (syncOptions.windowLevel) {
+      if (changes.windowWidth !== undefined) patch.windowWidth = changes.windowWidth;
+      if (changes.windowCenter !== undefined) patch.windowCenter = changes.windowCenter;
+      if (changes.voiLutFunction !== undefined) patch.voiLutFunction = changes.voiLutFunction;
+    }
+    if (Object.keys(patch).length === 0) return;
+    setLinkedViewport(prev => ({ sourcePaneId: paneId, update: { patch, seq: (prev?.update.seq ?? 0) + 1 } }));
+  }, [syncOptions.zoomPan, syncOptions.windowLevel]);
+
   useEffect(() => {
     if (activeSeries) {
-      // Default slice selection
-      setSliceIndex(Math.floor(activeSeries.instanceCount / 2));
-      
       // Measurements are now persisted by series, so we don't clear them here.
       setActiveMeasurementId(null);
       // Reset capture context on series change to avoid stale context
       setAiContextImage(null);
       setAiContextSliceInfo(null);
       
-      // Clear segmented slices list on series change since canvas is cleared
-      setSegmentationLayer(prev => ({ ...prev, segmentedSlices: [] }));
+      // Segmented slices of the newly active series (masks persist in the shared store)
+      const segmentedSlices = getSegmentedSlices(activeSeries.id);
+      setSegmentationLayer(prev => ({ ...prev, segmentedSlices }));
     }
-  }, [activeSeries?.id]);
+  }, [activeSeries?.id, sessionRevision]);
+
+  const captureSession = (): StudySession => {
+    const { segmentedSlices, ...segmentation } = segmentationLayer;
+    // During a study switch the loaded state still belongs to the study being left
+    const studyId = restoredStudyIdRef.current ?? selectedStudy?.id ?? '';
+    return {
+      studyId,
+      savedAt: Date.now(),
+      measurementsBySeries,
+      segmentation,
+      masks: collectSessionMasks(maskStore, studySeries.filter(s => s.studyId === studyId).map(s => s.id)),
+      // A reply still streaming is not worth keeping half-written
+      chatMessages: chatMessages.filter(m => !m.isThinking),
+      annotationsBySeries,
+    };
+  };
+  // The autosave timer reads the latest state without being re-created
+  const captureSessionRef = useRef(captureSession);
+  captureSessionRef.current = captureSession;
+
+  const applySession = (session: StudySession) => {
+    restoreSessionMasks(maskStore, session.masks);
+    setMeasurementsBySeries(Object.fromEntries(
+      Object.entries(session.measurementsBySeries).map(([seriesId, list]) => [seriesId, list.map(normalizeMeasurement)])
+    ));
+    setSegmentationLayer(prev => ({ ...prev, ...session.segmentation }));
+    setChatMessages(session.chatMessages.length > 0 ? session.chatMessages : [AI_WELCOME_MESSAGE]);
+    setAnnotationsBySeries(session.annotationsBySeries ?? {});
+    setSessionRevision(r => r + 1);
+  };
+
+  const flushAutosave = useCallback(() => {
+    if (autosaveTimerRef.current !== null) {
+      window.clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+    const studyId = restoredStudyIdRef.current;
+    if (!studyId) return;
+    // Series not loaded yet: saving now would drop the study's masks (the series effect saves again once they are)
+    const series = studySeriesRef.current;
+    if (series.length === 0 || series.some(s => s.studyId !== studyId)) return;
+    const session = captureSessionRef.current();
+    saveAutosave(session)
+      .then(() => {
+        setLastSavedAt(session.savedAt);
+        setAutosaveError(null);
+      })
+      .catch((e: any) => setAutosaveError(e.message || 'Autosave failed'));
+  }, []);
+
+  const scheduleAutosave = useCallback(() => {
+    if (!restoredStudyIdRef.current) return;
+    if (autosaveTimerRef.current !== null) window.clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = window.setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+  }, [flushAutosave]);
+
+  // Restore the study's autosave when it is opened
+  useEffect(() => {
+    setLastSavedAt(null);
+    if (!selectedStudy) return;
+    const studyId = selectedStudy.id;
+    let cancelled = false;
+    loadAutosave(studyId)
+      .then(session => {
+        if (cancelled || !session) return;
+        applySession(session);
+        setLastSavedAt(session.savedAt);
+      })
+      .catch((e: any) => setAutosaveError(e.message || 'Could not load the saved session'))
+      .finally(() => {
+        if (!cancelled) restoredStudyIdRef.current = studyId;
+      });
+    return () => {
+      cancelled = true;
+      // Save a pending change to the study being left, then clear its state for the next one
+      if (autosaveTimerRef.current !== null) flushAutosave();
+      restoredStudyIdRef.current = null;
+      maskStore.getSeriesIds().forEach(id => maskStore.clearSeries(id));
+      setMeasurementsBySeries({});
+      setActiveMeasurementId(null);
+      setAnnotationsBySeries({});
+      setSegmentationLayer(INITIAL_SEGMENTATION_LAYER);
+      setChatMessages([AI_WELCOME_MESSAGE]);
+      setSessionRevision(r => r + 1);
+    };
+  }, [selectedStudy?.id]);
+
+  useEffect(() => {
+    scheduleAutosave();
+  }, [measurementsBySeries, segmentationLayer, chatMessages, annotationsBySeries, studySeries, scheduleAutosave]);
+
+  useEffect(() => maskStore.subscribe(() => scheduleAutosave()), [maskStore, scheduleAutosave]);
+
+  // Save a pending change before the page goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (autosaveTimerRef.current !== null) flushAutosave();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flushAutosave]);
 
   const handleMeasurementAdd = useCallback((m: Measurement) => {
     if (!activeSeriesId) return;
@@ -315,8 +610,104 @@ const App: React.FC = () => {
     if (activeMeasurementId === id) setActiveMeasurementId(null);
   }, [activeSeriesId, activeMeasurementId]);
   
+  // Selected measurement (pointer tool): arrows nudge it by 1 px (Shift: 10), Delete removes it, Escape deselects.
+  // Listens in the capture phase so the nudge wins over the arrow-key slice shortcuts.
+  useEffect(() => {
+    if (!activeSeriesId || !activeMeasurementId || activeTool !== ToolMode.POINTER || activeTour !== null) return;
+    const NUDGE: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+        const measurement = (measurementsBySeries[activeSeriesId] || []).find(m => m.id === activeMeasurementId);
+        if (!measurement) return;
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            handleMeasurementDelete(measurement.id);
+        } else if (e.key === 'Escape') {
+            setActiveMeasurementId(null);
+        } else if (NUDGE[e.key]) {
+            e.preventDefault();
+            const step = e.shiftKey ? 10 : 1;
+            onMeasurementUpdateStable(translateMeasurement(measurement, NUDGE[e.key][0] * step, NUDGE[e.key][1] * step));
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [activeSeriesId, activeMeasurementId, activeTool, activeTour, measurementsBySeries, handleMeasurementDelete, onMeasurementUpdateStable]);
+
+  // --- AI VIEWER TOOLS ---
+
+  const viewerToolContext: ViewerToolContext = {
+    series: studySeries.map(s => ({ id: s.id, description: s.description, instanceCount: s.instanceCount })),
+    activeSeriesId: activeSeries?.id ?? null,
+    sliceIndex,
+    windowPresets: getWlPresets(activeSeries?.modality).map(p => p.label),
+    segments: segmentationLayer.segments.map(s => ({ id: s.id, label: s.label, isVisible: s.isVisible })),
+  };
+
+  // Applies an AI action the learner confirmed to the active pane and returns how to undo it
+  const handleViewerAction = (action: ViewerAction): (() => void) | null => {
+    const paneId = activePane.id;
+    const viewer = viewerRefs.current[paneId];
+    switch (action.type) {
+      case 'jump_to_slice': {
+        const previous = activePane.sliceIndex;
+        handlePaneSliceChange(paneId, action.sliceIndex);
+        return () => handlePaneSliceChange(paneId, previous);
+      }
+      case 'switch_series': {
+        const series = studySeries.find(s => s.id === action.seriesId);
+        if (!series) throw new Error('That series is no longer available.');
+        const previous = { seriesId: activePane.seriesId, sliceIndex: activePane.sliceIndex };
+        setPanes(prev => prev.map(p => (p.id === paneId ? { ...p, seriesId: series.id, sliceIndex: Math.floor(series.instanceCount / 2) } : p)));
+        return () => setPanes(prev => prev.map(p => (p.id === paneId ? { ...p, ...previous } : p)));
+      }
+      case 'apply_window_preset':
+      case 'zoom_to_region': {
+        if (!viewer || viewMode !== 'stack') throw new Error('Switch back to the stack view first.');
+        const previous = viewer.getViewport();
+        if (action.type === 'zoom_to_region') {
+          viewer.zoomToRegion(action.region);
+        } else {
+          const preset = getWlPresets(activeSeries?.modality).find(p => p.label === action.preset);
+          if (!preset) throw new Error(`The ${action.preset} preset does not apply to this series.`);
+          viewer.applyWindowPreset(preset);
+        }
+        return () => viewerRefs.current[paneId]?.setViewport(previous);
+      }
+      case 'place_arrow': {
+        if (!activeSeriesId) throw new Error('No series is open.');
+        const seriesId = activeSeriesId;
+        const arrow: ArrowAnnotation = {
+          id: `arrow-${Date.now()}`,
+          sliceIndex: action.sliceIndex,
+          tip: { x: action.x, y: action.y },
+          label: action.label,
+          createdAt: Date.now(),
+        };
+        const previousSlice = activePane.sliceIndex;
+        setAnnotationsBySeries(prev => ({ ...prev, [seriesId]: [...(prev[seriesId] || []), arrow] }));
+        if (action.sliceIndex !== previousSlice) handlePaneSliceChange(paneId, action.sliceIndex);
+        return () => {
+          setAnnotationsBySeries(prev => ({ ...prev, [seriesId]: (prev[seriesId] || []).filter(a => a.id !== arrow.id) }));
+          if (action.sliceIndex !== previousSlice) handlePaneSliceChange(paneId, previousSlice);
+        };
+      }
+      case 'toggle_segment': {
+        const segment = segmentationLayer.segments.find(s => s.id === action.segmentId);
+        if (!segment) throw new Error('That segment no longer exists.');
+        const setVisible = (isVisible: boolean) => setSegmentationLayer(prev => ({
+          ...prev,
+          segments: prev.segments.map(s => (s.id === segment.id ? { ...s, isVisible } : s)),
+        }));
+        const previous = segment.isVisible;
+        setVisible(action.visible);
+        return () => setVisible(previous);
+      }
+    }
+  };
+
   const handleCaptureScreen = () => {
-      return viewerRef.current?.captureScreenshot() || null;
+      return viewerRefs.current[activePaneId]?.captureScreenshot() || null;
   };
 
   const performGlobalCapture = useCallback(() => {
@@ -331,7 +722,7 @@ const App: React.FC = () => {
         setShowCaptureToast(true);
         setTimeout(() => setShowCaptureToast(false), 3000);
     }
-  }, [sliceIndex, activeSeries, selectedStudy]);
+  }, [sliceIndex, activeSeries, selectedStudy, activePaneId]);
 
   const clearGlobalCapture = () => {
     setAiContextImage(null);
@@ -339,12 +730,116 @@ const App: React.FC = () => {
   };
 
   const handleClearSegment = (id: number) => {
-     if (viewerRef.current) {
-        viewerRef.current.removeSegment(id);
-     }
+     maskStore.removeSegment(id)
+       .then(changes => changes
+         .filter(change => change.seriesId === activeSeriesId)
+         .forEach(change => handleSegmentedSliceUpdate(change.sliceIndex, change.labelCount)))
+       .catch((e: any) => console.error('Could not remove the segment from the masks', e));
+  };
+
+  const getSegmentedSlices = (seriesId: string) => {
+    const interpolated = maskStore.getInterpolatedSlices(seriesId);
+    return Array.from(maskStore.getSliceSegmentIds(seriesId).entries())
+      .filter(([, ids]) => ids.size > 0)
+      .map(([idx, ids]) => ({ sliceIndex: idx, labelCount: ids.size, isInterpolated: interpolated.has(idx) }));
+  };
+
+  // Statistics of every segment on the active series, from the masks and the images underneath
+  const handleComputeSegmentStats = async () => {
+    if (!activeSeries) throw new Error('Open a series to compute segment statistics.');
+    return collectSegmentStats(maskStore, activeSeries, segmentationLayer.segments, url => loadDicomImage(dicomConfig, url));
+  };
+
+  // Fills the gaps between the painted slices of a segment; the result stays flagged until accepted
+  const handleInterpolateSegment = async (segmentId: number): Promise<string> => {
+    if (!activeSeries) throw new Error('Open a series before interpolating.');
+    const seriesId = activeSeries.id;
+    const { keySlices, changes } = await interpolateSegment(maskStore, seriesId, segmentId, labelWorker);
+    setSegmentationLayer(prev => ({ ...prev, segmentedSlices: getSegmentedSlices(seriesId) }));
+    return `Interpolated ${changes.length} slice${changes.length === 1 ? '' : 's'} between ${keySlices} painted slices. Review them, then accept or reject.`;
+  };
+
+  const handleResolveInterpolation = (accept: boolean) => {
+    if (!activeSeries) return;
+    const seriesId = activeSeries.id;
+    if (accept) maskStore.acceptInterpolated(seriesId);
+    else maskStore.rejectInterpolated(seriesId);
+    setSegmentationLayer(prev => ({ ...prev, segmentedSlices: getSegmentedSlices(seriesId) }));
+  };
+
+  // Loads the measurements of a DICOM SR report onto the active series; returns a summary for the panel
+  const handleImportMeasurementSr = async (file: File): Promise<string> => {
+    if (!activeSeries) throw new Error('Open a series before importing a measurement report.');
+    const decoded = decodeMeasurementReportSr(new Uint8Array(await file.arrayBuffer()));
+    const imported = mapSrMeasurementsToSeries(decoded, activeSeries);
+    if (imported.length === 0) throw new Error('The report has no measurements on images of this series.');
+    const seriesId = activeSeries.id;
+    // Measurements exported from this viewer keep their ids, so importing them again replaces them
+    setMeasurementsBySeries(prev => {
+      const ids = new Set(imported.map(m => m.id));
+      return { ...prev, [seriesId]: [...(prev[seriesId] || []).filter(m => !ids.has(m.id)), ...imported] };
+    });
+    const skipped = decoded.length - imported.length;
+    const summary = `Imported ${imported.length} measurement${imported.length === 1 ? '' : 's'}.`;
+    return skipped > 0 ? `${summary} ${skipped} skipped (other series or unsupported geometry).` : summary;
+  };
+
+  // Imports a reference segmentation onto the active series; returns a summary for the panel
+  const handleImportSegmentation = async (files: File[]): Promise<string> => {
+    if (!activeSeries || activeSeries.instances.length === 0) throw new Error('Open a series before importing a segmentation.');
+    // Masks are painted at the image's native size
+    const image = await loadDicomImage(dicomConfig, activeSeries.instances[0]);
+    const result = await importSegmentationFiles(
+      files,
+      activeSeries,
+      { columns: image.columns, rows: image.rows },
+      maskStore,
+      segmentationLayer.segments
+    );
+    const seriesId = activeSeries.id;
+    setSegmentationLayer(prev => ({
+      ...prev,
+      segments: result.segments,
+      activeSegmentId: prev.activeSegmentId ?? result.segments[0]?.id ?? null,
+      segmentedSlices: getSegmentedSlices(seriesId),
+    }));
+    const summary = `Imported ${result.slicesWritten} slice${result.slicesWritten === 1 ? '' : 's'}.`;
+    return [summary, ...result.warnings].join(' ');
+  };
+
+  const handleExportSegmentation = (format: SegmentationExportFormat) => {
+    if (!activeSeries || !selectedStudy) return;
+    const volume = buildLabelVolume(maskStore, activeSeries);
+    if (!volume) throw new Error('Nothing to export: no painted segments on this series.');
+    const baseName = `${(activeSeries.description || activeSeries.id).replace(/[^a-z0-9]+/gi, '_')}_seg`;
+
+    if (format === 'dicom-seg') {
+      const bytes = encodeDicomSeg(volume, segmentationLayer.segments, selectedStudy, activeSeries);
+      downloadBlob(new Blob([bytes], { type: 'application/dicom' }), `${baseName}.dcm`);
+      return;
+    }
+
+    const [rowSpacing, columnSpacing] = activeSeries.pixelSpacing ?? [1, 1];
+    const nifti = encodeNiftiLabels(volume, {
+      spacing: { column: columnSpacing, row: rowSpacing, slice: activeSeries.sliceThickness ?? 1 },
+      isCalibrated: !!activeSeries.pixelSpacing,
+      description: `VibeRad labels: ${activeSeries.description}`,
+    });
+    const sidecar = {
+      studyInstanceUid: selectedStudy.id,
+      seriesInstanceUid: activeSeries.id,
+      seriesDescription: activeSeries.description,
+      dimensions: [volume.columns, volume.rows, volume.slices],
+      voxelOrder: 'column, row, instance (image axes, not reoriented to patient space)',
+      labels: buildSegmentLut(volume, segmentationLayer.segments),
+    };
+    downloadBlob(new Blob([nifti], { type: 'application/octet-stream' }), `${baseName}.nii`);
+    downloadBlob(new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json' }), `${baseName}.json`);
   };
 
   const handleSegmentedSliceUpdate = useCallback((sliceIdx: number, labelCount: number) => {
+    // Editing an interpolated slice accepts it, so the flag is read back from the store
+    const isInterpolated = !!activeSeriesId && maskStore.getInterpolatedSlices(activeSeriesId).has(sliceIdx);
     setSegmentationLayer(prev => {
         // Remove existing entry for this slice
         const filtered = prev.segmentedSlices.filter(s => s.sliceIndex !== sliceIdx);
@@ -352,7 +847,7 @@ const App: React.FC = () => {
         if (labelCount > 0) {
             return {
                 ...prev,
-                segmentedSlices: [...filtered, { sliceIndex: sliceIdx, labelCount }]
+                segmentedSlices: [...filtered, { sliceIndex: sliceIdx, labelCount, isInterpolated }]
             };
         }
         // If count is 0, just remove
@@ -361,6 +856,98 @@ const App: React.FC = () => {
             segmentedSlices: filtered
         };
     });
+  }, [activeSeriesId]);
+
+  // --- KEYBOARD SHORTCUTS ---
+
+  const handleKeymapChange = useCallback((next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  }, []);
+
+  const keyHint = (id: CommandId) => formatKeyHint(keymap, id);
+  const toolKeyHint = (tool: ToolMode) => {
+    const command = (Object.keys(TOOL_COMMANDS) as CommandId[]).find(id => TOOL_COMMANDS[id] === tool);
+    return command ? keyHint(command) : '';
+  };
+
+  // Runs a command from the keymap; false when it does not apply right now (the key then keeps its default action)
+  const runCommand = (id: CommandId): boolean => {
+    if (id === 'help.shortcuts') {
+      setShowShortcuts(true);
+      return true;
+    }
+    if (!selectedStudy) return false;
+    const tool = TOOL_COMMANDS[id];
+    if (tool) {
+      setActiveTool(tool);
+      return true;
+    }
+    const sliceCount = activeSeries ? activeSeries.instances.length || activeSeries.instanceCount : 0;
+    const goToSlice = (index: number) => {
+      if (sliceCount === 0) return false;
+      setSliceIndex(Math.max(0, Math.min(sliceCount - 1, index)));
+      return true;
+    };
+    // Window presets and resets apply to the active 2D pane
+    const viewer = viewMode === 'stack' ? viewerRefs.current[activePaneId] : null;
+
+    switch (id) {
+      case 'slice.previous': return goToSlice(sliceIndex - 1);
+      case 'slice.next': return goToSlice(sliceIndex + 1);
+      case 'slice.pageBack': return goToSlice(sliceIndex - 10);
+      case 'slice.pageForward': return goToSlice(sliceIndex + 10);
+      case 'slice.first': return goToSlice(0);
+      case 'slice.last': return goToSlice(sliceCount - 1);
+      case 'preset.1':
+      case 'preset.2':
+      case 'preset.3':
+      case 'preset.4': {
+        const preset = getWlPresets(activeSeries?.modality)[Number(id.slice('preset.'.length)) - 1];
+        if (!viewer || !preset) return false;
+        viewer.applyWindowPreset(preset);
+        return true;
+      }
+      case 'view.reset':
+        viewer?.resetView();
+        return !!viewer;
+      case 'cine.toggle':
+        // Opens the player if needed
+        setShowCine(true);
+        setIsCinePlaying(p => !p);
+        return true;
+      case 'segmentation.undo':
+      case 'segmentation.redo': {
+        if (!activeSeriesId) return false;
+        const change = id === 'segmentation.undo' ? maskStore.undo(activeSeriesId) : maskStore.redo(activeSeriesId);
+        if (change) {
+          handleSegmentedSliceUpdate(change.sliceIndex, change.labelCount);
+          // Bring the edited slice into view
+          setSliceIndex(change.sliceIndex);
+        }
+        return true;
+      }
+      case 'ai.capture':
+        performGlobalCapture();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // One listener for every shortcut; it reads the latest state through the ref. Shortcuts are off while
+  // typing, during a guided tour and while the shortcut list is open (it records keys).
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleShortcutRef.current = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || showShortcuts || activeTour !== null || isTypingTarget(e.target)) return;
+    const key = keyFromEvent(e);
+    const id = key ? findCommandForKey(keymap, key) : null;
+    if (id && runCommand(id)) e.preventDefault();
+  };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
   return (
@@ -389,6 +976,16 @@ const App: React.FC = () => {
 
           {/* Right: Actions */}
           <div className="flex items-center gap-2">
+
+            {selectedStudy && (
+              <SessionMenu
+                study={selectedStudy}
+                getSession={() => captureSessionRef.current()}
+                onRestore={applySession}
+                lastSavedAt={lastSavedAt}
+                autosaveError={autosaveError}
+              />
+            )}
             
             {/* Tour Menu Button */}
             <div className="relative">
@@ -424,6 +1021,15 @@ const App: React.FC = () => {
                 )}
             </div>
 
+            <button
+                onClick={() => setShowShortcuts(true)}
+                className="text-[11px] font-medium text-slate-400 hover:text-indigo-300 transition-colors flex items-center gap-1.5 px-2"
+                title={`Keyboard shortcuts${keyHint('help.shortcuts')}`}
+            >
+                <Keyboard className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">Shortcuts</span>
+            </button>
+
             <button
                 onClick={() => setShowSafetyModal(true)}
                 className="text-[11px] font-medium text-slate-400 hover:text-indigo-300 transition-colors flex items-center gap-1.5 px-2"
@@ -436,10 +1042,29 @@ const App: React.FC = () => {
       </header>
 
       {showSafetyModal && <SafetyModal onClose={() => setShowSafetyModal(false)} />}
+
+      {showShortcuts && (
+        <ShortcutsOverlay keymap={keymap} onChange={handleKeymapChange} onClose={() => setShowShortcuts(false)} />
+      )}
       
       {/* Guided Tour Overlay */}
       {activeTour && <GuidedTour tourId={activeTour} onClose={handleCloseTour} />}
 
+      {selectedStudy && (
+        <AiReportModal
+          key={selectedStudy.id}
+          isOpen={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          study={selectedStudy}
+          series={activeSeries}
+          measurements={measurements}
+          calibration={getCalibration(activeSeries)}
+          currentSliceIndex={sliceIndex}
+          onCaptureScreen={handleCaptureScreen}
+          onComputeSegmentStats={handleComputeSegmentStats}
+        />
+      )}
+
       {!selectedStudy ? (
         <div className="h-full w-full bg-slate-950 overflow-hidden">
            <StudyList 
@@ -466,29 +1091,112 @@ const App: React.FC = () => {
                     onDragStart={handleToolbarDragStart}
                     orientation={toolbarOrientation}
                     isDragging={isDraggingToolbar}
+                    isMprActive={viewMode === 'mpr'}
+                    onToggleMpr={() => setViewMode(m => (m === 'mpr' ? 'stack' : 'mpr'))}
+                    isCineActive={showCine}
+                    onToggleCine={() => (showCine ? closeCine() : setShowCine(true))}
+                    toolKeyHint={toolKeyHint}
+                    captureKeyHint={keyHint('ai.capture')}
+                    cineKeyHint={keyHint('cine.toggle')}
                   />
 
-                  <ViewerCanvas 
-                    ref={viewerRef}
-                    series={activeSeries} 
-                    activeTool={activeTool}
-                    dicomConfig={dicomConfig}
-                    connectionType={connectionType}
-                    sliceIndex={sliceIndex}
-                    onSliceChange={setSliceIndex}
-                    measurements={measurements}
-                    onMeasurementAdd={handleMeasurementAdd}
-                    onMeasurementUpdate={onMeasurementUpdateStable}
-                    activeMeasurementId={activeMeasurementId}
-                    segmentationLayer={segmentationLayer}
-                    onSegmentedSliceUpdate={handleSegmentedSliceUpdate}
-                    isScrollEnabled={activeTour === null} // Block scroll if any tour is active
-                  />
+                  {viewMode === 'mpr' && (
+                    <MprViewer
+                      series={activeSeries}
+                      dicomConfig={dicomConfig}
+                      activeTool={activeTool}
+                      sliceIndex={sliceIndex}
+                      onSliceChange={setSliceIndex}
+                    />
+                  )}
+                  {/* Stay mounted in MPR mode so viewport state survives the switch */}
+                  <div
+                    className={`flex-1 grid gap-px bg-slate-800 min-h-0 ${viewMode === 'mpr' ? 'hidden' : ''}`}
+                    style={{
+                      gridTemplateColumns: `repeat(${VIEWPORT_LAYOUTS.find(l => l.id === layout)!.columns}, minmax(0, 1fr))`,
+                      gridTemplateRows: `repeat(${VIEWPORT_LAYOUTS.find(l => l.id === layout)!.rows}, minmax(0, 1fr))`,
+                    }}
+                  >
+                    {panes.map(pane => {
+                      const paneSeries = studySeries.find(s => s.id === pane.seriesId) ?? null;
+                      const isActivePane = pane.id === activePane.id;
+                      return (
+                        <div
+                          key={pane.id}
+                          className={`relative flex min-w-0 min-h-0 ${panes.length > 1 && isActivePane ? 'ring-2 ring-inset ring-indigo-500 z-[1]' : ''}`}
+                          onMouseDownCapture={() => setActivePaneId(pane.id)}
+                        >
+                          <ViewerCanvas 
+                            ref={handle => { viewerRefs.current[pane.id] = handle; }}
+                            series={paneSeries} 
+                            activeTool={activeTool}
+                            dicomConfig={dicomConfig}
+                            connectionType={connectionType}
+                            sliceIndex={pane.sliceIndex}
+                            onSliceChange={(index) => handlePaneSliceChange(pane.id, index)}
+                            measurements={pane.seriesId ? (measurementsBySeries[pane.seriesId] || []) : []}
+                            onMeasurementAdd={handleMeasurementAdd}
+                            onMeasurementUpdate={onMeasurementUpdateStable}
+                            activeMeasurementId={activeMeasurementId}
+                            onMeasurementSelect={setActiveMeasurementId}
+                            annotations={pane.seriesId ? annotationsBySeries[pane.seriesId] : undefined}
+                            onClearAnnotations={() => pane.seriesId && setAnnotationsBySeries(prev => ({ ...prev, [pane.seriesId!]: [] }))}
+                            segmentationLayer={segmentationLayer}
+                            // Slice badges in the Seg panel track the active series only
+                            onSegmentedSliceUpdate={pane.seriesId === activeSeriesId ? handleSegmentedSliceUpdate : undefined}
+                            isScrollEnabled={activeTour === null} // Block scroll if any tour is active
+                            maskStore={maskStore}
+                            labelWorker={labelWorker}
+                            linkedViewport={linkedViewport && linkedViewport.sourcePaneId !== pane.id ? linkedViewport.update : null}
+                            onViewportChange={(changes) => handlePaneViewportChange(pane.id, changes)}
+                            initialWindowPreset={pane.windowPreset}
+                            fusionSeries={studySeries.find(s => s.id === pane.fusion?.seriesId) ?? null}
+                            fusionSettings={pane.fusion}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
                   <div className="flex-shrink-0 z-10">
+                    {showCine && activeSeries && (
+                      <CinePlayer
+                        key={activeSeries.id}
+                        series={activeSeries}
+                        sliceIndex={sliceIndex}
+                        onSliceChange={setSliceIndex}
+                        isPlaying={isCinePlaying}
+                        onPlayingChange={setIsCinePlaying}
+                        isScrollEnabled={activeTour === null}
+                        onClose={closeCine}
+                        playKeyHint={keyHint('cine.toggle')}
+                      />
+                    )}
+                    <LayoutToolbar
+                      layout={layout}
+                      onLayoutChange={handleLayoutChange}
+                      syncOptions={syncOptions}
+                      onSyncChange={setSyncOptions}
+                    >
+                      <div className="flex items-center gap-3">
+                        <FusionControls
+                          primarySeriesId={activePane.seriesId}
+                          seriesList={studySeries}
+                          settings={activePane.fusion}
+                          onChange={handleFusionChange}
+                        />
+                        <HangingProtocolMenu
+                          protocols={matchingProtocols}
+                          activeProtocolId={activeProtocolId}
+                          onSelect={(protocol) => applyHangingProtocol(protocol, studySeries)}
+                          onSave={handleSaveProtocol}
+                          onDelete={handleDeleteProtocol}
+                        />
+                      </div>
+                    </LayoutToolbar>
                     <SeriesSelector 
                       seriesList={studySeries}
                       activeSeriesId={activeSeries?.id}
-                      onSelectSeries={setActiveSeries}
+                      onSelectSeries={assignSeriesToActivePane}
                       dicomConfig={dicomConfig}
                     />
                   </div>
@@ -529,8 +1237,11 @@ const App: React.FC = () => {
                             onUpdate={handleMeasurementUpdate}
                             onDelete={handleMeasurementDelete}
                             onJumpToSlice={setSliceIndex}
+                            calibration={getCalibration(activeSeries)}
+                            modality={activeSeries?.modality}
+                            onOpenReport={() => setShowReportModal(true)}
+                            onImportSr={handleImportMeasurementSr}
                             onStartTour={() => handleStartTour('measure-tour')}
-                            studyMetadata={{ studyId: selectedStudy.id, patientName: selectedStudy.patientName, description: selectedStudy.description, modality: selectedStudy.modality }}
                           />
                      </div>
                      <div className={`absolute inset-0 w-full h-full bg-slate-950 ${activeRightTab === 'segment' ? 'block z-10' : 'hidden'}`}>
@@ -540,6 +1251,13 @@ const App: React.FC = () => {
                             activeTool={activeTool} 
                             onSelectTool={setActiveTool}
                             onClearSegment={handleClearSegment}
+                            onExport={handleExportSegmentation}
+                            onImport={handleImportSegmentation}
+                            onInterpolate={handleInterpolateSegment}
+                            onResolveInterpolation={handleResolveInterpolation}
+                            onComputeStats={handleComputeSegmentStats}
+                            pixelValueUnit={getPixelValueUnit(activeSeries?.modality)}
+                            canExportDicomSeg={!!activeSeries && canExportDicomSeg(selectedStudy, activeSeries)}
                             onJumpToSlice={setSliceIndex}
                             onStartTour={() => handleStartTour('seg-tour')}
                          />
@@ -551,9 +1269,12 @@ const App: React.FC = () => {
                             onCaptureTrigger={performGlobalCapture}
                             onClearCapture={clearGlobalCapture}
                             showCaptureToast={showCaptureToast}
+                            messages={chatMessages}
+                            setMessages={setChatMessages}
                             studyMetadata={{ studyId: selectedStudy.id, patientName: selectedStudy.patientName, description: selectedStudy.description, modality: selectedStudy.modality }}
                             cursor={{ seriesInstanceUID: activeSeries?.id || '', frameIndex: sliceIndex, activeMeasurementId: activeMeasurementId }}
-                            onJumpToSlice={setSliceIndex}
+                            viewerToolContext={viewerToolContext}
+                            onViewerAction={handleViewerAction}
                             activeSeriesInfo={activeSeries ? { description: activeSeries.description, instanceCount: activeSeries.instanceCount } : undefined}
                             onStartTour={() => handleStartTour('ai-tour')}
                          />
@@ -1,10 +1,14 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Sparkles, Globe, BrainCircuit, X, Camera, ImageIcon, Trash2, CheckCircle2, AlertTriangle, RotateCcw, ArrowDown, HelpCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Sparkles, Globe, BrainCircuit, X, Camera, ImageIcon, Trash2, CheckCircle2, AlertTriangle, RotateCcw, ArrowDown, HelpCircle, MessageSquarePlus, History, MousePointerClick, Undo2, Check, Ban } from 'lucide-react';
 import { streamChatResponse, AiMode } from '../services/aiService';
-import { ChatMessage, CursorContext } from '../types';
+import { ChatMessage, ChatToolAction, CursorContext, ViewerAction } from '../types';
 import { MarkdownText } from '../utils/markdownUtils';
-import { LearnerLevel, LEARNER_LEVELS } from '../constants';
+import { buildChatHistory, toChatTurns } from '../utils/chatHistory';
+import { ViewerToolContext, toChatToolActions } from '../utils/viewerTools';
+import { getLlmProvider } from '../services/llm';
+import LlmProviderSettings from './LlmProviderSettings';
+import { LearnerLevel, LEARNER_LEVELS, AI_WELCOME_MESSAGE } from '../constants';
 
 interface AiAssistantPanelProps {
   // Capture props lifted to parent
@@ -14,6 +18,10 @@ interface AiAssistantPanelProps {
   onClearCapture: () => void;
   showCaptureToast: boolean;
 
+  // Chat history lifted to parent so it can be saved with the session
+  messages: ChatMessage[];
+  setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+
   studyMetadata?: {
     studyId: string;
     patientName: string;
@@ -21,7 +29,9 @@ interface AiAssistantPanelProps {
     modality: string;
   };
   cursor?: CursorContext;
-  onJumpToSlice?: (index: number) => void;
+  // Viewer tools: what the AI may change, and how (returns an undo, or null if nothing changed)
+  viewerToolContext?: ViewerToolContext;
+  onViewerAction?: (action: ViewerAction) => (() => void) | null;
   activeSeriesInfo?: {
     description: string;
     instanceCount: number;
@@ -86,24 +96,24 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
   onCaptureTrigger,
   onClearCapture,
   showCaptureToast,
+  messages,
+  setMessages,
   studyMetadata, 
   cursor, 
-  onJumpToSlice, 
+  viewerToolContext,
+  onViewerAction,
   activeSeriesInfo,
   onStartTour
 }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { 
-      id: 'welcome', 
-      role: 'model', 
-      text: "This is anonymized demo imaging from a public DICOM server. I’m a radiology teaching assistant: I can explain anatomy, help you describe what you see, and surface guideline snippets for learning — never real diagnoses, reports, or treatment decisions."
-    }
-  ]);
   const [input, setInput] = useState('');
   const [isThinking, setIsThinking] = useState(false);
   const [mode, setMode] = useState<AiMode>('chat');
+  // Re-read after the provider is switched in the settings popover
+  const [providerLabel, setProviderLabel] = useState(() => getLlmProvider().label);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const activeRequestRef = useRef(false);
+  // Undo for applied viewer actions, by action id (this page only; not saved with the session)
+  const toolUndoRef = useRef(new Map<string, () => void>());
   
   // Aliases for lifted state
   const attachedScreenshot = capturedImage;
@@ -179,11 +189,7 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
       setIsThinking(false);
     }
 
-    setMessages([{ 
-      id: 'welcome', 
-      role: 'model', 
-      text: "This is anonymized demo imaging from a public DICOM server. I’m a radiology teaching assistant: I can explain anatomy, help you describe what you see, and surface guideline snippets for learning — never real diagnoses, reports, or treatment decisions."
-    }]);
+    setMessages([AI_WELCOME_MESSAGE]);
     
     onClearCapture();
     setInput('');
@@ -191,6 +197,20 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
     setIsPinnedToBottom(true);
   };
 
+  // Keeps the transcript on screen but stops sending it as history
+  const handleNewThread = () => {
+    if (isThinking) return;
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role === 'divider' || last.id === 'welcome') return prev;
+      return [...prev, { id: Date.now().toString(), role: 'divider', text: '' }];
+    });
+    setIsPinnedToBottom(true);
+  };
+
+  // What the next request will carry as conversation memory
+  const memory = useMemo(() => buildChatHistory(toChatTurns(messages)), [messages]);
+
   const handleCancel = () => {
     activeRequestRef.current = false;
     setIsThinking(false);
@@ -209,6 +229,9 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
     const finalText = promptOverride || text;
     if ((!finalText.trim() && !attachedScreenshot) || isThinking) return;
 
+    // Earlier turns of this thread, condensed to the history budget
+    const history = buildChatHistory(toChatTurns(messages)).contents;
+
     // 1. Optimistically Add User Message
     const userMsg: ChatMessage = { 
         id: Date.now().toString(), role: 'user', text: finalText, hasAttachment: !!attachedScreenshot
@@ -268,13 +291,10 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                 // Cancellation Check
                 if (!activeRequestRef.current) return;
 
-                if (toolCalls && onJumpToSlice) {
-                    toolCalls.forEach(call => {
-                        if (call.name === 'set_cursor_frame') {
-                            const idx = Math.round(call.args.index);
-                            if (!isNaN(idx)) onJumpToSlice(idx);
-                        }
-                    });
+                // Proposed viewer actions wait on the reply for the learner to confirm
+                if (toolCalls && viewerToolContext) {
+                    const actions = toChatToolActions(toolCalls, viewerToolContext, `${botMsgId}-${Date.now()}`);
+                    setMessages(prev => prev.map(m => m.id === botMsgId ? { ...m, toolActions: [...(m.toolActions ?? []), ...actions] } : m));
                 }
 
                 // Handle Inline Suggestions from Stream
@@ -293,7 +313,9 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                     text: fullText, 
                     sources: sources || m.sources
                 } : m));
-            }
+            },
+            history,
+            onViewerAction ? viewerToolContext : undefined
         );
     } catch (error: any) {
         // If cancelled, do not render error
@@ -327,6 +349,31 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
     }
   };
 
+  const updateToolAction = (messageId: string, actionId: string, changes: Partial<ChatToolAction>) => {
+    setMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, toolActions: m.toolActions?.map(a => (a.id === actionId ? { ...a, ...changes } : a)) }
+      : m));
+  };
+
+  const handleApplyToolAction = (messageId: string, toolAction: ChatToolAction) => {
+    if (!toolAction.action || !onViewerAction) return;
+    try {
+      const undo = onViewerAction(toolAction.action);
+      if (undo) toolUndoRef.current.set(toolAction.id, undo);
+      updateToolAction(messageId, toolAction.id, { status: 'applied', error: undefined });
+    } catch (e: any) {
+      updateToolAction(messageId, toolAction.id, { error: e.message || 'Could not apply this action.' });
+    }
+  };
+
+  const handleUndoToolAction = (messageId: string, toolAction: ChatToolAction) => {
+    const undo = toolUndoRef.current.get(toolAction.id);
+    if (!undo) return;
+    undo();
+    toolUndoRef.current.delete(toolAction.id);
+    updateToolAction(messageId, toolAction.id, { status: 'undone' });
+  };
+
   const getThinkingLevelLabel = () => {
       switch(mode) {
           case 'chat': return 'Low';
@@ -374,14 +421,26 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
               </button>
           )}
         </div>
-        <button 
-            data-tour-id="ai-trash"
-            onClick={handleClearChat} 
-            className="p-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/50 transition-colors"
-            title="Clear Chat / New Conversation"
-        >
-            <Trash2 className="w-4 h-4" />
-        </button>
+        <div className="flex items-center gap-1.5">
+            <button 
+                onClick={handleNewThread} 
+                disabled={isThinking || memory.keptTurns + memory.summarizedTurns === 0}
+                className="px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-purple-300 hover:border-purple-500/50 transition-colors flex items-center gap-1 text-[10px] font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Start a fresh thread: the AI forgets earlier messages, which stay visible"
+            >
+                <MessageSquarePlus className="w-4 h-4" />
+                New thread
+            </button>
+            <button 
+                data-tour-id="ai-trash"
+                onClick={handleClearChat} 
+                className="p-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/50 transition-colors"
+                title="Clear Chat / New Conversation"
+            >
+                <Trash2 className="w-4 h-4" />
+            </button>
+            <LlmProviderSettings onChange={() => setProviderLabel(getLlmProvider().label)} />
+        </div>
       </div>
       
       {/* Status Bar */}
@@ -396,6 +455,18 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                   <BrainCircuit className="w-3 h-3 text-slate-600" />
                   <span>Thinking: <span className="text-slate-200">{getThinkingLevelLabel()}</span></span>
               </div>
+              <span className="text-slate-700">•</span>
+              <div className="flex items-center gap-1 text-slate-400" title={`AI provider: ${providerLabel} (${getLlmProvider().model})`}>
+                  <span className="text-slate-200 truncate max-w-[90px]">{providerLabel}</span>
+              </div>
+              <span className="text-slate-700">•</span>
+              <div
+                  className="flex items-center gap-1 text-slate-400"
+                  title={`Question/answer pairs sent with the next message (older ones summarized): about ${memory.estimatedTokens} tokens${memory.droppedImages ? `, ${memory.droppedImages} earlier slice(s) not re-sent` : ''}`}
+              >
+                  <History className="w-3 h-3 text-slate-600" />
+                  <span>Memory: <span className="text-slate-200">{memory.keptTurns / 2 + (memory.summarizedTurns > 0 ? ' +summary' : '')}</span></span>
+              </div>
           </div>
           <div className="flex items-center gap-1">
                {attachedScreenshot ? (
@@ -421,6 +492,16 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                 onScroll={handleScroll}
             >
                 {messages.map((m) => {
+                    if (m.role === 'divider') {
+                        return (
+                            <div key={m.id} className="flex items-center gap-2 text-[10px] text-slate-500 uppercase tracking-wider">
+                                <div className="flex-1 h-px bg-slate-800" />
+                                New thread · earlier messages are not sent to the AI
+                                <div className="flex-1 h-px bg-slate-800" />
+                            </div>
+                        );
+                    }
+
                     if (m.role === 'error') {
                         return (
                             <div key={m.id} className="flex flex-col items-center animate-in fade-in slide-in-from-bottom-2">
@@ -429,7 +510,7 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                                         <AlertTriangle className="w-4 h-4 text-red-400" />
                                     </div>
                                     <div className="flex-1">
-                                        <div className="text-xs font-bold text-red-300 mb-1">Gemini Request Failed</div>
+                                        <div className="text-xs font-bold text-red-300 mb-1">AI Request Failed</div>
                                         <div className="text-xs text-red-200/80 leading-relaxed mb-2">
                                             {m.text}
                                         </div>
@@ -451,12 +532,12 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                     }
 
                     // THINKING BUBBLE (Render if role=model and text is empty)
-                    if (m.role === 'model' && !m.text) {
+                    if (m.role === 'model' && !m.text && !m.toolActions?.length) {
                         let subtitleText = "";
                         if (mode === 'deep_think') {
-                            subtitleText = "Gemini is reasoning step by step before answering.";
+                            subtitleText = "The AI is reasoning step by step before answering.";
                         } else if (mode === 'search') {
-                            subtitleText = "Gemini is searching and synthesizing key findings.";
+                            subtitleText = "The AI is searching and synthesizing key findings.";
                         } else {
                             // Chat mode default
                             const levelLabels: Record<string, string> = {
@@ -466,7 +547,7 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                                 resident: "Resident"
                             };
                             const label = levelLabels[learnerLevel] || "Med";
-                            subtitleText = `Gemini is preparing a ${label}-level explanation.`;
+                            subtitleText = `The AI is preparing a ${label}-level explanation.`;
                         }
 
                         return (
@@ -540,6 +621,35 @@ const AiAssistantPanel: React.FC<AiAssistantPanelProps> = ({
                                     {m.sources.map((src, i) => <a key={i} href={src.uri} target="_blank" className="block text-xs text-blue-400 truncate hover:underline">{src.title || src.uri}</a>)}
                                 </div>
                             )}
+                            {m.toolActions && m.toolActions.length > 0 && (
+                                <div className="mt-3 pt-2 border-t border-white/10 flex flex-col gap-1.5">
+                                    <div className="text-[10px] font-bold text-slate-500 flex items-center gap-1"><MousePointerClick className="w-3 h-3"/> Viewer actions</div>
+                                    {m.toolActions.map(a => (
+                                        <div key={a.id} className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-xs border ${a.status === 'rejected' ? 'border-red-500/20 bg-red-950/20' : 'border-slate-700 bg-slate-900/60'}`}>
+                                            <div className="flex-1 min-w-0">
+                                                <div className={`truncate ${a.status === 'pending' || a.status === 'applied' ? 'text-slate-200' : 'text-slate-500'}`}>{a.summary}</div>
+                                                {a.error && <div className="text-[10px] text-red-300/80">{a.error}</div>}
+                                            </div>
+                                            {a.status === 'pending' && (
+                                                <>
+                                                    <button onClick={() => handleApplyToolAction(m.id, a)} disabled={!onViewerAction} className="px-2 py-0.5 rounded bg-purple-600 hover:bg-purple-500 text-white text-[10px] font-bold disabled:opacity-40">Show me</button>
+                                                    <button onClick={() => updateToolAction(m.id, a.id, { status: 'dismissed' })} className="p-0.5 text-slate-500 hover:text-slate-300" aria-label="Dismiss action"><X className="w-3.5 h-3.5" /></button>
+                                                </>
+                                            )}
+                                            {a.status === 'applied' && (
+                                                toolUndoRef.current.has(a.id) ? (
+                                                    <button onClick={() => handleUndoToolAction(m.id, a)} className="px-2 py-0.5 rounded border border-slate-600 text-slate-300 hover:text-white text-[10px] font-bold flex items-center gap-1"><Undo2 className="w-3 h-3" /> Undo</button>
+                                                ) : (
+                                                    <span className="text-[10px] text-emerald-400 flex items-center gap-1"><Check className="w-3 h-3" /> Applied</span>
+                                                )
+                                            )}
+                                            {a.status === 'undone' && <span className="text-[10px] text-slate-500">Undone</span>}
+                                            {a.status === 'dismissed' && <span className="text-[10px] text-slate-500">Dismissed</span>}
+                                            {a.status === 'rejected' && <Ban className="w-3.5 h-3.5 text-red-400/70 flex-shrink-0" aria-label="Not possible" />}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
                 )})}
@@ -1,37 +1,43 @@
 
 import React, { useState, useRef } from 'react';
 import { X, Mic, StopCircle, Sparkles, Copy, Check, Download, FileText, Loader2, AlertTriangle } from 'lucide-react';
-import { generateRadiologyReport, transcribeAudio, ReportPayload } from '../services/aiService';
-import { Measurement } from '../types';
-import { renderMarkdown } from '../utils/markdownUtils';
+import { generateTeachingReport, transcribeAudio, ReportPayload } from '../services/aiService';
+import { Measurement, Study, Series, TeachingReport, SegmentStats } from '../types';
+import { Calibration, UNCALIBRATED } from '../utils/calibration';
+import { getMeasurementValue, formatMeasurementValue, formatRoiStats, getPixelValueUnit, MEASUREMENT_TYPE_LABELS, MEASUREMENT_LABEL_PREFIXES } from '../utils/measurements';
+import { buildTeachingReport, formatReportValue, reportToMarkdown, reportToHtml, reportToPdf } from '../utils/teachingReport';
+import { canExportDicomSr, encodeTeachingReportSr } from '../utils/dicomSr';
+import { downloadBlob } from '../utils/download';
+import { formatSegmentStatsForReport } from '../utils/segmentStats';
 
 interface AiReportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  studyMetadata: {
-    studyId: string;
-    patientName: string;
-    description: string;
-    modality: string;
-  };
+  study: Study;
+  // Series the measurements belong to (the active one)
+  series: Series | null;
   measurements: Measurement[];
-  pixelSpacing?: number;
+  calibration?: Calibration;
   currentSliceIndex?: number;
   onCaptureScreen?: () => string | null;
+  // Statistics of the painted segments, included in the payload when available
+  onComputeSegmentStats?: () => Promise<SegmentStats[]>;
 }
 
 const AiReportModal: React.FC<AiReportModalProps> = ({ 
   isOpen, 
   onClose, 
-  studyMetadata, 
+  study,
+  series,
   measurements,
-  pixelSpacing = 0.5,
+  calibration = UNCALIBRATED,
   currentSliceIndex,
-  onCaptureScreen
+  onCaptureScreen,
+  onComputeSegmentStats
 }) => {
   // Input State - Single Note Field
   const [notes, setNotes] = useState(
-    `Teaching notes for this ${studyMetadata.modality} study (${studyMetadata.description}). ` +
+    `Teaching notes for this ${study.modality} study (${study.description}). ` +
     `What I see, what I think, and what I want to learn: `
   );
   
@@ -44,7 +50,8 @@ const AiReportModal: React.FC<AiReportModalProps> = ({
 
   // Generation State
   const [isGenerating, setIsGenerating] = useState(false);
-  const [reportResult, setReportResult] = useState<string | null>(null);
+  const [report, setReport] = useState<TeachingReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
   if (!isOpen) return null;
@@ -103,57 +110,98 @@ const AiReportModal: React.FC<AiReportModalProps> = ({
   // --- GENERATION LOGIC ---
   const handleGenerate = async () => {
     setIsGenerating(true);
-    setReportResult(null);
+    setReport(null);
+    setError(null);
 
     let imageBase64 = null;
     if (onCaptureScreen) imageBase64 = onCaptureScreen();
 
-    const measurementData = measurements.map(m => ({
-        label: m.label || 'Measurement',
-        value_mm: (m.value * pixelSpacing).toFixed(1),
-        sliceIndex: m.sliceIndex
-    }));
+    const measurementData = measurements.map((m, i) => {
+        const measured = getMeasurementValue(m, calibration);
+        return {
+          id: m.id,
+          type: MEASUREMENT_TYPE_LABELS[m.type],
+          label: m.label || `${MEASUREMENT_LABEL_PREFIXES[m.type]}${i + 1}`,
+          ...(measured ? { value: formatMeasurementValue(measured) } : {}),
+          ...('stats' in m && m.stats ? { pixelValues: formatRoiStats(m.stats, getPixelValueUnit(series?.modality)) } : {}),
+          sliceIndex: m.sliceIndex
+        };
+    });
+
+    // A report without segment numbers is still useful
+    const segmentStats = onComputeSegmentStats ? await onComputeSegmentStats().catch(() => []) : [];
 
     const payload: ReportPayload = {
       dicom_metadata: {
-        studyId: studyMetadata.studyId,
-        patientName: studyMetadata.patientName,
-        description: studyMetadata.description,
-        modality: studyMetadata.modality,
+        studyId: study.id,
+        patientName: study.patientName,
+        description: series?.description ?? study.description,
+        modality: series?.modality ?? study.modality,
         measurements: measurementData
       },
       free_text_notes: notes,
-      slice_context: `Current Slice: ${currentSliceIndex}`
+      slice_context: `Current Slice: ${currentSliceIndex}`,
+      ...(segmentStats.length > 0 ? { segment_statistics: formatSegmentStatsForReport(segmentStats, series?.modality) } : {})
     };
 
     try {
-        const report = await generateRadiologyReport(payload, imageBase64);
-        setReportResult(report);
-    } catch (e) {
-        setReportResult("Error generating report.");
+        const raw = await generateTeachingReport(payload, imageBase64);
+        setReport(buildTeachingReport(raw, measurements, calibration, {
+          modality: payload.dicom_metadata.modality,
+          seriesDescription: payload.dicom_metadata.description,
+        }));
+    } catch (e: any) {
+        setError(e.message || "Error generating report.");
     } finally {
         setIsGenerating(false);
     }
   };
 
+  // --- EXPORTS ---
   const copyToClipboard = () => {
-    if (reportResult) {
-      navigator.clipboard.writeText(reportResult);
+    if (report) {
+      navigator.clipboard.writeText(reportToMarkdown(report));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
-  const downloadReport = () => {
-      if (!reportResult) return;
-      const blob = new Blob([reportResult], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `viberad_teaching_summary.md`;
-      a.click();
+  const srAvailable = !!series && canExportDicomSr(study, series);
+
+  const exportReport = (format: 'md' | 'html' | 'pdf' | 'json' | 'dcm') => {
+    if (!report) return;
+    setError(null);
+    try {
+      const blob =
+        format === 'md' ? new Blob([reportToMarkdown(report)], { type: 'text/markdown' }) :
+        format === 'html' ? new Blob([reportToHtml(report)], { type: 'text/html' }) :
+        format === 'pdf' ? new Blob([reportToPdf(report)], { type: 'application/pdf' }) :
+        format === 'json' ? new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }) :
+        new Blob([encodeTeachingReportSr(report, study, series!)], { type: 'application/dicom' });
+      downloadBlob(blob, `viberad_teaching_summary.${format}`);
+    } catch (e: any) {
+      setError(e.message || 'Export failed.');
+    }
   };
 
+  const exportButtons: { format: Parameters<typeof exportReport>[0]; label: string; disabled?: boolean; title?: string }[] = [
+    { format: 'md', label: 'MD' },
+    { format: 'html', label: 'HTML' },
+    { format: 'pdf', label: 'PDF' },
+    { format: 'json', label: 'JSON', title: 'Machine-readable report (measurements keyed by id)' },
+    {
+      format: 'dcm', label: 'DICOM SR', disabled: !srAvailable,
+      title: srAvailable ? 'TID 1500 measurement report' : 'DICOM SR needs a DICOM source series',
+    },
+  ];
+
+  const section = (title: string, items: string[]) => items.length > 0 && (
+    <div>
+      <h4 className="text-xs font-bold text-indigo-300 uppercase mb-1">{title}</h4>
+      <ul className="list-disc pl-5 space-y-0.5">{items.map((item, i) => <li key={i}>{item}</li>)}</ul>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
       <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-2xl w-[800px] h-[80vh] flex flex-col">
@@ -209,25 +257,75 @@ const AiReportModal: React.FC<AiReportModalProps> = ({
             <div className="w-full md:w-1/2 p-4 bg-slate-950 flex flex-col">
                 <div className="flex justify-between items-center mb-2">
                     <label className="text-xs font-bold text-slate-500 uppercase">Generated Teaching Summary</label>
-                    {reportResult && (
-                        <div className="flex gap-2">
-                            <button onClick={copyToClipboard} className="p-1 bg-slate-800 rounded text-slate-400 hover:text-white">
+                    {report && (
+                        <div className="flex gap-1 items-center">
+                            <button onClick={copyToClipboard} className="p-1 bg-slate-800 rounded text-slate-400 hover:text-white" title="Copy as Markdown">
                                 {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
                             </button>
-                            <button onClick={downloadReport} className="p-1 bg-slate-800 rounded text-slate-400 hover:text-white">
-                                <Download className="w-4 h-4" />
-                            </button>
+                            <Download className="w-3.5 h-3.5 text-slate-500 ml-1" />
+                            {exportButtons.map(b => (
+                                <button
+                                    key={b.format}
+                                    onClick={() => exportReport(b.format)}
+                                    disabled={b.disabled}
+                                    title={b.title}
+                                    className="px-1.5 py-1 bg-slate-800 rounded text-[10px] font-bold text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400"
+                                >
+                                    {b.label}
+                                </button>
+                            ))}
                         </div>
                     )}
                 </div>
+                {error && (
+                  <div className="mb-2 text-xs text-red-400 bg-red-950/30 border border-red-900/50 p-2 rounded flex items-center gap-2">
+                    <AlertTriangle className="w-3 h-3" /> {error}
+                  </div>
+                )}
                 <div className="flex-1 bg-slate-900 border border-slate-800 rounded p-4 overflow-y-auto text-sm text-slate-300">
                   {isGenerating ? (
                     <div className="h-full flex flex-col items-center justify-center text-slate-600">
                       <Sparkles className="w-8 h-8 animate-pulse mb-2" /> Generating...
                     </div>
-                  ) : reportResult ? (
-                    <div className="prose prose-invert max-w-none">
-                      {renderMarkdown(reportResult)}
+                  ) : report ? (
+                    <div className="space-y-4">
+                      <h3 className="text-base font-bold text-slate-100 flex items-center gap-2">
+                        <FileText className="w-4 h-4 text-indigo-400" /> {report.title}
+                      </h3>
+                      {section('Study Context', [
+                        `Modality: ${report.studyContext.modality}`,
+                        `Body Part/Region: ${report.studyContext.region}`,
+                        `Series Description: ${report.studyContext.seriesDescription}`,
+                        `Plane/Orientation: ${report.studyContext.plane}`,
+                      ])}
+                      {section('Key Imaging Features (Descriptive Only)', report.features)}
+                      {report.measurements.length > 0 && (
+                        <div>
+                          <h4 className="text-xs font-bold text-indigo-300 uppercase mb-1">Measurements</h4>
+                          <table className="w-full text-xs border-collapse">
+                            <thead>
+                              <tr className="text-slate-500 text-left">
+                                <th className="py-1 pr-2">Label</th><th className="py-1 pr-2">Value</th><th className="py-1 pr-2">Slice</th><th className="py-1">Comment</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {report.measurements.map(m => (
+                                <tr key={m.measurementId} className="border-t border-slate-800 align-top">
+                                  <td className="py-1 pr-2">{m.label}</td>
+                                  <td className="py-1 pr-2 font-mono">{formatReportValue(m)}</td>
+                                  <td className="py-1 pr-2 font-mono">{m.sliceIndex + 1}</td>
+                                  <td className="py-1 text-slate-400">{m.comment ?? ''}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                      {section('Teaching Points', report.teachingPoints)}
+                      {section('Questions for Learners', report.learnerQuestions)}
+                      <div className="text-xs text-amber-300 bg-amber-950/30 border border-amber-900/40 rounded p-2">
+                        {report.safetyNote}
+                      </div>
                     </div>
                   ) : (
                     <span className="text-slate-600">Teaching summary will appear here.</span>
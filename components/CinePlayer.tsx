@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Series } from '../types';
+import { prefetchImage } from '../services/dicomService';
+import { CineMode, CineDirection, CineRange, clampCineRange, getNextCineFrame, getCineLookahead } from '../utils/cine';
+import { Play, Pause, Repeat, ArrowLeftRight, X, Lock } from 'lucide-react';
+
+interface CinePlayerProps {
+  series: Series;
+  sliceIndex: number;
+  onSliceChange: (index: number) => void;
+  isPlaying: boolean;
+  onPlayingChange: (isPlaying: boolean) => void;
+  // False while a guided tour locks the stack; playback pauses and cannot start
+  isScrollEnabled?: boolean;
+  onClose: () => void;
+  // " (Space)" style keyboard shortcut suffix for the play button
+  playKeyHint?: string;
+}
+
+const MIN_FPS = 1;
+const MAX_FPS = 30;
+
+const CinePlayer: React.FC<CinePlayerProps> = ({
+  series,
+  sliceIndex,
+  onSliceChange,
+  isPlaying,
+  onPlayingChange,
+  isScrollEnabled = true,
+  onClose,
+  playKeyHint = ''
+}) => {
+  const sliceCount = series.instances.length || series.instanceCount;
+  const [fps, setFps] = useState(10);
+  const [mode, setMode] = useState<CineMode>('loop');
+  const [range, setRange] = useState<CineRange>({ start: 0, end: Math.max(0, sliceCount - 1) });
+  const clampedRange = clampCineRange(range, sliceCount);
+
+  // The interval reads the latest playhead and callback without restarting
+  const sliceIndexRef = useRef(sliceIndex);
+  sliceIndexRef.current = sliceIndex;
+  const onSliceChangeRef = useRef(onSliceChange);
+  onSliceChangeRef.current = onSliceChange;
+  const directionRef = useRef<CineDirection>(1);
+
+  // Tour lock: stop where the tour left the stack
+  useEffect(() => {
+    if (isPlaying && !isScrollEnabled) onPlayingChange(false);
+  }, [isPlaying, isScrollEnabled]);
+
+  // --- PLAYBACK LOOP ---
+  useEffect(() => {
+    if (!isPlaying || !isScrollEnabled || sliceCount < 2) return;
+
+    // Keep about a second of frames loading ahead of the playhead
+    const lookahead = Math.max(5, Math.ceil(fps));
+
+    const timer = window.setInterval(() => {
+      const next = getNextCineFrame(sliceIndexRef.current, directionRef.current, clampedRange, mode);
+      directionRef.current = next.direction;
+      getCineLookahead(next.index, next.direction, clampedRange, mode, lookahead)
+        .forEach(idx => prefetchImage(series.instances[idx]));
+      onSliceChangeRef.current(next.index);
+    }, 1000 / fps);
+
+    return () => window.clearInterval(timer);
+  }, [isPlaying, isScrollEnabled, fps, mode, clampedRange.start, clampedRange.end, series]);
+
+  const setRangeBound = (bound: keyof CineRange, value: number) => {
+    if (!Number.isFinite(value)) return;
+    setRange(prev => ({ ...prev, [bound]: value }));
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-1.5 bg-slate-950 border-t border-slate-800 text-[11px] text-slate-300">
+      <button
+        type="button"
+        onClick={() => onPlayingChange(!isPlaying)}
+        disabled={!isScrollEnabled || sliceCount < 2}
+        className="p-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500"
+        title={isScrollEnabled ? `${isPlaying ? 'Pause' : 'Play'}${playKeyHint}` : 'Scrolling is locked during the tour'}
+        aria-label={isPlaying ? 'Pause cine' : 'Play cine'}
+      >
+        {!isScrollEnabled ? <Lock className="w-3.5 h-3.5" /> : isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+      </button>
+
+      <div className="flex items-center gap-1">
+        {([['loop', Repeat, 'Loop'], ['bounce', ArrowLeftRight, 'Bounce']] as const).map(([id, Icon, label]) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setMode(id)}
+            aria-pressed={mode === id}
+            className={`px-2 py-1 rounded flex items-center gap-1 border transition-colors ${mode === id ? 'bg-indigo-950/60 border-indigo-500/50 text-indigo-200' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+          >
+            <Icon className="w-3 h-3" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-1.5">
+        <input
+          type="range"
+          min={MIN_FPS}
+          max={MAX_FPS}
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+          className="w-20 accent-indigo-500"
+        />
+        <span className="font-mono w-12">{fps} fps</span>
+      </label>
+
+      <div className="flex items-center gap-1 border-l border-slate-800 pl-3 font-mono">
+        <span className="text-slate-500 font-sans font-bold uppercase tracking-wider text-[10px] mr-1">Range</span>
+        <input
+          type="number"
+          min={1}
+          max={sliceCount}
+          value={clampedRange.start + 1}
+          onChange={(e) => setRangeBound('start', Number(e.target.value) - 1)}
+          className="w-12 bg-slate-900 border border-slate-700 rounded px-1 py-0.5"
+          aria-label="Cine start slice"
+        />
+        <span>–</span>
+        <input
+          type="number"
+          min={1}
+          max={sliceCount}
+          value={clampedRange.end + 1}
+          onChange={(e) => setRangeBound('end', Number(e.target.value) - 1)}
+          className="w-12 bg-slate-900 border border-slate-700 rounded px-1 py-0.5"
+          aria-label="Cine end slice"
+        />
+        <button type="button" onClick={() => setRangeBound('start', sliceIndex)} className="px-1.5 py-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Start range at the current slice">[</button>
+        <button type="button" onClick={() => setRangeBound('end', sliceIndex)} className="px-1.5 py-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="End range at the current slice">]</button>
+        <button type="button" onClick={() => setRange({ start: 0, end: sliceCount - 1 })} className="px-1.5 py-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 font-sans">All</button>
+      </div>
+
+      <span className="ml-auto font-mono text-blue-400">{sliceIndex + 1} / {sliceCount}</span>
+      <button
+        type="button"
+        onClick={onClose}
+        className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800"
+        aria-label="Close cine player"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export default CinePlayer;
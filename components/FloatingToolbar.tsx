@@ -2,7 +2,7 @@
 import React from 'react';
 import { ToolMode } from '../types';
 import { TOOLS } from '../constants';
-import { Camera, GripVertical, GripHorizontal } from 'lucide-react';
+import { Camera, GripVertical, GripHorizontal, Axis3d, Film } from 'lucide-react';
 
 interface FloatingToolbarProps {
   activeTool: ToolMode;
@@ -12,6 +12,14 @@ interface FloatingToolbarProps {
   onDragStart: (e: React.MouseEvent) => void;
   orientation: 'horizontal' | 'vertical';
   isDragging?: boolean;
+  isMprActive?: boolean;
+  onToggleMpr?: () => void;
+  isCineActive?: boolean;
+  onToggleCine?: () => void;
+  // " (W)" style keyboard shortcut suffix for a tool's title
+  toolKeyHint?: (tool: ToolMode) => string;
+  captureKeyHint?: string;
+  cineKeyHint?: string;
 }
 
 const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
@@ -21,7 +29,14 @@ const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
   position,
   onDragStart,
   orientation,
-  isDragging
+  isDragging,
+  isMprActive,
+  onToggleMpr,
+  isCineActive,
+  onToggleCine,
+  toolKeyHint,
+  captureKeyHint = '',
+  cineKeyHint = ''
 }) => {
   const isVertical = orientation === 'vertical';
 
@@ -63,7 +78,7 @@ const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
           className={`rounded-xl text-slate-200 bg-slate-800 hover:bg-slate-700 hover:text-white transition-all active:scale-95 group border border-transparent hover:border-slate-600 flex items-center justify-center ${
             isVertical ? 'w-10 h-10' : 'p-2.5'
           }`}
-          title="Capture Screen"
+          title={`Capture Screen${captureKeyHint}`}
         >
           <Camera className="w-5 h-5 group-hover:text-purple-400" />
         </button>
@@ -82,12 +97,45 @@ const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
                   ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 scale-105 border-indigo-500'
                   : 'bg-slate-800 text-slate-200 hover:bg-slate-700 hover:text-white border-transparent hover:border-slate-600'
               } ${isVertical ? 'w-10 h-10' : 'p-2.5'}`}
-              title={tool.label}
+              title={`${tool.label}${toolKeyHint?.(tool.id) ?? ''}`}
             >
               <Icon className="w-5 h-5" />
             </button>
           );
         })}
+
+        {onToggleMpr && (
+          <>
+            <div className={`bg-slate-700/50 ${isVertical ? 'w-6 h-px my-0.5' : 'w-px h-6 mx-0.5'}`} />
+            <button
+              onClick={onToggleMpr}
+              aria-pressed={isMprActive}
+              className={`rounded-xl transition-all active:scale-95 border flex items-center justify-center ${
+                isMprActive
+                  ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 border-indigo-500'
+                  : 'bg-slate-800 text-slate-200 hover:bg-slate-700 hover:text-white border-transparent hover:border-slate-600'
+              } ${isVertical ? 'w-10 h-10' : 'p-2.5'}`}
+              title={isMprActive ? 'Back to stack view' : 'MPR: axial / coronal / sagittal'}
+            >
+              <Axis3d className="w-5 h-5" />
+            </button>
+          </>
+        )}
+
+        {onToggleCine && (
+          <button
+            onClick={onToggleCine}
+            aria-pressed={isCineActive}
+            className={`rounded-xl transition-all active:scale-95 border flex items-center justify-center ${
+              isCineActive
+                ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 border-indigo-500'
+                : 'bg-slate-800 text-slate-200 hover:bg-slate-700 hover:text-white border-transparent hover:border-slate-600'
+            } ${isVertical ? 'w-10 h-10' : 'p-2.5'}`}
+            title={isCineActive ? 'Hide cine player' : `Cine player${cineKeyHint}`}
+          >
+            <Film className="w-5 h-5" />
+          </button>
+        )}
       </div>
     </div>
   );
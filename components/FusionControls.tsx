@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { FusionSettings, Series } from '../types';
+import { FUSION_COLORMAPS, DEFAULT_FUSION_SETTINGS } from '../utils/fusion';
+import { Blend, X } from 'lucide-react';
+
+interface FusionControlsProps {
+  // Series of the active pane, and the ones that can be fused onto it
+  primarySeriesId: string | null;
+  seriesList: Series[];
+  settings?: FusionSettings;
+  onChange: (settings: FusionSettings) => void;
+}
+
+const FusionControls: React.FC<FusionControlsProps> = ({ primarySeriesId, seriesList, settings = DEFAULT_FUSION_SETTINGS, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const candidates = seriesList.filter(s => s.id !== primarySeriesId);
+  const overlay = seriesList.find(s => s.id === settings.seriesId);
+  const update = (changes: Partial<FusionSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(o => !o)}
+        disabled={candidates.length === 0}
+        className={`px-2 py-1 rounded flex items-center gap-1 border transition-colors disabled:opacity-40 ${overlay ? 'bg-orange-950/50 border-orange-500/50 text-orange-200' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+        title="Overlay another series on the active pane"
+      >
+        <Blend className="w-3 h-3" />
+        {overlay ? `Fusion: ${overlay.description}` : 'Fusion'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-64 bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 z-40">
+          <div className="flex items-center justify-between">
+            <span className="text-slate-300 font-bold uppercase tracking-wider text-[10px]">Fusion overlay</span>
+            <button type="button" onClick={() => setIsOpen(false)} className="text-slate-500 hover:text-white">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          <label className="block">
+            <span className="text-slate-500 block mb-1">Overlay series</span>
+            <select
+              value={settings.seriesId ?? ''}
+              onChange={(e) => update({ seriesId: e.target.value || null })}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-slate-200"
+            >
+              <option value="">None</option>
+              {candidates.map(s => <option key={s.id} value={s.id}>{s.description}</option>)}
+            </select>
+          </label>
+
+          <div className="flex gap-2">
+            <label className="flex-1">
+              <span className="text-slate-500 block mb-1">Colormap</span>
+              <select
+                value={settings.colormap}
+                onChange={(e) => update({ colormap: e.target.value as FusionSettings['colormap'] })}
+                className="w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-slate-200"
+              >
+                {FUSION_COLORMAPS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+              </select>
+            </label>
+            <label className="flex-1">
+              <span className="text-slate-500 block mb-1">Match slices</span>
+              <select
+                value={settings.sliceMatching}
+                onChange={(e) => update({ sliceMatching: e.target.value as FusionSettings['sliceMatching'] })}
+                className="w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-slate-200"
+                title="By patient position (falls back to index without geometry), or by slice number"
+              >
+                <option value="position">By position</option>
+                <option value="index">By index</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-slate-500 flex justify-between mb-1">Threshold <span className="font-mono">{Math.round(settings.threshold * 100)}%</span></span>
+            <input
+              type="range"
+              min="0"
+              max="0.95"
+              step="0.05"
+              value={settings.threshold}
+              onChange={(e) => update({ threshold: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-slate-500 flex justify-between mb-1">Opacity <span className="font-mono">{Math.round(settings.opacity * 100)}%</span></span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.opacity}
+              onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FusionControls;
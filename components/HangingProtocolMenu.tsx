@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { HangingProtocol } from '../types';
+import { LayoutTemplate, Save, Trash2, Check, X } from 'lucide-react';
+
+interface HangingProtocolMenuProps {
+  // Protocols matching the open study, best first
+  protocols: HangingProtocol[];
+  activeProtocolId: string | null;
+  onSelect: (protocol: HangingProtocol) => void;
+  // Saves the current layout under a name
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const HangingProtocolMenu: React.FC<HangingProtocolMenuProps> = ({ protocols, activeProtocolId, onSelect, onSave, onDelete }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const active = protocols.find(p => p.id === activeProtocolId);
+
+  const submit = () => {
+    onSave(name);
+    setName('');
+    setIsNaming(false);
+  };
+
+  if (isNaming) {
+    return (
+      <form className="flex items-center gap-1" onSubmit={(e) => { e.preventDefault(); submit(); }}>
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setIsNaming(false)}
+          placeholder="Protocol name"
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-slate-200 w-40 focus:outline-none focus:border-indigo-500"
+        />
+        <button type="submit" className="p-1 rounded text-emerald-400 hover:bg-slate-800" title="Save protocol">
+          <Check className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" onClick={() => setIsNaming(false)} className="p-1 rounded text-slate-400 hover:bg-slate-800" title="Cancel">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <LayoutTemplate className="w-3.5 h-3.5 text-slate-500" />
+      <select
+        value={activeProtocolId ?? ''}
+        onChange={(e) => {
+          const protocol = protocols.find(p => p.id === e.target.value);
+          if (protocol) onSelect(protocol);
+        }}
+        aria-label="Hanging protocol"
+        className="bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 max-w-[14rem] focus:outline-none focus:border-indigo-500"
+      >
+        <option value="" disabled>{protocols.length > 0 ? 'Custom layout' : 'No matching protocol'}</option>
+        {protocols.map(p => (
+          <option key={p.id} value={p.id}>{p.name}{p.isBuiltIn ? '' : ' (saved)'}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => setIsNaming(true)}
+        className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+        title="Save the current layout as a hanging protocol for studies like this one"
+      >
+        <Save className="w-3.5 h-3.5" />
+      </button>
+      {active && !active.isBuiltIn && (
+        <button
+          type="button"
+          onClick={() => onDelete(active.id)}
+          className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800"
+          title="Delete this saved protocol"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HangingProtocolMenu;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ViewportLayout, SyncOptions } from '../types';
+import { VIEWPORT_LAYOUTS } from '../constants';
+import { Square, Columns2, Columns3, Grid2x2, Link, Unlink } from 'lucide-react';
+
+interface LayoutToolbarProps {
+  layout: ViewportLayout;
+  onLayoutChange: (layout: ViewportLayout) => void;
+  syncOptions: SyncOptions;
+  onSyncChange: (options: SyncOptions) => void;
+  // Extra controls at the right end (hanging protocols)
+  children?: React.ReactNode;
+}
+
+const LAYOUT_ICONS: Record<ViewportLayout, React.ElementType> = {
+  '1x1': Square,
+  '1x2': Columns2,
+  '1x3': Columns3,
+  '2x2': Grid2x2,
+};
+
+const SYNC_TOGGLES: { key: keyof SyncOptions; label: string }[] = [
+  { key: 'scroll', label: 'Scroll' },
+  { key: 'zoomPan', label: 'Zoom/Pan' },
+  { key: 'windowLevel', label: 'W/L' },
+];
+
+const LayoutToolbar: React.FC<LayoutToolbarProps> = ({ layout, onLayoutChange, syncOptions, onSyncChange, children }) => {
+  const isMultiPane = layout !== '1x1';
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-1.5 bg-slate-950 border-t border-slate-800 text-[11px]">
+      <div className="flex items-center gap-1">
+        {VIEWPORT_LAYOUTS.map(({ id, label }) => {
+          const Icon = LAYOUT_ICONS[id];
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => onLayoutChange(id)}
+              title={label}
+              aria-label={`Layout: ${label}`}
+              className={`p-1.5 rounded transition-colors ${layout === id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Link toggles only matter with more than one pane */}
+      {isMultiPane && (
+        <div className="flex items-center gap-1 border-l border-slate-800 pl-3">
+          <span className="text-slate-500 font-bold uppercase tracking-wider text-[10px] mr-1">Link</span>
+          {SYNC_TOGGLES.map(({ key, label }) => {
+            const isOn = syncOptions[key];
+            return (
+              <button
+                key={key}
+                type="button"
+                onClick={() => onSyncChange({ ...syncOptions, [key]: !isOn })}
+                aria-pressed={isOn}
+                className={`px-2 py-1 rounded flex items-center gap-1 border transition-colors ${isOn ? 'bg-indigo-950/60 border-indigo-500/50 text-indigo-200' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              >
+                {isOn ? <Link className="w-3 h-3" /> : <Unlink className="w-3 h-3" />}
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {children && <div className="ml-auto">{children}</div>}
+    </div>
+  );
+};
+
+export default LayoutToolbar;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { LLM_PROVIDER_OPTIONS, LlmProviderConfig, LlmProviderId, getLlmProviderConfig, setLlmProviderConfig } from '../services/llm';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/llm/openAiCompatibleProvider';
+
+interface LlmProviderSettingsProps {
+  // Called after a new provider has been activated
+  onChange?: (config: LlmProviderConfig) => void;
+}
+
+const LlmProviderSettings: React.FC<LlmProviderSettingsProps> = ({ onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<LlmProviderConfig>(getLlmProviderConfig);
+
+  const option = LLM_PROVIDER_OPTIONS.find(o => o.id === draft.id)!;
+
+  const open = () => {
+    setDraft(getLlmProviderConfig());
+    setIsOpen(!isOpen);
+  };
+
+  const handleSave = () => {
+    const config: LlmProviderConfig = {
+      id: draft.id,
+      model: draft.model?.trim() || undefined,
+      baseUrl: draft.id === 'openai-compatible' ? draft.baseUrl?.trim() || undefined : undefined,
+      apiKey: draft.id !== 'mock' ? draft.apiKey?.trim() || undefined : undefined,
+    };
+    setLlmProviderConfig(config);
+    onChange?.(config);
+    setIsOpen(false);
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-purple-500";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={open}
+        className="p-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-purple-300 hover:border-purple-500/50 transition-colors"
+        title="AI provider settings"
+      >
+        <Settings2 className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-xl z-50 p-3 flex flex-col gap-2 animate-in fade-in zoom-in-95 duration-200">
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">AI Provider</div>
+            <select
+              value={draft.id}
+              onChange={(e) => setDraft({ ...draft, id: e.target.value as LlmProviderId, model: undefined })}
+              className={inputClass}
+            >
+              {LLM_PROVIDER_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+
+            {draft.id !== 'mock' && (
+              <label className="text-[10px] text-slate-400 flex flex-col gap-1">
+                Model
+                <input type="text" value={draft.model ?? ''} placeholder={option.defaultModel} onChange={(e) => setDraft({ ...draft, model: e.target.value })} className={inputClass} />
+              </label>
+            )}
+            {draft.id === 'openai-compatible' && (
+              <label className="text-[10px] text-slate-400 flex flex-col gap-1">
+                Base URL
+                <input type="text" value={draft.baseUrl ?? ''} placeholder={DEFAULT_OPENAI_BASE_URL} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} className={inputClass} />
+              </label>
+            )}
+            {draft.id !== 'mock' && (
+              <label className="text-[10px] text-slate-400 flex flex-col gap-1">
+                API key
+                <input
+                  type="password"
+                  value={draft.apiKey ?? ''}
+                  placeholder={draft.id === 'gemini' ? 'Build-time key' : 'Optional'}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                  className={inputClass}
+                />
+                <span className="text-slate-500">Stored in this browser only.</span>
+              </label>
+            )}
+            {draft.id === 'mock' && (
+              <p className="text-[10px] text-slate-500">Scripted answers without network access, for demos and tests.</p>
+            )}
+
+            <button onClick={handleSave} className="mt-1 px-2 py-1.5 rounded bg-purple-600 hover:bg-purple-500 text-white text-[11px] font-bold">
+              Use this provider
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LlmProviderSettings;
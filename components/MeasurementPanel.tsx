@@ -1,7 +1,9 @@
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Measurement } from '../types';
-import { Trash2, Ruler, ArrowRight, Target, HelpCircle } from 'lucide-react';
+import { Calibration, UNCALIBRATED, describeCalibration } from '../utils/calibration';
+import { getMeasurementValue, formatMeasurementValue, formatRoiStats, getPixelValueUnit, MEASUREMENT_TYPE_LABELS, MEASUREMENT_LABEL_PREFIXES } from '../utils/measurements';
+import { Trash2, Ruler, ArrowRight, Target, HelpCircle, AlertTriangle, FileText, Upload, Loader2 } from 'lucide-react';
 
 interface MeasurementPanelProps {
   measurements: Measurement[];
@@ -10,15 +12,12 @@ interface MeasurementPanelProps {
   onUpdate: (id: string, updates: Partial<Measurement>) => void;
   onDelete: (id: string) => void;
   onJumpToSlice: (index: number) => void;
-  pixelSpacing?: number; // mm per pixel
-  
-  // Context for AI
-  studyMetadata?: {
-    studyId: string;
-    patientName: string;
-    description: string;
-    modality: string;
-  };
+  calibration?: Calibration; // From the active series' Pixel Spacing
+  modality?: string; // Unit of ROI pixel values (HU for CT)
+  // Opens the AI teaching report for these measurements
+  onOpenReport?: () => void;
+  // Loads the measurements of a DICOM SR (TID 1500) file; resolves with a summary
+  onImportSr?: (file: File) => Promise<string>;
   onStartTour?: () => void;
 }
 
@@ -29,10 +28,37 @@ const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
   onUpdate,
   onDelete,
   onJumpToSlice,
-  pixelSpacing = 0.5, // Default approx if not provided
-  studyMetadata,
+  calibration = UNCALIBRATED,
+  modality,
+  onOpenReport,
+  onImportSr,
   onStartTour
 }) => {
+  // Selecting a measurement on the canvas brings its entry into view
+  const itemRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  useEffect(() => {
+    if (activeMeasurementId) itemRefs.current[activeMeasurementId]?.scrollIntoView({ block: 'nearest' });
+  }, [activeMeasurementId]);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importStatus, setImportStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!onImportSr || !file) return;
+    setIsImporting(true);
+    setImportStatus(null);
+    try {
+      setImportStatus({ message: await onImportSr(file), isError: false });
+    } catch (e: any) {
+      setImportStatus({ message: e.message || 'Import failed', isError: true });
+    } finally {
+      setIsImporting(false);
+      // Allow re-importing the same file
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
   return (
     <div className="w-full bg-slate-950 flex flex-col h-full relative">
       {/* Header */}
@@ -50,27 +76,72 @@ const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
               </button>
           )}
         </div>
-        <div className="px-2 py-0.5 bg-slate-800 rounded-full text-xs text-slate-400 font-mono">
-          {measurements.length}
+        <div className="flex items-center gap-2">
+          {onImportSr && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".dcm,application/dicom"
+                className="hidden"
+                onChange={(e) => handleImportFile(e.target.files?.[0])}
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="text-[10px] font-bold text-indigo-300 hover:text-white px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 flex items-center gap-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Load measurements from a DICOM SR measurement report (TID 1500)"
+              >
+                {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} SR
+              </button>
+            </>
+          )}
+          {onOpenReport && (
+            <button
+              onClick={onOpenReport}
+              className="text-[10px] font-bold text-indigo-300 hover:text-white px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 flex items-center gap-1 transition-colors"
+              title="Generate a structured teaching report (MD, HTML, PDF, DICOM SR)"
+            >
+              <FileText className="w-3 h-3" /> Report
+            </button>
+          )}
+          <div className="px-2 py-0.5 bg-slate-800 rounded-full text-xs text-slate-400 font-mono">
+            {measurements.length}
+          </div>
         </div>
       </div>
 
+      {calibration.unit === 'px' && (
+        <div className="px-4 py-2 bg-amber-950/30 border-b border-amber-900/40 text-[11px] text-amber-300 flex items-center gap-2">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>No pixel spacing in this series' metadata. Lengths are in image pixels, not mm.</span>
+        </div>
+      )}
+
+      {importStatus && (
+        <div className={`px-4 py-2 border-b border-slate-800 text-[11px] ${importStatus.isError ? 'text-red-400' : 'text-emerald-400'}`}>
+          {importStatus.message}
+        </div>
+      )}
+
       {/* List */}
       <div data-tour-id="measure-list" className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-3">
         {measurements.length === 0 ? (
           <div className="text-center mt-10 opacity-40">
             <Target className="w-12 h-12 mx-auto mb-3 text-slate-600" />
             <p className="text-sm text-slate-400">No measurements yet.</p>
-            <p className="text-xs text-slate-600 mt-1">Use the Ruler tool to measure.</p>
+            <p className="text-xs text-slate-600 mt-1">Use the Ruler, Angle, ROI or Arrow tools to measure.</p>
           </div>
         ) : (
           measurements.map((m, idx) => {
             const isActive = m.id === activeMeasurementId;
-            const lengthMm = (m.value * pixelSpacing).toFixed(1);
+            const measured = getMeasurementValue(m, calibration);
+            const stats = 'stats' in m ? m.stats : undefined;
 
             return (
               <div
                 key={m.id}
+                ref={el => { itemRefs.current[m.id] = el; }}
                 onClick={() => {
                   onSelect(m.id);
                   onJumpToSlice(m.sliceIndex);
@@ -88,7 +159,7 @@ const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
                     <input
                       type="text"
                       value={m.label ?? ''}
-                      placeholder={`Measurement ${idx + 1}`}
+                      placeholder={m.type === 'arrow' ? 'Arrow text' : `${MEASUREMENT_LABEL_PREFIXES[m.type]}${idx + 1}`}
                       onChange={(e) => onUpdate(m.id, { label: e.target.value })}
                       className="bg-transparent text-sm font-medium text-slate-200 focus:outline-none focus:border-b border-indigo-500 w-32 placeholder:text-slate-600"
                       onClick={(e) => e.stopPropagation()}
@@ -108,8 +179,10 @@ const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
                 {/* Data Row */}
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div className="bg-slate-950 p-1.5 rounded border border-slate-800/50">
-                    <span className="text-slate-500 block text-[10px] uppercase">Length</span>
-                    <span className="text-slate-200 font-mono font-bold">{lengthMm} mm</span>
+                    <span className="text-slate-500 block text-[10px] uppercase">{MEASUREMENT_TYPE_LABELS[m.type]}</span>
+                    <span className="text-slate-200 font-mono font-bold" title={describeCalibration(calibration)}>
+                      {measured ? formatMeasurementValue(measured) : '—'}
+                    </span>
                   </div>
                   <div className="bg-slate-950 p-1.5 rounded border border-slate-800/50">
                     <span className="text-slate-500 block text-[10px] uppercase">Slice</span>
@@ -119,6 +192,12 @@ const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
                     </div>
                   </div>
                 </div>
+                {stats && (
+                  <div className="mt-2 bg-slate-950 p-1.5 rounded border border-slate-800/50 text-xs">
+                    <span className="text-slate-500 block text-[10px] uppercase">Pixel values ({stats.pixelCount} px)</span>
+                    <span className="text-slate-200 font-mono">{formatRoiStats(stats, getPixelValueUnit(modality))}</span>
+                  </div>
+                )}
               </div>
             );
           })
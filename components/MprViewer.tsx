@@ -0,0 +1,273 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Series, DicomWebConfig, ToolMode } from '../types';
+import { loadSeriesImages } from '../services/imageLoader';
+import { Volume, VoxelPoint, MprPlane, buildVolume, extractSlice, getPlaneGeometry, planeToVoxel, voxelToPlane } from '../utils/volume';
+import { renderImageToCanvas, getDefaultWindow } from '../utils/imageRendering';
+import { VoiSettings } from '../utils/voiLut';
+import { Loader2, AlertTriangle } from 'lucide-react';
+
+interface MprViewerProps {
+  series: Series | null;
+  dicomConfig: DicomWebConfig;
+  activeTool: ToolMode;
+  // Shared with the stack viewer: the axial position of the crosshair
+  sliceIndex: number;
+  onSliceChange: (index: number) => void;
+}
+
+// Crosshair colors identify the plane each line belongs to
+const PLANE_COLORS: Record<MprPlane, string> = {
+  axial: '#f87171',
+  coronal: '#4ade80',
+  sagittal: '#facc15',
+};
+
+const PLANE_LABELS: Record<MprPlane, string> = {
+  axial: 'Axial',
+  coronal: 'Coronal',
+  sagittal: 'Sagittal',
+};
+
+const clampVoxel = (volume: Volume, p: VoxelPoint): VoxelPoint => ({
+  x: Math.max(0, Math.min(volume.columns - 1, Math.round(p.x))),
+  y: Math.max(0, Math.min(volume.rows - 1, Math.round(p.y))),
+  z: Math.max(0, Math.min(volume.slices - 1, Math.round(p.z))),
+});
+
+// --- SINGLE REFORMAT PANE ---
+
+interface MprPaneProps {
+  volume: Volume;
+  plane: MprPlane;
+  crosshair: VoxelPoint;
+  voi: VoiSettings;
+  activeTool: ToolMode;
+  onCrosshairChange: (p: VoxelPoint) => void;
+  onWindowChange: (dx: number, dy: number) => void;
+  className?: string;
+}
+
+const MprPane: React.FC<MprPaneProps> = ({ volume, plane, crosshair, voi, activeTool, onCrosshairChange, onWindowChange, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sliceCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ mode: 'pick' | 'window'; last: { x: number; y: number } } | null>(null);
+  const [size, setSize] = useState({ width: 300, height: 300 });
+
+  const geometry = getPlaneGeometry(volume, plane);
+  const position = voxelToPlane(volume, plane, crosshair);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) });
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Physical size of the reformat, fitted into the pane
+  const displayW = geometry.columns * geometry.columnSpacing;
+  const displayH = geometry.rows * geometry.rowSpacing;
+  const scale = Math.min(size.width / displayW, size.height / displayH) * 0.95;
+  const drawW = displayW * scale;
+  const drawH = displayH * scale;
+  const originX = (size.width - drawW) / 2;
+  const originY = (size.height - drawH) / 2;
+
+  // Reslice + VOI only when the plane index or window changes
+  useLayoutEffect(() => {
+    if (!sliceCanvasRef.current) sliceCanvasRef.current = document.createElement('canvas');
+    renderImageToCanvas(extractSlice(volume, plane, position.index), sliceCanvasRef.current, voi);
+  }, [volume, plane, position.index, voi]);
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !sliceCanvasRef.current) return;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(sliceCanvasRef.current, originX, originY, drawW, drawH);
+
+    // Crosshair: lines of the other two planes through the shared point
+    const px = originX + (position.u + 0.5) * (drawW / geometry.columns);
+    const py = originY + (position.v + 0.5) * (drawH / geometry.rows);
+    const [verticalPlane, horizontalPlane]: MprPlane[] =
+      plane === 'axial' ? ['sagittal', 'coronal'] : plane === 'coronal' ? ['sagittal', 'axial'] : ['coronal', 'axial'];
+
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = PLANE_COLORS[verticalPlane];
+    ctx.beginPath(); ctx.moveTo(px, originY); ctx.lineTo(px, originY + drawH); ctx.stroke();
+    ctx.strokeStyle = PLANE_COLORS[horizontalPlane];
+    ctx.beginPath(); ctx.moveTo(originX, py); ctx.lineTo(originX + drawW, py); ctx.stroke();
+  });
+
+  const toVoxel = (e: React.MouseEvent): VoxelPoint => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const u = ((e.clientX - rect.left - originX) / drawW) * geometry.columns;
+    const v = ((e.clientY - rect.top - originY) / drawH) * geometry.rows;
+    return clampVoxel(volume, planeToVoxel(volume, plane, Math.floor(u), Math.floor(v), position.index));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const mode = e.button === 2 || activeTool === ToolMode.WINDOW_LEVEL ? 'window' : 'pick';
+    dragRef.current = { mode, last: { x: e.clientX, y: e.clientY } };
+    if (mode === 'pick') onCrosshairChange(toVoxel(e));
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'pick') {
+      onCrosshairChange(toVoxel(e));
+    } else {
+      onWindowChange(e.clientX - drag.last.x, e.clientY - drag.last.y);
+      drag.last = { x: e.clientX, y: e.clientY };
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const step = e.deltaY > 0 ? 1 : -1;
+    const next = Math.max(0, Math.min(geometry.sliceCount - 1, position.index + step));
+    if (next === position.index) return;
+    onCrosshairChange(clampVoxel(volume, planeToVoxel(volume, plane, position.u, position.v, next)));
+  };
+
+  return (
+    <div ref={containerRef} className={`relative bg-black overflow-hidden min-h-0 min-w-0 ${className}`} onWheel={handleWheel}>
+      <canvas
+        ref={canvasRef}
+        width={size.width}
+        height={size.height}
+        className="absolute inset-0 block"
+        style={{ cursor: activeTool === ToolMode.WINDOW_LEVEL ? 'ns-resize' : 'crosshair' }}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => { dragRef.current = null; }}
+        onMouseLeave={() => { dragRef.current = null; }}
+        onContextMenu={(e) => e.preventDefault()}
+      />
+      <div className="absolute top-2 left-2 text-xs font-mono pointer-events-none drop-shadow-md">
+        <div className="font-bold" style={{ color: PLANE_COLORS[plane] }}>{PLANE_LABELS[plane]}</div>
+        <div className="text-lime-400">{position.index + 1} / {geometry.sliceCount}</div>
+      </div>
+    </div>
+  );
+};
+
+// --- MPR LAYOUT ---
+
+const MprViewer: React.FC<MprViewerProps> = ({ series, dicomConfig, activeTool, sliceIndex, onSliceChange }) => {
+  const [volume, setVolume] = useState<Volume | null>(null);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [crosshair, setCrosshair] = useState<VoxelPoint>({ x: 0, y: 0, z: 0 });
+  const [voi, setVoi] = useState<VoiSettings | null>(null);
+
+  // Build the volume whenever the series changes
+  useEffect(() => {
+    if (!series) return;
+    let cancelled = false;
+    setVolume(null);
+    setError(null);
+    setProgress({ loaded: 0, total: series.instances.length });
+
+    loadSeriesImages(dicomConfig, series.instances, (loaded, total) => {
+      if (!cancelled) setProgress({ loaded, total });
+    }, () => cancelled)
+      .then(images => {
+        if (cancelled) return;
+        const vol = buildVolume(images, series);
+        setVolume(vol);
+        setVoi(getDefaultWindow(extractSlice(vol, 'axial', 0)));
+        setCrosshair({
+          x: Math.floor(vol.columns / 2),
+          y: Math.floor(vol.rows / 2),
+          z: Math.max(0, Math.min(vol.slices - 1, sliceIndex)),
+        });
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e.message || 'Failed to build volume');
+      })
+      .finally(() => {
+        if (!cancelled) setProgress(null);
+      });
+
+    return () => { cancelled = true; };
+  }, [series?.id, dicomConfig]);
+
+  // Follow slice changes made elsewhere (series scrubber, AI jumps, stack view)
+  useEffect(() => {
+    if (!volume) return;
+    setCrosshair(prev => (prev.z === sliceIndex ? prev : clampVoxel(volume, { ...prev, z: sliceIndex })));
+  }, [sliceIndex, volume]);
+
+  const handleCrosshairChange = (p: VoxelPoint) => {
+    setCrosshair(p);
+    if (p.z !== sliceIndex) onSliceChange(p.z);
+  };
+
+  const handleWindowChange = (dx: number, dy: number) => {
+    if (!volume) return;
+    const range = (volume.maxPixelValue - volume.minPixelValue) * Math.abs(volume.rescaleSlope);
+    const step = Math.max(range, 1) / 500;
+    setVoi(prev => prev && {
+      ...prev,
+      windowWidth: Math.max(1, prev.windowWidth + dx * step),
+      windowCenter: prev.windowCenter - dy * step,
+    });
+  };
+
+  if (!series) {
+    return <div className="flex-1 bg-black flex items-center justify-center text-gray-500">Select a series</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="flex-1 bg-black flex items-center justify-center">
+        <div className="bg-red-900/80 p-4 rounded text-red-200 flex flex-col items-center max-w-md text-center">
+          <AlertTriangle className="w-8 h-8 mb-2" />
+          <p className="font-bold mb-1">MPR Unavailable</p>
+          <p className="text-sm opacity-90">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!volume || !voi) {
+    return (
+      <div className="flex-1 bg-black flex flex-col items-center justify-center text-slate-400 gap-2">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+        <span className="text-xs font-mono">
+          Building volume{progress ? `: ${progress.loaded} / ${progress.total} slices` : '…'}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 relative grid grid-cols-2 grid-rows-2 gap-px bg-slate-900 min-h-0">
+      <MprPane volume={volume} plane="axial" crosshair={crosshair} voi={voi} activeTool={activeTool} className="row-span-2"
+        onCrosshairChange={handleCrosshairChange} onWindowChange={handleWindowChange} />
+      <MprPane volume={volume} plane="coronal" crosshair={crosshair} voi={voi} activeTool={activeTool}
+        onCrosshairChange={handleCrosshairChange} onWindowChange={handleWindowChange} />
+      <MprPane volume={volume} plane="sagittal" crosshair={crosshair} voi={voi} activeTool={activeTool}
+        onCrosshairChange={handleCrosshairChange} onWindowChange={handleWindowChange} />
+
+      <div className="absolute bottom-2 left-2 text-[10px] font-mono text-slate-400 pointer-events-none drop-shadow-md">
+        <div>W: {Math.round(voi.windowWidth)} L: {Math.round(voi.windowCenter)}</div>
+        <div className={volume.isCalibrated && series.sliceThickness ? undefined : 'text-amber-400'}>
+          {volume.isCalibrated && series.sliceThickness
+            ? `Voxel: ${volume.spacing.column.toFixed(2)} × ${volume.spacing.row.toFixed(2)} × ${volume.spacing.slice.toFixed(2)} mm`
+            : 'Slice spacing unknown: reformat aspect is estimated'}
+        </div>
+        <div>Click to move crosshair · Wheel to page · Right-drag for W/L</div>
+      </div>
+    </div>
+  );
+};
+
+export default MprViewer;
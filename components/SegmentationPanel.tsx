@@ -1,6 +1,10 @@
 
-import React, { useState } from 'react';
-import { SegmentationLayer, Segment, ToolMode } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { SegmentationLayer, Segment, ToolMode, SegmentationExportFormat, SegmentStats } from '../types';
+import { segmentStatsToCsv, formatSegmentArea } from '../utils/segmentStats';
+import { formatRoiStats } from '../utils/measurements';
+import { downloadBlob } from '../utils/download';
+import { MAX_SEGMENT_ID } from '../utils/labelMap';
 import {
   Eye,
   EyeOff,
@@ -12,7 +16,19 @@ import {
   Eraser,
   Layers,
   Edit2,
-  HelpCircle
+  HelpCircle,
+  Download,
+  Upload,
+  Loader2,
+  Contrast,
+  Sprout,
+  PaintBucket,
+  Spline,
+  Check,
+  X,
+  BarChart3,
+  ChevronRight,
+  ChevronDown
 } from 'lucide-react';
 
 interface SegmentationPanelProps {
@@ -23,6 +39,18 @@ interface SegmentationPanelProps {
   onClearSegment?: (id: number) => void;
   onJumpToSlice?: (index: number) => void;
   onStartTour?: () => void;
+  // Export of the active series' masks; throws with a user-facing message on failure
+  onExport?: (format: SegmentationExportFormat) => void;
+  canExportDicomSeg?: boolean;
+  // Import onto the active series; resolves with a summary, rejects with a user-facing message
+  onImport?: (files: File[]) => Promise<string>;
+  // Interpolates a segment between its painted slices; resolves with a summary, rejects with a user-facing message
+  onInterpolate?: (segmentId: number) => Promise<string>;
+  onResolveInterpolation?: (accept: boolean) => void;
+  // Statistics of every segment on the active series; rejects with a user-facing message
+  onComputeStats?: () => Promise<SegmentStats[]>;
+  // Unit suffix of intensity values (e.g. HU)
+  pixelValueUnit?: string;
 }
 
 const componentToHex = (c: number) => {
@@ -34,6 +62,9 @@ const rgbToHex = (r: number, g: number, b: number) => {
   return "#" + componentToHex(r) + componentToHex(g) + componentToHex(b);
 };
 
+// Tools that write with the active segment
+const PAINTING_TOOLS = [ToolMode.BRUSH, ToolMode.THRESHOLD_BRUSH, ToolMode.REGION_GROW, ToolMode.FLOOD_FILL];
+
 const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
   layer,
   onChange,
@@ -41,11 +72,94 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
   onSelectTool,
   onClearSegment,
   onJumpToSlice,
-  onStartTour
+  onStartTour,
+  onExport,
+  canExportDicomSeg = false,
+  onImport,
+  onInterpolate,
+  onResolveInterpolation,
+  onComputeStats,
+  pixelValueUnit = ''
 }) => {
   // New label form state
   const [newLabelName, setNewLabelName] = useState('');
   const [newLabelColor, setNewLabelColor] = useState<string>('#34d399'); // emerald-ish default
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [importStatus, setImportStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [interpolationStatus, setInterpolationStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const [isInterpolating, setIsInterpolating] = useState(false);
+  const [stats, setStats] = useState<SegmentStats[] | null>(null);
+  const [statsError, setStatsError] = useState<string | null>(null);
+  const [isComputingStats, setIsComputingStats] = useState(false);
+  const [expandedStatsId, setExpandedStatsId] = useState<number | null>(null);
+
+  // Numbers go stale as soon as the masks change
+  useEffect(() => {
+    setStats(null);
+  }, [layer.segmentedSlices]);
+
+  const handleComputeStats = async () => {
+    if (!onComputeStats) return;
+    setIsComputingStats(true);
+    setStatsError(null);
+    try {
+      setStats(await onComputeStats());
+    } catch (e: any) {
+      setStatsError(e.message || 'Could not compute statistics');
+    } finally {
+      setIsComputingStats(false);
+    }
+  };
+
+  const handleExportStatsCsv = () => {
+    if (!stats) return;
+    downloadBlob(new Blob([segmentStatsToCsv(stats)], { type: 'text/csv' }), 'segment_statistics.csv');
+  };
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFiles = async (fileList: FileList | null) => {
+    if (!onImport || !fileList || fileList.length === 0) return;
+    setIsImporting(true);
+    setImportStatus(null);
+    try {
+      const message = await onImport(Array.from(fileList));
+      setImportStatus({ message, isError: false });
+    } catch (e: any) {
+      setImportStatus({ message: e.message || 'Import failed', isError: true });
+    } finally {
+      setIsImporting(false);
+      // Allow re-importing the same file
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const handleExport = (format: SegmentationExportFormat) => {
+    if (!onExport) return;
+    try {
+      onExport(format);
+      setExportError(null);
+    } catch (e: any) {
+      setExportError(e.message || 'Export failed');
+    }
+  };
+
+  const handleInterpolate = async () => {
+    if (!onInterpolate || !layer.activeSegmentId) return;
+    setIsInterpolating(true);
+    try {
+      setInterpolationStatus({ message: await onInterpolate(layer.activeSegmentId), isError: false });
+    } catch (e: any) {
+      setInterpolationStatus({ message: e.message || 'Interpolation failed', isError: true });
+    } finally {
+      setIsInterpolating(false);
+    }
+  };
+
+  const resolveInterpolation = (accept: boolean) => {
+    onResolveInterpolation?.(accept);
+    setInterpolationStatus(null);
+  };
 
   const toggleGlobalVisibility = () => {
     onChange({ ...layer, isVisible: !layer.isVisible });
@@ -57,8 +171,8 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
 
   const setActiveSegment = (id: number) => {
     onChange({ ...layer, activeSegmentId: id });
-    // Automatically switch to Brush when picking a segment
-    if (activeTool !== ToolMode.BRUSH) {
+    // Automatically switch to Brush when picking a segment, unless a painting tool is already in use
+    if (!PAINTING_TOOLS.includes(activeTool)) {
       onSelectTool(ToolMode.BRUSH);
     }
   };
@@ -72,17 +186,16 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
     return [r, g, b];
   };
 
+  const nextSegmentId = layer.segments.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+
   const handleAddSegment = () => {
+    if (nextSegmentId > MAX_SEGMENT_ID) return;
     const label =
       newLabelName.trim() || `Label ${layer.segments.length + 1}`;
     const color = hexToRgb(newLabelColor);
 
     const newSegment: Segment = {
-      id:
-        layer.segments.reduce(
-          (max, s) => Math.max(max, s.id),
-          0,
-        ) + 1,
+      id: nextSegmentId,
       label,
       color,
       isVisible: true,
@@ -105,6 +218,8 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
 
   // Sort slices for display
   const sortedSlices = [...(layer.segmentedSlices || [])].sort((a, b) => a.sliceIndex - b.sliceIndex);
+  const interpolatedCount = sortedSlices.filter(s => s.isInterpolated).length;
+  const activeSegment = layer.segments.find(s => s.id === layer.activeSegmentId);
 
   return (
     <div className="w-full bg-slate-950 border-l border-slate-800 flex flex-col h-full">
@@ -175,6 +290,119 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
             Eraser
           </button>
         </div>
+        <div className="flex items-center justify-between gap-2">
+          <button
+            onClick={() => onSelectTool(ToolMode.THRESHOLD_BRUSH)}
+            className={toolButtonClasses(ToolMode.THRESHOLD_BRUSH)}
+            title="Paint only pixels within an intensity range"
+          >
+            <Contrast className="w-3.5 h-3.5" />
+            Threshold
+          </button>
+          <button
+            onClick={() => onSelectTool(ToolMode.REGION_GROW)}
+            className={toolButtonClasses(ToolMode.REGION_GROW)}
+            title="Grow a region of similar intensity from a seed click"
+          >
+            <Sprout className="w-3.5 h-3.5" />
+            Grow
+          </button>
+          <button
+            onClick={() => onSelectTool(ToolMode.FLOOD_FILL)}
+            className={toolButtonClasses(ToolMode.FLOOD_FILL)}
+            title="Fill the inside of a closed contour"
+          >
+            <PaintBucket className="w-3.5 h-3.5" />
+            Fill
+          </button>
+        </div>
+
+        {/* Semi-automatic tool settings; results are previewed in the viewer until applied */}
+        {activeTool === ToolMode.THRESHOLD_BRUSH && (
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-500 uppercase">Intensity Range</span>
+              {layer.thresholdRange && (
+                <button
+                  onClick={() => onChange({ ...layer, thresholdRange: null })}
+                  className="text-[10px] text-emerald-400 hover:text-emerald-300"
+                  title="Follow the viewer's window instead"
+                >
+                  Use window
+                </button>
+              )}
+            </div>
+            {layer.thresholdRange ? (
+              <div className="flex items-center gap-2">
+                {[0, 1].map(i => (
+                  <input
+                    key={i}
+                    type="number"
+                    value={layer.thresholdRange![i]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (Number.isNaN(value)) return;
+                      const [min, max] = layer.thresholdRange!;
+                      onChange({ ...layer, thresholdRange: i === 0 ? [value, max] : [min, value] });
+                    }}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-xs font-mono text-slate-200"
+                    title={i === 0 ? 'Minimum value' : 'Maximum value'}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between text-[10px] text-slate-500">
+                <span>Current window (min–max)</span>
+                <button
+                  onClick={() => onChange({ ...layer, thresholdRange: [0, 100] })}
+                  className="text-emerald-400 hover:text-emerald-300"
+                >
+                  Set range
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTool === ToolMode.REGION_GROW && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-500 uppercase">Tolerance</span>
+              <span className="text-xs font-mono text-slate-400">{Math.round(layer.growTolerance * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0.01"
+              max="0.5"
+              step="0.01"
+              value={layer.growTolerance}
+              onChange={(e) => onChange({ ...layer, growTolerance: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+              title="Allowed difference from the seed value, as a share of the image's value range"
+            />
+            <div className="flex gap-2">
+              {[false, true].map(in3d => (
+                <button
+                  key={String(in3d)}
+                  onClick={() => onChange({ ...layer, growIn3d: in3d })}
+                  className={`flex-1 py-1 rounded text-[10px] font-bold border transition-colors ${
+                    layer.growIn3d === in3d
+                      ? 'bg-emerald-950 border-emerald-600 text-emerald-300'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                  }`}
+                >
+                  {in3d ? '3D (all slices)' : '2D (this slice)'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {activeTool === ToolMode.FLOOD_FILL && (
+          <p className="text-[10px] text-slate-500">
+            Outline a closed contour with the brush, then click inside it to fill.
+          </p>
+        )}
 
         {/* Opacity + brush size */}
         <div>
@@ -232,6 +460,48 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
                 <span className="flex items-center gap-2"><Layers className="w-3 h-3" /> Segmented Slices</span>
                 <span className="text-[9px] text-slate-600 font-normal mt-0.5 normal-case">Click to jump viewer</span>
              </div>
+             {onInterpolate && (
+                <div className="px-4 pb-2 space-y-1.5">
+                    {interpolatedCount > 0 ? (
+                        <div className="flex items-center gap-2 text-[10px]">
+                            <span className="flex-1 text-amber-300">
+                                {interpolatedCount} interpolated slice{interpolatedCount !== 1 ? 's' : ''} to review
+                            </span>
+                            <button
+                                onClick={() => resolveInterpolation(true)}
+                                className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-white font-bold flex items-center gap-1"
+                                title="Keep the interpolated slices"
+                            >
+                                <Check className="w-3 h-3" />
+                                Accept
+                            </button>
+                            <button
+                                onClick={() => resolveInterpolation(false)}
+                                className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1"
+                                title="Remove the interpolated slices"
+                            >
+                                <X className="w-3 h-3" />
+                                Reject
+                            </button>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={handleInterpolate}
+                            disabled={!activeSegment || isInterpolating}
+                            className="w-full py-1.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-700 text-[10px] font-bold text-slate-300 flex items-center justify-center gap-1 disabled:opacity-40"
+                            title="Fill the slices between the painted slices of the active segment"
+                        >
+                            {isInterpolating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Spline className="w-3 h-3" />}
+                            {activeSegment ? `Interpolate ${activeSegment.label}` : 'Interpolate (pick a segment)'}
+                        </button>
+                    )}
+                    {interpolationStatus && (
+                        <p className={`text-[10px] ${interpolationStatus.isError ? 'text-red-400' : 'text-slate-500'}`}>
+                            {interpolationStatus.message}
+                        </p>
+                    )}
+                </div>
+             )}
              <div className="px-2 pb-2">
                 {sortedSlices.length === 0 ? (
                     <div className="p-4 text-center text-[10px] text-slate-600 italic">
@@ -246,8 +516,11 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
                                 className="flex items-center justify-between px-3 py-2 text-xs text-slate-300 hover:bg-slate-900 cursor-pointer rounded border border-transparent hover:border-slate-800 transition-colors group"
                             >
                                 <div className="flex items-center gap-2">
-                                    <div className="w-1.5 h-1.5 rounded-full bg-emerald-500"></div>
+                                    <div className={`w-1.5 h-1.5 rounded-full ${sliceInfo.isInterpolated ? 'bg-amber-400' : 'bg-emerald-500'}`}></div>
                                     <span className="font-mono">Slice {sliceInfo.sliceIndex + 1}</span>
+                                    {sliceInfo.isInterpolated && (
+                                        <span className="text-[9px] text-amber-300 italic">interpolated</span>
+                                    )}
                                 </div>
                                 <span className="px-1.5 py-0.5 bg-slate-800 rounded text-[9px] text-slate-500 font-medium">
                                    {sliceInfo.labelCount} label{sliceInfo.labelCount !== 1 ? 's' : ''}
@@ -286,7 +559,9 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
             />
             <button
               onClick={handleAddSegment}
-              className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-white text-[10px] font-bold flex items-center gap-1"
+              disabled={nextSegmentId > MAX_SEGMENT_ID}
+              title={nextSegmentId > MAX_SEGMENT_ID ? `Masks hold at most ${MAX_SEGMENT_ID} segments` : undefined}
+              className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-white text-[10px] font-bold flex items-center gap-1 disabled:opacity-40"
             >
               <Plus className="w-3 h-3" />
               Add
@@ -350,11 +625,162 @@ const SegmentationPanel: React.FC<SegmentationPanelProps> = ({
             );
           })}
         </div>
+
+        {/* Segment Statistics */}
+        {onComputeStats && (
+          <div className="border-t border-slate-800 mt-2">
+            <div className="px-4 py-2 text-xs font-bold text-slate-500 uppercase bg-slate-950 flex items-center gap-2">
+              <BarChart3 className="w-3 h-3" />
+              <span className="mr-auto">Statistics</span>
+              {stats && stats.length > 0 && (
+                <button
+                  onClick={handleExportStatsCsv}
+                  className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-[10px] text-slate-300 normal-case flex items-center gap-1"
+                  title="Download per-slice and total numbers as CSV"
+                >
+                  <Download className="w-3 h-3" />
+                  CSV
+                </button>
+              )}
+              <button
+                onClick={handleComputeStats}
+                disabled={isComputingStats || sortedSlices.length === 0}
+                className="px-2 py-0.5 rounded bg-emerald-700 hover:bg-emerald-600 text-[10px] text-white font-bold normal-case flex items-center gap-1 disabled:opacity-40"
+              >
+                {isComputingStats && <Loader2 className="w-3 h-3 animate-spin" />}
+                {stats ? 'Recompute' : 'Compute'}
+              </button>
+            </div>
+            {statsError && <p className="px-4 pb-2 text-[10px] text-red-400">{statsError}</p>}
+            {stats && stats.length === 0 && (
+              <p className="px-4 pb-2 text-[10px] text-slate-600 italic">No painted segments on this series.</p>
+            )}
+            {stats && stats.length > 0 && (
+              <table className="w-full text-[10px] text-slate-300 mb-2">
+                <thead>
+                  <tr className="text-slate-500 text-left">
+                    <th className="pl-4 py-1 font-medium">Segment</th>
+                    <th className="py-1 font-medium">Volume</th>
+                    <th className="py-1 font-medium">Centroid</th>
+                    <th className="pr-4 py-1 font-medium">Mean ± SD</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map(s => {
+                    const isExpanded = expandedStatsId === s.segmentId;
+                    const segment = layer.segments.find(seg => seg.id === s.segmentId);
+                    return (
+                      <React.Fragment key={s.segmentId}>
+                        <tr
+                          onClick={() => setExpandedStatsId(isExpanded ? null : s.segmentId)}
+                          className="border-t border-slate-800/50 hover:bg-slate-900 cursor-pointer"
+                          title="Show the area per slice"
+                        >
+                          <td className="pl-4 py-1.5">
+                            <span className="flex items-center gap-1.5">
+                              {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                              <span
+                                className="w-2 h-2 rounded-full flex-shrink-0"
+                                style={{ backgroundColor: segment ? `rgb(${segment.color.join(',')})` : undefined }}
+                              />
+                              <span className="truncate">{s.label}</span>
+                            </span>
+                          </td>
+                          <td className="py-1.5 font-mono" title={s.volumeMl === null ? 'Needs Pixel Spacing and Slice Thickness' : `${s.pixelCount} pixels`}>
+                            {s.volumeMl === null ? '—' : `${s.volumeMl.toFixed(2)} mL`}
+                          </td>
+                          <td className="py-1.5 font-mono">{Math.round(s.centroidSlice) + 1}</td>
+                          <td className="pr-4 py-1.5 font-mono" title={s.intensity ? formatRoiStats(s.intensity, pixelValueUnit) : undefined}>
+                            {s.intensity
+                              ? `${s.intensity.mean.toFixed(1)} ± ${s.intensity.stdDev.toFixed(1)}${pixelValueUnit ? ` ${pixelValueUnit}` : ''}`
+                              : '—'}
+                          </td>
+                        </tr>
+                        {isExpanded && s.slices.map(slice => (
+                          <tr
+                            key={slice.sliceIndex}
+                            onClick={() => onJumpToSlice?.(slice.sliceIndex)}
+                            className="text-slate-500 hover:bg-slate-900 cursor-pointer"
+                          >
+                            <td className="pl-10 py-0.5 font-mono">Slice {slice.sliceIndex + 1}</td>
+                            <td className="py-0.5 font-mono" colSpan={2}>{formatSegmentArea(slice.area, s.areaUnit)}</td>
+                            <td className="pr-4 py-0.5 font-mono">{slice.pixelCount} px</td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Import */}
+      {onImport && (
+        <div className="px-4 py-2 bg-slate-950 border-t border-slate-800 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mr-auto">Import</span>
+            <input
+              ref={importInputRef}
+              type="file"
+              multiple
+              accept=".nii,.gz,.dcm,.png,.json,application/dicom,image/png"
+              className="hidden"
+              onChange={(e) => handleImportFiles(e.target.files)}
+            />
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-[10px] font-bold flex items-center gap-1 border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="NIfTI label volume (.nii/.nii.gz, optional .json labels), DICOM SEG, or PNG masks named by slice number"
+            >
+              {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+              NIfTI / SEG / PNG
+            </button>
+          </div>
+          {importStatus && (
+            <div className={`mt-1 text-[10px] ${importStatus.isError ? 'text-red-400' : 'text-emerald-400'}`}>{importStatus.message}</div>
+          )}
+        </div>
+      )}
+
+      {/* Export */}
+      {onExport && (
+        <div className="px-4 py-2 bg-slate-950 border-t border-slate-800 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mr-auto">Export</span>
+            <button
+              type="button"
+              onClick={() => handleExport('nifti')}
+              disabled={layer.segmentedSlices.length === 0}
+              className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-[10px] font-bold flex items-center gap-1 border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="NIfTI-1 label volume (.nii) with the segment table as JSON"
+            >
+              <Download className="w-3 h-3" />
+              NIfTI
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('dicom-seg')}
+              disabled={layer.segmentedSlices.length === 0 || !canExportDicomSeg}
+              className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-[10px] font-bold flex items-center gap-1 border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              title={canExportDicomSeg ? 'DICOM Segmentation object referencing this series' : 'DICOM SEG needs a DICOM source series (not available for the PNG demo)'}
+            >
+              <Download className="w-3 h-3" />
+              DICOM SEG
+            </button>
+          </div>
+          {exportError && <div className="mt-1 text-[10px] text-red-400">{exportError}</div>}
+        </div>
+      )}
+
       {/* Footer Info */}
       <div className="p-3 bg-slate-900 border-t border-slate-800 text-[10px] text-slate-500 text-center flex-shrink-0">
         Select a label, then use Brush to paint or Eraser to remove
+        <div className="mt-0.5 text-slate-600">Ctrl+Z undo · Ctrl+Shift+Z redo</div>
       </div>
     </div>
   );
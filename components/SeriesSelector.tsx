@@ -3,7 +3,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Series, DicomWebConfig } from '../types';
 import { Layers, Loader2 } from 'lucide-react';
-import { fetchDicomImageBlob } from '../services/dicomService';
+import { loadDicomImage } from '../services/imageLoader';
+import { renderImageToCanvas } from '../utils/imageRendering';
 import { SERIES_DESCRIPTIONS } from '../constants';
 
 interface SeriesSelectorProps {
@@ -30,19 +31,15 @@ const SeriesThumbnail: React.FC<SeriesThumbnailProps> = ({ series, isActive, onC
 
   useEffect(() => {
     isMounted.current = true;
-    
-    // Cleanup previous object URL to avoid memory leaks
     return () => {
       isMounted.current = false;
-      if (thumbUrl) URL.revokeObjectURL(thumbUrl);
     };
-  }, []); // Run once on mount to setup cleanup, URL management handles the rest
+  }, []); // Run once on mount to setup cleanup
 
   useEffect(() => {
     // Reset state when series changes
     setHasError(false);
     setIsLoading(true);
-    if (thumbUrl) URL.revokeObjectURL(thumbUrl);
     setThumbUrl(null);
     
     if (series.instances && series.instances.length > 0) {
@@ -72,12 +69,13 @@ const SeriesThumbnail: React.FC<SeriesThumbnailProps> = ({ series, isActive, onC
     for (const idx of indicesToTry) {
        try {
           const url = series.instances[idx];
-          // Use the robust fetch service that handles headers/proxies/fallbacks
-          const blob = await fetchDicomImageBlob(dicomConfig, url);
+          // Shared fetch + decode path (PNG assets and DICOM instances alike)
+          const image = await loadDicomImage(dicomConfig, url);
           
-          if (isMounted.current && blob) {
-             const objectUrl = URL.createObjectURL(blob);
-             setThumbUrl(objectUrl);
+          if (isMounted.current && image) {
+             const canvas = document.createElement('canvas');
+             renderImageToCanvas(image, canvas);
+             setThumbUrl(canvas.toDataURL('image/jpeg', 0.8));
              setIsLoading(false);
              success = true;
              return; // Stop after first success
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Study, StudySession, SessionSnapshotInfo } from '../types';
+import { saveSnapshot, listSnapshots, loadSnapshot, deleteSnapshot } from '../services/sessionStore';
+import { encodeSessionBundle, decodeSessionBundle, SESSION_BUNDLE_EXTENSION } from '../utils/sessionBundle';
+import { downloadBlob } from '../utils/download';
+import { Save, History, Trash2, Download, Upload, Loader2 } from 'lucide-react';
+
+interface SessionMenuProps {
+  study: Study;
+  // Current state of the study, as it would be autosaved
+  getSession: () => StudySession;
+  onRestore: (session: StudySession) => void;
+  lastSavedAt: number | null;
+  autosaveError: string | null;
+}
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+const SessionMenu: React.FC<SessionMenuProps> = ({ study, getSession, onRestore, lastSavedAt, autosaveError }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<SessionSnapshotInfo[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listSnapshots(study.id).then(setSnapshots).catch((e: any) => setError(e.message || 'Could not list snapshots'));
+  }, [isOpen, study.id]);
+
+  // Runs a menu action with a spinner and a user-facing error
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || 'Session action failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveSnapshot = () => runAction(async () => {
+    await saveSnapshot(snapshotName, getSession());
+    setSnapshotName('');
+    setSnapshots(await listSnapshots(study.id));
+  });
+
+  const handleRestore = (id: string) => runAction(async () => {
+    onRestore(await loadSnapshot(id));
+    setIsOpen(false);
+  });
+
+  const handleDelete = (id: string) => runAction(async () => {
+    await deleteSnapshot(id);
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+  });
+
+  const handleExport = () => runAction(async () => {
+    const bytes = await encodeSessionBundle(getSession(), { id: study.id, description: study.description });
+    const baseName = (study.description || study.id).replace(/[^a-z0-9]+/gi, '_');
+    downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), `${baseName}${SESSION_BUNDLE_EXTENSION}`);
+  });
+
+  const handleImport = (file: File | undefined) => runAction(async () => {
+    if (!file) return;
+    try {
+      const { study: bundleStudy, session } = await decodeSessionBundle(new Uint8Array(await file.arrayBuffer()));
+      if (bundleStudy.id !== study.id) {
+        throw new Error(`This session belongs to another study ("${bundleStudy.description || bundleStudy.id}"). Open that study first.`);
+      }
+      onRestore(session);
+      setIsOpen(false);
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-[11px] font-bold text-slate-400 hover:text-white px-3 py-1.5 rounded-full bg-slate-900 border border-slate-700 hover:bg-slate-800 transition-colors flex items-center gap-1.5"
+        title={autosaveError ?? (lastSavedAt ? `Autosaved ${formatTime(lastSavedAt)}` : 'Session')}
+      >
+        <Save className={`w-3.5 h-3.5 ${autosaveError ? 'text-red-400' : 'text-emerald-400'}`} />
+        Session
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-xl z-50 p-1 flex flex-col gap-0.5 animate-in fade-in zoom-in-95 duration-200">
+            <div className="px-3 py-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider border-b border-slate-800 mb-1 flex items-center">
+              Session
+              <span className={`ml-auto normal-case font-medium tracking-normal ${autosaveError ? 'text-red-400' : 'text-slate-500'}`}>
+                {autosaveError ? 'Autosave failed' : lastSavedAt ? `Autosaved ${formatTime(lastSavedAt)}` : 'Not saved yet'}
+              </span>
+            </div>
+
+            {/* Snapshots */}
+            <div className="px-2 py-1 flex items-center gap-1">
+              <input
+                type="text"
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveSnapshot(); }}
+                placeholder="Snapshot name"
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+              />
+              <button
+                onClick={handleSaveSnapshot}
+                disabled={isBusy}
+                className="px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold disabled:opacity-40"
+              >
+                Save
+              </button>
+            </div>
+            <div className="max-h-48 overflow-y-auto">
+              {snapshots.length === 0 ? (
+                <div className="px-3 py-2 text-[11px] text-slate-500">No snapshots for this study.</div>
+              ) : snapshots.map(s => (
+                <div key={s.id} className="group flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-slate-800">
+                  <History className="w-3.5 h-3.5 text-slate-500 flex-shrink-0" />
+                  <button onClick={() => handleRestore(s.id)} disabled={isBusy} className="flex-1 min-w-0 text-left" title="Restore this snapshot (replaces the current session)">
+                    <div className="text-xs text-slate-300 truncate">{s.name}</div>
+                    <div className="text-[10px] text-slate-500">{formatTime(s.savedAt)}</div>
+                  </button>
+                  <button onClick={() => handleDelete(s.id)} disabled={isBusy} className="p-1 rounded text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100" aria-label={`Delete snapshot ${s.name}`}>
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Bundles */}
+            <div className="border-t border-slate-800 mt-1 pt-1 flex">
+              <button onClick={handleExport} disabled={isBusy} className="flex-1 text-left px-3 py-2 text-xs text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-2">
+                <Download className="w-3.5 h-3.5 text-indigo-400" /> Export bundle
+              </button>
+              <button onClick={() => importInputRef.current?.click()} disabled={isBusy} className="flex-1 text-left px-3 py-2 text-xs text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-2">
+                <Upload className="w-3.5 h-3.5 text-indigo-400" /> Import bundle
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={SESSION_BUNDLE_EXTENSION}
+                className="hidden"
+                onChange={(e) => handleImport(e.target.files?.[0])}
+              />
+            </div>
+
+            {(isBusy || error || autosaveError) && (
+              <div className={`px-3 py-1.5 text-[10px] flex items-center gap-1.5 ${isBusy ? 'text-slate-400' : 'text-red-400'}`}>
+                {isBusy ? <><Loader2 className="w-3 h-3 animate-spin" /> Working…</> : error ?? autosaveError}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionMenu;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { COMMANDS, CommandId, Keymap, keyFromEvent, formatKey, findCommandForKey, bindKey, unbindKey, getDefaultKeymap } from '../utils/keymap';
+import { Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+
+interface ShortcutsOverlayProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const GROUPS = Array.from(new Set(COMMANDS.map(c => c.group)));
+
+// Lists every command with its keys; "+" records a new key for a command, × removes one
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ keymap, onChange, onClose }) => {
+  const [recordingId, setRecordingId] = useState<CommandId | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (recordingId) setRecordingId(null);
+        else onClose();
+        return;
+      }
+      if (!recordingId) return;
+      const key = keyFromEvent(e);
+      if (!key) return;
+      e.preventDefault();
+      const previous = findCommandForKey(keymap, key);
+      if (previous && previous !== recordingId) {
+        setNotice(`${formatKey(key)} was moved from "${COMMANDS.find(c => c.id === previous)!.label}".`);
+      } else {
+        setNotice(null);
+      }
+      onChange(bindKey(keymap, recordingId, key));
+      setRecordingId(null);
+    };
+    // Capture phase, so recording a key never also runs its command
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, keymap, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 max-w-2xl w-full max-h-[85vh] rounded-xl shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-6 py-4 border-b border-slate-800">
+          <div className="p-2 bg-indigo-500/10 rounded-lg">
+            <Keyboard className="w-5 h-5 text-indigo-400" />
+          </div>
+          <h3 className="text-lg font-bold text-white flex-1">Keyboard Shortcuts</h3>
+          <button
+            onClick={() => { onChange(getDefaultKeymap()); setNotice(null); }}
+            className="text-[11px] text-slate-400 hover:text-white px-2 py-1 rounded border border-slate-700 hover:bg-slate-800 flex items-center gap-1"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset to defaults
+          </button>
+          <button onClick={onClose} className="text-slate-500 hover:text-white" title="Close (Esc)">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-6 py-4 grid sm:grid-cols-2 gap-x-8 gap-y-4">
+          {GROUPS.map(group => (
+            <div key={group}>
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5">{group}</div>
+              {COMMANDS.filter(c => c.group === group).map(command => (
+                <div key={command.id} className="flex items-center gap-2 py-1 text-xs">
+                  <span className="flex-1 text-slate-300">{command.label}</span>
+                  {keymap[command.id].map(key => (
+                    <kbd
+                      key={key}
+                      className="group px-1.5 py-0.5 rounded bg-slate-800 border border-slate-600 text-slate-200 font-mono text-[10px] flex items-center gap-1"
+                    >
+                      {formatKey(key)}
+                      <button
+                        onClick={() => onChange(unbindKey(keymap, command.id, key))}
+                        className="text-slate-500 hover:text-red-400 hidden group-hover:inline"
+                        title="Remove this key"
+                      >
+                        <X className="w-2.5 h-2.5" />
+                      </button>
+                    </kbd>
+                  ))}
+                  <button
+                    onClick={() => setRecordingId(recordingId === command.id ? null : command.id)}
+                    className={`px-1.5 py-0.5 rounded border text-[10px] flex items-center gap-0.5 ${
+                      recordingId === command.id
+                        ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10 animate-pulse'
+                        : 'border-slate-700 text-slate-500 hover:text-white hover:bg-slate-800'
+                    }`}
+                    title="Add a key"
+                  >
+                    {recordingId === command.id ? 'Press a key…' : <Plus className="w-3 h-3" />}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-800 text-[10px] text-slate-500">
+          {notice ?? 'Bindings are saved in this browser. Shortcuts are off while typing in a text field.'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
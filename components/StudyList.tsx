@@ -1,10 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
-import { Study, ConnectionType, DicomWebConfig, DiagnosticStep } from '../types';
-import { searchDicomWebStudies, runConnectionDiagnostics } from '../services/dicomService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Study, ConnectionType, DicomWebConfig, DiagnosticStep, StudyQuery } from '../types';
+import { searchDicomWebStudies, runConnectionDiagnostics, isLocalConfig } from '../services/dicomService';
+import { importLocalFiles, collectDroppedFiles } from '../services/localImport';
 import { 
   Search, HardDrive, CheckCircle2, XCircle, 
-  Loader2, Play, Calendar, FileText, Layers, User, Shield, FolderOpen
+  Loader2, Play, Calendar, FileText, Layers, User, Shield, FolderOpen, Globe, Upload, FolderInput
 } from 'lucide-react';
 
 interface StudyListProps {
@@ -32,62 +33,157 @@ const StudyList: React.FC<StudyListProps> = ({
   const [diagnosticSteps, setDiagnosticSteps] = useState<DiagnosticStep[]>([]);
   const [diagnosticRunning, setDiagnosticRunning] = useState(false);
 
-  // Filter State
+  // Server URL being edited in the Data Source modal
+  const [serverUrlDraft, setServerUrlDraft] = useState(isLocalConfig(dicomConfig) ? '' : dicomConfig.url);
+
+  // Filter State (passed through to QIDO-RS as matching keys)
   const [filters, setFilters] = useState({
     patientName: '',
     modality: '',
-    description: ''
+    description: '',
+    accessionNumber: '',
+    studyDateFrom: '',
+    studyDateTo: ''
+  });
+  const isInitialLoadRef = useRef(true);
+  // Numbers study searches so a slow reply to an older query cannot overwrite a newer one
+  const loadRequestRef = useRef(0);
+
+  // Local Import State
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState<{ tone: 'ok' | 'warn' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0);
+
+  // <input type="date"> yields YYYY-MM-DD, DICOM DA is YYYYMMDD
+  const toDicomDate = (value: string) => value.replace(/-/g, '');
+
+  const buildQuery = (): StudyQuery => ({
+    patientName: filters.patientName,
+    modality: filters.modality,
+    description: filters.description,
+    accessionNumber: filters.accessionNumber,
+    studyDateFrom: toDicomDate(filters.studyDateFrom),
+    studyDateTo: toDicomDate(filters.studyDateTo),
   });
 
   useEffect(() => {
-    // Check if we can find the files immediately
-    loadStudies();
-  }, []);
+    // Debounce so typing in a filter doesn't fire a query per keystroke
+    const timer = setTimeout(() => loadStudies(), isInitialLoadRef.current ? 0 : 400);
+    return () => clearTimeout(timer);
+  }, [filters, dicomConfig]);
 
   const loadStudies = async () => {
+    const request = ++loadRequestRef.current;
+    const isStale = () => request !== loadRequestRef.current;
     setLoading(true);
     setError(null);
     try {
-      // Fetch "Local" studies from our new service
-      const data = await searchDicomWebStudies(dicomConfig);
+      const data = await searchDicomWebStudies(dicomConfig, buildQuery());
+      if (isStale()) return;
       setStudies(data);
       
-      // AUTO-SELECT for demo/app feel
-      if (data.length > 0) {
+      // AUTO-SELECT for demo/app feel (bundled dataset, first load only)
+      if (isInitialLoadRef.current && isLocalConfig(dicomConfig) && data.length > 0) {
         onSelectStudy(data[0]);
       }
     } catch (e: any) {
+      if (isStale()) return;
       console.error(e);
-      setError(e.message || "Failed to load local studies");
+      setStudies([]);
+      setError(e.message || "Failed to load studies");
     } finally {
-      setLoading(false);
+      if (!isStale()) {
+        isInitialLoadRef.current = false;
+        setLoading(false);
+      }
     }
   };
 
-  // Client-side filtering
-  const filteredStudies = studies.filter(study => {
-    return (
-      study.patientName.toLowerCase().includes(filters.patientName.toLowerCase()) &&
-      study.modality.toLowerCase().includes(filters.modality.toLowerCase()) &&
-      study.description.toLowerCase().includes(filters.description.toLowerCase())
-    );
-  });
+  // A drop passes the folder walk still in progress, so its errors are reported like import errors
+  const handleImport = async (source: File[] | Promise<File[]>) => {
+    setImporting(true);
+    setImportStatus(null);
+    try {
+      const files = await source;
+      if (files.length === 0) return;
+      const result = await importLocalFiles(files);
+      const skippedNote = result.skipped.length > 0
+        ? ` Skipped ${result.skipped.length} file${result.skipped.length !== 1 ? 's' : ''} (${result.skipped[0].reason}${result.skipped.length > 1 ? ', …' : ''}).`
+        : '';
+
+      if (result.importedCount === 0) {
+        setImportStatus({ tone: 'error', text: `No DICOM images found.${skippedNote}` });
+        return;
+      }
+      setImportStatus({
+        tone: result.skipped.length > 0 ? 'warn' : 'ok',
+        text: `Imported ${result.importedCount} image${result.importedCount !== 1 ? 's' : ''} into ${result.studies.length} stud${result.studies.length !== 1 ? 'ies' : 'y'}.${skippedNote}`
+      });
+      await loadStudies();
+      // Jump straight into the case when a single study was dropped
+      if (result.studies.length === 1) onSelectStudy(result.studies[0]);
+    } catch (e: any) {
+      console.error(e);
+      setImportStatus({ tone: 'error', text: e.message || 'Import failed' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragOver(false);
+    // Entries must be read synchronously inside the drop handler
+    handleImport(collectDroppedFiles(e.dataTransfer));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = '';
+    handleImport(files);
+  };
 
   const runDiagnostics = async () => {
+    const trimmedUrl = serverUrlDraft.trim();
+    const nextConfig: DicomWebConfig = trimmedUrl
+      ? { url: trimmedUrl, name: trimmedUrl }
+      : { url: 'local', name: 'Local Dataset (CC0)' };
+
     setDiagnosticRunning(true);
-    setDiagnosticSteps([{ id: '1-local-check', name: 'Checking Asset Availability', status: 'PENDING' }]);
+    setDiagnosticSteps(isLocalConfig(nextConfig)
+      ? [{ id: '1-local-check', name: 'Checking Asset Availability', status: 'PENDING' }]
+      : [{ id: '1-qido-check', name: 'Querying DICOMweb (QIDO-RS)', status: 'PENDING' }]
+    );
     
     const updateStep = (id: string, status: DiagnosticStep['status'], message?: string) => {
       setDiagnosticSteps(prev => prev.map(s => s.id === id ? { ...s, status, message } : s));
     };
 
-    const success = await runConnectionDiagnostics(dicomConfig, updateStep);
+    const success = await runConnectionDiagnostics(nextConfig, updateStep);
     setDiagnosticRunning(false);
 
     if (success) {
       setTimeout(() => {
         setShowConnectionModal(false);
-        loadStudies();
+        // Changing the config re-runs the study query via the effect above
+        setDicomConfig(nextConfig);
       }, 500);
     }
   };
@@ -100,7 +196,7 @@ const StudyList: React.FC<StudyListProps> = ({
           <HardDrive className="w-6 h-6 text-indigo-500" />
           <div>
             <h2 className="text-xl font-bold text-white">Data Source</h2>
-            <p className="text-slate-400 text-sm">VibeRad loads static files from the configured asset path.</p>
+            <p className="text-slate-400 text-sm">Use the bundled demo files or query a DICOMweb server.</p>
           </div>
         </div>
         
@@ -115,6 +211,19 @@ const StudyList: React.FC<StudyListProps> = ({
                 </div>
              </div>
 
+             <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+                  <Globe className="w-3 h-3" /> DICOMweb Root (optional)
+                </label>
+                <input
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm font-mono focus:border-indigo-500 focus:outline-none"
+                  placeholder="http://localhost:8042/dicom-web"
+                  value={serverUrlDraft}
+                  onChange={e => setServerUrlDraft(e.target.value)}
+                />
+                <p className="text-[11px] text-slate-500">Leave empty to use the bundled demo dataset. The server must allow CORS requests from this page.</p>
+             </div>
+
              {diagnosticSteps.length > 0 && (
                 <div className="bg-black/40 rounded border border-slate-800 p-3 space-y-2 mt-4">
                   {diagnosticSteps.map(step => (
@@ -153,9 +262,34 @@ const StudyList: React.FC<StudyListProps> = ({
   );
 
   return (
-    <div className="flex flex-col h-full bg-slate-950 text-slate-200">
+    <div
+      className="flex flex-col h-full bg-slate-950 text-slate-200 relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => { if (isDragOver) e.preventDefault(); }}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {showConnectionModal && renderConnectionModal()}
 
+      {isDragOver && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-indigo-950/80 border-2 border-dashed border-indigo-400 pointer-events-none">
+          <div className="text-center text-indigo-100">
+            <Upload className="w-10 h-10 mx-auto mb-3" />
+            <p className="text-lg font-bold">Drop DICOM files, folders or .zip archives</p>
+            <p className="text-sm text-indigo-300 mt-1">Files stay in your browser and are never uploaded.</p>
+          </div>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" multiple accept=".dcm,.zip,application/dicom,application/zip" className="hidden" onChange={handleInputChange} />
+      <input
+        ref={el => { folderInputRef.current = el; el?.setAttribute('webkitdirectory', ''); }}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleInputChange}
+      />
+
       {/* Header / Toolbar */}
       <div className="h-16 border-b border-slate-800 bg-slate-900 px-6 flex items-center justify-between">
         <div className="flex items-center gap-4">
@@ -166,11 +300,29 @@ const StudyList: React.FC<StudyListProps> = ({
              className="text-xs px-3 py-1 rounded-full bg-slate-800 border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-colors flex items-center gap-2"
            >
              <FolderOpen className="w-3 h-3 text-emerald-500" />
-             Demo Data Source
+             {isLocalConfig(dicomConfig) ? 'Demo Data Source' : dicomConfig.name}
            </button>
         </div>
         
         <div className="flex items-center gap-2">
+           <button
+             onClick={() => fileInputRef.current?.click()}
+             disabled={importing}
+             className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-full bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500 disabled:opacity-50"
+             title="Import .dcm files or .zip archives (or drag them onto this page)"
+           >
+             {importing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3 text-indigo-400" />}
+             Import Files
+           </button>
+           <button
+             onClick={() => folderInputRef.current?.click()}
+             disabled={importing}
+             className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-full bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500 disabled:opacity-50"
+             title="Import a folder of DICOM files"
+           >
+             <FolderInput className="w-3 h-3 text-indigo-400" />
+             Import Folder
+           </button>
            <button 
              onClick={onShowSafety}
              className="hidden lg:flex items-center gap-2 px-4 py-1.5 bg-indigo-950/30 border border-indigo-900/50 rounded-full hover:bg-indigo-900/50 transition-colors"
@@ -186,7 +338,7 @@ const StudyList: React.FC<StudyListProps> = ({
 
       {/* Filters Bar */}
       <div className="bg-slate-900/50 border-b border-slate-800 p-4 grid grid-cols-12 gap-4">
-         <div className="col-span-4">
+         <div className="col-span-3">
             <div className="relative">
                <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-500" />
                <input 
@@ -197,7 +349,7 @@ const StudyList: React.FC<StudyListProps> = ({
                />
             </div>
          </div>
-         <div className="col-span-5">
+         <div className="col-span-3">
              <input 
                className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none"
                placeholder="Filter Description..."
@@ -205,16 +357,55 @@ const StudyList: React.FC<StudyListProps> = ({
                onChange={e => setFilters({...filters, description: e.target.value})}
             />
          </div>
-         <div className="col-span-3">
+         <div className="col-span-2">
             <input 
                className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none"
-               placeholder="Filter Modality..."
+               placeholder="Accession #..."
+               value={filters.accessionNumber}
+               onChange={e => setFilters({...filters, accessionNumber: e.target.value})}
+            />
+         </div>
+         <div className="col-span-1">
+            <input 
+               className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none"
+               placeholder="Modality"
                value={filters.modality}
                onChange={e => setFilters({...filters, modality: e.target.value})}
             />
          </div>
+         <div className="col-span-3 flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-slate-500 flex-shrink-0" />
+            <input 
+               type="date"
+               title="Study date from"
+               className="w-full min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-2 text-xs focus:border-indigo-500 focus:outline-none"
+               value={filters.studyDateFrom}
+               onChange={e => setFilters({...filters, studyDateFrom: e.target.value})}
+            />
+            <span className="text-slate-600 text-xs">–</span>
+            <input 
+               type="date"
+               title="Study date to"
+               className="w-full min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-2 text-xs focus:border-indigo-500 focus:outline-none"
+               value={filters.studyDateTo}
+               onChange={e => setFilters({...filters, studyDateTo: e.target.value})}
+            />
+         </div>
       </div>
 
+      {importStatus && (
+        <div className={`px-6 py-2 text-xs border-b flex items-center justify-between ${
+          importStatus.tone === 'ok' ? 'bg-emerald-950/30 border-emerald-900/50 text-emerald-300'
+          : importStatus.tone === 'warn' ? 'bg-amber-950/30 border-amber-900/50 text-amber-300'
+          : 'bg-red-950/30 border-red-900/50 text-red-300'
+        }`}>
+          <span>{importStatus.text}</span>
+          <button onClick={() => setImportStatus(null)} className="opacity-70 hover:opacity-100" title="Dismiss">
+            <XCircle className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
       {/* Data Grid */}
       <div className="flex-1 overflow-auto bg-slate-950">
         <table className="w-full text-left border-collapse">
@@ -232,19 +423,32 @@ const StudyList: React.FC<StudyListProps> = ({
                <tr>
                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
                     <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2" />
-                    Loading Local Studies...
+                    Loading Studies...
                  </td>
                </tr>
              )}
-             {!loading && filteredStudies.length === 0 && (
+             {!loading && error && (
+                <tr>
+                   <td colSpan={5} className="px-6 py-12 text-center text-red-400">
+                      <XCircle className="w-6 h-6 mx-auto mb-2" />
+                      {error}
+                   </td>
+                </tr>
+             )}
+             {!loading && !error && studies.length === 0 && (
                 <tr>
                    <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
-                      No local studies found. <br/>
-                      <span className="text-xs mt-2 block">Ensure files are configured in data/localData.ts</span>
+                      No studies found. <br/>
+                      <span className="text-xs mt-2 block">Drag DICOM files, folders or a .zip here to open your own cases.</span>
+                      <span className="text-xs mt-2 block">
+                        {isLocalConfig(dicomConfig)
+                          ? 'Ensure files are configured in data/localData.ts'
+                          : 'Try widening the filters or check the DICOMweb server.'}
+                      </span>
                    </td>
                 </tr>
              )}
-             {filteredStudies.map((study) => {
+             {!loading && studies.map((study) => {
                return (
                 <tr 
                   key={study.id} 
@@ -267,6 +471,9 @@ const StudyList: React.FC<StudyListProps> = ({
                      <div className="flex items-center gap-2">
                        <FileText className="w-3 h-3 text-slate-600" />
                        {study.description}
+                       {study.isImported && (
+                         <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-900/40 border border-indigo-800 text-indigo-300">Imported</span>
+                       )}
                      </div>
                    </td>
                    <td className="px-6 py-4">
@@ -287,7 +494,7 @@ const StudyList: React.FC<StudyListProps> = ({
         </table>
       </div>
       <div className="h-8 bg-slate-900 border-t border-slate-800 flex items-center px-4 text-xs text-slate-500">
-         Data Mode Active
+         {isLocalConfig(dicomConfig) ? 'Data Mode Active' : `DICOMweb: ${dicomConfig.url}`}
       </div>
     </div>
   );
@@ -1,9 +1,26 @@
 
 import React, { useRef, useEffect, useLayoutEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { Series, ToolMode, ViewportState, Point, Measurement, DicomWebConfig, SegmentationLayer, ViewerHandle, Segment } from '../types';
-import { DEFAULT_VIEWPORT_STATE } from '../constants';
-import { fetchDicomImageBlob, prefetchImage } from '../services/dicomService';
-import { Loader2, AlertTriangle, Move } from 'lucide-react';
+import { Series, ToolMode, ViewportState, Point, Measurement, ArrowAnnotation, DicomWebConfig, SegmentationLayer, ViewerHandle, Segment, DicomImage, WindowPreset, LinkedViewportUpdate, FusionSettings } from '../types';
+import { DEFAULT_VIEWPORT_STATE, getWlPresets } from '../constants';
+import { prefetchImage } from '../services/dicomService';
+import { loadDicomImage, loadSeriesImagesOrNull } from '../services/imageLoader';
+import { renderImageToCanvas, getDefaultWindow, resolveWindowPreset } from '../utils/imageRendering';
+import { getModalityRange } from '../utils/voiLut';
+import { getCalibration } from '../utils/calibration';
+import {
+  MEASUREMENT_TOOL_TYPES, MEASUREMENT_LABEL_PREFIXES, createDraftMeasurement, setMeasurementPoint, isMeasurementLargeEnough,
+  getMeasurementPoints, getMeasurementValue, formatMeasurementValue, formatRoiStats, getPixelValueUnit, computeRoiStats, hitTestMeasurement,
+  hitTestHandle, translateMeasurement, MIN_MEASUREMENT_SIZE,
+} from '../utils/measurements';
+import { MaskStore, createMaskStore } from '../utils/maskStore';
+import { LabelWorker, createLabelWorker } from '../utils/labelWorker';
+import { MaskRect } from '../utils/maskHistory';
+import { LabelSlice, paintStroke, renderLabelsToRgba } from '../utils/labelMap';
+import { findFusionSliceIndex, getFusionPlacement, renderFusionToCanvas } from '../utils/fusion';
+import {
+  SegmentationSelection, getModalityValues, countSelected, selectThresholdStroke, growRegion, floodFillContour, applySelectionToLabels,
+} from '../utils/segmentationTools';
+import { Loader2, AlertTriangle, Move, Check, X } from 'lucide-react';
 
 interface ViewerCanvasProps {
   series: Series | null;
@@ -19,14 +36,41 @@ interface ViewerCanvasProps {
   onMeasurementAdd: (m: Measurement) => void;
   onMeasurementUpdate: (m: Measurement) => void;
   activeMeasurementId: string | null;
+  // Pointer-tool clicks select the measurement under the cursor (null on empty image)
+  onMeasurementSelect?: (id: string | null) => void;
+  annotations?: ArrowAnnotation[];
+  onClearAnnotations?: () => void;
 
   segmentationLayer: SegmentationLayer;
   onSegmentedSliceUpdate?: (sliceIndex: number, labelCount: number) => void;
 
   // New Prop: Enforce scrolling restrictions (e.g. for guided tour)
   isScrollEnabled?: boolean;
+
+  // Multi-viewport: masks are shared between panes; viewport changes can be linked
+  maskStore?: MaskStore;
+  // Runs 3D region growing off the main thread (shared with the mask store)
+  labelWorker?: LabelWorker;
+  linkedViewport?: LinkedViewportUpdate | null;
+  onViewportChange?: (changes: Partial<ViewportState>) => void;
+  // Window preset (label) for the first frame of a series instead of the image's own window
+  initialWindowPreset?: string;
+
+  // Secondary series drawn color-mapped over this one
+  fusionSeries?: Series | null;
+  fusionSettings?: FusionSettings;
 }
 
+const NO_ANNOTATIONS: ArrowAnnotation[] = [];
+
+// Pointer-tool hit distance, in screen pixels
+const HIT_TOLERANCE = 6;
+// Colored mask renders kept per series; older ones are rebuilt from the label maps when shown again
+const RENDER_CACHE_LIMIT = 32;
+
+// Integers for HU-style values, one decimal for small ranges (e.g. normalized MR)
+const formatWindowValue = (v: number) => (Math.abs(v) >= 100 ? Math.round(v).toString() : v.toFixed(1));
+
 const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({ 
   series, 
   activeTool, 
@@ -38,19 +82,38 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
   onMeasurementAdd,
   onMeasurementUpdate,
   activeMeasurementId,
+  onMeasurementSelect,
+  annotations = NO_ANNOTATIONS,
+  onClearAnnotations,
   segmentationLayer,
   onSegmentedSliceUpdate,
-  isScrollEnabled = true // Default to enabled
+  isScrollEnabled = true, // Default to enabled
+  maskStore: sharedMaskStore,
+  labelWorker: sharedLabelWorker,
+  linkedViewport,
+  onViewportChange,
+  initialWindowPreset,
+  fusionSeries = null,
+  fusionSettings
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const hasFittedRef = useRef(false);
+  // The window is initialised from the first frame of each series, then left to the user
+  const hasWindowedRef = useRef(false);
   
-  // Segmentation Data: Keyed by Series ID -> Slice Index
-  // Map<SeriesID, Map<SliceIndex, Canvas>>
-  const maskCacheRef = useRef<Map<string, Map<number, HTMLCanvasElement>>>(new Map());
+  // Segmentation Data: label maps live in the (shared) mask store, colored renders are per viewport
+  // and built on demand: Map<SeriesID, Map<SliceIndex, Canvas>>
+  const ownMaskStoreRef = useRef<MaskStore | null>(null);
+  if (!sharedMaskStore && !ownMaskStoreRef.current) ownMaskStoreRef.current = createMaskStore();
+  const maskStore = sharedMaskStore ?? ownMaskStoreRef.current!;
+  // Only started when a standalone viewer first grows a 3D region
+  const ownLabelWorkerRef = useRef<LabelWorker | null>(null);
+  const getLabelWorker = () => sharedLabelWorker ?? (ownLabelWorkerRef.current ??= createLabelWorker());
+  useEffect(() => () => ownLabelWorkerRef.current?.dispose(), []);
   const renderCacheRef = useRef<Map<string, Map<number, HTMLCanvasElement>>>(new Map());
-  const sliceSegmentIdsRef = useRef<Map<string, Map<number, Set<number>>>>(new Map());
+  // Identifies this viewport's own mask edits so it can skip redundant invalidation
+  const viewerIdRef = useRef(Symbol('viewer'));
   
   // Track current series ID to handle async restoration safely
   const currentSeriesIdRef = useRef<string | null>(null);
@@ -61,7 +124,26 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
   
   const [isImageLoading, setIsImageLoading] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
-  const [currentImageBitmap, setCurrentImageBitmap] = useState<HTMLImageElement | null>(null);
+  const [currentImage, setCurrentImage] = useState<DicomImage | null>(null);
+  // Slice the current image belongs to (it lags `sliceIndex` while the next frame loads)
+  const imageSliceRef = useRef(-1);
+  // Offscreen canvas holding the current frame mapped to display values
+  const displayCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  
+  // Fusion overlay frame and its color-mapped render
+  const [fusionImage, setFusionImage] = useState<DicomImage | null>(null);
+  const fusionCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fusionSliceIndex = series && fusionSeries && fusionSettings
+    ? findFusionSliceIndex(series, sliceIndex, fusionSeries, fusionSettings.sliceMatching) ?? -1
+    : -1;
+  
+  // Semi-automatic segmentation: the selection previewed until it is applied or discarded
+  const [pendingSelection, setPendingSelection] = useState<SegmentationSelection | null>(null);
+  const [segToolStatus, setSegToolStatus] = useState<{ message: string; isBusy?: boolean } | null>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const thresholdStrokeRef = useRef<Point | null>(null);
+  // Modality values of the current frame, computed on first use
+  const currentValuesRef = useRef<{ image: DicomImage; values: Float32Array } | null>(null);
   
   // Responsive Canvas State - Init to non-zero to ensure visibility
   const [canvasSize, setCanvasSize] = useState<{ width: number; height: number }>({ width: 800, height: 600 });
@@ -79,135 +161,115 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
   const [isDraggingState, setIsDraggingState] = useState(false); 
   
   const [draftMeasurement, setDraftMeasurement] = useState<Measurement | null>(null);
+  // Index of the draft point that follows the cursor (-1 appends, for freehand);
+  // null while a Cobb angle waits for its second line
+  const draftPointRef = useRef<number | null>(null);
+
+  // Pointer-tool editing: the handle (null = whole shape) under the cursor, and the drag in progress.
+  // The moved copy is drawn in place of the original and committed on release.
+  const [hoveredTarget, setHoveredTarget] = useState<{ id: string; handle: number | null } | null>(null);
+  const [editedMeasurement, setEditedMeasurement] = useState<Measurement | null>(null);
+  const editRef = useRef<{ handle: number | null; origin: Point; original: Measurement } | null>(null);
   
   // Helper to get caches for the current series
   const getSeriesCaches = () => {
     if (!series?.id) return null;
     const key = series.id;
     
-    if (!maskCacheRef.current.has(key)) maskCacheRef.current.set(key, new Map());
     if (!renderCacheRef.current.has(key)) renderCacheRef.current.set(key, new Map());
-    if (!sliceSegmentIdsRef.current.has(key)) sliceSegmentIdsRef.current.set(key, new Map());
     
     return {
-       maskBySlice: maskCacheRef.current.get(key)!,
        renderBySlice: renderCacheRef.current.get(key)!,
-       sliceIdsBySlice: sliceSegmentIdsRef.current.get(key)!
+       sliceIdsBySlice: maskStore.getSliceSegmentIds(key)
     };
   };
 
+  // Viewport changes made by the user are reported (for linked panes); programmatic ones are not
+  const userViewportChangeRef = useRef(false);
+  const updateViewportFromUser = (update: (prev: ViewportState) => ViewportState) => {
+    userViewportChangeRef.current = true;
+    setViewport(update);
+  };
+
+  const applyWindowPreset = (preset: WindowPreset) => {
+    const voi = resolveWindowPreset(preset, currentImage);
+    updateViewportFromUser(p => ({ ...p, ...voi }));
+  };
+
+  const resetWindow = () => {
+    if (!currentImage) return;
+    const voi = getDefaultWindow(currentImage);
+    updateViewportFromUser(p => ({ ...p, ...voi }));
+  };
+
+  const zoomToRegion = (region: { x: number; y: number; width: number; height: number }) => {
+    if (!currentImage) return;
+    const w = region.width * currentImage.columns;
+    const h = region.height * currentImage.rows;
+    const scale = Math.max(0.1, Math.min(20, Math.min(canvasSize.width / w, canvasSize.height / h) * 0.9));
+    // Region centre relative to the image centre, which the pan offsets from the canvas centre
+    const cx = (region.x + region.width / 2 - 0.5) * currentImage.columns;
+    const cy = (region.y + region.height / 2 - 0.5) * currentImage.rows;
+    updateViewportFromUser(p => ({ ...p, scale, pan: { x: -cx * scale, y: -cy * scale } }));
+  };
+
+  const resetView = () => {
+    if (!currentImage || canvasSize.width === 0 || canvasSize.height === 0) return;
+    const scale = Math.max(0.05, Math.min(canvasSize.width / currentImage.columns, canvasSize.height / currentImage.rows) * 0.95);
+    updateViewportFromUser(p => ({ ...p, ...getDefaultWindow(currentImage), scale, pan: { x: 0, y: 0 } }));
+  };
+
   // Expose Capabilities
   useImperativeHandle(ref, () => ({
+    applyWindowPreset,
+    getViewport: () => viewport,
+    setViewport: (changes) => updateViewportFromUser(p => ({ ...p, ...changes })),
+    zoomToRegion,
+    resetView,
     captureScreenshot: () => {
       if (canvasRef.current) {
         // Return high-quality JPEG
         return canvasRef.current.toDataURL('image/jpeg', 0.9);
       }
       return null;
-    },
-    removeSegment: (id: number) => {
-      // Iterate over all series caches to remove the segment ID
-      maskCacheRef.current.forEach((maskBySlice, seriesKey) => {
-          maskBySlice.forEach((canvas) => {
-            const ctx = canvas.getContext('2d', { willReadFrequently: true });
-            if (!ctx) return;
-            const w = canvas.width;
-            const h = canvas.height;
-            const imageData = ctx.getImageData(0, 0, w, h);
-            const data = imageData.data;
-            let dirty = false;
-            
-            for (let i = 0; i < data.length; i += 4) {
-               // Check if this pixel belongs to the segment (ID stored in Red channel)
-               // and is not fully transparent
-               if (data[i] === id && data[i+3] > 0) {
-                   data[i+3] = 0; // Clear alpha to 0 (erase)
-                   dirty = true;
-               }
-            }
-            
-            if (dirty) {
-               ctx.putImageData(imageData, 0, 0);
-            }
-          });
-      });
-      
-      // Update tracking sets to remove this ID from all series/slices
-      sliceSegmentIdsRef.current.forEach((sliceIdsBySlice, seriesKey) => {
-          sliceIdsBySlice.forEach((ids, sliceIdx) => {
-            if (ids.has(id)) {
-                ids.delete(id);
-                // Only notify if we are modifying the CURRENT visible series
-                if (seriesKey === series?.id) {
-                    onSegmentedSliceUpdate?.(sliceIdx, ids.size);
-                }
-            }
-          });
-      });
-      
-      // Clear all visual caches to force redraw everywhere
-      renderCacheRef.current.forEach(map => map.clear());
-      setRenderTick(t => t + 1);
     }
   }));
 
   // --- HELPER FUNCTIONS ---
 
-  const getRenderCanvas = (sliceIdx: number, w: number, h: number, segments: Segment[]) => {
+  // Colors the labels inside `rect` into a viewport render canvas (invisible segments stay transparent)
+  const drawLabelsToCanvas = (canvas: HTMLCanvasElement, slice: LabelSlice, rect: MaskRect, segments: Segment[]) => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const colors = new Map<number, [number, number, number]>();
+      segments.forEach(s => { if (s.isVisible) colors.set(s.id, s.color); });
+      const imageData = ctx.createImageData(rect.width, rect.height);
+      renderLabelsToRgba(slice.labels, slice.width, rect, colors, imageData.data);
+      ctx.putImageData(imageData, rect.x, rect.y);
+  };
+
+  const getRenderCanvas = (sliceIdx: number, segments: Segment[]) => {
       const caches = getSeriesCaches();
       if (!caches) return null;
-      const { renderBySlice, maskBySlice } = caches;
+      const { renderBySlice } = caches;
 
       // 1. Check Visual Cache
       if (renderBySlice.has(sliceIdx)) {
           return renderBySlice.get(sliceIdx);
       }
 
-      // 2. Check Data Mask (ID Map)
-      const maskCanvas = maskBySlice.get(sliceIdx);
-      if (!maskCanvas) return null;
+      // 2. Check Label Map
+      const slice = maskStore.getLabelSlice(series!.id, sliceIdx);
+      if (!slice) return null;
 
-      // 3. Rebuild Visual Cache from Data Mask
+      // 3. Rebuild Visual Cache from the labels
       const renderCanvas = document.createElement('canvas');
-      renderCanvas.width = w; renderCanvas.height = h;
-      const rCtx = renderCanvas.getContext('2d');
-      const mCtx = maskCanvas.getContext('2d', { willReadFrequently: true });
-      if (!rCtx || !mCtx) return null;
-
-      const maskData = mCtx.getImageData(0, 0, w, h);
-      const renderData = rCtx.createImageData(w, h); // Initialized to transparent black
-
-      // Create lookup map for speed
-      const segMap = new Map<number, {r:number, g:number, b:number}>();
-      segments.forEach(s => {
-         if (s.isVisible) {
-             segMap.set(s.id, { r: s.color[0], g: s.color[1], b: s.color[2] });
-         }
-      });
-
-      const src = maskData.data;
-      const dst = renderData.data;
-      const len = src.length;
-
-      // Pixel Iteration: Map ID -> Color
-      for (let i = 0; i < len; i += 4) {
-          const alpha = src[i+3];
-          
-          if (alpha > 200) { 
-              // Recover ID directly from Red channel.
-              const id = src[i];
-              
-              const color = segMap.get(id);
-              if (color) {
-                  dst[i] = color.r;
-                  dst[i+1] = color.g;
-                  dst[i+2] = color.b;
-                  dst[i+3] = 255; 
-              }
-          }
-      }
+      renderCanvas.width = slice.width;
+      renderCanvas.height = slice.height;
+      drawLabelsToCanvas(renderCanvas, slice, { x: 0, y: 0, width: slice.width, height: slice.height }, segments);
 
-      rCtx.putImageData(renderData, 0, 0);
+      // Renders are rebuilt on demand, so only the most recently drawn slices are kept
+      if (renderBySlice.size >= RENDER_CACHE_LIMIT) renderBySlice.delete(renderBySlice.keys().next().value!);
       renderBySlice.set(sliceIdx, renderCanvas);
       return renderCanvas;
   };
@@ -219,7 +281,7 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
       sliceIdx: number, 
       layer: SegmentationLayer
   ) => {
-      const visualCanvas = getRenderCanvas(sliceIdx, width, height, layer.segments);
+      const visualCanvas = getRenderCanvas(sliceIdx, layer.segments);
       if (visualCanvas) {
          ctx.save();
          ctx.globalAlpha = layer.opacity;
@@ -228,61 +290,10 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
       }
   };
 
-  const getActiveMaskCanvas = (width: number, height: number): HTMLCanvasElement | null => {
-     const caches = getSeriesCaches();
-     if (!caches) return null;
-     const { maskBySlice } = caches;
-     
-     if (!maskBySlice.has(sliceIndex)) {
-        const c = document.createElement('canvas');
-        c.width = width;
-        c.height = height;
-        maskBySlice.set(sliceIndex, c);
-     }
-     return maskBySlice.get(sliceIndex)!;
-  };
-
-  const recomputeSliceSegments = (sliceIdx: number) => {
-    const caches = getSeriesCaches();
-    if (!caches) return;
-    const { sliceIdsBySlice, maskBySlice } = caches;
-  
-    const existing = sliceIdsBySlice.get(sliceIdx);
-    if (!existing || existing.size === 0) return;
-  
-    const maskCanvas = maskBySlice.get(sliceIdx);
-    if (!maskCanvas) {
-      // No mask at all → clear set and badge
-      sliceIdsBySlice.set(sliceIdx, new Set());
-      onSegmentedSliceUpdate?.(sliceIdx, 0);
-      return;
-    }
-  
-    const ctx = maskCanvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
-  
-    const { width, height } = maskCanvas;
-    const { data } = ctx.getImageData(0, 0, width, height);
-  
-    const remaining = new Set<number>();
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];        // stored segment id
-      const a = data[i + 3];    // alpha
-      if (a > 0 && existing.has(r)) {
-        remaining.add(r);
-        // Optimization: if we found all existing IDs, we can stop early
-        if (remaining.size === existing.size) break;
-      }
-    }
-  
-    // Only update and notify if something actually changed
-    if (remaining.size !== existing.size) {
-      sliceIdsBySlice.set(sliceIdx, remaining);
-      onSegmentedSliceUpdate?.(sliceIdx, remaining.size);
-    }
-  };
-
   // --- MAIN RENDER FUNCTION ---
+  // mm when the series carries Pixel Spacing, px otherwise
+  const calibration = getCalibration(series);
+
   const renderScene = () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -293,7 +304,8 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
     ctx.fillStyle = '#000000';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    if (!currentImageBitmap) return;
+    const displayCanvas = displayCanvasRef.current;
+    if (!currentImage || !displayCanvas) return;
 
     ctx.save();
     
@@ -302,58 +314,54 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
     ctx.scale(viewport.scale, viewport.scale);
     
     // Draw Image Centered
-    const w = currentImageBitmap.width || 512; 
-    const h = currentImageBitmap.height || 512;
+    const w = currentImage.columns; 
+    const h = currentImage.rows;
     ctx.translate(-w/2, -h/2);
-    ctx.drawImage(currentImageBitmap, 0, 0, w, h);
+    ctx.drawImage(displayCanvas, 0, 0, w, h);
+
+    // --- FUSION OVERLAY ---
+    if (fusionImage && fusionSeries && fusionSettings && fusionCanvasRef.current) {
+       const placement = getFusionPlacement(currentImage, series!, fusionImage, fusionSeries);
+       ctx.save();
+       ctx.globalAlpha = fusionSettings.opacity;
+       ctx.drawImage(fusionCanvasRef.current, placement.x, placement.y, placement.width, placement.height);
+       ctx.restore();
+    }
 
     // --- SEGMENTATION LAYER RENDERING ---
     if (segmentationLayer.isVisible) {
        renderLabelMap(ctx, w, h, sliceIndex, segmentationLayer);
     }
+    if (pendingSelection?.slices.has(sliceIndex) && previewCanvasRef.current) {
+       ctx.drawImage(previewCanvasRef.current, 0, 0, w, h);
+    }
 
     // --- MEASUREMENT LAYER RENDERING ---
-    const sliceMeasurements = measurements.filter(m => m.sliceIndex === sliceIndex);
+    const sliceMeasurements = measurements
+      .map(m => (m.id === editedMeasurement?.id ? editedMeasurement : m))
+      .filter(m => m.sliceIndex === sliceIndex);
+    const unit = 1 / viewport.scale;
     
     // Track occupied label space to resolve overlaps
     // Stores { x, y, w, h } in world (image) coordinates, but with scale factors accounted for collision
     const labelBoxes: {x: number, y: number, w: number, h: number}[] = [];
 
-    const drawLine = (m: Measurement, isSelected: boolean) => {
-      ctx.beginPath();
-      ctx.strokeStyle = isSelected ? '#4ade80' : '#fbbf24'; 
-      ctx.lineWidth = 2 / viewport.scale;
-      ctx.moveTo(m.start.x, m.start.y);
-      ctx.lineTo(m.end.x, m.end.y);
-      ctx.stroke();
-
-      const r = 4 / viewport.scale;
-      ctx.fillStyle = isSelected ? '#4ade80' : '#fbbf24';
-      ctx.beginPath(); ctx.arc(m.start.x, m.start.y, r, 0, 6.28); ctx.fill();
-      ctx.beginPath(); ctx.arc(m.end.x, m.end.y, r, 0, 6.28); ctx.fill();
-
-      if (m.value > 0) {
+    const drawLabel = (text: string, anchorX: number, anchorY: number) => {
         ctx.fillStyle = '#fff';
         ctx.shadowColor = 'black';
         ctx.shadowBlur = 4;
-        const fontSize = 14 / viewport.scale;
+        const fontSize = 14 * unit;
         ctx.font = `bold ${fontSize}px monospace`;
         
-        const mx = (m.start.x + m.end.x)/2;
-        const my = (m.start.y + m.end.y)/2;
-        const val = (m.value * 0.5).toFixed(1);
-        const labelText = m.label ? `${m.label}: ` : '';
-        const fullText = `${labelText}${val} mm`;
-        
-        const metrics = ctx.measureText(fullText);
+        const metrics = ctx.measureText(text);
         const textWidth = metrics.width;
         
         // Initial Position (offset by 10 pixels in image space)
-        let textX = mx + 10;
-        let textY = my;
+        let textX = anchorX + 10;
+        let textY = anchorY;
 
         // Collision Resolution (Move down if overlapping)
-        const padding = 2 / viewport.scale;
+        const padding = 2 * unit;
         let attempts = 0;
         const shiftStep = fontSize + padding;
 
@@ -382,13 +390,103 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
 
         labelBoxes.push({ x: textX, y: textY, w: textWidth, h: fontSize });
 
-        ctx.fillText(fullText, textX, textY);
+        ctx.fillText(text, textX, textY);
         ctx.shadowBlur = 0;
+    };
+
+    // Filled head at `tip`, pointing away from `tail`
+    const drawArrowHead = (tail: Point, tip: Point, size: number) => {
+      const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+      ctx.beginPath();
+      ctx.moveTo(tip.x, tip.y);
+      ctx.lineTo(tip.x - size * Math.cos(angle - 0.45), tip.y - size * Math.sin(angle - 0.45));
+      ctx.lineTo(tip.x - size * Math.cos(angle + 0.45), tip.y - size * Math.sin(angle + 0.45));
+      ctx.closePath();
+      ctx.fill();
+    };
+
+    const drawMeasurement = (m: Measurement, isSelected: boolean) => {
+      const hover = hoveredTarget?.id === m.id ? hoveredTarget : null;
+      const color = isSelected ? '#4ade80' : hover ? '#fde047' : '#fbbf24';
+      const points = getMeasurementPoints(m);
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = (hover && hover.handle === null ? 3 : 2) * unit;
+
+      // Outline
+      ctx.beginPath();
+      switch (m.type) {
+        case 'cobb':
+          ctx.moveTo(points[0].x, points[0].y); ctx.lineTo(points[1].x, points[1].y);
+          ctx.moveTo(points[2].x, points[2].y); ctx.lineTo(points[3].x, points[3].y);
+          break;
+        case 'ellipse':
+          ctx.ellipse((m.start.x + m.end.x) / 2, (m.start.y + m.end.y) / 2, Math.abs(m.end.x - m.start.x) / 2, Math.abs(m.end.y - m.start.y) / 2, 0, 0, Math.PI * 2);
+          break;
+        default:
+          points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+          if (m.type === 'freehand') ctx.closePath();
+      }
+      ctx.stroke();
+
+      if (m.type === 'arrow') {
+        drawArrowHead(m.start, m.end, 10 * unit);
+        if (m.label) {
+          // Text sits beyond the tail, away from the shaft
+          ctx.font = `bold ${14 * unit}px monospace`;
+          const offset = m.start.x < m.end.x ? -20 - ctx.measureText(m.label).width : 0;
+          drawLabel(m.label, m.start.x + offset, m.start.y);
+        }
+        return;
+      }
+
+      // Handles (a freehand outline has too many points to show)
+      if (m.type !== 'freehand') {
+        points.forEach((p, i) => {
+          const r = (hover?.handle === i ? 6 : 4) * unit;
+          ctx.beginPath(); ctx.arc(p.x, p.y, r, 0, 6.28); ctx.fill();
+        });
       }
+
+      const measured = getMeasurementValue(m, calibration);
+      if (!measured || measured.value <= 0) return;
+      // Labels next to the midpoint of a line, the vertex of an angle, or the right edge of an ROI
+      const xs = points.map(p => p.x);
+      const anchor =
+        m.type === 'angle' ? points[1] :
+        m.type === 'ellipse' || m.type === 'freehand' ? { x: Math.max(...xs), y: (Math.min(...points.map(p => p.y)) + Math.max(...points.map(p => p.y))) / 2 } :
+        { x: xs.reduce((a, b) => a + b, 0) / xs.length, y: points.reduce((a, p) => a + p.y, 0) / points.length };
+      const labelText = m.label ? `${m.label}: ` : '';
+      drawLabel(`${labelText}${formatMeasurementValue(measured)}`, anchor.x, anchor.y);
+      if ('stats' in m && m.stats) drawLabel(formatRoiStats(m.stats, getPixelValueUnit(currentImage.modality ?? series?.modality)), anchor.x, anchor.y);
     };
 
-    sliceMeasurements.forEach(m => drawLine(m, m.id === activeMeasurementId));
-    if (draftMeasurement) drawLine(draftMeasurement, true);
+    sliceMeasurements.forEach(m => drawMeasurement(m, m.id === activeMeasurementId));
+    if (draftMeasurement) drawMeasurement(draftMeasurement, true);
+
+    // --- ARROW ANNOTATIONS ---
+    // Fixed on-screen size: the shaft runs up and to the left of the tip, label at its tail
+    annotations.filter(a => a.sliceIndex === sliceIndex).forEach(a => {
+      const tip = { x: a.tip.x * w, y: a.tip.y * h };
+      const tail = { x: tip.x - 40 * unit, y: tip.y - 40 * unit };
+
+      ctx.strokeStyle = '#22d3ee';
+      ctx.fillStyle = '#22d3ee';
+      ctx.lineWidth = 2.5 * unit;
+      ctx.shadowColor = 'black';
+      ctx.shadowBlur = 4;
+      ctx.beginPath();
+      ctx.moveTo(tail.x, tail.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.stroke();
+      drawArrowHead(tail, tip, 10 * unit);
+
+      ctx.font = `bold ${13 * unit}px sans-serif`;
+      ctx.textAlign = 'right';
+      ctx.fillText(a.label, tail.x - 3 * unit, tail.y - 3 * unit);
+      ctx.textAlign = 'left';
+      ctx.shadowBlur = 0;
+    });
 
     ctx.restore();
   };
@@ -457,26 +555,55 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
       setViewport(DEFAULT_VIEWPORT_STATE);
       setLoadError(null);
       setRenderTick(0);
-      setCurrentImageBitmap(null);
+      setCurrentImage(null);
+      imageSliceRef.current = -1;
       hasFittedRef.current = false;
-
-      setTimeout(() => {
-        if (currentSeriesIdRef.current !== series.id) return;
-        const caches = getSeriesCaches();
-        if (caches && caches.sliceIdsBySlice.size > 0) {
-            caches.sliceIdsBySlice.forEach((ids, idx) => {
-                onSegmentedSliceUpdate?.(idx, ids.size);
-            });
-        }
-      }, 0);
+      hasWindowedRef.current = false;
     }
   }, [series?.id]);
 
+  // Masks painted in another viewport showing the same series: drop the stale colored render
+  useEffect(() => {
+    return maskStore.subscribe((changedSeriesId, changedSlice, source) => {
+      if (source === viewerIdRef.current) return;
+      if (changedSeriesId === null) {
+        renderCacheRef.current.forEach(map => map.clear());
+      } else {
+        if (changedSeriesId !== currentSeriesIdRef.current) return;
+        const renderBySlice = renderCacheRef.current.get(changedSeriesId);
+        if (changedSlice === null) renderBySlice?.clear();
+        else renderBySlice?.delete(changedSlice);
+      }
+      setRenderTick(t => t + 1);
+    });
+  }, [maskStore]);
+
+  // Report user-driven viewport changes (only the properties that changed) so linked panes can follow
+  const lastViewportRef = useRef<ViewportState>(viewport);
+  useEffect(() => {
+    const previous = lastViewportRef.current;
+    lastViewportRef.current = viewport;
+    if (!userViewportChangeRef.current) return;
+    userViewportChangeRef.current = false;
+    const changes = (Object.keys(viewport) as (keyof ViewportState)[])
+      .filter(key => viewport[key] !== previous[key])
+      .reduce<Partial<ViewportState>>((acc, key) => ({ ...acc, [key]: viewport[key] }), {});
+    if (Object.keys(changes).length > 0) onViewportChange?.(changes);
+  }, [viewport]);
+
+  // Apply changes coming from a linked pane (not re-reported)
+  useEffect(() => {
+    if (!linkedViewport) return;
+    setViewport(p => ({ ...p, ...linkedViewport.patch }));
+    // A linked window overrides the series default
+    if (linkedViewport.patch.windowWidth !== undefined) hasWindowedRef.current = true;
+  }, [linkedViewport?.seq]);
+
   // Fit to View Logic
   useLayoutEffect(() => {
-    if (currentImageBitmap && !hasFittedRef.current && canvasSize.width > 0 && canvasSize.height > 0) {
-      const imgW = currentImageBitmap.width || 512;
-      const imgH = currentImageBitmap.height || 512;
+    if (currentImage && !hasFittedRef.current && canvasSize.width > 0 && canvasSize.height > 0) {
+      const imgW = currentImage.columns;
+      const imgH = currentImage.rows;
       if (imgW === 0 || imgH === 0) return;
 
       const scaleX = canvasSize.width / imgW;
@@ -486,7 +613,7 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
       setViewport(prev => ({ ...prev, scale, pan: { x: 0, y: 0 } }));
       hasFittedRef.current = true;
     }
-  }, [currentImageBitmap, canvasSize.width, canvasSize.height]);
+  }, [currentImage, canvasSize.width, canvasSize.height]);
 
   // 2. Invalidate Render Cache when Segment Definitions Change
   useEffect(() => {
@@ -515,7 +642,6 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
   // 4. Fetch Image Data (Current Frame)
   useEffect(() => {
     let active = true;
-    let objectUrl: string | null = null;
 
     const loadFrame = async () => {
       if (!series || series.instances.length === 0) return;
@@ -530,24 +656,21 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
 
       const url = series.instances[sliceIndex];
       try {
-        // Fetch Blob (Will use Memory Cache if available)
-        const blob = await fetchDicomImageBlob(dicomConfig, url);
+        // Fetch + decode (Will use Memory Cache if available)
+        const image = await loadDicomImage(dicomConfig, url);
         
         if (!active) return;
 
-        objectUrl = URL.createObjectURL(blob);
-        const img = new Image();
-        img.src = objectUrl;
-        
-        await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = reject;
-        });
-
-        if (active) {
-          setCurrentImageBitmap(img);
-          setIsImageLoading(false);
+        if (!hasWindowedRef.current) {
+          const preset = initialWindowPreset ? getWlPresets(image.modality || series.modality).find(p => p.label === initialWindowPreset) : undefined;
+          const voi = preset ? resolveWindowPreset(preset, image) : getDefaultWindow(image);
+          setViewport(p => ({ ...p, ...voi }));
+          hasWindowedRef.current = true;
         }
+
+        imageSliceRef.current = sliceIndex;
+        setCurrentImage(image);
+        setIsImageLoading(false);
       } catch (err: any) {
         if (active) {
           console.error("Frame Load Error", err);
@@ -560,14 +683,95 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
     loadFrame();
     return () => {
       active = false;
-      if (objectUrl) URL.revokeObjectURL(objectUrl);
     };
   }, [series, sliceIndex, connectionType, dicomConfig]);
 
-  // 5. Render Loop
+  // 5. VOI LUT: map raw modality values through the current window into the display buffer
+  useLayoutEffect(() => {
+    if (!currentImage) return;
+    if (!displayCanvasRef.current) displayCanvasRef.current = document.createElement('canvas');
+    renderImageToCanvas(currentImage, displayCanvasRef.current, {
+      windowCenter: viewport.windowCenter,
+      windowWidth: viewport.windowWidth,
+      voiLutFunction: viewport.voiLutFunction,
+    });
+  }, [currentImage, viewport.windowCenter, viewport.windowWidth, viewport.voiLutFunction]);
+
+  // 6. ROIs without statistics (e.g. restored from a DICOM SR) get them once their slice is shown
+  useEffect(() => {
+    if (!currentImage || imageSliceRef.current !== sliceIndex) return;
+    measurements.forEach(m => {
+      if ((m.type === 'ellipse' || m.type === 'freehand') && !m.stats && m.sliceIndex === sliceIndex) {
+        const stats = computeRoiStats(currentImage, m);
+        if (stats) onMeasurementUpdate({ ...m, stats });
+      }
+    });
+  }, [currentImage, measurements, sliceIndex]);
+
+  // 7. Fusion: load the overlay slice matching the current one, then color-map it with its own window
+  useEffect(() => {
+    if (!fusionSeries || fusionSliceIndex < 0 || !fusionSeries.instances[fusionSliceIndex]) {
+      setFusionImage(null);
+      return;
+    }
+    let active = true;
+    loadDicomImage(dicomConfig, fusionSeries.instances[fusionSliceIndex])
+      .then(image => { if (active) setFusionImage(image); })
+      .catch(err => {
+        if (!active) return;
+        console.error("Fusion Load Error", err);
+        setFusionImage(null);
+      });
+    return () => {
+      active = false;
+    };
+  }, [fusionSeries, fusionSliceIndex, dicomConfig]);
+
+  useLayoutEffect(() => {
+    if (!fusionImage || !fusionSettings) return;
+    if (!fusionCanvasRef.current) fusionCanvasRef.current = document.createElement('canvas');
+    renderFusionToCanvas(fusionImage, fusionCanvasRef.current, getDefaultWindow(fusionImage), fusionSettings.colormap, fusionSettings.threshold);
+  }, [fusionImage, fusionSettings?.colormap, fusionSettings?.threshold]);
+
+  // Preview of the pending selection on this slice, in the active segment's color
+  useLayoutEffect(() => {
+    const selected = pendingSelection?.slices.get(sliceIndex);
+    if (!pendingSelection || !selected) return;
+    if (!previewCanvasRef.current) previewCanvasRef.current = document.createElement('canvas');
+    const canvas = previewCanvasRef.current;
+    canvas.width = pendingSelection.width;
+    canvas.height = pendingSelection.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const color = segmentationLayer.segments.find(s => s.id === segmentationLayer.activeSegmentId)?.color ?? [255, 255, 0];
+    const out = ctx.createImageData(canvas.width, canvas.height);
+    selected.forEach((v, i) => {
+      if (!v) return;
+      out.data.set([color[0], color[1], color[2], 160], i * 4);
+    });
+    ctx.putImageData(out, 0, 0);
+  }, [pendingSelection, sliceIndex, segmentationLayer.segments, segmentationLayer.activeSegmentId]);
+
+  // A pending selection belongs to its series
+  useEffect(() => {
+    setPendingSelection(null);
+    setSegToolStatus(null);
+    thresholdStrokeRef.current = null;
+  }, [series?.id]);
+
+  // A half-drawn (or half-dragged) measurement does not survive a tool or slice change
+  useEffect(() => {
+    setDraftMeasurement(null);
+    draftPointRef.current = null;
+    setEditedMeasurement(null);
+    setHoveredTarget(null);
+    editRef.current = null;
+  }, [activeTool, sliceIndex, series?.id]);
+
+  // 8. Render Loop
   useLayoutEffect(() => {
     renderScene();
-  }, [viewport, currentImageBitmap, measurements, activeMeasurementId, draftMeasurement, sliceIndex, segmentationLayer, renderTick, canvasSize]);
+  }, [viewport, currentImage, measurements, activeMeasurementId, draftMeasurement, editedMeasurement, hoveredTarget, pendingSelection, annotations, sliceIndex, segmentationLayer, renderTick, canvasSize, fusionImage, fusionSettings?.colormap, fusionSettings?.threshold, fusionSettings?.opacity]);
 
 
   // --- INTERACTION HANDLERS ---
@@ -582,8 +786,8 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
      const centeredX = x - canvas.width/2 - viewport.pan.x;
      const centeredY = y - canvas.height/2 - viewport.pan.y;
      return { 
-       x: (centeredX / viewport.scale) + (currentImageBitmap?.width || 512)/2, 
-       y: (centeredY / viewport.scale) + (currentImageBitmap?.height || 512)/2 
+       x: (centeredX / viewport.scale) + (currentImage?.columns || 512)/2, 
+       y: (centeredY / viewport.scale) + (currentImage?.rows || 512)/2 
      };
   };
 
@@ -601,40 +805,258 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
     const p = getCanvasPoint(e);
 
     if (e.button === 0) {
-        if (activeTool === ToolMode.MEASURE) {
-            setDraftMeasurement({
-                id: 'draft',
-                start: p, end: p, value: 0,
-                sliceIndex: sliceIndex,
-                createdAt: Date.now()
-            });
+        const measurementType = MEASUREMENT_TOOL_TYPES[activeTool];
+        if (measurementType) {
+            handleDraftPointerDown(measurementType, p);
+        } else if (activeTool === ToolMode.POINTER) {
+            const target = hitTestEditTarget(p);
+            onMeasurementSelect?.(target?.measurement.id ?? null);
+            if (target) editRef.current = { handle: target.handle, origin: p, original: target.measurement };
         }
         
         const isPaintTool = activeTool === ToolMode.BRUSH || activeTool === ToolMode.ERASER;
-        if (isPaintTool && segmentationLayer.isVisible && currentImageBitmap) {
+        if (isPaintTool && segmentationLayer.isVisible && currentImage) {
             if (activeTool === ToolMode.BRUSH && !segmentationLayer.activeSegmentId) return;
             interactionRef.current.lastDrawPoint = p;
+            // Record the stroke for undo/redo
+            maskStore.beginStroke(series!.id, sliceIndex, currentImage.columns, currentImage.rows);
             paintOnMask(p, p);
         }
+
+        if (activeTool === ToolMode.THRESHOLD_BRUSH) startThresholdStroke(p);
+        else if (activeTool === ToolMode.REGION_GROW) runRegionGrowing(p);
+        else if (activeTool === ToolMode.FLOOD_FILL) runFloodFill(p);
+    }
+  };
+
+  // --- SEMI-AUTOMATIC SEGMENTATION ---
+  // The threshold brush adds to the pending selection stroke by stroke; region growing and flood fill
+  // replace it on each click. Nothing reaches the masks until the selection is applied.
+
+  const getCurrentValues = (): Float32Array | null => {
+    if (!currentImage) return null;
+    if (currentValuesRef.current?.image !== currentImage) {
+      currentValuesRef.current = { image: currentImage, values: getModalityValues(currentImage) };
+    }
+    return currentValuesRef.current.values;
+  };
+
+  const canRunSegTool = () => {
+    if (!series || !currentImage || imageSliceRef.current !== sliceIndex) return false;
+    if (!segmentationLayer.activeSegmentId) {
+      setSegToolStatus({ message: 'Pick a segment in the Segmentation panel first.' });
+      return false;
+    }
+    return true;
+  };
+
+  const addThresholdStroke = (p1: Point, p2: Point) => {
+    const values = getCurrentValues();
+    if (!values || !currentImage) return;
+    const { columns: width, rows: height } = currentImage;
+    const range = segmentationLayer.thresholdRange
+      ?? [viewport.windowCenter - viewport.windowWidth / 2, viewport.windowCenter + viewport.windowWidth / 2];
+    setPendingSelection(prev => {
+      const base = prev && prev.width === width && prev.height === height ? prev : { width, height, slices: new Map<number, Uint8Array>() };
+      const selected = base.slices.get(sliceIndex) ?? new Uint8Array(width * height);
+      selectThresholdStroke(values, width, height, p1, p2, segmentationLayer.brushSize / 2, range, selected);
+      return { width, height, slices: new Map(base.slices).set(sliceIndex, selected) };
+    });
+  };
+
+  const startThresholdStroke = (p: Point) => {
+    if (!canRunSegTool()) return;
+    setSegToolStatus(null);
+    thresholdStrokeRef.current = p;
+    addThresholdStroke(p, p);
+  };
+
+  const runRegionGrowing = async (p: Point) => {
+    if (!canRunSegTool() || !series || !currentImage) return;
+    const { columns: width, rows: height } = currentImage;
+    const { min, max } = getModalityRange(currentImage);
+    const tolerance = segmentationLayer.growTolerance * Math.max(max - min, 1);
+    const in3d = segmentationLayer.growIn3d;
+    const seriesId = series.id;
+    const seed = { ...p, sliceIndex };
+    const slices: (Float32Array | null)[] = series.instances.map(() => null);
+    slices[sliceIndex] = getCurrentValues();
+
+    const isStale = () => currentSeriesIdRef.current !== seriesId;
+
+    setSegToolStatus({ message: in3d ? 'Loading slices for 3D region growing…' : 'Growing region…', isBusy: true });
+    try {
+      let selection: SegmentationSelection;
+      if (in3d) {
+        // Slices that fail to load or differ in size act as walls
+        const images = await loadSeriesImagesOrNull(dicomConfig, series.instances, isStale);
+        images.forEach((image, z) => {
+          if (image && z !== sliceIndex && image.columns === width && image.rows === height) slices[z] = getModalityValues(image);
+        });
+        if (isStale()) return;
+        setSegToolStatus({ message: 'Growing region…', isBusy: true });
+        selection = await getLabelWorker().growRegion(slices, width, height, seed, tolerance, true);
+      } else {
+        selection = growRegion(slices, width, height, seed, tolerance, false);
+      }
+      if (isStale()) return;
+      setPendingSelection(selection);
+      setSegToolStatus(selection.truncated ? { message: 'The region was cut off at its size limit; try a lower tolerance.' } : null);
+    } catch (err: any) {
+      if (isStale()) return;
+      setSegToolStatus({ message: err.message || 'Region growing failed' });
+    }
+  };
+
+  const runFloodFill = (p: Point) => {
+    if (!canRunSegTool() || !series || !currentImage) return;
+    const { columns: width, rows: height } = currentImage;
+    const mask = maskStore.getLabelSlice(series.id, sliceIndex);
+    try {
+      if (mask && (mask.width !== width || mask.height !== height)) throw new Error('The mask on this slice does not match the image size.');
+      const filled = floodFillContour(mask?.labels ?? null, width, height, p);
+      setPendingSelection({ width, height, slices: new Map([[sliceIndex, filled]]) });
+      setSegToolStatus(null);
+    } catch (err: any) {
+      setSegToolStatus({ message: err.message || 'Flood fill failed' });
+    }
+  };
+
+  // Each slice is one undoable edit, like a brush stroke
+  const applyPendingSelection = () => {
+    const segId = segmentationLayer.activeSegmentId;
+    const caches = getSeriesCaches();
+    if (!pendingSelection || !series || !segId || !caches) return;
+    const { width, height } = pendingSelection;
+    pendingSelection.slices.forEach((selected, idx) => {
+      if (!selected.some(v => v)) return;
+      const slice = maskStore.beginStroke(series.id, idx, width, height);
+      const rect = applySelectionToLabels(slice.labels, width, selected, segId);
+      if (rect) maskStore.markDirty(rect);
+      const change = maskStore.endStroke();
+
+      caches.renderBySlice.delete(idx);
+      if (change) onSegmentedSliceUpdate?.(idx, change.labelCount);
+      maskStore.notify(series.id, idx, viewerIdRef.current);
+    });
+    setPendingSelection(null);
+    setSegToolStatus(null);
+    setRenderTick(t => t + 1);
+  };
+
+  const discardPendingSelection = () => {
+    setPendingSelection(null);
+    setSegToolStatus(null);
+  };
+
+  // --- MEASUREMENT DRAWING ---
+  // Lengths, ellipses, freehand ROIs and arrows are one drag. An angle is a drag along the first arm and a
+  // click at the end of the second; a Cobb angle is two drags, one per line.
+
+  const commitDraft = (draft: Measurement) => {
+    setDraftMeasurement(null);
+    draftPointRef.current = null;
+    if (!isMeasurementLargeEnough(draft)) return;
+    let m: Measurement = { ...draft, id: Date.now().toString(), label: `${MEASUREMENT_LABEL_PREFIXES[draft.type]}${measurements.length + 1}` };
+    if ((m.type === 'ellipse' || m.type === 'freehand') && currentImage && imageSliceRef.current === m.sliceIndex) {
+      m = { ...m, stats: computeRoiStats(currentImage, m) ?? undefined };
+    }
+    onMeasurementAdd(m);
+  };
+
+  const handleDraftPointerDown = (type: Measurement['type'], p: Point) => {
+    if (draftMeasurement?.type === 'angle') {
+      commitDraft(setMeasurementPoint(draftMeasurement, 2, p));
+      return;
+    }
+    if (draftMeasurement?.type === 'cobb') {
+      setDraftMeasurement(setMeasurementPoint(setMeasurementPoint(draftMeasurement, 2, p), 3, p));
+      draftPointRef.current = 3;
+      return;
+    }
+    setDraftMeasurement(createDraftMeasurement(type, p, sliceIndex));
+    // An arrow is drawn from its tip back to where the text goes
+    draftPointRef.current = type === 'freehand' ? -1 : type === 'arrow' ? 0 : 1;
+  };
+
+  const moveDraftPoint = (p: Point) => {
+    const index = draftPointRef.current;
+    if (!draftMeasurement || index === null) return;
+    if (index === -1 && draftMeasurement.type === 'freehand') {
+      // Sample the stroke every couple of screen pixels
+      const last = draftMeasurement.points[draftMeasurement.points.length - 1];
+      if (Math.hypot(p.x - last.x, p.y - last.y) < 2 / viewport.scale) return;
+      setDraftMeasurement({ ...draftMeasurement, points: [...draftMeasurement.points, p] });
+      return;
     }
+    setDraftMeasurement(setMeasurementPoint(draftMeasurement, index, p));
+  };
+
+  const handleDraftPointerUp = () => {
+    if (!draftMeasurement) return;
+    const index = draftPointRef.current;
+    if (draftMeasurement.type !== 'angle' && draftMeasurement.type !== 'cobb') {
+      commitDraft(draftMeasurement);
+      return;
+    }
+    if (index === 1) {
+      // First arm or line done: wait for the rest, unless it was only a click
+      const [a, b] = draftMeasurement.points;
+      if (Math.hypot(b.x - a.x, b.y - a.y) <= MIN_MEASUREMENT_SIZE) {
+        setDraftMeasurement(null);
+        draftPointRef.current = null;
+      } else {
+        draftPointRef.current = draftMeasurement.type === 'angle' ? 2 : null;
+      }
+    } else if (index === 3) {
+      commitDraft(draftMeasurement);
+    }
+  };
+
+  // --- MEASUREMENT EDITING ---
+  // Pointer-tool drags move one handle of a measurement, or the whole shape when grabbed elsewhere.
+
+  // Handles win over shapes, and the selected measurement's handles over the others'
+  const hitTestEditTarget = (p: Point): { measurement: Measurement; handle: number | null } | null => {
+    const tolerance = HIT_TOLERANCE / viewport.scale;
+    const sliceMeasurements = measurements.filter(m => m.sliceIndex === sliceIndex);
+    const byPriority = [...sliceMeasurements].reverse().sort((a, b) => Number(b.id === activeMeasurementId) - Number(a.id === activeMeasurementId));
+    for (const m of byPriority) {
+      const handle = hitTestHandle(m, p, tolerance);
+      if (handle !== null) return { measurement: m, handle };
+    }
+    const m = hitTestMeasurement(sliceMeasurements, p, tolerance);
+    return m ? { measurement: m, handle: null } : null;
+  };
+
+  const moveEditedMeasurement = (p: Point) => {
+    const edit = editRef.current;
+    if (!edit) return;
+    setEditedMeasurement(edit.handle === null
+      ? translateMeasurement(edit.original, p.x - edit.origin.x, p.y - edit.origin.y)
+      : setMeasurementPoint(edit.original, edit.handle, p));
+  };
+
+  const updateHover = (p: Point) => {
+    const target = hitTestEditTarget(p);
+    const id = target?.measurement.id ?? null;
+    const handle = target?.handle ?? null;
+    setHoveredTarget(prev => (prev?.id === id && prev?.handle === handle ? prev : id ? { id, handle } : null));
+  };
+
+  const finishEdit = () => {
+    if (!editRef.current) return;
+    editRef.current = null;
+    if (editedMeasurement) onMeasurementUpdate(editedMeasurement);
+    setEditedMeasurement(null);
   };
 
   const paintOnMask = (p1: Point, p2: Point) => {
-     if (!currentImageBitmap) return;
-     const w = currentImageBitmap.width || 512;
-     const h = currentImageBitmap.height || 512;
-     
-     const maskCanvas = getActiveMaskCanvas(w, h);
-     if (!maskCanvas) return;
-     
-     const ctxMask = maskCanvas.getContext('2d');
-     if (!ctxMask) return;
-     
-     const visualCanvas = getRenderCanvas(sliceIndex, w, h, segmentationLayer.segments);
-     const ctxVisual = visualCanvas?.getContext('2d');
+     if (!currentImage || !series) return;
+     const slice = maskStore.getLabelSlice(series.id, sliceIndex);
+     if (!slice || slice.width !== currentImage.columns || slice.height !== currentImage.rows) return;
 
      const isEraser = activeTool === ToolMode.ERASER;
-     const size = segmentationLayer.brushSize;
      const segId = segmentationLayer.activeSegmentId;
 
      if (!isEraser && segId) {
@@ -653,58 +1075,39 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
          }
      }
 
-     let visualColor = 'rgba(0,0,0,0)';
-     if (!isEraser && segId) {
-         const seg = segmentationLayer.segments.find(s => s.id === segId);
-         if (seg) visualColor = `rgb(${seg.color.join(',')})`;
-     }
-
-     const drawStroke = (ctx: CanvasRenderingContext2D, isMask: boolean) => {
-        ctx.save();
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.lineWidth = size;
-
-        if (isEraser) {
-            ctx.globalCompositeOperation = 'destination-out';
-            ctx.strokeStyle = 'rgba(0,0,0,1)';
-            ctx.fillStyle = 'rgba(0,0,0,1)';
-        } else {
-            ctx.globalCompositeOperation = 'source-over';
-            if (isMask) {
-                ctx.strokeStyle = `rgb(${segId}, 0, 0)`;
-                ctx.fillStyle = `rgb(${segId}, 0, 0)`; 
-            } else {
-                ctx.strokeStyle = visualColor;
-                ctx.fillStyle = visualColor;
-            }
-        }
+     const rect = paintStroke(slice, p1, p2, segmentationLayer.brushSize / 2, isEraser ? 0 : segId ?? 0);
+     if (!rect) return;
+     maskStore.markDirty(rect);
 
-        ctx.beginPath();
-        ctx.moveTo(p1.x, p1.y);
-        ctx.lineTo(p2.x, p2.y);
-        const passes = (isMask && !isEraser) ? 8 : 1;
-        for (let i = 0; i < passes; i++) ctx.stroke();
-
-        ctx.beginPath();
-        ctx.arc(p1.x, p1.y, size/2, 0, Math.PI*2);
-        ctx.fill();
-        ctx.beginPath();
-        ctx.arc(p2.x, p2.y, size/2, 0, Math.PI*2);
-        ctx.fill();
-        ctx.restore();
-     };
-
-     drawStroke(ctxMask, true);
-     if (ctxVisual) drawStroke(ctxVisual, false);
+     // Recolor only the painted area; a render that was not cached yet is built from the updated labels
+     const cached = getSeriesCaches()?.renderBySlice.get(sliceIndex);
+     if (cached) drawLabelsToCanvas(cached, slice, rect, segmentationLayer.segments);
      renderScene();
-
-     if (isEraser) {
-       recomputeSliceSegments(sliceIndex);
-     }
+     maskStore.notify(series.id, sliceIndex, viewerIdRef.current);
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    // Drawing tools follow the cursor, also between the clicks of an angle
+    if (draftMeasurement && draftPointRef.current !== null && interactionRef.current.activeButton !== 1) {
+      moveDraftPoint(getCanvasPoint(e));
+      return;
+    }
+
+    if (thresholdStrokeRef.current && interactionRef.current.activeButton === 0) {
+      const p = getCanvasPoint(e);
+      addThresholdStroke(thresholdStrokeRef.current, p);
+      thresholdStrokeRef.current = p;
+      return;
+    }
+
+    if (activeTool === ToolMode.POINTER) {
+      if (editRef.current && interactionRef.current.activeButton === 0) {
+        moveEditedMeasurement(getCanvasPoint(e));
+        return;
+      }
+      if (!interactionRef.current.isDragging) updateHover(getCanvasPoint(e));
+    }
+
     if (!interactionRef.current.isDragging) return;
     
     const { activeButton, dragStart } = interactionRef.current;
@@ -712,7 +1115,7 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
     if (activeButton === 1 && dragStart) {
         const dx = e.clientX - dragStart.x;
         const dy = e.clientY - dragStart.y;
-        setViewport(p => ({ ...p, pan: { x: p.pan.x + dx, y: p.pan.y + dy }}));
+        updateViewportFromUser(p => ({ ...p, pan: { x: p.pan.x + dx, y: p.pan.y + dy }}));
         interactionRef.current.dragStart = { x: e.clientX, y: e.clientY };
         return;
     }
@@ -732,17 +1135,20 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
     const dy = e.clientY - dragStart.y;
 
     if (activeTool === ToolMode.PAN && activeButton === 0) {
-      setViewport(p => ({ ...p, pan: { x: p.pan.x + dx, y: p.pan.y + dy }}));
+      updateViewportFromUser(p => ({ ...p, pan: { x: p.pan.x + dx, y: p.pan.y + dy }}));
       interactionRef.current.dragStart = { x: e.clientX, y: e.clientY };
     } else if (activeTool === ToolMode.ZOOM && activeButton === 0) {
       const zoomFactor = 1 + (dy * -0.005);
-      setViewport(p => ({ ...p, scale: Math.max(0.1, p.scale * zoomFactor) }));
+      updateViewportFromUser(p => ({ ...p, scale: Math.max(0.1, p.scale * zoomFactor) }));
       interactionRef.current.dragStart = { x: e.clientX, y: e.clientY };
     } else if (activeTool === ToolMode.WINDOW_LEVEL && activeButton === 0) {
-      setViewport(p => ({ 
+      // Sensitivity scales with the data range so 8-bit and 16-bit images feel the same
+      const range = currentImage ? getModalityRange(currentImage) : { min: 0, max: 1000 };
+      const step = Math.max(range.max - range.min, 1) / 500;
+      updateViewportFromUser(p => ({ 
         ...p, 
-        windowWidth: p.windowWidth + dx * 2, 
-        windowCenter: p.windowCenter - dy * 2 
+        windowWidth: Math.max(1, p.windowWidth + dx * step), 
+        windowCenter: p.windowCenter - dy * step 
       }));
       interactionRef.current.dragStart = { x: e.clientX, y: e.clientY };
     } else if (activeTool === ToolMode.SCROLL && activeButton === 0) {
@@ -758,38 +1164,41 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
             interactionRef.current.dragStart = { x: e.clientX, y: e.clientY };
         }
       }
-    } else if (activeTool === ToolMode.MEASURE && draftMeasurement && activeButton === 0) {
-      const p = getCanvasPoint(e);
-      const dist = Math.sqrt(Math.pow(p.x - draftMeasurement.start.x, 2) + Math.pow(p.y - draftMeasurement.start.y, 2));
-      setDraftMeasurement({ ...draftMeasurement, end: p, value: dist });
     }
   };
 
   const handleMouseUp = () => {
+    if (interactionRef.current.lastDrawPoint) {
+      // The store recounts the slice's segments (erasing may have removed some)
+      const change = maskStore.endStroke();
+      if (change) onSegmentedSliceUpdate?.(change.sliceIndex, change.labelCount);
+    }
+    const releasedButton = interactionRef.current.activeButton;
+    thresholdStrokeRef.current = null;
     interactionRef.current.isDragging = false;
     interactionRef.current.dragStart = null;
     interactionRef.current.lastDrawPoint = null;
     interactionRef.current.activeButton = null;
     setIsDraggingState(false);
 
-    if (activeTool === ToolMode.MEASURE && draftMeasurement) {
-      if (draftMeasurement.value > 5) {
-         onMeasurementAdd({
-             ...draftMeasurement,
-             id: Date.now().toString(),
-             label: `M${measurements.length + 1}`
-         });
-      }
-      setDraftMeasurement(null);
+    // Middle and right buttons pan and window; they never finish a drawing
+    if (releasedButton !== 1 && releasedButton !== 2) {
+      handleDraftPointerUp();
+      finishEdit();
     }
   };
+
+  const handleMouseLeave = () => {
+    handleMouseUp();
+    setHoveredTarget(null);
+  };
   
   const handleWheel = (e: React.WheelEvent) => {
      const isZoomAction = e.ctrlKey || e.metaKey || activeTool === ToolMode.ZOOM;
 
      if (isZoomAction) {
          const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
-         setViewport(p => ({ 
+         updateViewportFromUser(p => ({ 
              ...p, 
              scale: Math.max(0.1, Math.min(20, p.scale * zoomFactor) ) 
          }));
@@ -815,25 +1224,25 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
             return { width: newW, height: newH };
         });
     }
-    setViewport((vp) => ({ ...vp, pan: { x: 0, y: 0 } }));
-  };
-
-  const getFilterStyle = () => {
-    const c = (DEFAULT_VIEWPORT_STATE.windowWidth / viewport.windowWidth) * 100;
-    const b = 100 + ((DEFAULT_VIEWPORT_STATE.windowCenter - viewport.windowCenter) / 5);
-    return `contrast(${Math.max(0, c)}%) brightness(${Math.max(0, b)}%)`;
+    updateViewportFromUser((vp) => ({ ...vp, pan: { x: 0, y: 0 } }));
   };
 
   if (!series) {
     return <div className="flex-1 bg-black flex items-center justify-center text-gray-500">Select a series</div>;
   }
 
+  const windowPresets = getWlPresets(currentImage?.modality || series.modality);
+
   const scrollPct = series.instanceCount > 0 ? (sliceIndex / series.instanceCount) * 100 : 0;
   
   let cursorStyle = 'default';
   if (activeTool === ToolMode.PAN || (interactionRef.current.activeButton === 1 && isDraggingState)) cursorStyle = 'move';
   else if (activeTool === ToolMode.BRUSH || activeTool === ToolMode.ERASER) cursorStyle = 'crosshair';
+  else if (activeTool === ToolMode.THRESHOLD_BRUSH || activeTool === ToolMode.REGION_GROW || activeTool === ToolMode.FLOOD_FILL) cursorStyle = 'crosshair';
   else if (activeTool === ToolMode.ZOOM) cursorStyle = 'zoom-in';
+  else if (MEASUREMENT_TOOL_TYPES[activeTool]) cursorStyle = 'crosshair';
+  else if (activeTool === ToolMode.POINTER && editedMeasurement) cursorStyle = 'grabbing';
+  else if (activeTool === ToolMode.POINTER && hoveredTarget) cursorStyle = hoveredTarget.handle === null ? 'move' : 'grab';
 
   return (
     <div 
@@ -849,11 +1258,8 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        style={{ 
-          cursor: cursorStyle,
-          filter: getFilterStyle()
-        }}
+        onMouseLeave={handleMouseLeave}
+        style={{ cursor: cursorStyle }}
         className="block"
       />
       
@@ -864,6 +1270,35 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
          />
       </div>
 
+      {(pendingSelection || segToolStatus) && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 border border-slate-700 text-xs text-slate-200 shadow-lg">
+          {segToolStatus?.isBusy && <Loader2 className="w-3.5 h-3.5 animate-spin text-emerald-400" />}
+          {segToolStatus && <span className={segToolStatus.isBusy ? undefined : 'text-amber-300'}>{segToolStatus.message}</span>}
+          {pendingSelection && !segToolStatus?.isBusy && (
+            <>
+              <span>
+                Preview: {countSelected(pendingSelection).toLocaleString()} px
+                {pendingSelection.slices.size > 1 ? ` on ${pendingSelection.slices.size} slices` : ''}
+              </span>
+              <button
+                type="button"
+                onClick={applyPendingSelection}
+                className="px-2 py-0.5 rounded bg-emerald-600 hover:bg-emerald-500 text-white font-bold flex items-center gap-1"
+              >
+                <Check className="w-3 h-3" /> Apply
+              </button>
+              <button
+                type="button"
+                onClick={discardPendingSelection}
+                className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1"
+              >
+                <X className="w-3 h-3" /> Discard
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       {isImageLoading && (
         <div className="absolute top-4 right-8 text-blue-400">
           <Loader2 className="w-6 h-6 animate-spin" />
@@ -886,9 +1321,56 @@ const ViewerCanvas = forwardRef<ViewerHandle, ViewerCanvasProps>(({
         </div>
         <div>Modality: {series.modality}</div>
         <div>Scale: {viewport.scale.toFixed(2)}x</div>
+        <div className={calibration.unit === 'px' ? 'text-amber-400' : undefined}>
+          {calibration.unit === 'mm'
+            ? `Spacing: ${calibration.rowSpacing.toFixed(2)} × ${calibration.columnSpacing.toFixed(2)} mm${series.sliceThickness ? ` / ${series.sliceThickness.toFixed(1)} mm` : ''}`
+            : 'Uncalibrated: lengths in px'}
+        </div>
+        <div>W: {formatWindowValue(viewport.windowWidth)} L: {formatWindowValue(viewport.windowCenter)}{viewport.voiLutFunction !== 'LINEAR' ? ` (${viewport.voiLutFunction})` : ''}</div>
         {segmentationLayer.isVisible && <div className="text-emerald-400 mt-1">SEG: On ({(segmentationLayer.opacity*100).toFixed(0)}%)</div>}
+        {segmentationLayer.isVisible && maskStore.getInterpolatedSlices(series.id).has(sliceIndex) && (
+          <div className="text-amber-400">INTERPOLATED (not yet accepted)</div>
+        )}
+        {fusionSeries && fusionSettings && (
+          <div className="text-orange-400 mt-1">
+            FUSION: {fusionSeries.description} {fusionSliceIndex < 0 ? '–' : fusionSliceIndex + 1}/{fusionSeries.instanceCount} ({fusionSettings.colormap}, {(fusionSettings.opacity*100).toFixed(0)}%)
+          </div>
+        )}
       </div>
+      {currentImage && currentImage.samplesPerPixel === 1 && (
+        <div className="absolute bottom-4 left-4 flex flex-wrap items-center gap-1.5 text-[10px] font-mono pointer-events-auto max-w-[50%]">
+          {windowPresets.map(preset => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => applyWindowPreset(preset)}
+              className="px-2 py-0.5 rounded bg-slate-800/80 text-slate-200 border border-slate-600 hover:bg-slate-700/90"
+              title={preset.relative ? `${preset.label} (relative to image range)` : `${preset.label} (W ${preset.ww} / L ${preset.wc})`}
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={resetWindow}
+            className="px-2 py-0.5 rounded bg-slate-800/80 text-slate-400 border border-slate-700 hover:bg-slate-700/90"
+          >
+            Reset W/L
+          </button>
+        </div>
+      )}
+
       <div className="absolute bottom-4 right-8 flex items-center gap-3 text-xs font-mono pointer-events-auto">
+        {onClearAnnotations && annotations.length > 0 && (
+          <button
+              type="button"
+              onClick={onClearAnnotations}
+              className="px-2 py-1 rounded-md bg-slate-800/80 text-cyan-300 border border-slate-600 hover:bg-slate-700/90"
+              title="Remove the arrows placed on this series"
+          >
+              Clear arrows ({annotations.length})
+          </button>
+        )}
         <button
             type="button"
             onClick={centerView}
@@ -1,5 +1,5 @@
 
-import { ToolMode, Segment } from "./types";
+import { ToolMode, Segment, WindowPreset, ViewportState, ViewportLayout, ChatMessage } from "./types";
 import { 
   MousePointer2, 
   Sun, 
@@ -7,7 +7,12 @@ import {
   Search, 
   Ruler, 
   Layers,
-  Brush
+  Brush,
+  TriangleRight,
+  Spline,
+  Circle,
+  Lasso,
+  MoveUpRight
 } from "lucide-react";
 
 export const TOOLS = [
@@ -17,23 +22,53 @@ export const TOOLS = [
   { id: ToolMode.PAN, label: 'Pan', icon: Move },
   { id: ToolMode.ZOOM, label: 'Zoom', icon: Search },
   { id: ToolMode.MEASURE, label: 'Measure', icon: Ruler },
+  { id: ToolMode.ANGLE, label: 'Angle (drag the first arm, click the end of the second)', icon: TriangleRight },
+  { id: ToolMode.COBB_ANGLE, label: 'Cobb angle (drag two lines)', icon: Spline },
+  { id: ToolMode.ELLIPSE_ROI, label: 'Ellipse ROI', icon: Circle },
+  { id: ToolMode.FREEHAND_ROI, label: 'Freehand ROI', icon: Lasso },
+  { id: ToolMode.TEXT_ARROW, label: 'Text arrow (drag from the tip)', icon: MoveUpRight },
   { id: ToolMode.BRUSH, label: 'Paint', icon: Brush },
 ];
 
-export const DEFAULT_VIEWPORT_STATE = {
+export const DEFAULT_VIEWPORT_STATE: ViewportState = {
   scale: 1,
   pan: { x: 0, y: 0 },
-  windowWidth: 400, // CT Soft Tissue default approximation
+  windowWidth: 400, // CT Soft Tissue default approximation, replaced by the image's own window on load
   windowCenter: 40,
+  voiLutFunction: 'LINEAR',
   // sliceIndex removed from constant as it is dynamic
 };
 
-// Simulated DICOM Modality presets
-export const WL_PRESETS = [
-  { label: 'Default', ww: 400, wc: 40 },
-  { label: 'Lung', ww: 1500, wc: -600 },
-  { label: 'Bone', ww: 2000, wc: 300 },
-  { label: 'Brain', ww: 80, wc: 40 },
+// Window/Level presets per modality.
+// CT values are Hounsfield units; MR signal has no absolute scale, so MR presets are relative to the image range.
+export const WL_PRESETS: Record<string, WindowPreset[]> = {
+  CT: [
+    { label: 'Soft Tissue', ww: 400, wc: 40 },
+    { label: 'Lung', ww: 1500, wc: -600 },
+    { label: 'Bone', ww: 2000, wc: 300 },
+    { label: 'Brain', ww: 80, wc: 40 },
+  ],
+  MR: [
+    { label: 'Full Range', ww: 1, wc: 0.5, relative: true },
+    { label: 'Brain', ww: 0.7, wc: 0.4, relative: true },
+    { label: 'High Contrast', ww: 0.4, wc: 0.4, relative: true },
+    { label: 'Smooth', ww: 0.8, wc: 0.45, relative: true, voiLutFunction: 'SIGMOID' },
+  ],
+};
+
+// Used for modalities without a dedicated preset list
+export const DEFAULT_WL_PRESETS: WindowPreset[] = WL_PRESETS.MR;
+
+export const getWlPresets = (modality?: string): WindowPreset[] => {
+  return (modality && WL_PRESETS[modality.toUpperCase()]) || DEFAULT_WL_PRESETS;
+};
+
+// Multi-viewport layouts (columns × rows)
+export const VIEWPORT_LAYOUTS: { id: ViewportLayout; label: string; columns: number; rows: number }[] = [
+  { id: '1x1', label: 'Single', columns: 1, rows: 1 },
+  { id: '1x2', label: 'Side by side', columns: 2, rows: 1 },
+  { id: '1x3', label: 'Three across', columns: 3, rows: 1 },
+  { id: '2x2', label: '2 × 2 grid', columns: 2, rows: 2 },
 ];
 
 // Mock Segmentation Data (FreeSurfer Style LUT)
@@ -57,6 +92,13 @@ export const SERIES_DESCRIPTIONS: Record<string, string> = {
   "T1/3D/FFE/C": "3D scan after contrast dye. Tumors and vessels stand out.",
 };
 
+// First message of every (new or cleared) AI chat
+export const AI_WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  role: 'model',
+  text: "This is anonymized demo imaging from a public DICOM server. I’m a radiology teaching assistant: I can explain anatomy, help you describe what you see, and surface guideline snippets for learning — never real diagnoses, reports, or treatment decisions."
+};
+
 export const SUGGESTED_FOLLOWUPS = [
   "Walk me through the anatomy on this slice.",
   "What is this MRI sequence good for?",
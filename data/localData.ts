@@ -26,7 +26,19 @@ const generateImagePaths = (basePath: string, count: number): string[] => {
 export const LOCAL_STUDY_ID = "local-study-sub1";
 export const LOCAL_PATIENT_NAME = "Local Demo Patient";
 
-export const LOCAL_SERIES_CONFIG = [
+// PNG exports carry no DICOM header, so calibration has to be configured per series.
+// Leave pixelSpacing unset unless it is known from the source DICOM; measurements then show in px.
+export interface LocalSeriesConfig {
+  id: string;
+  description: string;
+  modality: string;
+  folder: string;
+  count: number;
+  pixelSpacing?: [number, number]; // mm, [row spacing, column spacing]
+  sliceThickness?: number; // mm
+}
+
+export const LOCAL_SERIES_CONFIG: LocalSeriesConfig[] = [
   {
     id: "ser-flair",
     description: "FLAIR",
@@ -78,5 +90,7 @@ export const LOCAL_SERIES: Series[] = LOCAL_SERIES_CONFIG.map(cfg => ({
   modality: cfg.modality,
   instanceCount: cfg.count,
   // Use absolute path starting with /public/ to match the file server structure
-  instances: generateImagePaths(`${ASSET_BASE_URL}/${cfg.folder}`, cfg.count)
+  instances: generateImagePaths(`${ASSET_BASE_URL}/${cfg.folder}`, cfg.count),
+  ...(cfg.pixelSpacing ? { pixelSpacing: cfg.pixelSpacing, pixelSpacingSource: 'Config' as const } : {}),
+  ...(cfg.sliceThickness ? { sliceThickness: cfg.sliceThickness } : {}),
 }));
\ No newline at end of file
@@ -1,9 +1,10 @@
-import { GoogleGenAI, GenerateContentResponse, Type, Schema } from "@google/genai";
 import { Measurement } from "../types";
+import { TEACHING_REPORT_SCHEMA, RawTeachingReport } from "../utils/teachingReport";
 import { LearnerLevel } from "../constants";
-
-// Initialize the client with the environment API key
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { ChatHistoryContent } from "../utils/chatHistory";
+import { formatSegmentStatsForReport } from "../utils/segmentStats";
+import { ViewerToolContext, VIEWER_TOOL_DECLARATIONS, describeViewerToolContext } from "../utils/viewerTools";
+import { getLlmProvider, JsonSchema, LlmMessage, LlmPart, LlmToolCall } from "./llm";
 
 // --- SYSTEM PROMPTS ---
 
@@ -18,29 +19,18 @@ You must follow these rules:
 
 Output format:
 
-Generate a concise MARKDOWN document with EXACTLY these sections (do not add others):
-
-# Educational Teaching Summary – NOT FOR CLINICAL USE
-One sentence stating this is a teaching summary generated from anonymized demo data for training and UX demonstration only. It is not a diagnosis or medical advice.
-
-## Study Context
-- Bullet points listing: Modality, Body Part/Region, Series Description, Approximate Plane/Orientation.
-- If measurements are present in the metadata, list them (Label + Size in mm).
-
-## Key Imaging Features (Descriptive Only)
-- Neutral description of visible anatomy and symmetry.
-- Describe findings (e.g., "high attenuation area", "discontinuity of cortex") without jumping to diagnostic conclusions (e.g., "hemorrhage", "fracture").
-- Use "Educational differential" framing if needed (e.g. "This appearance is classically described in...").
-
-## Teaching Points
-- 3–6 bullets aimed at residents/trainees.
-- Focus on: Anatomy, Pattern Recognition, Common Pitfalls, and how to use tools like calipers or window/level.
+Return ONE JSON object matching the supplied schema (no Markdown, no extra fields):
 
-## Questions for Learners
-- 2–4 self-test questions the learner could think about based on this scan.
-
-## Safety Note
-- One short paragraph stating this is for educational use only and must NOT be used for diagnosis, triage, or treatment decisions.
+- title: "Educational Teaching Summary – NOT FOR CLINICAL USE".
+- studyContext: Modality, Body Part/Region, Series Description, Approximate Plane/Orientation.
+- features: Key imaging features, descriptive only.
+  - Neutral description of visible anatomy and symmetry.
+  - Describe findings (e.g., "high attenuation area", "discontinuity of cortex") without jumping to diagnostic conclusions (e.g., "hemorrhage", "fracture").
+  - Use "Educational differential" framing if needed (e.g. "This appearance is classically described in...").
+- teachingPoints: 3–6 points aimed at residents/trainees. Focus on: Anatomy, Pattern Recognition, Common Pitfalls, and how to use tools like calipers or window/level.
+- learnerQuestions: 2–4 self-test questions the learner could think about based on this scan.
+- measurementComments: Optional short teaching comment per measurement in the metadata, referenced by its "id". Never restate or change the measured values (lengths, angles, areas, pixel values); they are filled in by the viewer ("px" means the image is uncalibrated).
+- safetyNote: One short paragraph stating this is for educational use only and must NOT be used for diagnosis, triage, or treatment decisions.
 
 If free-text notes are supplied (e.g., "Teaching notes..."), treat them as draft observations from a learner. Clean them up and integrate them into the Key Imaging Features or Teaching Points, but do NOT upgrade them to definitive diagnoses.
 `;
@@ -65,7 +55,7 @@ Your goals:
 
 CORE FUNCTIONAL RULES:
 - Cursor Aware: You explicitly see the current slice index and series context. Refer to it if relevant.
-- Tool Use: You CANNOT navigate the viewer directly. If the user asks to "scroll", explain that you cannot control the viewer but can guide them on what to look for at specific levels.
+- Tool Use: When viewer tools are available, you may call them to show the learner what you mean (jump to a slice, switch series, apply a window preset, zoom to a region, place a labeled arrow, show/hide a segment). Only use slices, series, presets and segments listed in the viewer state. The learner confirms every action, so also explain in text what you are showing. Without viewer tools you CANNOT navigate the viewer; guide the learner on what to look for at specific levels instead.
 
 Radiology orientation rules (VERY IMPORTANT):
 - Assume standard radiology convention for axial CT/MR:
@@ -125,30 +115,27 @@ Rules for these suggestions:
 
 export type AiMode = 'chat' | 'deep_think' | 'search';
 
+// The model itself comes from the active LLM provider (services/llm)
 interface ModeConfiguration {
-  model: string;
   thinkingLevel: 'low' | 'high';
-  mediaResolution: 'MEDIA_RESOLUTION_LOW' | 'MEDIA_RESOLUTION_MEDIUM' | 'MEDIA_RESOLUTION_HIGH';
+  imageDetail: 'low' | 'medium' | 'high';
   useSearch: boolean;
 }
 
 const MODE_CONFIG: Record<AiMode, ModeConfiguration> = {
   chat: {
-    model: 'gemini-3-pro-preview',
     thinkingLevel: 'low',
-    mediaResolution: 'MEDIA_RESOLUTION_MEDIUM',
+    imageDetail: 'medium',
     useSearch: false
   },
   deep_think: {
-    model: 'gemini-3-pro-preview',
     thinkingLevel: 'high',
-    mediaResolution: 'MEDIA_RESOLUTION_HIGH',
+    imageDetail: 'high',
     useSearch: false
   },
   search: {
-    model: 'gemini-3-pro-preview',
     thinkingLevel: 'high',
-    mediaResolution: 'MEDIA_RESOLUTION_MEDIUM',
+    imageDetail: 'medium',
     useSearch: true
   }
 };
@@ -157,27 +144,7 @@ const MODE_CONFIG: Record<AiMode, ModeConfiguration> = {
 
 export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
   try {
-    const base64Audio = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(audioBlob);
-      reader.onloadend = () => {
-        const base64 = (reader.result as string).split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-    });
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'audio/mp3', data: base64Audio } },
-          { text: "Transcribe this audio exactly. Do not add any commentary." }
-        ]
-      }
-    });
-
-    return response.text || "";
+    return await getLlmProvider().transcribeAudio(audioBlob);
   } catch (error: any) {
     console.error("Transcription Error:", error);
     throw new Error("Failed to transcribe audio.");
@@ -197,46 +164,35 @@ export interface ReportPayload {
   free_text_notes?: string;
   full_draft_report?: string;
   slice_context?: string;
+  // Painted segments on the series
+  segment_statistics?: ReturnType<typeof formatSegmentStatsForReport>;
 }
 
-export const generateRadiologyReport = async (payload: ReportPayload, imageBase64?: string | null): Promise<string> => {
+const stripDataUrl = (dataUrl: string) => dataUrl.replace(/^data:image\/\w+;base64,/, "");
+
+/**
+ * Teaching report as raw schema output; link it to the viewer with `buildTeachingReport`. Throws on failure.
+ */
+export const generateTeachingReport = async (payload: ReportPayload, imageBase64?: string | null): Promise<RawTeachingReport> => {
   const jsonPrompt = JSON.stringify(payload, null, 2);
-  let contents: any = jsonPrompt;
+  const parts: LlmPart[] = [{ text: jsonPrompt }];
 
   // Handle Multimodal (JSON + Image)
   if (imageBase64) {
-      const cleanBase64 = imageBase64.replace(/^data:image\/\w+;base64,/, "");
-      // Report generation uses High resolution for best detail
-      contents = {
-          parts: [
-              { 
-                inlineData: { mimeType: 'image/jpeg', data: cleanBase64 }
-                // mediaResolution removed due to API incompatibility
-              },
-              { text: `Generate a teaching summary based on this image context and the following metadata: ${jsonPrompt}` }
-          ]
-      };
+      parts.splice(0, 1,
+          { inlineData: { mimeType: 'image/jpeg', data: stripDataUrl(imageBase64) } },
+          { text: `Generate a teaching summary based on this image context and the following metadata: ${jsonPrompt}` }
+      );
   }
 
   try {
-    const responseStream = await ai.models.generateContentStream({
-      model: 'gemini-3-pro-preview',
-      contents: contents,
-      config: {
-        systemInstruction: VIBERAD_SYSTEM_PROMPT,
-        thinkingConfig: { thinkingLevel: 'high' } 
-      }
+    return await getLlmProvider().generateJson<RawTeachingReport>([{ role: 'user', parts }], TEACHING_REPORT_SCHEMA, {
+      systemInstruction: VIBERAD_SYSTEM_PROMPT,
+      reasoning: 'high'
     });
-
-    let fullText = "";
-    for await (const chunk of responseStream) {
-       fullText += chunk.text || "";
-    }
-    return fullText;
-
   } catch (error: any) {
     console.error("AI Report Generation Error:", error);
-    return `Failed to generate summary. \n\nError details: ${error.message}`;
+    throw new Error(`Failed to generate summary: ${error.message}`);
   }
 };
 
@@ -250,23 +206,27 @@ export const streamChatResponse = async (
   onChunk: (
     text: string, 
     sources?: any[], 
-    toolCalls?: any[], 
+    toolCalls?: LlmToolCall[], 
     // New: returns the full suggestion map if found
     allLevelSuggestions?: Record<LearnerLevel, string[]>, 
     fullTextReplace?: string
-  ) => void
+  ) => void,
+  // Earlier turns of the thread (see utils/chatHistory.ts), oldest first
+  history: ChatHistoryContent[] = [],
+  // Enables the viewer tools (utils/viewerTools.ts) for this request
+  viewerContext?: ViewerToolContext
 ) => {
   try {
     const currentConfig = MODE_CONFIG[mode];
     const hasCapturedImage = !!imageBase64;
+    const provider = getLlmProvider();
     
     // Tools logic:
     // Chat & Deep Think = No tools.
-    // Search = Google Search only.
-    let tools: any[] | undefined = undefined;
-    if (currentConfig.useSearch) {
-      tools = [{ googleSearch: {} }];
-    }
+    // Search = Google Search only (where the provider supports it).
+    const useSearch = currentConfig.useSearch && provider.capabilities.search;
+    // Viewer tools = function calling, not offered alongside search grounding
+    const useViewerTools = !!viewerContext && !useSearch && provider.capabilities.tools;
 
     // --- CONTEXT CONSTRUCTION ---
     // We build a specific text context that enforces the image safety rules strictly.
@@ -275,7 +235,9 @@ export const streamChatResponse = async (
     if (mode === 'deep_think') {
         systemContext += "You are in DEEP THINK mode. Consider the question carefully, but still present only a concise explanation and structured Markdown sections.\n\n";
     } else if (mode === 'search') {
-        systemContext += "You are in WEB SEARCH mode. You may use Google Search to pull short, relevant teaching facts or guideline snippets about MRI sequences and anatomy. Keep responses brief and educational.\n\n";
+        systemContext += useSearch
+          ? "You are in WEB SEARCH mode. You may use Google Search to pull short, relevant teaching facts or guideline snippets about MRI sequences and anatomy. Keep responses brief and educational.\n\n"
+          : "You are in WEB SEARCH mode, but web search is unavailable with the current AI provider. Answer from general knowledge and say that no live sources were checked.\n\n";
     } else {
         systemContext += "You are in STANDARD mode. Give a concise, clinically oriented explanation.\n\n";
     }
@@ -286,17 +248,24 @@ export const streamChatResponse = async (
         systemContext += "Important: There is exactly one captured MRI slice attached to this request. If the user refers to 'this image' or 'this slice', interpret that as this captured slice and describe it based on the image.\n";
     }
 
+    if (useViewerTools) {
+        systemContext += `${describeViewerToolContext(viewerContext!)}\n`;
+    }
+
+    if (history.length > 0) {
+        systemContext += "Earlier turns of this conversation precede this message. Use them to resolve follow-up questions (e.g. 'what about the other side?'). Slices attached to earlier turns are background only; 'this image' always means the slice attached to this request.\n";
+    }
+
     // --- PARTS CONSTRUCTION ---
-    const parts: any[] = [];
+    const parts: LlmPart[] = [];
     
     // 1. Text Context
     parts.push({ text: systemContext });
 
     // 2. Image (if present)
     if (hasCapturedImage && imageBase64) {
-      const cleanBase64 = imageBase64.replace(/^data:image\/\w+;base64,/, "");
       parts.push({
-        inlineData: { mimeType: 'image/jpeg', data: cleanBase64 }
+        inlineData: { mimeType: 'image/jpeg', data: stripDataUrl(imageBase64) }
       });
     }
 
@@ -304,28 +273,27 @@ export const streamChatResponse = async (
     parts.push({ text: message });
 
     // --- API CALL ---
-    const contents = { parts };
-
-    const responseStream = await ai.models.generateContentStream({
-      model: currentConfig.model,
-      contents: contents,
-      config: {
-        systemInstruction: RADIOLOGY_ASSISTANT_SYSTEM_PROMPT,
-        thinkingConfig: { thinkingLevel: currentConfig.thinkingLevel },
-        tools: tools
-      }
+    const contents: LlmMessage[] = [...history, { role: 'user', parts }];
+
+    const responseStream = provider.streamChat(contents, {
+      systemInstruction: RADIOLOGY_ASSISTANT_SYSTEM_PROMPT,
+      reasoning: currentConfig.thinkingLevel,
+      imageDetail: currentConfig.imageDetail,
+      useSearch,
+      tools: useViewerTools ? VIEWER_TOOL_DECLARATIONS : undefined
     });
 
     let fullTextAccumulator = "";
     let suggestionsFound = false;
-    let suggestionsJson = "";
 
     for await (const chunk of responseStream) {
-      const c = chunk as GenerateContentResponse;
-      
-      if (c.text) {
+      if (chunk.toolCalls?.length) {
+        onChunk("", undefined, chunk.toolCalls);
+      }
+
+      if (chunk.text) {
         // Accumulate raw text
-        fullTextAccumulator += c.text;
+        fullTextAccumulator += chunk.text;
 
         // Detection Logic for <SUGGESTIONS>
         const openTagIndex = fullTextAccumulator.indexOf('<SUGGESTIONS>');
@@ -333,21 +301,10 @@ export const streamChatResponse = async (
         if (openTagIndex !== -1) {
             // We have reached the hidden block.
             // Everything before <SUGGESTIONS> is the user-facing text.
-            const visibleText = fullTextAccumulator.substring(0, openTagIndex);
-            
-            // The rest is potentially partial suggestion data
-            // We don't need to do anything complex here, just ensure we call onChunk 
-            // with the clean text so far.
             // Using fullTextReplace ensures the UI snaps to the clean version if it briefly showed garbage.
-            
-            // Grounding
-            const groundingChunks = c.candidates?.[0]?.groundingMetadata?.groundingChunks;
-            let sources = undefined;
-            if (groundingChunks) {
-                sources = groundingChunks.map((chunk: any) => chunk.web).filter((w: any) => w);
-            }
+            const visibleText = fullTextAccumulator.substring(0, openTagIndex);
 
-            onChunk(chunk.text, sources, undefined, undefined, visibleText);
+            onChunk(chunk.text, chunk.sources, undefined, undefined, visibleText);
 
             // Attempt to parse if we have the closing tag
             if (!suggestionsFound) { // Only parse once
@@ -367,12 +324,7 @@ export const streamChatResponse = async (
 
         } else {
             // Normal operation - no tag seen yet
-            const groundingChunks = c.candidates?.[0]?.groundingMetadata?.groundingChunks;
-            let sources = undefined;
-            if (groundingChunks) {
-                sources = groundingChunks.map((chunk: any) => chunk.web).filter((w: any) => w);
-            }
-            onChunk(c.text, sources);
+            onChunk(chunk.text, chunk.sources);
         }
       }
     }
@@ -380,10 +332,10 @@ export const streamChatResponse = async (
   } catch (error: any) {
     console.error("Chat Error:", error);
     // Standardize error and throw to UI for handling
-    let userMessage = "Sorry, I encountered an error connecting to Gemini 3.";
+    let userMessage = `Sorry, I encountered an error connecting to ${getLlmProvider().label}.`;
     if (error.message) {
         if (error.message.includes("429")) userMessage = "High traffic (429). Please try again in a moment.";
-        else if (error.message.includes("500") || error.message.includes("503")) userMessage = "Gemini service temporary unavailable. Please try again.";
+        else if (error.message.includes("500") || error.message.includes("503")) userMessage = "AI service temporarily unavailable. Please try again.";
         else if (error.message.includes("SAFETY")) userMessage = "I cannot answer this query due to safety guidelines.";
         else userMessage = `API Error: ${error.message}`;
     }
@@ -393,6 +345,17 @@ export const streamChatResponse = async (
 
 // --- LEGACY / TEST SUGGESTION ENGINE ---
 
+const SUGGESTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    highschool: { type: 'array', items: { type: 'string' } },
+    undergrad: { type: 'array', items: { type: 'string' } },
+    medstudent: { type: 'array', items: { type: 'string' } },
+    resident: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['highschool', 'undergrad', 'medstudent', 'resident']
+};
+
 /**
  * Kept for testing purposes and payload integrity checks.
  * In the main app, suggestions are now generated inline via streamChatResponse for speed.
@@ -403,10 +366,6 @@ export const generateFollowUpQuestions = async (
   hasImageContext: boolean,
   sliceLabel?: string
 ): Promise<Record<LearnerLevel, string[]>> => {
-    // This is now a stub/fallback or can be used if explicit re-generation is needed.
-    // For now we keep the implementation for the unit test `testSuggestionEngine`.
-    // ... (Implementation preserved for compatibility if needed, but simplified)
-    
   try {
     const prompt = `
       You are VibeRad. Generate 3 educational radiology follow-up questions for each learner level (highschool, undergrad, medstudent, resident).
@@ -415,31 +374,11 @@ export const generateFollowUpQuestions = async (
       Return JSON: { "highschool": [], "undergrad": [], "medstudent": [], "resident": [] }
     `;
 
-    const schema: Schema = {
-      type: Type.OBJECT,
-      properties: {
-        highschool: { type: Type.ARRAY, items: { type: Type.STRING } },
-        undergrad: { type: Type.ARRAY, items: { type: Type.STRING } },
-        medstudent: { type: Type.ARRAY, items: { type: Type.STRING } },
-        resident: { type: Type.ARRAY, items: { type: Type.STRING } },
-      },
-      required: ['highschool', 'undergrad', 'medstudent', 'resident']
-    };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: { 
-        thinkingConfig: { thinkingLevel: 'low' },
-        responseMimeType: 'application/json',
-        responseSchema: schema
-      }
-    });
-
-    const text = response.text;
-    if (!text) return { highschool: [], undergrad: [], medstudent: [], resident: [] };
-
-    return JSON.parse(text) as Record<LearnerLevel, string[]>;
+    return await getLlmProvider().generateJson<Record<LearnerLevel, string[]>>(
+      [{ role: 'user', parts: [{ text: prompt }] }],
+      SUGGESTIONS_SCHEMA,
+      { reasoning: 'low' }
+    );
 
   } catch (e) {
     return { highschool: [], undergrad: [], medstudent: [], resident: [] };
@@ -1,23 +1,217 @@
-
-import { Study, Series, DicomWebConfig, DiagnosticStep } from "../types";
+import { Study, Series, DicomWebConfig, DiagnosticStep, StudyQuery } from "../types";
 import { LOCAL_STUDY, LOCAL_SERIES, USE_REMOTE_ASSETS, ASSET_BASE_URL } from "../data/localData";
+import { DicomJsonDataset, TAGS, getString, getNumber, getNumbers, getPersonName, getJoined } from "../utils/dicomJson";
+import { resolvePixelSpacing } from "../utils/calibration";
+import { computeSliceGeometry } from "../utils/sliceSync";
+
+const DICOM_JSON_ACCEPT = 'application/dicom+json';
+
+/**
+ * The bundled demo dataset is addressed with the pseudo URL "local".
+ * Anything else is treated as a DICOMweb service root (e.g. http://localhost:8042/dicom-web).
+ */
+export const isLocalConfig = (config: DicomWebConfig): boolean => {
+  return !config.url || config.url === 'local';
+};
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+/**
+ * Client-side version of the QIDO matching rules, used for the bundled demo study
+ * so the StudyList filters behave the same in both modes.
+ */
+const matchesStudyQuery = (study: Study, query?: StudyQuery): boolean => {
+  if (!query) return true;
+  const contains = (value: string, filter?: string) =>
+    !filter || value.toLowerCase().includes(filter.trim().toLowerCase());
+
+  if (!contains(study.patientName, query.patientName)) return false;
+  if (!contains(study.accessionNumber, query.accessionNumber)) return false;
+  if (!contains(study.modality, query.modality)) return false;
+  if (!contains(study.description, query.description)) return false;
+  if (query.studyDateFrom && study.studyDate < query.studyDateFrom) return false;
+  if (query.studyDateTo && study.studyDate > query.studyDateTo) return false;
+  return true;
+};
+
+/**
+ * Builds QIDO-RS matching parameters from the StudyList filters.
+ * Free-text fields use wildcard matching; dates use a DA range ("from-to").
+ */
+export const buildStudyQueryParams = (query?: StudyQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  const wildcard = (value: string) => `*${value.trim()}*`;
+
+  if (query?.patientName?.trim()) params.set('PatientName', wildcard(query.patientName));
+  if (query?.accessionNumber?.trim()) params.set('AccessionNumber', query.accessionNumber.trim());
+  if (query?.modality?.trim()) params.set('ModalitiesInStudy', query.modality.trim().toUpperCase());
+  if (query?.description?.trim()) params.set('StudyDescription', wildcard(query.description));
+  if (query?.studyDateFrom || query?.studyDateTo) {
+    params.set('StudyDate', `${query.studyDateFrom || ''}-${query.studyDateTo || ''}`);
+  }
+
+  // Not every server returns these attributes by default
+  [TAGS.ModalitiesInStudy, TAGS.StudyDescription, TAGS.NumberOfStudyRelatedSeries, TAGS.NumberOfStudyRelatedInstances]
+    .forEach(tag => params.append('includefield', tag));
+  params.set('fuzzymatching', 'true');
+  return params;
+};
+
+const qidoFetch = async (url: string): Promise<DicomJsonDataset[]> => {
+  const response = await fetch(url, { headers: { Accept: DICOM_JSON_ACCEPT } });
+  // 204 No Content is the QIDO-RS answer for "no matches"
+  if (response.status === 204) return [];
+  if (!response.ok) {
+    throw new Error(`QIDO-RS request failed: ${response.status} (${response.statusText}) for ${url}`);
+  }
+  const text = await response.text();
+  if (!text.trim()) return [];
+  const json = JSON.parse(text);
+  if (!Array.isArray(json)) {
+    throw new Error(`QIDO-RS response is not a DICOM JSON array: ${url}`);
+  }
+  return json;
+};
+
+/**
+ * Maps a QIDO-RS study result to our Study model.
+ */
+export const parseStudy = (ds: DicomJsonDataset): Study => ({
+  id: getString(ds, TAGS.StudyInstanceUID),
+  patientName: getPersonName(ds, TAGS.PatientName, 'Anonymous'),
+  patientId: getString(ds, TAGS.PatientID),
+  accessionNumber: getString(ds, TAGS.AccessionNumber),
+  studyDate: getString(ds, TAGS.StudyDate),
+  modality: getJoined(ds, TAGS.ModalitiesInStudy) || getString(ds, TAGS.Modality),
+  description: getString(ds, TAGS.StudyDescription, 'No Description'),
+  seriesCount: getNumber(ds, TAGS.NumberOfStudyRelatedSeries) ?? 0,
+  instanceCount: getNumber(ds, TAGS.NumberOfStudyRelatedInstances) ?? 0,
+});
+
+/**
+ * Series geometry from an instance-level dataset (QIDO result or WADO-RS metadata).
+ */
+const parseGeometry = (ds?: DicomJsonDataset): Pick<Series, 'pixelSpacing' | 'pixelSpacingSource' | 'sliceThickness'> => {
+  if (!ds) return {};
+  const sliceThickness = getNumber(ds, TAGS.SliceThickness);
+  return {
+    ...resolvePixelSpacing(getNumbers(ds, TAGS.PixelSpacing), getNumbers(ds, TAGS.ImagerPixelSpacing)),
+    ...(sliceThickness !== undefined && sliceThickness > 0 ? { sliceThickness } : {}),
+  };
+};
+
+// Instance-level attributes servers only return on request
+const INSTANCE_INCLUDE_FIELDS = [
+  TAGS.PixelSpacing, TAGS.ImagerPixelSpacing, TAGS.SliceThickness,
+  TAGS.ImagePositionPatient, TAGS.ImageOrientationPatient, TAGS.FrameOfReferenceUID,
+];
+
+/**
+ * Maps a QIDO-RS series result plus its (QIDO) instance list to our Series model.
+ * Instances are ordered by Instance Number and addressed by their WADO-RS URL.
+ */
+export const parseSeries = (
+  ds: DicomJsonDataset,
+  instances: DicomJsonDataset[],
+  baseUrl: string,
+  studyUid: string
+): Series => {
+  const seriesUid = getString(ds, TAGS.SeriesInstanceUID);
+  const sorted = [...instances].sort((a, b) =>
+    (getNumber(a, TAGS.InstanceNumber) ?? 0) - (getNumber(b, TAGS.InstanceNumber) ?? 0)
+  );
+  const frameOfReferenceUid = sorted[0] ? getString(sorted[0], TAGS.FrameOfReferenceUID) : '';
+  const sopClassUid = sorted[0] ? getString(sorted[0], TAGS.SOPClassUID) : '';
+  const urls = sorted.map(inst =>
+    `${baseUrl}/studies/${studyUid}/series/${seriesUid}/instances/${getString(inst, TAGS.SOPInstanceUID)}`
+  );
+
+  return {
+    id: seriesUid,
+    studyId: studyUid,
+    description: getString(ds, TAGS.SeriesDescription, 'No Description'),
+    modality: getString(ds, TAGS.Modality, 'OT'),
+    instanceCount: urls.length,
+    instances: urls,
+    seriesNumber: getNumber(ds, TAGS.SeriesNumber),
+    ...parseGeometry(sorted[0]),
+    ...computeSliceGeometry(
+      sorted.map(inst => getNumbers(inst, TAGS.ImagePositionPatient)),
+      sorted[0] ? getNumbers(sorted[0], TAGS.ImageOrientationPatient) : undefined
+    ),
+    ...(frameOfReferenceUid ? { frameOfReferenceUid } : {}),
+    ...(sopClassUid ? { sopClassUid } : {}),
+  };
+};
+
+// IMPORTED STUDIES
+// Studies built from files dropped into the StudyList (see services/localImport.ts).
+// They are listed alongside the active data source and their instances are served from the image cache.
+const importedStudies = new Map<string, { study: Study; series: Series[] }>();
+
+export const registerImportedStudy = (study: Study, series: Series[]) => {
+  importedStudies.set(study.id, { study, series });
+};
+
+const getImportedStudies = (query?: StudyQuery): Study[] =>
+  Array.from(importedStudies.values())
+    .map(entry => entry.study)
+    .filter(study => matchesStudyQuery(study, query));
 
 /**
  * FETCH STUDIES
- * Returns our static local study.
+ * QIDO-RS /studies against the configured server, or the bundled demo study.
  */
-export const searchDicomWebStudies = async (config: DicomWebConfig, query?: string): Promise<Study[]> => {
-  // No delay needed for local files
-  return [LOCAL_STUDY];
+export const searchDicomWebStudies = async (config: DicomWebConfig, query?: StudyQuery): Promise<Study[]> => {
+  const imported = getImportedStudies(query);
+  if (isLocalConfig(config)) {
+    return [...imported, ...[LOCAL_STUDY].filter(study => matchesStudyQuery(study, query))];
+  }
+
+  const baseUrl = normalizeBaseUrl(config.url);
+  const results = await qidoFetch(`${baseUrl}/studies?${buildStudyQueryParams(query).toString()}`);
+  return [...imported, ...results.map(parseStudy)];
 };
 
 /**
  * FETCH SERIES
- * Returns our static local series for the study.
+ * QIDO-RS /studies/{uid}/series, then /instances per series to build the slice stack.
  */
 export const fetchDicomWebSeries = async (config: DicomWebConfig, studyUid: string): Promise<Series[]> => {
-  // No delay needed for local files
-  return LOCAL_SERIES;
+  const imported = importedStudies.get(studyUid);
+  if (imported) {
+    return imported.series;
+  }
+
+  if (isLocalConfig(config)) {
+    return LOCAL_SERIES;
+  }
+
+  const baseUrl = normalizeBaseUrl(config.url);
+  const seriesResults = await qidoFetch(`${baseUrl}/studies/${studyUid}/series`);
+
+  const includeParams = INSTANCE_INCLUDE_FIELDS.map(tag => `includefield=${tag}`).join('&');
+
+  const series = await Promise.all(seriesResults.map(async ds => {
+    const seriesUid = getString(ds, TAGS.SeriesInstanceUID);
+    const instances = await qidoFetch(`${baseUrl}/studies/${studyUid}/series/${seriesUid}/instances?${includeParams}`);
+    const parsed = parseSeries(ds, instances, baseUrl, studyUid);
+
+    // Not every server honours includefield for instance attributes; fall back to WADO-RS metadata of the first instance
+    if (!parsed.pixelSpacing && parsed.instances.length > 0) {
+      try {
+        const [metadata] = await qidoFetch(`${parsed.instances[0]}/metadata`);
+        return { ...parsed, ...parseGeometry(metadata) };
+      } catch (e) {
+        console.warn(`No metadata for series ${seriesUid}; measurements will be uncalibrated.`, e);
+      }
+    }
+    return parsed;
+  }));
+
+  return series
+    .filter(s => s.instanceCount > 0)
+    .sort((a, b) => (a.seriesNumber ?? 0) - (b.seriesNumber ?? 0));
 };
 
 // IN-MEMORY CACHE
@@ -26,9 +220,15 @@ export const fetchDicomWebSeries = async (config: DicomWebConfig, studyUid: stri
 const imageCache = new Map<string, Blob>();
 const pendingRequests = new Map<string, Promise<Blob>>();
 
+// WADO-RS instance URLs (.../studies/{uid}/series/{uid}/instances/{uid})
+const WADO_INSTANCE_PATTERN = /\/studies\/[^/]+\/series\/[^/]+\/instances\/[^/]+$/;
+
+// Ask the server to transcode to Explicit VR Little Endian, the syntax our parser decodes
+const WADO_INSTANCE_ACCEPT = 'multipart/related; type="application/dicom"; transfer-syntax=1.2.840.10008.1.2.1';
+
 /**
  * FETCH IMAGE BLOB
- * Fetches the PNG file from the public folder or remote URL.
+ * Fetches a PNG asset (public folder / remote URL) or a DICOM instance via WADO-RS.
  * Includes Caching and Request Deduplication.
  */
 export const fetchDicomImageBlob = async (config: DicomWebConfig, url: string): Promise<Blob> => {
@@ -46,7 +246,10 @@ export const fetchDicomImageBlob = async (config: DicomWebConfig, url: string):
   // 3. Perform Fetch
   const fetchPromise = (async () => {
     try {
-      const response = await fetch(url);
+      const init: RequestInit | undefined = WADO_INSTANCE_PATTERN.test(url)
+        ? { headers: { Accept: WADO_INSTANCE_ACCEPT } }
+        : undefined;
+      const response = await fetch(url, init);
       if (!response.ok) {
         throw new Error(`Status: ${response.status} (${response.statusText})`);
       }
@@ -68,6 +271,13 @@ export const fetchDicomImageBlob = async (config: DicomWebConfig, url: string):
   return fetchPromise;
 };
 
+/**
+ * Seeds the cache with an in-memory instance (e.g. an imported file) under a pseudo URL.
+ */
+export const registerLocalBlob = (url: string, blob: Blob) => {
+  imageCache.set(url, blob);
+};
+
 /**
  * PREFETCH HELPER
  * Fire-and-forget method to load images into the cache in the background.
@@ -81,13 +291,26 @@ export const prefetchImage = (url: string) => {
 
 /**
  * CONNECTION DIAGNOSTICS
- * Check if the assets are accessible.
+ * Check if the assets (or the DICOMweb server) are accessible.
  */
 export const runConnectionDiagnostics = async (
   config: DicomWebConfig, 
   onStepUpdate: (stepId: string, status: DiagnosticStep['status'], message?: string) => void
 ): Promise<boolean> => {
   
+  if (!isLocalConfig(config)) {
+    onStepUpdate('1-qido-check', 'RUNNING');
+    const testUrl = `${normalizeBaseUrl(config.url)}/studies?limit=1`;
+    try {
+      const results = await qidoFetch(testUrl);
+      onStepUpdate('1-qido-check', 'PASS', `QIDO-RS reachable at ${testUrl} (${results.length} result${results.length !== 1 ? 's' : ''})`);
+      return true;
+    } catch (e: any) {
+      onStepUpdate('1-qido-check', 'FAIL', `Could not query ${testUrl}. Check the URL and CORS settings. Error: ${e.message}`);
+      return false;
+    }
+  }
+
   onStepUpdate('1-local-check', 'RUNNING');
   
   try {
@@ -0,0 +1,294 @@
+import { DicomImage, DicomWebConfig, PixelArray, VoiLutFunction } from "../types";
+import { fetchDicomImageBlob } from "./dicomService";
+import {
+  ParsedDicom, parseDicom, isDicomPart10, isMultipart, parseMultipartRelated,
+  getString, getNumber, getNumbers, getBytes
+} from "../utils/dicomParser";
+
+// DECODED FRAME CACHE
+// Blobs are cached by dicomService; this avoids re-parsing while scrolling back and forth.
+const MAX_DECODED_FRAMES = 64;
+const decodedCache = new Map<string, DicomImage>();
+
+const rememberDecoded = (url: string, image: DicomImage) => {
+  decodedCache.delete(url);
+  decodedCache.set(url, image);
+  if (decodedCache.size > MAX_DECODED_FRAMES) {
+    const oldest = decodedCache.keys().next().value;
+    if (oldest !== undefined) decodedCache.delete(oldest);
+  }
+};
+
+export const isPng = (bytes: Uint8Array) =>
+  bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+const isJpeg = (bytes: Uint8Array) =>
+  bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+/**
+ * Copies the pixel bytes into a correctly aligned typed array of the right signedness.
+ * Values with fewer bits stored than allocated are masked (and sign-extended if signed).
+ */
+const toPixelArray = (
+  raw: Uint8Array,
+  bitsAllocated: number,
+  bitsStored: number,
+  pixelRepresentation: number,
+  count: number
+): PixelArray => {
+  const signed = pixelRepresentation === 1;
+  const byteLength = count * (bitsAllocated / 8);
+  if (raw.length < byteLength) {
+    throw new Error(`Pixel Data is truncated: expected ${byteLength} bytes, found ${raw.length}.`);
+  }
+  // slice() copies, which also guarantees alignment for 16/32-bit views
+  const buffer = raw.slice(0, byteLength).buffer;
+
+  let pixels: PixelArray;
+  switch (bitsAllocated) {
+    case 8: pixels = signed ? new Int8Array(buffer) : new Uint8Array(buffer); break;
+    case 16: pixels = signed ? new Int16Array(buffer) : new Uint16Array(buffer); break;
+    case 32: pixels = signed ? new Int32Array(buffer) : new Uint32Array(buffer); break;
+    default:
+      throw new Error(`Unsupported Bits Allocated: ${bitsAllocated}. Only 8, 16 and 32 bit pixels can be decoded.`);
+  }
+
+  if (bitsStored < bitsAllocated && bitsAllocated <= 16) {
+    const mask = (1 << bitsStored) - 1;
+    const signBit = 1 << (bitsStored - 1);
+    for (let i = 0; i < pixels.length; i++) {
+      let v = pixels[i] & mask;
+      if (signed && (v & signBit)) v -= (1 << bitsStored);
+      pixels[i] = v;
+    }
+  }
+  return pixels;
+};
+
+const VOI_LUT_FUNCTIONS: VoiLutFunction[] = ['LINEAR', 'LINEAR_EXACT', 'SIGMOID'];
+
+const computeRange = (pixels: PixelArray) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < pixels.length; i++) {
+    const v = pixels[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return { min: isFinite(min) ? min : 0, max: isFinite(max) ? max : 0 };
+};
+
+/**
+ * Pulls the first frame (or frameIndex) and its pixel module out of a parsed dataset.
+ */
+export const extractDicomImage = (parsed: ParsedDicom, frameIndex = 0): DicomImage => {
+  const ds = parsed.dataset;
+
+  const rows = getNumber(ds, '00280010');
+  const columns = getNumber(ds, '00280011');
+  const pixelBytes = getBytes(ds, '7FE00010');
+  if (!rows || !columns || !pixelBytes) {
+    throw new Error('DICOM object has no image pixel data (is this a non-image object such as SR or PR?).');
+  }
+
+  const bitsAllocated = getNumber(ds, '00280100') ?? 16;
+  const bitsStored = getNumber(ds, '00280101') ?? bitsAllocated;
+  const pixelRepresentation = getNumber(ds, '00280103') ?? 0;
+  const samplesPerPixel = getNumber(ds, '00280002') ?? 1;
+  const photometricInterpretation = getString(ds, '00280004') || 'MONOCHROME2';
+  const planarConfiguration = getNumber(ds, '00280006') ?? 0;
+  const numberOfFrames = getNumber(ds, '00280008') ?? 1;
+
+  if (samplesPerPixel !== 1 && !(samplesPerPixel === 3 && photometricInterpretation === 'RGB' && bitsAllocated === 8)) {
+    throw new Error(`Unsupported photometric interpretation ${photometricInterpretation} with ${samplesPerPixel} samples per pixel.`);
+  }
+  if (frameIndex < 0 || frameIndex >= numberOfFrames) {
+    throw new Error(`Frame ${frameIndex + 1} requested but the object only has ${numberOfFrames} frame(s).`);
+  }
+
+  const samplesPerFrame = rows * columns * samplesPerPixel;
+  const frameBytes = samplesPerFrame * (bitsAllocated / 8);
+  const frameRaw = pixelBytes.subarray(frameIndex * frameBytes, (frameIndex + 1) * frameBytes);
+  let pixelData = toPixelArray(frameRaw, bitsAllocated, bitsStored, pixelRepresentation, samplesPerFrame);
+
+  // Planar RGB (RRR..GGG..BBB) → interleaved
+  if (samplesPerPixel === 3 && planarConfiguration === 1) {
+    const planeSize = rows * columns;
+    const interleaved = new Uint8Array(samplesPerFrame);
+    for (let i = 0; i < planeSize; i++) {
+      interleaved[i * 3] = pixelData[i];
+      interleaved[i * 3 + 1] = pixelData[i + planeSize];
+      interleaved[i * 3 + 2] = pixelData[i + 2 * planeSize];
+    }
+    pixelData = interleaved;
+  }
+
+  const range = computeRange(pixelData);
+  const voiLutFunction = getString(ds, '00281056')?.toUpperCase() as VoiLutFunction | undefined;
+
+  return {
+    rows,
+    columns,
+    bitsAllocated,
+    bitsStored,
+    pixelRepresentation,
+    samplesPerPixel,
+    photometricInterpretation,
+    rescaleSlope: getNumber(ds, '00281053') ?? 1,
+    rescaleIntercept: getNumber(ds, '00281052') ?? 0,
+    pixelData,
+    minPixelValue: range.min,
+    maxPixelValue: range.max,
+    windowCenter: getNumbers(ds, '00281050')?.[0],
+    windowWidth: getNumbers(ds, '00281051')?.[0],
+    voiLutFunction: voiLutFunction && VOI_LUT_FUNCTIONS.includes(voiLutFunction) ? voiLutFunction : undefined,
+    modality: getString(ds, '00080060'),
+    sopInstanceUid: getString(ds, '00080018'),
+  };
+};
+
+/**
+ * PNG / JPEG teaching assets: rasterize through a canvas and keep a single 8-bit channel
+ * (or interleaved RGB if the image is actually colored).
+ */
+const decodeRasterImage = async (blob: Blob): Promise<DicomImage> => {
+  const objectUrl = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = objectUrl;
+    await new Promise((resolve, reject) => {
+      img.onload = resolve;
+      img.onerror = () => reject(new Error('Browser could not decode the image file.'));
+    });
+
+    const width = img.naturalWidth || img.width;
+    const height = img.naturalHeight || img.height;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D context unavailable.');
+    ctx.drawImage(img, 0, 0);
+    const rgba = ctx.getImageData(0, 0, width, height).data;
+
+    let isColor = false;
+    for (let i = 0; i < rgba.length; i += 4) {
+      if (rgba[i] !== rgba[i + 1] || rgba[i] !== rgba[i + 2]) { isColor = true; break; }
+    }
+
+    const samplesPerPixel = isColor ? 3 : 1;
+    const pixelData = new Uint8Array(width * height * samplesPerPixel);
+    for (let p = 0, i = 0; i < rgba.length; i += 4, p++) {
+      if (isColor) {
+        pixelData[p * 3] = rgba[i];
+        pixelData[p * 3 + 1] = rgba[i + 1];
+        pixelData[p * 3 + 2] = rgba[i + 2];
+      } else {
+        pixelData[p] = rgba[i];
+      }
+    }
+    const range = computeRange(pixelData);
+
+    return {
+      rows: height,
+      columns: width,
+      bitsAllocated: 8,
+      bitsStored: 8,
+      pixelRepresentation: 0,
+      samplesPerPixel,
+      photometricInterpretation: isColor ? 'RGB' : 'MONOCHROME2',
+      rescaleSlope: 1,
+      rescaleIntercept: 0,
+      pixelData,
+      minPixelValue: range.min,
+      maxPixelValue: range.max,
+    };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Decodes a fetched instance: DICOM P10, a WADO-RS multipart/related body, or a PNG/JPEG asset.
+ */
+export const decodeImageBlob = async (blob: Blob): Promise<DicomImage> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  if (isPng(bytes) || isJpeg(bytes)) {
+    return decodeRasterImage(blob);
+  }
+
+  let payload = bytes;
+  if (isMultipart(bytes)) {
+    const parts = parseMultipartRelated(bytes);
+    if (parts.length === 0) throw new Error('WADO-RS response contained no parts.');
+    payload = parts[0];
+  }
+
+  if (!isDicomPart10(payload)) {
+    throw new Error('Unrecognized image format (expected DICOM Part 10, PNG or JPEG).');
+  }
+  return extractDicomImage(parseDicom(payload));
+};
+
+/**
+ * LOAD IMAGE
+ * Fetches (cached) and decodes a single instance into a typed pixel array.
+ */
+export const loadDicomImage = async (config: DicomWebConfig, url: string): Promise<DicomImage> => {
+  const cached = decodedCache.get(url);
+  if (cached) return cached;
+
+  const blob = await fetchDicomImageBlob(config, url);
+  const image = await decodeImageBlob(blob);
+  rememberDecoded(url, image);
+  return image;
+};
+
+// Series loads keep this many requests in flight
+const SERIES_LOAD_CONCURRENCY = 4;
+
+// Runs `load` for every URL, starting the next one as soon as one of the running loads finishes
+const loadInQueue = async <T>(urls: string[], load: (url: string) => Promise<T>, isCancelled?: () => boolean): Promise<T[]> => {
+  const results: T[] = new Array(urls.length);
+  let next = 0;
+  const runLoads = async () => {
+    while (next < urls.length) {
+      if (isCancelled?.()) throw new Error('Series load cancelled.');
+      const index = next++;
+      results[index] = await load(urls[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SERIES_LOAD_CONCURRENCY, urls.length) }, runLoads));
+  return results;
+};
+
+/**
+ * LOAD SERIES
+ * Decodes every instance of a series (a few requests at a time), e.g. to build an MPR volume.
+ * `isCancelled` lets callers stop early when the user switches series mid-load.
+ */
+export const loadSeriesImages = async (
+  config: DicomWebConfig,
+  urls: string[],
+  onProgress?: (loaded: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<DicomImage[]> => {
+  let loaded = 0;
+  return loadInQueue(urls, async url => {
+    const image = await loadDicomImage(config, url);
+    loaded++;
+    onProgress?.(loaded, urls.length);
+    return image;
+  }, isCancelled);
+};
+
+/**
+ * Like loadSeriesImages, but an instance that fails to load is null instead of failing the series.
+ */
+export const loadSeriesImagesOrNull = (
+  config: DicomWebConfig,
+  urls: string[],
+  isCancelled?: () => boolean
+): Promise<(DicomImage | null)[]> =>
+  loadInQueue(urls, url => loadDicomImage(config, url).catch(() => null), isCancelled);
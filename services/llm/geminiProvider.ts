@@ -0,0 +1,96 @@
+import { GoogleGenAI, GenerateContentResponse, MediaResolution, ThinkingLevel } from "@google/genai";
+import { LlmProvider, LlmMessage, LlmRequestOptions, LlmSource } from "./types";
+
+// Google Gemini via @google/genai. Supports vision, audio, function calling and Google Search grounding.
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
+
+const THINKING_LEVELS = { low: ThinkingLevel.LOW, high: ThinkingLevel.HIGH };
+const MEDIA_RESOLUTIONS = {
+  low: MediaResolution.MEDIA_RESOLUTION_LOW,
+  medium: MediaResolution.MEDIA_RESOLUTION_MEDIUM,
+  high: MediaResolution.MEDIA_RESOLUTION_HIGH,
+};
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.readAsDataURL(blob);
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = reject;
+});
+
+const buildConfig = (options: LlmRequestOptions = {}) => ({
+  systemInstruction: options.systemInstruction,
+  thinkingConfig: options.reasoning ? { thinkingLevel: THINKING_LEVELS[options.reasoning] } : undefined,
+  mediaResolution: options.imageDetail ? MEDIA_RESOLUTIONS[options.imageDetail] : undefined,
+  // Search grounding and function declarations are not combined in one request
+  tools: options.useSearch
+    ? [{ googleSearch: {} }]
+    : options.tools?.length
+      ? [{ functionDeclarations: options.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+      : undefined,
+});
+
+export const createGeminiProvider = (apiKey: string | undefined, model = DEFAULT_GEMINI_MODEL): LlmProvider => {
+  // Created on first use, so a missing key only fails when Gemini is actually called
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) throw new Error('No Gemini API key configured. Set GEMINI_API_KEY or choose another AI provider.');
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model,
+    capabilities: { vision: true, audio: true, search: true, tools: true },
+
+    async *streamChat(messages: LlmMessage[], options?: LlmRequestOptions) {
+      const responseStream = await getClient().models.generateContentStream({
+        model,
+        contents: messages,
+        config: buildConfig(options),
+      });
+      for await (const chunk of responseStream) {
+        const c = chunk as GenerateContentResponse;
+        const groundingChunks = c.candidates?.[0]?.groundingMetadata?.groundingChunks;
+        const sources = groundingChunks
+          ?.map(g => g.web)
+          .filter((w): w is { uri: string; title: string } => !!w?.uri)
+          .map(w => ({ uri: w.uri, title: w.title ?? w.uri }) as LlmSource);
+        const toolCalls = c.functionCalls
+          ?.filter(f => !!f.name)
+          .map(f => ({ name: f.name!, args: f.args ?? {} }));
+        if (c.text || toolCalls?.length) yield { text: c.text ?? '', sources, toolCalls };
+      }
+    },
+
+    async generateJson(messages, schema, options) {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: messages,
+        config: {
+          ...buildConfig(options),
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+        },
+      });
+      if (!response.text) throw new Error('Gemini returned an empty JSON response.');
+      return JSON.parse(response.text);
+    },
+
+    async transcribeAudio(audio) {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: audio.type || 'audio/mp3', data: await blobToBase64(audio) } },
+            { text: "Transcribe this audio exactly. Do not add any commentary." }
+          ]
+        }
+      });
+      return response.text || "";
+    },
+  };
+};
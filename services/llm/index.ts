@@ -0,0 +1,64 @@
+import { LlmProvider, LlmProviderConfig, LlmProviderId } from "./types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+// LLM PROVIDER REGISTRY
+// The active provider is chosen at runtime (AI panel settings) and remembered in localStorage.
+// Without a stored choice: Gemini when a build-time API key exists, otherwise the offline mock.
+
+export * from "./types";
+
+const STORAGE_KEY = 'viberad.llmProvider';
+
+export const LLM_PROVIDER_OPTIONS: { id: LlmProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_MODEL },
+  { id: 'openai-compatible', label: 'OpenAI-compatible (llama.cpp, Ollama, ...)', defaultModel: DEFAULT_OPENAI_MODEL },
+  { id: 'mock', label: 'Offline mock (scripted)', defaultModel: 'scripted' },
+];
+
+const getDefaultConfig = (): LlmProviderConfig => ({ id: process.env.API_KEY ? 'gemini' : 'mock' });
+
+export const createLlmProvider = (config: LlmProviderConfig): LlmProvider => {
+  switch (config.id) {
+    case 'gemini':
+      return createGeminiProvider(config.apiKey || process.env.API_KEY, config.model || DEFAULT_GEMINI_MODEL);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(config.baseUrl || DEFAULT_OPENAI_BASE_URL, config.model || DEFAULT_OPENAI_MODEL, config.apiKey);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+const loadConfig = (): LlmProviderConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && LLM_PROVIDER_OPTIONS.some(o => o.id === stored.id)) return stored;
+  } catch {
+    // Unreadable or unavailable storage: fall back to the default
+  }
+  return getDefaultConfig();
+};
+
+let activeConfig: LlmProviderConfig | null = null;
+let activeProvider: LlmProvider | null = null;
+
+export const getLlmProviderConfig = (): LlmProviderConfig => {
+  activeConfig ??= loadConfig();
+  return activeConfig;
+};
+
+export const getLlmProvider = (): LlmProvider => {
+  activeProvider ??= createLlmProvider(getLlmProviderConfig());
+  return activeProvider;
+};
+
+export const setLlmProviderConfig = (config: LlmProviderConfig) => {
+  activeConfig = config;
+  activeProvider = createLlmProvider(config);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch {
+    // Private mode: the choice lasts for this page only
+  }
+};
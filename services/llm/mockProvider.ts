@@ -0,0 +1,134 @@
+import { LlmProvider, LlmMessage, LlmToolCall, JsonSchema } from "./types";
+
+// Deterministic scripted provider for offline demos and tests.
+// The reply is picked by matching the last user message against the script; nothing leaves the browser.
+
+export interface MockScriptEntry {
+  // Case-insensitive substring, or a regular expression, tested against the last user message
+  match: string | RegExp;
+  reply: string;
+  // Returned by generateJson when this entry matches
+  json?: unknown;
+  // Emitted after the reply, for the tools the request declares
+  toolCalls?: LlmToolCall[];
+}
+
+const SAFETY_LINE = 'This is for EDUCATIONAL USE ONLY and not for diagnosis or treatment.';
+
+export const DEFAULT_MOCK_SCRIPT: MockScriptEntry[] = [
+  {
+    match: /show me|point (to|at|out)|look here/i,
+    reply: '## Look here\n- I can set up the viewer for you: a brain window and an arrow on the centre of the slice.\n- Confirm each step below; you can undo it afterwards.\n\n' + SAFETY_LINE,
+    toolCalls: [
+      { name: 'apply_window_preset', args: { preset: 'Brain' } },
+      { name: 'place_arrow', args: { x: 0.5, y: 0.5, label: 'Look here' } },
+    ],
+  },
+  {
+    match: /dicom_metadata|teaching summary/i,
+    reply: [
+      '# Educational Teaching Summary – NOT FOR CLINICAL USE',
+      'This is an offline demo summary generated without an AI model, for training and UX demonstration only.',
+      '## Study Context',
+      '- Modality and series as listed in the viewer.',
+      '## Key Imaging Features (Descriptive Only)',
+      '- Describe symmetry, signal intensity and any focal areas neutrally.',
+      '## Teaching Points',
+      '- Compare both hemispheres at the same level.',
+      '- Adjust window/level before judging subtle signal changes.',
+      '## Questions for Learners',
+      '- Which sequence best separates fluid from edema?',
+      '## Safety Note',
+      SAFETY_LINE,
+    ].join('\n'),
+    json: {
+      title: 'Educational Teaching Summary – NOT FOR CLINICAL USE',
+      studyContext: { modality: '', region: 'Not specified', seriesDescription: '', plane: 'Not specified' },
+      features: ['Offline demo summary generated without an AI model.', 'Describe symmetry, signal intensity and any focal areas neutrally.'],
+      teachingPoints: ['Compare both hemispheres at the same level.', 'Adjust window/level before judging subtle signal changes.'],
+      learnerQuestions: ['Which sequence best separates fluid from edema?'],
+      measurementComments: [],
+      safetyNote: SAFETY_LINE,
+    },
+  },
+  {
+    match: 'hippocampus',
+    reply: '## Hippocampus\n- Lies in the **medial temporal lobe**, along the floor of the temporal horn.\n- Best assessed on coronal images perpendicular to its long axis.\n\n' + SAFETY_LINE,
+  },
+  {
+    match: 'quiz',
+    reply: '## Quick Quiz\n- Which structure separates the lateral ventricles?\n- On which sequence is CSF dark?\n\n' + SAFETY_LINE,
+  },
+];
+
+const MOCK_SUGGESTIONS = {
+  highschool: ['What part of the brain is this?', 'Why is fluid bright on some scans?', 'How does MRI make pictures?'],
+  undergrad: ['What does T1 vs T2 mean?', 'Which lobe is shown here?', 'How is contrast produced?'],
+  medstudent: ['Walk me through a checklist for this slice.', 'Which landmarks define this level?', 'Quiz me on this region.'],
+  resident: ['What pitfalls apply to this sequence?', 'How would FLAIR change this view?', 'Which artifacts can mimic disease here?'],
+};
+
+const lastUserText = (messages: LlmMessage[]) => {
+  const last = [...messages].reverse().find(m => m.role === 'user');
+  return last?.parts.map(p => ('text' in p ? p.text : '')).join('\n') ?? '';
+};
+
+const matches = (entry: MockScriptEntry, text: string) =>
+  typeof entry.match === 'string' ? text.toLowerCase().includes(entry.match.toLowerCase()) : entry.match.test(text);
+
+/**
+ * Minimal value satisfying a schema (empty arrays and strings, zeroes).
+ */
+export const defaultForSchema = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, s]) => [key, defaultForSchema(s)]));
+    case 'array': return [];
+    case 'string': return '';
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = (script: MockScriptEntry[] = DEFAULT_MOCK_SCRIPT, chunkDelayMs = 30): LlmProvider => ({
+  id: 'mock',
+  label: 'Offline mock',
+  model: 'scripted',
+  capabilities: { vision: true, audio: true, search: false, tools: true },
+
+  async *streamChat(messages, options) {
+    const text = lastUserText(messages);
+    const hasImage = messages[messages.length - 1]?.parts.some(p => 'inlineData' in p);
+    const entry = script.find(e => matches(e, text));
+    let reply = entry?.reply
+      ?? `## Offline demo reply\n- You asked: "${text.split('\n').pop()?.slice(0, 120)}"\n- ${hasImage ? 'A captured slice was received.' : 'No slice was captured.'}\n- Switch to a real AI provider for actual explanations.\n\n${SAFETY_LINE}`;
+    // Honour the assistant's suggestion contract so follow-up chips work offline too
+    if (options?.systemInstruction?.includes('<SUGGESTIONS>')) {
+      reply += `\n<SUGGESTIONS>\n${JSON.stringify(MOCK_SUGGESTIONS)}\n</SUGGESTIONS>`;
+    }
+
+    // A few words per chunk, like a real stream
+    const pieces = reply.match(/(\S+\s*){1,4}/g) ?? [reply];
+    for (const piece of pieces) {
+      if (chunkDelayMs > 0) await wait(chunkDelayMs);
+      yield { text: piece };
+    }
+
+    const declared = new Set(options?.tools?.map(t => t.name));
+    const toolCalls = entry?.toolCalls?.filter(call => declared.has(call.name));
+    if (toolCalls?.length) yield { text: '', toolCalls };
+  },
+
+  async generateJson<T>(messages: LlmMessage[], schema: JsonSchema): Promise<T> {
+    const entry = script.find(e => e.json !== undefined && matches(e, lastUserText(messages)));
+    // The script and the schema defaults are trusted to have the shape the caller asks for
+    return (entry?.json ?? defaultForSchema(schema)) as T;
+  },
+
+  async transcribeAudio() {
+    return 'Offline mock transcription: bilateral hippocampi appear symmetric on this demo slice.';
+  },
+});
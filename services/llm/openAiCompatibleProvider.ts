@@ -0,0 +1,158 @@
+import { LlmProvider, LlmMessage, LlmRequestOptions, LlmToolCall } from "./types";
+
+// OpenAI-compatible Chat Completions endpoint: llama.cpp server, Ollama, vLLM, LM Studio, OpenAI itself.
+// Streaming uses server-sent events; images are sent as data: URLs (needs a vision-capable model).
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.2-vision';
+const TRANSCRIPTION_MODEL = 'whisper-1';
+
+type OpenAiContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+export const toOpenAiMessages = (messages: LlmMessage[], systemInstruction?: string) => {
+  const out: { role: 'system' | 'user' | 'assistant'; content: OpenAiContent }[] = [];
+  if (systemInstruction) out.push({ role: 'system', content: systemInstruction });
+  messages.forEach(m => {
+    const hasImage = m.parts.some(p => 'inlineData' in p);
+    const content: OpenAiContent = hasImage
+      ? m.parts.map(p => ('inlineData' in p
+        ? { type: 'image_url' as const, image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } }
+        : { type: 'text' as const, text: p.text }))
+      : m.parts.map(p => ('text' in p ? p.text : '')).join('\n\n');
+    out.push({ role: m.role === 'model' ? 'assistant' : 'user', content });
+  });
+  return out;
+};
+
+/**
+ * Splits a server-sent-events buffer into complete `data:` payloads and the unfinished remainder.
+ */
+export const parseSseData = (buffer: string): { events: string[]; rest: string } => {
+  const lines = buffer.split(/\r?\n/);
+  const rest = lines.pop() ?? '';
+  const events = lines
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trim())
+    .filter(data => data.length > 0);
+  return { events, rest };
+};
+
+// Streamed tool calls arrive as fragments keyed by index; arguments are a JSON string built up piecewise
+interface ToolCallDelta {
+  index: number;
+  function?: { name?: string; arguments?: string };
+}
+
+export const mergeToolCallDeltas = (pending: Map<number, { name: string; arguments: string }>, deltas: ToolCallDelta[]) => {
+  deltas.forEach(d => {
+    const call = pending.get(d.index) ?? { name: '', arguments: '' };
+    call.name += d.function?.name ?? '';
+    call.arguments += d.function?.arguments ?? '';
+    pending.set(d.index, call);
+  });
+};
+
+const finishToolCalls = (pending: Map<number, { name: string; arguments: string }>): LlmToolCall[] =>
+  Array.from(pending.values()).map(call => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      // Left empty; the caller validates arguments anyway
+    }
+    return { name: call.name, args };
+  });
+
+/**
+ * JSON from a model reply, tolerating ```json fences and text around the object.
+ */
+export const parseJsonReply = <T>(text: string): T => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1] ?? text;
+  const start = fenced.search(/[[{]/);
+  const end = Math.max(fenced.lastIndexOf('}'), fenced.lastIndexOf(']'));
+  if (start === -1 || end < start) throw new Error('The model did not return JSON.');
+  return JSON.parse(fenced.slice(start, end + 1));
+};
+
+export const createOpenAiCompatibleProvider = (
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  model = DEFAULT_OPENAI_MODEL,
+  apiKey?: string
+): LlmProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const headers = (json: boolean): Record<string, string> => ({
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  });
+
+  const post = async (path: string, body: BodyInit, json = true) => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, { method: 'POST', headers: headers(json), body });
+    } catch {
+      throw new Error(`Cannot reach the AI server at ${root}. Is it running and does it allow this origin (CORS)?`);
+    }
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw new Error(`AI server error ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  };
+
+  const chatBody = (messages: LlmMessage[], options: LlmRequestOptions = {}, extra: Record<string, unknown> = {}) =>
+    JSON.stringify({
+      model,
+      messages: toOpenAiMessages(messages, options.systemInstruction),
+      ...(options.tools?.length
+        ? { tools: options.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })) }
+        : {}),
+      ...extra,
+    });
+
+  return {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    model,
+    // Depends on the served model; requests fail with the server's message if unsupported
+    capabilities: { vision: true, audio: true, search: false, tools: true },
+
+    async *streamChat(messages, options) {
+      const response = await post('/chat/completions', chatBody(messages, options, { stream: true }));
+      if (!response.body) throw new Error('AI server returned no response body.');
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      const pendingToolCalls = new Map<number, { name: string; arguments: string }>();
+      stream: while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        const parsed = parseSseData(buffer + value);
+        buffer = parsed.rest;
+        for (const data of parsed.events) {
+          if (data === '[DONE]') break stream;
+          const delta = JSON.parse(data).choices?.[0]?.delta;
+          if (delta?.tool_calls) mergeToolCallDeltas(pendingToolCalls, delta.tool_calls);
+          if (delta?.content) yield { text: delta.content };
+        }
+      }
+      // Tool calls are only complete once the stream ends
+      if (pendingToolCalls.size > 0) yield { text: '', toolCalls: finishToolCalls(pendingToolCalls) };
+    },
+
+    async generateJson(messages, schema, options) {
+      const response = await post('/chat/completions', chatBody(messages, options, {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+      }));
+      const data = await response.json();
+      return parseJsonReply(data.choices?.[0]?.message?.content ?? '');
+    },
+
+    async transcribeAudio(audio) {
+      const form = new FormData();
+      form.append('file', audio, 'recording.webm');
+      form.append('model', TRANSCRIPTION_MODEL);
+      const response = await post('/audio/transcriptions', form, false);
+      const data = await response.json();
+      return data.text ?? '';
+    },
+  };
+};
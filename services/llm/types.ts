@@ -0,0 +1,84 @@
+// LLM PROVIDER CONTRACT
+// Everything the app asks of a language model goes through this interface, so the Gemini API,
+// an OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...) and the offline mock are interchangeable.
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type LlmPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  parts: LlmPart[];
+}
+
+export interface LlmRequestOptions {
+  systemInstruction?: string;
+  // How much the model should reason before answering (ignored by providers without a knob)
+  reasoning?: 'low' | 'high';
+  // Detail at which attached images are read (ignored by providers without a knob)
+  imageDetail?: 'low' | 'medium' | 'high';
+  // Web search grounding, where the provider supports it
+  useSearch?: boolean;
+  // Functions the model may call instead of (or besides) answering in text
+  tools?: LlmToolDeclaration[];
+}
+
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+// A function call requested by the model; arguments are unvalidated model output
+export interface LlmToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmSource {
+  uri: string;
+  title: string;
+}
+
+export interface LlmStreamChunk {
+  text: string;
+  sources?: LlmSource[];
+  toolCalls?: LlmToolCall[];
+}
+
+// Plain JSON Schema subset (object / array / string / number / boolean)
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  description?: string;
+  enum?: string[];
+}
+
+export interface LlmCapabilities {
+  vision: boolean;
+  audio: boolean;
+  search: boolean;
+  tools: boolean;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  model: string;
+  capabilities: LlmCapabilities;
+  streamChat: (messages: LlmMessage[], options?: LlmRequestOptions) => AsyncIterable<LlmStreamChunk>;
+  generateJson: <T>(messages: LlmMessage[], schema: JsonSchema, options?: LlmRequestOptions) => Promise<T>;
+  transcribeAudio: (audio: Blob) => Promise<string>;
+}
+
+// Runtime selection, persisted in localStorage (see services/llm/index.ts)
+export interface LlmProviderConfig {
+  id: LlmProviderId;
+  model?: string;
+  // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+  // Overrides the build-time Gemini key, or the bearer token of an OpenAI-compatible server
+  apiKey?: string;
+}
@@ -0,0 +1,267 @@
+import { Study, Series } from "../types";
+import { registerImportedStudy, registerLocalBlob } from "./dicomService";
+import { parseDicom, isDicomPart10, hasElement, getString, getNumber, getNumbers, DicomDataset } from "../utils/dicomParser";
+import { TAGS } from "../utils/dicomJson";
+import { isZip, readZipEntries } from "../utils/zip";
+import { resolvePixelSpacing } from "../utils/calibration";
+import { computeSliceGeometry } from "../utils/sliceSync";
+
+// Parser element keys are uppercase hex, same as the DICOM JSON TAGS
+const PIXEL_DATA = '7FE00010';
+
+// Pseudo URL scheme for imported instances; the blobs live in the dicomService image cache
+const IMPORT_URL_PREFIX = 'imported://';
+
+export interface ImportedInstance {
+  url: string;
+  studyUid: string;
+  seriesUid: string;
+  sopUid: string;
+  sopClassUid?: string;
+  instanceNumber?: number;
+  imagePosition?: number[];
+  imageOrientation?: number[];
+  frameOfReferenceUid?: string;
+  pixelSpacing?: number[];
+  imagerPixelSpacing?: number[];
+  sliceThickness?: number;
+  // Study / Series level attributes (taken from whichever instance is seen first)
+  patientName: string;
+  patientId: string;
+  accessionNumber: string;
+  studyDate: string;
+  studyDescription: string;
+  seriesDescription: string;
+  seriesNumber?: number;
+  modality: string;
+}
+
+export interface LocalImportResult {
+  studies: Study[];
+  importedCount: number;
+  skipped: { name: string; reason: string }[];
+}
+
+// Everything imported this session, keyed by SOP Instance UID (re-importing a file is a no-op)
+const importedInstances = new Map<string, ImportedInstance>();
+
+const formatPersonName = (value?: string) => {
+  if (!value) return 'Anonymous';
+  const [family, given] = value.split('^');
+  return given ? `${family}, ${given}` : family;
+};
+
+const readInstance = (ds: DicomDataset): Omit<ImportedInstance, 'url'> | null => {
+  const studyUid = getString(ds, TAGS.StudyInstanceUID);
+  const seriesUid = getString(ds, TAGS.SeriesInstanceUID);
+  const sopUid = getString(ds, TAGS.SOPInstanceUID);
+  if (!studyUid || !seriesUid || !sopUid) return null;
+
+  return {
+    studyUid,
+    seriesUid,
+    sopUid,
+    sopClassUid: getString(ds, TAGS.SOPClassUID),
+    instanceNumber: getNumber(ds, TAGS.InstanceNumber),
+    imagePosition: getNumbers(ds, TAGS.ImagePositionPatient),
+    imageOrientation: getNumbers(ds, TAGS.ImageOrientationPatient),
+    frameOfReferenceUid: getString(ds, TAGS.FrameOfReferenceUID),
+    pixelSpacing: getNumbers(ds, TAGS.PixelSpacing),
+    imagerPixelSpacing: getNumbers(ds, TAGS.ImagerPixelSpacing),
+    sliceThickness: getNumber(ds, TAGS.SliceThickness),
+    patientName: formatPersonName(getString(ds, TAGS.PatientName)),
+    patientId: getString(ds, TAGS.PatientID) || '',
+    accessionNumber: getString(ds, TAGS.AccessionNumber) || '',
+    studyDate: getString(ds, TAGS.StudyDate) || '',
+    studyDescription: getString(ds, TAGS.StudyDescription) || 'No Description',
+    seriesDescription: getString(ds, TAGS.SeriesDescription) || 'No Description',
+    seriesNumber: getNumber(ds, TAGS.SeriesNumber),
+    modality: getString(ds, TAGS.Modality) || 'OT',
+  };
+};
+
+/**
+ * Distance of each slice along the stack normal (row cosines × column cosines).
+ * Returns null unless every instance has a position and orientation.
+ */
+const getSliceLocations = (instances: ImportedInstance[]): number[] | null =>
+  computeSliceGeometry(instances.map(i => i.imagePosition), instances[0]?.imageOrientation).slicePositions ?? null;
+
+/**
+ * Orders a series by Instance Number. Falls back to Image Position (Patient) along the slice normal
+ * when Instance Numbers are missing or repeated, which some anonymizers and exporters produce.
+ */
+export const sortInstances = (instances: ImportedInstance[]): ImportedInstance[] => {
+  const numbers = instances.map(i => i.instanceNumber);
+  const numbersUsable = numbers.every(n => n !== undefined) && new Set(numbers).size === numbers.length;
+  if (numbersUsable) {
+    return [...instances].sort((a, b) => a.instanceNumber! - b.instanceNumber!);
+  }
+
+  const locations = getSliceLocations(instances);
+  if (locations) {
+    return instances
+      .map((instance, idx) => ({ instance, location: locations[idx] }))
+      .sort((a, b) => a.location - b.location)
+      .map(entry => entry.instance);
+  }
+
+  return [...instances].sort((a, b) => (a.instanceNumber ?? 0) - (b.instanceNumber ?? 0));
+};
+
+/**
+ * Groups instances into Study / Series models by Study and Series Instance UID.
+ */
+export const groupInstances = (instances: ImportedInstance[]): { study: Study; series: Series[] }[] => {
+  const byStudy = new Map<string, Map<string, ImportedInstance[]>>();
+  instances.forEach(inst => {
+    if (!byStudy.has(inst.studyUid)) byStudy.set(inst.studyUid, new Map());
+    const bySeries = byStudy.get(inst.studyUid)!;
+    if (!bySeries.has(inst.seriesUid)) bySeries.set(inst.seriesUid, []);
+    bySeries.get(inst.seriesUid)!.push(inst);
+  });
+
+  return Array.from(byStudy.entries()).map(([studyUid, bySeries]) => {
+    const series: Series[] = Array.from(bySeries.entries()).map(([seriesUid, members]) => {
+      const sorted = sortInstances(members);
+      const { sliceThickness, frameOfReferenceUid, sopClassUid } = sorted[0];
+      return {
+        id: seriesUid,
+        studyId: studyUid,
+        description: sorted[0].seriesDescription,
+        modality: sorted[0].modality,
+        instanceCount: sorted.length,
+        instances: sorted.map(i => i.url),
+        seriesNumber: sorted[0].seriesNumber,
+        ...resolvePixelSpacing(sorted[0].pixelSpacing, sorted[0].imagerPixelSpacing),
+        ...(sliceThickness !== undefined && sliceThickness > 0 ? { sliceThickness } : {}),
+        ...computeSliceGeometry(sorted.map(i => i.imagePosition), sorted[0].imageOrientation),
+        ...(frameOfReferenceUid ? { frameOfReferenceUid } : {}),
+        ...(sopClassUid ? { sopClassUid } : {}),
+      };
+    }).sort((a, b) => (a.seriesNumber ?? 0) - (b.seriesNumber ?? 0));
+
+    const first = bySeries.values().next().value![0];
+    const modalities = Array.from(new Set(series.map(s => s.modality)));
+    const study: Study = {
+      id: studyUid,
+      patientName: first.patientName,
+      patientId: first.patientId,
+      accessionNumber: first.accessionNumber,
+      studyDate: first.studyDate,
+      modality: modalities.join('/'),
+      description: first.studyDescription,
+      seriesCount: series.length,
+      instanceCount: series.reduce((acc, s) => acc + s.instanceCount, 0),
+      isImported: true,
+    };
+    return { study, series };
+  });
+};
+
+/**
+ * Flattens dropped files and ZIP archives into (name, blob) pairs.
+ * Files and archives that cannot be read are added to `skipped` so the rest still import.
+ */
+const expandArchives = async (files: File[], skipped: LocalImportResult['skipped']): Promise<{ name: string; blob: Blob; bytes: Uint8Array }[]> => {
+  const expanded: { name: string; blob: Blob; bytes: Uint8Array }[] = [];
+  for (const file of files) {
+    const name = file.webkitRelativePath || file.name;
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (isZip(bytes)) {
+        const entries = await readZipEntries(bytes);
+        entries.forEach(entry => {
+          expanded.push({ name: `${file.name}/${entry.name}`, blob: new Blob([entry.data], { type: 'application/dicom' }), bytes: entry.data });
+        });
+      } else {
+        expanded.push({ name, blob: file, bytes });
+      }
+    } catch (e: any) {
+      skipped.push({ name, reason: e.message || 'Could not read file' });
+    }
+  }
+  return expanded;
+};
+
+/**
+ * IMPORT LOCAL FILES
+ * Parses DICOM Part 10 files (loose, from folders or inside ZIPs), registers them with dicomService
+ * and returns the studies they belong to. Files that are not decodable images are reported as skipped.
+ */
+export const importLocalFiles = async (files: File[]): Promise<LocalImportResult> => {
+  const skipped: LocalImportResult['skipped'] = [];
+  const touchedStudies = new Set<string>();
+  let importedCount = 0;
+
+  const candidates = await expandArchives(files, skipped);
+
+  candidates.forEach(({ name, blob, bytes }) => {
+    if (!isDicomPart10(bytes)) {
+      skipped.push({ name, reason: 'Not a DICOM Part 10 file' });
+      return;
+    }
+    try {
+      const { dataset } = parseDicom(bytes);
+      if (!hasElement(dataset, PIXEL_DATA)) {
+        skipped.push({ name, reason: 'No image pixel data (e.g. DICOMDIR, SR)' });
+        return;
+      }
+      const header = readInstance(dataset);
+      if (!header) {
+        skipped.push({ name, reason: 'Missing Study/Series/SOP Instance UID' });
+        return;
+      }
+      const url = `${IMPORT_URL_PREFIX}${header.studyUid}/${header.seriesUid}/${header.sopUid}`;
+      registerLocalBlob(url, blob);
+      importedInstances.set(header.sopUid, { ...header, url });
+      touchedStudies.add(header.studyUid);
+      importedCount++;
+    } catch (e: any) {
+      skipped.push({ name, reason: e.message || 'Could not parse file' });
+    }
+  });
+
+  // Regroup whole studies so files dropped in several batches end up in the same series
+  const affected = Array.from(importedInstances.values()).filter(i => touchedStudies.has(i.studyUid));
+  const grouped = groupInstances(affected);
+  grouped.forEach(({ study, series }) => registerImportedStudy(study, series));
+
+  return { studies: grouped.map(g => g.study), importedCount, skipped };
+};
+
+// --- DRAG AND DROP ---
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches (100 in Chrome) until an empty batch
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(readEntryFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+/**
+ * Collects files from a drop event, walking into dropped folders recursively.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const nested = await Promise.all(entries.map(readEntryFiles));
+  return nested.flat();
+};
@@ -0,0 +1,230 @@
+import { Series, Segment } from '../types';
+import { MaskStore } from '../utils/maskStore';
+import { decodeImageBlob, isPng } from './imageLoader';
+import { isDicomPart10 } from '../utils/dicomParser';
+import { isGzip, gunzip } from '../utils/zip';
+import { decodeNiftiLabels } from '../utils/nifti';
+import { decodeDicomSeg, mapSegFramesToSlices } from '../utils/dicomSeg';
+import { ImportedSegment, resampleLabelSlice, mergeImportedSegments } from '../utils/labelVolume';
+
+// SEGMENTATION IMPORT
+// Loads a reference segmentation onto the active series and paints it into the shared mask store.
+// Supported: NIfTI-1 label volumes (.nii / .nii.gz, optional .json sidecar as written by our export),
+// DICOM SEG objects, and per-slice PNG label masks (slice number taken from the file name).
+// NIfTI voxels are assumed to follow the image axes (column, row, instance order), like our export.
+
+export type SegmentationImportFormat = 'nifti' | 'dicom-seg' | 'png';
+
+export interface SegmentationImportResult {
+  format: SegmentationImportFormat;
+  segments: Segment[];
+  slicesWritten: number;
+  warnings: string[];
+}
+
+// One label slice in file resolution, keyed by series slice index
+interface ImportedSlices {
+  columns: number;
+  rows: number;
+  slices: Map<number, ArrayLike<number>>;
+  definitions: ImportedSegment[];
+  warnings: string[];
+}
+
+const NIFTI_HEADER_SIZE = 348;
+
+const looksLikeNifti = (bytes: Uint8Array) => {
+  if (bytes.length < 4) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return view.getInt32(0, true) === NIFTI_HEADER_SIZE || view.getInt32(0, false) === NIFTI_HEADER_SIZE;
+};
+
+// A sidecar entry with a numeric label value; label and color are checked where they are read
+const isSidecarEntry = (entry: unknown): entry is { value: unknown; label?: unknown; color?: unknown } =>
+  typeof entry === 'object' && entry !== null && Number.isFinite(Number((entry as { value?: unknown }).value));
+
+/**
+ * Label names/colors from a sidecar: `{ labels: [{ value, label, color }] }` (our NIfTI export) or a bare array.
+ */
+export const parseLabelSidecar = (json: unknown): ImportedSegment[] => {
+  const list = Array.isArray(json) ? json : (json as { labels?: unknown })?.labels;
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter(isSidecarEntry)
+    .map(entry => ({
+      value: Number(entry.value),
+      label: typeof entry.label === 'string' ? entry.label : undefined,
+      color: Array.isArray(entry.color) && entry.color.length === 3 ? entry.color.map(Number) as [number, number, number] : undefined,
+    }));
+};
+
+/**
+ * Slice index for each PNG name: the last number in the name. Numbering is zero-based if any
+ * file is numbered 0, otherwise one-based (matching the slice numbers shown in the viewer).
+ */
+export const getPngSliceIndices = (names: string[]): (number | null)[] => {
+  const numbers = names.map(name => {
+    const matches = name.replace(/\.png$/i, '').match(/\d+/g);
+    return matches ? parseInt(matches[matches.length - 1], 10) : null;
+  });
+  const offset = numbers.some(n => n === 0) ? 0 : 1;
+  return numbers.map(n => (n === null ? null : n - offset));
+};
+
+// --- FORMAT READERS ---
+
+const readNifti = (bytes: Uint8Array, sidecar: ImportedSegment[], sliceCount: number): ImportedSlices => {
+  const nifti = decodeNiftiLabels(bytes);
+  const warnings: string[] = [];
+  const sliceSize = nifti.columns * nifti.rows;
+
+  if (nifti.slices !== sliceCount) {
+    warnings.push(`Label volume has ${nifti.slices} slices but the series has ${sliceCount}; slices were matched proportionally.`);
+  }
+
+  const present = new Set<number>();
+  nifti.values.forEach(v => { if (v !== 0) present.add(v); });
+
+  const slices = new Map<number, ArrayLike<number>>();
+  for (let z = 0; z < sliceCount; z++) {
+    const k = nifti.slices === sliceCount ? z : Math.min(nifti.slices - 1, Math.floor(((z + 0.5) * nifti.slices) / sliceCount));
+    const values = nifti.values.subarray(k * sliceSize, (k + 1) * sliceSize);
+    if (values.some(v => v !== 0)) slices.set(z, values);
+  }
+
+  const definitions = Array.from(present).sort((a, b) => a - b)
+    .map(value => sidecar.find(entry => entry.value === value) ?? { value });
+  return { columns: nifti.columns, rows: nifti.rows, slices, definitions, warnings };
+};
+
+const readDicomSeg = (bytes: Uint8Array, series: Series): ImportedSlices => {
+  const seg = decodeDicomSeg(bytes);
+  const warnings: string[] = [];
+  if (seg.referencedSeriesUid && seg.referencedSeriesUid !== series.id) {
+    warnings.push('The SEG references a different series; frames were placed by position where possible.');
+  }
+  const { slices, unplaced } = mapSegFramesToSlices(seg, series);
+  if (unplaced > 0) {
+    warnings.push(`${unplaced} frame${unplaced === 1 ? '' : 's'} could not be matched to a slice of this series.`);
+  }
+  return { columns: seg.columns, rows: seg.rows, slices, definitions: seg.segments, warnings };
+};
+
+const readPngMasks = async (files: File[], sidecar: ImportedSegment[], sliceCount: number): Promise<ImportedSlices> => {
+  const warnings: string[] = [];
+  const indices = getPngSliceIndices(files.map(f => f.name));
+  const slices = new Map<number, ArrayLike<number>>();
+  const grayValues = new Set<number>();
+  // Colored masks: every distinct color becomes its own label
+  const colorValues = new Map<string, ImportedSegment>();
+  let columns = 0;
+  let rows = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const index = indices[i];
+    if (index === null || index < 0 || index >= sliceCount) {
+      warnings.push(`${files[i].name}: no slice ${index === null ? 'number in the file name' : index + 1} in this series, skipped.`);
+      continue;
+    }
+    const image = await decodeImageBlob(files[i]);
+    if (columns && (image.columns !== columns || image.rows !== rows)) {
+      throw new Error(`${files[i].name} is ${image.columns}×${image.rows} but earlier masks are ${columns}×${rows}.`);
+    }
+    columns = image.columns;
+    rows = image.rows;
+
+    const { pixelData, samplesPerPixel } = image;
+    const values = new Int32Array(columns * rows);
+    for (let p = 0; p < values.length; p++) {
+      if (samplesPerPixel === 1) {
+        values[p] = pixelData[p];
+        if (values[p]) grayValues.add(values[p]);
+        continue;
+      }
+      const rgb: [number, number, number] = [pixelData[p * 3], pixelData[p * 3 + 1], pixelData[p * 3 + 2]];
+      if (rgb[0] === 0 && rgb[1] === 0 && rgb[2] === 0) continue;
+      const key = rgb.join(',');
+      if (!colorValues.has(key)) {
+        // Offset past 8-bit gray values so both kinds can be mixed in one import
+        const n = colorValues.size + 1;
+        colorValues.set(key, { value: 255 + n, label: `Label ${n}`, color: rgb });
+      }
+      values[p] = colorValues.get(key)!.value;
+    }
+    slices.set(index, values);
+  }
+
+  const definitions = [
+    ...Array.from(grayValues).sort((a, b) => a - b).map(value => sidecar.find(entry => entry.value === value) ?? { value }),
+    ...colorValues.values(),
+  ];
+  return { columns, rows, slices, definitions, warnings };
+};
+
+// --- IMPORT ---
+
+/**
+ * Reads the files, adds their labels to `existingSegments` and paints every labelled slice into the
+ * series' masks (resampled to the mask size). Painted pixels overwrite existing labels; other pixels are kept.
+ */
+export const importSegmentationFiles = async (
+  files: File[],
+  series: Series,
+  maskSize: { columns: number; rows: number },
+  maskStore: MaskStore,
+  existingSegments: Segment[]
+): Promise<SegmentationImportResult> => {
+  const sliceCount = series.instances.length || series.instanceCount;
+  let sidecar: ImportedSegment[] = [];
+  const volumes: { name: string; bytes: Uint8Array; format: SegmentationImportFormat }[] = [];
+  const pngs: File[] = [];
+
+  for (const file of files) {
+    let bytes = new Uint8Array(await file.arrayBuffer());
+    if (/\.json$/i.test(file.name)) {
+      try {
+        sidecar = parseLabelSidecar(JSON.parse(new TextDecoder().decode(bytes)));
+      } catch {
+        throw new Error(`${file.name} is not valid JSON.`);
+      }
+      continue;
+    }
+    if (isGzip(bytes)) bytes = await gunzip(bytes);
+
+    if (isPng(bytes)) pngs.push(file);
+    else if (isDicomPart10(bytes)) volumes.push({ name: file.name, bytes, format: 'dicom-seg' });
+    else if (looksLikeNifti(bytes)) volumes.push({ name: file.name, bytes, format: 'nifti' });
+    else throw new Error(`${file.name}: not a NIfTI volume, DICOM SEG or PNG mask.`);
+  }
+
+  if (volumes.length + (pngs.length > 0 ? 1 : 0) !== 1) {
+    throw new Error(volumes.length + pngs.length === 0
+      ? 'No segmentation file selected (NIfTI, DICOM SEG or PNG masks).'
+      : 'Import one segmentation at a time: a single NIfTI or DICOM SEG file, or a set of PNG masks.');
+  }
+
+  const format: SegmentationImportFormat = volumes[0]?.format ?? 'png';
+  const imported = format === 'nifti'
+    ? readNifti(volumes[0].bytes, sidecar, sliceCount)
+    : format === 'dicom-seg'
+      ? readDicomSeg(volumes[0].bytes, series)
+      : await readPngMasks(pngs, sidecar, sliceCount);
+
+  if (imported.slices.size === 0) throw new Error('The segmentation contains no labelled pixels for this series.');
+
+  const { segments, idByValue } = mergeImportedSegments(existingSegments, imported.definitions);
+  const warnings = [...imported.warnings];
+  if (imported.columns !== maskSize.columns || imported.rows !== maskSize.rows) {
+    warnings.push(`Labels are ${imported.columns}×${imported.rows} and were resampled to the ${maskSize.columns}×${maskSize.rows} images.`);
+  }
+
+  let slicesWritten = 0;
+  imported.slices.forEach((values, sliceIndex) => {
+    const labels = resampleLabelSlice(values, imported.columns, imported.rows, maskSize.columns, maskSize.rows, idByValue);
+    if (!labels.some(v => v !== 0)) return;
+    maskStore.writeLabelSlice(series.id, sliceIndex, maskSize.columns, maskSize.rows, labels);
+    slicesWritten++;
+  });
+
+  return { format, segments, slicesWritten, warnings };
+};
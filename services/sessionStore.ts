@@ -0,0 +1,123 @@
+import { StudySession, SessionSnapshotInfo, SessionMaskSlice } from '../types';
+import { MaskStore } from '../utils/maskStore';
+import { packLabels } from '../utils/labelMap';
+
+// SESSION STORE
+// Persists learner sessions (measurements, segmentation, masks, AI chat) in IndexedDB.
+// One autosave per study, plus any number of named snapshots. Label masks are stored as
+// Uint8Arrays (Uint16Arrays once segment IDs exceed 255), which IndexedDB keeps as binary through structured cloning.
+
+const DB_NAME = 'viberad-sessions';
+const DB_VERSION = 1;
+const AUTOSAVE_STORE = 'autosave';
+const SNAPSHOT_STORE = 'snapshots';
+
+interface SnapshotRecord extends SessionSnapshotInfo {
+  session: StudySession;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Session storage is unavailable (IndexedDB not supported).'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) db.createObjectStore(AUTOSAVE_STORE, { keyPath: 'studyId' });
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' }).createIndex('studyId', 'studyId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open session storage.'));
+    });
+    // Allow a retry after e.g. a blocked upgrade
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = op(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Session storage request failed.'));
+    tx.onabort = () => reject(tx.error ?? new Error('Session storage request was aborted (storage full?).'));
+  });
+};
+
+// --- AUTOSAVE ---
+
+export const saveAutosave = async (session: StudySession): Promise<void> => {
+  await run(AUTOSAVE_STORE, 'readwrite', store => store.put(session));
+};
+
+export const loadAutosave = async (studyId: string): Promise<StudySession | null> => {
+  const session = await run<StudySession | undefined>(AUTOSAVE_STORE, 'readonly', store => store.get(studyId));
+  return session ?? null;
+};
+
+// --- SNAPSHOTS ---
+
+export const saveSnapshot = async (name: string, session: StudySession): Promise<SessionSnapshotInfo> => {
+  const info: SessionSnapshotInfo = {
+    id: `${session.studyId}:${Date.now()}`,
+    studyId: session.studyId,
+    name: name.trim() || new Date(session.savedAt).toLocaleString(),
+    savedAt: session.savedAt,
+  };
+  await run(SNAPSHOT_STORE, 'readwrite', store => store.put({ ...info, session } as SnapshotRecord));
+  return info;
+};
+
+/**
+ * Snapshots of a study, newest first (without their session payload).
+ */
+export const listSnapshots = async (studyId: string): Promise<SessionSnapshotInfo[]> => {
+  const records = await run<SnapshotRecord[]>(SNAPSHOT_STORE, 'readonly', store => store.index('studyId').getAll(studyId));
+  return records
+    .map(({ id, studyId: sid, name, savedAt }) => ({ id, studyId: sid, name, savedAt }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const loadSnapshot = async (id: string): Promise<StudySession> => {
+  const record = await run<SnapshotRecord | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(id));
+  if (!record) throw new Error('Snapshot not found; it may have been deleted in another tab.');
+  return record.session;
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await run(SNAPSHOT_STORE, 'readwrite', store => store.delete(id));
+};
+
+// --- MASKS ---
+
+/**
+ * Label slices of every painted slice in the given series.
+ */
+export const collectSessionMasks = (maskStore: MaskStore, seriesIds: string[]): SessionMaskSlice[] => {
+  const masks: SessionMaskSlice[] = [];
+  seriesIds.forEach(seriesId => {
+    maskStore.getSliceSegmentIds(seriesId).forEach((ids, sliceIndex) => {
+      if (ids.size === 0) return;
+      const slice = maskStore.getLabelSlice(seriesId, sliceIndex);
+      if (slice) masks.push({ seriesId, sliceIndex, width: slice.width, height: slice.height, labels: packLabels(slice.labels) });
+    });
+  });
+  return masks;
+};
+
+/**
+ * Replaces all masks in the store with the session's masks.
+ */
+export const restoreSessionMasks = (maskStore: MaskStore, masks: SessionMaskSlice[]) => {
+  maskStore.getSeriesIds().forEach(seriesId => maskStore.clearSeries(seriesId));
+  masks.forEach(m => maskStore.writeLabelSlice(m.seriesId, m.sliceIndex, m.width, m.height, m.labels));
+};
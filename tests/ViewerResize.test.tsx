@@ -69,6 +69,9 @@ describe('ViewerCanvas Resize Logic', () => {
     activeSegmentId: null,
     segments: [],
     brushSize: 10,
+    thresholdRange: null,
+    growTolerance: 0.1,
+    growIn3d: false,
     segmentedSlices: []
   };
 
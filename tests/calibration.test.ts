@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getCalibration, measureLength, formatLength, resolvePixelSpacing } from '../utils/calibration';
+import { Series } from '../types';
+
+const series = (overrides: Partial<Series> = {}): Series => ({
+  id: 's1',
+  studyId: 'st1',
+  description: 'Axial',
+  modality: 'CT',
+  instanceCount: 1,
+  instances: ['a'],
+  ...overrides,
+});
+
+describe('measurement calibration', () => {
+  it('reports uncalibrated series in pixels', () => {
+    const cal = getCalibration(series());
+    expect(cal.unit).toBe('px');
+    expect(formatLength({ x: 0, y: 0 }, { x: 3, y: 4 }, cal)).toBe('5.0 px');
+  });
+
+  it('applies anisotropic row/column spacing', () => {
+    const cal = getCalibration(series({ pixelSpacing: [2, 0.5], pixelSpacingSource: 'PixelSpacing' }));
+    // 10 columns × 0.5 mm horizontally, 10 rows × 2 mm vertically
+    expect(measureLength({ x: 0, y: 0 }, { x: 10, y: 0 }, cal)).toBe(5);
+    expect(measureLength({ x: 0, y: 0 }, { x: 0, y: 10 }, cal)).toBe(20);
+    expect(formatLength({ x: 0, y: 0 }, { x: 6, y: 2 }, cal)).toBe('5.0 mm');
+  });
+
+  it('prefers Pixel Spacing over Imager Pixel Spacing and ignores invalid values', () => {
+    expect(resolvePixelSpacing([0.7, 0.7], [0.14, 0.14])).toEqual({ pixelSpacing: [0.7, 0.7], pixelSpacingSource: 'PixelSpacing' });
+    expect(resolvePixelSpacing(undefined, [0.14])).toEqual({ pixelSpacing: [0.14, 0.14], pixelSpacingSource: 'ImagerPixelSpacing' });
+    expect(resolvePixelSpacing([0, 0])).toEqual({});
+  });
+});
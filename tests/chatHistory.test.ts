@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ChatMessage } from '../types';
+import { toChatTurns, buildChatHistory, summarizeTurns, ChatTurn, IMAGE_TOKEN_ESTIMATE } from '../utils/chatHistory';
+
+const exchange = (i: number, image?: string): ChatMessage[] => [
+  { id: `u${i}`, role: 'user', text: `Question ${i}?` },
+  { id: `m${i}`, role: 'model', text: `Answer ${i}. More detail follows here.`, attachedSliceThumbnailDataUrl: image },
+];
+
+describe('chat history', () => {
+  it('keeps answered turns of the current thread only', () => {
+    const messages: ChatMessage[] = [
+      { id: 'welcome', role: 'model', text: 'Hi' },
+      ...exchange(1),
+      { id: 'd', role: 'divider', text: '' },
+      ...exchange(2, 'data:image/jpeg;base64,AAAA'),
+      { id: 'u3', role: 'user', text: 'Failed question' },
+      { id: 'e3', role: 'error', text: 'API Error' },
+    ];
+    expect(toChatTurns(messages)).toEqual([
+      { role: 'user', text: 'Question 2?', imageBase64: 'AAAA' },
+      { role: 'model', text: 'Answer 2. More detail follows here.' },
+    ]);
+  });
+
+  it('sends everything when it fits the budget', () => {
+    const turns = toChatTurns([...exchange(1), ...exchange(2)]);
+    const result = buildChatHistory(turns);
+    expect(result.contents.map(c => c.role)).toEqual(['user', 'model', 'user', 'model']);
+    expect(result.summarizedTurns).toBe(0);
+  });
+
+  it('summarizes older turns beyond the token budget', () => {
+    const turns = toChatTurns(Array.from({ length: 20 }, (_, i) => exchange(i + 1)).flat());
+    const result = buildChatHistory(turns, { maxTokens: 100, maxImages: 1 });
+    expect(result.summarizedTurns).toBeGreaterThan(0);
+    expect(result.summarizedTurns + result.keptTurns).toBe(40);
+    // Summary exchange first, then alternating verbatim turns ending with the newest answer
+    expect(result.contents[0].parts[0]).toMatchObject({ text: expect.stringContaining('Summary of the earlier conversation') });
+    expect(result.contents.map(c => c.role).every((r, i) => r === (i % 2 === 0 ? 'user' : 'model'))).toBe(true);
+    expect(result.contents[result.contents.length - 1].parts[0]).toEqual({ text: 'Answer 20. More detail follows here.' });
+  });
+
+  it('re-sends only the most recent distinct images', () => {
+    const turns = toChatTurns([...exchange(1, 'data:image/jpeg;base64,OLD'), ...exchange(2, 'data:image/jpeg;base64,NEW'), ...exchange(3, 'data:image/jpeg;base64,NEW')]);
+    const result = buildChatHistory(turns, { maxTokens: 10 * IMAGE_TOKEN_ESTIMATE, maxImages: 1 });
+    const images = result.contents.flatMap(c => c.parts).filter(p => 'inlineData' in p);
+    expect(images).toEqual([{ inlineData: { mimeType: 'image/jpeg', data: 'NEW' } }]);
+    expect(result.droppedImages).toBe(2);
+  });
+
+  it('condenses turns to their first sentence', () => {
+    const turns: ChatTurn[] = [
+      { role: 'user', text: 'Where is the **hippocampus**?' },
+      { role: 'model', text: '## Anatomy\nIt lies in the medial temporal lobe. It is part of the limbic system.' },
+    ];
+    expect(summarizeTurns(turns, 500)).toBe([
+      'Summary of the earlier conversation (older turns condensed):',
+      '- Learner asked: Where is the hippocampus?',
+      '- You answered: It lies in the medial temporal lobe.',
+    ].join('\n'));
+  });
+});
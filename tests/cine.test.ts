@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { clampCineRange, getNextCineFrame, getCineLookahead } from '../utils/cine';
+
+describe('cine', () => {
+  const range = { start: 2, end: 4 };
+
+  it('loops back to the start of the range', () => {
+    expect(getNextCineFrame(2, 1, range, 'loop')).toEqual({ index: 3, direction: 1 });
+    expect(getNextCineFrame(4, 1, range, 'loop')).toEqual({ index: 2, direction: 1 });
+  });
+
+  it('bounces at both ends of the range', () => {
+    expect(getNextCineFrame(4, 1, range, 'bounce')).toEqual({ index: 3, direction: -1 });
+    expect(getNextCineFrame(2, -1, range, 'bounce')).toEqual({ index: 3, direction: 1 });
+  });
+
+  it('re-enters the range from outside and clamps ranges to the stack', () => {
+    expect(getNextCineFrame(9, 1, range, 'loop')).toEqual({ index: 2, direction: 1 });
+    expect(clampCineRange({ start: 30, end: -3 }, 20)).toEqual({ start: 0, end: 19 });
+  });
+
+  it('lists upcoming frames for prefetching', () => {
+    expect(getCineLookahead(3, 1, range, 'bounce', 5)).toEqual([4, 3]);
+    expect(getCineLookahead(0, 1, { start: 0, end: 9 }, 'loop', 3)).toEqual([1, 2, 3]);
+  });
+});
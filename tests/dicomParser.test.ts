@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { parseDicom, parseMultipartRelated, getString, getNumber, getSequence, TRANSFER_SYNTAX } from '../utils/dicomParser';
+import { extractDicomImage } from '../services/imageLoader';
+
+// --- Tiny P10 builder for fixtures ---
+
+type El = { tag: number; vr: string; value: Uint8Array };
+
+const SHORT_VRS = new Set(['AE', 'AS', 'AT', 'CS', 'DA', 'DS', 'DT', 'FL', 'FD', 'IS', 'LO', 'LT', 'PN', 'SH', 'SL', 'SS', 'ST', 'TM', 'UI', 'UL', 'US']);
+
+const str = (s: string, pad = ' ') => {
+  const padded = s.length % 2 ? s + pad : s;
+  return new Uint8Array([...padded].map(c => c.charCodeAt(0)));
+};
+const u16 = (...values: number[]) => new Uint8Array(new Uint16Array(values).buffer);
+const i16 = (...values: number[]) => new Uint8Array(new Int16Array(values).buffer);
+
+const concat = (chunks: Uint8Array[]) => {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let o = 0;
+  chunks.forEach(c => { out.set(c, o); o += c.length; });
+  return out;
+};
+
+const encode = (els: El[], explicit: boolean) => concat(els.map(({ tag, vr, value }) => {
+  const header = new DataView(new ArrayBuffer(explicit && !SHORT_VRS.has(vr) ? 12 : 8));
+  header.setUint16(0, tag >>> 16, true);
+  header.setUint16(2, tag & 0xffff, true);
+  if (!explicit) {
+    header.setUint32(4, value.length, true);
+  } else {
+    header.setUint8(4, vr.charCodeAt(0));
+    header.setUint8(5, vr.charCodeAt(1));
+    if (SHORT_VRS.has(vr)) header.setUint16(6, value.length, true);
+    else header.setUint32(8, value.length, true);
+  }
+  return concat([new Uint8Array(header.buffer), value]);
+}));
+
+const buildP10 = (transferSyntax: string, els: El[]) => {
+  const preamble = new Uint8Array(132);
+  preamble.set([0x44, 0x49, 0x43, 0x4d], 128);
+  const meta = encode([{ tag: 0x00020010, vr: 'UI', value: str(transferSyntax, '\0') }], true);
+  return concat([preamble, meta, encode(els, transferSyntax !== TRANSFER_SYNTAX.ImplicitVRLittleEndian)]);
+};
+
+const ctImageElements = (): El[] => [
+  { tag: 0x00080060, vr: 'CS', value: str('CT') },
+  { tag: 0x00280002, vr: 'US', value: u16(1) },
+  { tag: 0x00280004, vr: 'CS', value: str('MONOCHROME2') },
+  { tag: 0x00280010, vr: 'US', value: u16(2) },
+  { tag: 0x00280011, vr: 'US', value: u16(2) },
+  { tag: 0x00280100, vr: 'US', value: u16(16) },
+  { tag: 0x00280101, vr: 'US', value: u16(16) },
+  { tag: 0x00280103, vr: 'US', value: u16(1) },
+  { tag: 0x00281050, vr: 'DS', value: str('40\\50') },
+  { tag: 0x00281051, vr: 'DS', value: str('400\\500') },
+  { tag: 0x00281052, vr: 'DS', value: str('-1024') },
+  { tag: 0x00281053, vr: 'DS', value: str('1') },
+  { tag: 0x7fe00010, vr: 'OW', value: i16(-2000, 0, 1024, 3000) },
+];
+
+describe('DICOM Part 10 parsing', () => {
+  it('decodes an explicit VR little endian CT frame', () => {
+    const parsed = parseDicom(buildP10(TRANSFER_SYNTAX.ExplicitVRLittleEndian, ctImageElements()));
+    const image = extractDicomImage(parsed);
+
+    expect(image.rows).toBe(2);
+    expect(image.columns).toBe(2);
+    expect(image.bitsAllocated).toBe(16);
+    expect(image.pixelRepresentation).toBe(1);
+    expect(image.pixelData).toBeInstanceOf(Int16Array);
+    expect(Array.from(image.pixelData)).toEqual([-2000, 0, 1024, 3000]);
+    expect(image.rescaleIntercept).toBe(-1024);
+    expect(image.rescaleSlope).toBe(1);
+    expect(image.windowCenter).toBe(40);
+    expect(image.windowWidth).toBe(400);
+    expect(image.minPixelValue).toBe(-2000);
+    expect(image.maxPixelValue).toBe(3000);
+    expect(image.modality).toBe('CT');
+  });
+
+  it('decodes implicit VR little endian using the tag dictionary', () => {
+    const parsed = parseDicom(buildP10(TRANSFER_SYNTAX.ImplicitVRLittleEndian, ctImageElements()));
+    expect(getNumber(parsed.dataset, '00280010')).toBe(2);
+    expect(getString(parsed.dataset, '00280004')).toBe('MONOCHROME2');
+    expect(Array.from(extractDicomImage(parsed).pixelData)).toEqual([-2000, 0, 1024, 3000]);
+  });
+
+  it('parses nested sequences with undefined length', () => {
+    const item = encode([{ tag: 0x00080018, vr: 'UI', value: str('1.2.3', '\0') }], true);
+    const itemHeader = new DataView(new ArrayBuffer(8));
+    itemHeader.setUint16(0, 0xfffe, true); itemHeader.setUint16(2, 0xe000, true);
+    itemHeader.setUint32(4, item.length, true);
+    const seqDelim = new Uint8Array([0xfe, 0xff, 0xdd, 0xe0, 0, 0, 0, 0]);
+    const sqHeader = new DataView(new ArrayBuffer(12));
+    sqHeader.setUint16(0, 0x0008, true); sqHeader.setUint16(2, 0x1115, true);
+    sqHeader.setUint8(4, 0x53); sqHeader.setUint8(5, 0x51);
+    sqHeader.setUint32(8, 0xffffffff, true);
+
+    const preamble = buildP10(TRANSFER_SYNTAX.ExplicitVRLittleEndian, []);
+    const bytes = concat([preamble, new Uint8Array(sqHeader.buffer), new Uint8Array(itemHeader.buffer), item, seqDelim]);
+    const parsed = parseDicom(bytes);
+
+    const items = getSequence(parsed.dataset, '00081115');
+    expect(items).toHaveLength(1);
+    expect(getString(items[0], '00080018')).toBe('1.2.3');
+  });
+
+  it('rejects compressed transfer syntaxes with a clear error', () => {
+    const bytes = buildP10('1.2.840.10008.1.2.4.90', ctImageElements());
+    expect(() => parseDicom(bytes)).toThrow(/Unsupported transfer syntax JPEG 2000 Lossless/);
+  });
+
+  it('rejects non-image objects', () => {
+    const parsed = parseDicom(buildP10(TRANSFER_SYNTAX.ExplicitVRLittleEndian, [
+      { tag: 0x00080060, vr: 'CS', value: str('SR') },
+    ]));
+    expect(() => extractDicomImage(parsed)).toThrow(/no image pixel data/);
+  });
+
+  it('extracts the DICOM part from a WADO-RS multipart/related body', () => {
+    const dicom = buildP10(TRANSFER_SYNTAX.ExplicitVRLittleEndian, ctImageElements());
+    const head = str('--abc123\r\nContent-Type: application/dicom\r\n\r\n', '');
+    const tail = str('\r\n--abc123--\r\n', '');
+    const parts = parseMultipartRelated(concat([head, dicom, tail]));
+
+    expect(parts).toHaveLength(1);
+    expect(parts[0].length).toBe(dicom.length);
+    expect(extractDicomImage(parseDicom(parts[0])).rows).toBe(2);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { searchDicomWebStudies, fetchDicomWebSeries, buildStudyQueryParams } from '../services/dicomService';
+import { LOCAL_STUDY } from '../data/localData';
+
+// Recorded from an Orthanc 1.12 DICOMweb plugin (identifiers anonymized)
+const STUDIES_FIXTURE = [
+  {
+    '00080020': { vr: 'DA', Value: ['20240312'] },
+    '00080050': { vr: 'SH', Value: ['ACC-42'] },
+    '00080061': { vr: 'CS', Value: ['MR', 'SR'] },
+    '00081030': { vr: 'LO', Value: ['Brain w/o contrast'] },
+    '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Teaching^Case' }] },
+    '00100020': { vr: 'LO', Value: ['TC-001'] },
+    '0020000D': { vr: 'UI', Value: ['1.2.826.0.1.1'] },
+    '00201206': { vr: 'IS', Value: [2] },
+    '00201208': { vr: 'IS', Value: [3] },
+  },
+];
+
+const SERIES_FIXTURE = [
+  {
+    '00080060': { vr: 'CS', Value: ['MR'] },
+    '0008103E': { vr: 'LO', Value: ['AX FLAIR'] },
+    '0020000E': { vr: 'UI', Value: ['1.2.826.0.1.1.2'] },
+    '00200011': { vr: 'IS', Value: [2] },
+  },
+  {
+    '00080060': { vr: 'CS', Value: ['MR'] },
+    '0008103E': { vr: 'LO', Value: ['AX T1'] },
+    '0020000E': { vr: 'UI', Value: ['1.2.826.0.1.1.1'] },
+    '00200011': { vr: 'IS', Value: [1] },
+  },
+];
+
+const INSTANCES_FIXTURE: Record<string, any[]> = {
+  '1.2.826.0.1.1.1': [
+    { '00080018': { vr: 'UI', Value: ['1.1.2'] }, '00200013': { vr: 'IS', Value: [2] } },
+    {
+      '00080018': { vr: 'UI', Value: ['1.1.1'] },
+      '00200013': { vr: 'IS', Value: [1] },
+      '00280030': { vr: 'DS', Value: [0.5, 0.45] },
+      '00180050': { vr: 'DS', Value: [3] },
+    },
+  ],
+  '1.2.826.0.1.1.2': [
+    { '00080018': { vr: 'UI', Value: ['1.2.1'] }, '00200013': { vr: 'IS', Value: [1] } },
+  ],
+};
+
+// WADO-RS instance metadata, used when QIDO ignores includefield for instance attributes
+const METADATA_FIXTURE: Record<string, any[]> = {
+  '1.2.1': [{ '00181164': { vr: 'DS', Value: ['0.2', '0.2'] } }],
+};
+
+const BASE = 'http://orthanc.test/dicom-web';
+const config = { url: `${BASE}/`, name: 'Orthanc' };
+
+const jsonResponse = (body: any) => new Response(JSON.stringify(body), {
+  status: 200,
+  headers: { 'Content-Type': 'application/dicom+json' },
+});
+
+describe('QIDO-RS search', () => {
+  const fetchMock = vi.fn(async (input: string) => {
+    const url = new URL(input);
+    const path = url.pathname.replace('/dicom-web', '');
+    if (path === '/studies') return jsonResponse(STUDIES_FIXTURE);
+    if (path === '/studies/1.2.826.0.1.1/series') return jsonResponse(SERIES_FIXTURE);
+    const match = path.match(/^\/studies\/[^/]+\/series\/([^/]+)\/instances$/);
+    if (match) return jsonResponse(INSTANCES_FIXTURE[match[1]] || []);
+    const metadata = path.match(/\/instances\/([^/]+)\/metadata$/);
+    if (metadata && METADATA_FIXTURE[metadata[1]]) return jsonResponse(METADATA_FIXTURE[metadata[1]]);
+    return new Response(null, { status: 404, statusText: 'Not Found' });
+  });
+
+  beforeEach(() => {
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps StudyList filters to QIDO matching keys', () => {
+    const params = buildStudyQueryParams({
+      patientName: 'Teach',
+      accessionNumber: 'ACC-42',
+      modality: 'mr',
+      studyDateFrom: '20240101',
+      studyDateTo: '',
+    });
+
+    expect(params.get('PatientName')).toBe('*Teach*');
+    expect(params.get('AccessionNumber')).toBe('ACC-42');
+    expect(params.get('ModalitiesInStudy')).toBe('MR');
+    expect(params.get('StudyDate')).toBe('20240101-');
+    expect(params.getAll('includefield')).toContain('00080061');
+  });
+
+  it('queries /studies and parses the DICOM JSON model', async () => {
+    const studies = await searchDicomWebStudies(config, { patientName: 'Teaching' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const requested = fetchMock.mock.calls[0][0] as string;
+    expect(requested.startsWith(`${BASE}/studies?`)).toBe(true);
+    expect(requested).toContain('PatientName=*Teaching*');
+
+    expect(studies).toHaveLength(1);
+    expect(studies[0]).toMatchObject({
+      id: '1.2.826.0.1.1',
+      patientName: 'Teaching, Case',
+      patientId: 'TC-001',
+      accessionNumber: 'ACC-42',
+      studyDate: '20240312',
+      modality: 'MR/SR',
+      description: 'Brain w/o contrast',
+      seriesCount: 2,
+      instanceCount: 3,
+    });
+  });
+
+  it('builds series sorted by series number with WADO-RS instance URLs', async () => {
+    const series = await fetchDicomWebSeries(config, '1.2.826.0.1.1');
+
+    expect(series.map(s => s.description)).toEqual(['AX T1', 'AX FLAIR']);
+    expect(series[0].instanceCount).toBe(2);
+    expect(series[0].instances).toEqual([
+      `${BASE}/studies/1.2.826.0.1.1/series/1.2.826.0.1.1.1/instances/1.1.1`,
+      `${BASE}/studies/1.2.826.0.1.1/series/1.2.826.0.1.1.1/instances/1.1.2`,
+    ]);
+  });
+
+  it('reads pixel spacing from instance attributes or WADO-RS metadata', async () => {
+    const series = await fetchDicomWebSeries(config, '1.2.826.0.1.1');
+
+    expect(fetchMock.mock.calls.some(([url]) => (url as string).includes('includefield=00280030'))).toBe(true);
+    expect(series[0]).toMatchObject({ pixelSpacing: [0.5, 0.45], pixelSpacingSource: 'PixelSpacing', sliceThickness: 3 });
+    expect(series[1]).toMatchObject({ pixelSpacing: [0.2, 0.2], pixelSpacingSource: 'ImagerPixelSpacing' });
+  });
+
+  it('treats 204 No Content as an empty result', async () => {
+    fetchMock.mockImplementationOnce(async () => new Response(null, { status: 204 }));
+    const studies = await searchDicomWebStudies(config, { patientName: 'Nobody' });
+    expect(studies).toEqual([]);
+  });
+
+  it('filters the bundled demo study without hitting the network', async () => {
+    const local = { url: 'local', name: 'Local' };
+    expect(await searchDicomWebStudies(local)).toEqual([LOCAL_STUDY]);
+    expect(await searchDicomWebStudies(local, { modality: 'CT' })).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
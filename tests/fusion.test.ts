@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DicomImage, Series } from '../types';
+import { buildColormapLut, renderFusionToRgba, findFusionSliceIndex, getFusionPlacement } from '../utils/fusion';
+import { computeSliceGeometry } from '../utils/sliceSync';
+
+const AXIAL = [1, 0, 0, 0, 1, 0];
+
+const makeImage = (values: number[], columns: number, rows: number): DicomImage => ({
+  rows,
+  columns,
+  bitsAllocated: 16,
+  bitsStored: 12,
+  pixelRepresentation: 0,
+  samplesPerPixel: 1,
+  photometricInterpretation: 'MONOCHROME2',
+  rescaleSlope: 1,
+  rescaleIntercept: 0,
+  pixelData: Uint16Array.from(values),
+  minPixelValue: Math.min(...values),
+  maxPixelValue: Math.max(...values),
+});
+
+const makeSeries = (id: string, zs: number[], extra: Partial<Series> = {}): Series => ({
+  id,
+  studyId: 'study',
+  description: id,
+  modality: 'MR',
+  instanceCount: zs.length,
+  instances: zs.map((_, i) => `${id}/${i}`),
+  ...computeSliceGeometry(zs.map(z => [0, 0, z]), AXIAL),
+  frameOfReferenceUid: '1.2.3',
+  ...extra,
+});
+
+describe('fusion', () => {
+  it('builds colormaps from black to white', () => {
+    const hot = buildColormapLut('hot');
+    expect(Array.from(hot.slice(0, 3))).toEqual([0, 0, 0]);
+    expect(Array.from(hot.slice(85 * 3, 85 * 3 + 3))).toEqual([255, 0, 0]);
+    expect(Array.from(hot.slice(255 * 3))).toEqual([255, 255, 255]);
+    const jet = buildColormapLut('jet');
+    expect(Array.from(jet.slice(0, 3))).toEqual([0, 0, 128]);
+    expect(jet[128 * 3 + 1]).toBe(255);
+    expect(Array.from(buildColormapLut('grayscale').slice(100 * 3, 100 * 3 + 3))).toEqual([100, 100, 100]);
+  });
+
+  it('makes pixels below the threshold transparent', () => {
+    const image = makeImage([0, 50, 150, 255], 4, 1);
+    const out = new Uint8ClampedArray(16);
+    renderFusionToRgba(image, { windowCenter: 128, windowWidth: 256, voiLutFunction: 'LINEAR' }, 'grayscale', 0.4, out);
+    expect([out[3], out[7], out[11], out[15]]).toEqual([0, 0, 255, 255]);
+    expect(out[8]).toBe(150);
+
+    renderFusionToRgba(image, { windowCenter: 128, windowWidth: 256, voiLutFunction: 'LINEAR' }, 'grayscale', 0, out);
+    // Black background stays clear even without a threshold
+    expect([out[3], out[7]]).toEqual([0, 255]);
+  });
+
+  it('matches overlay slices by position or by index', () => {
+    const flair = makeSeries('flair', [0, 2.5, 5, 7.5, 10, 12.5, 15, 17.5, 20]);
+    const dwi = makeSeries('dwi', [0, 5, 10, 15, 20]);
+    expect(findFusionSliceIndex(flair, 4, dwi, 'position')).toBe(2);
+    expect(findFusionSliceIndex(flair, 4, dwi, 'index')).toBe(4);
+    expect(findFusionSliceIndex(flair, 8, dwi, 'index')).toBe(4);
+  });
+
+  it('keeps the overlay at its physical size, centered on the primary image', () => {
+    const primary = makeImage([0], 256, 256);
+    const overlay = makeImage([0], 128, 128);
+    const flair = makeSeries('flair', [0], { pixelSpacing: [1, 1] });
+    const dwi = makeSeries('dwi', [0], { pixelSpacing: [1.5, 1.5] });
+    expect(getFusionPlacement(primary, flair, overlay, dwi)).toEqual({ x: 32, y: 32, width: 192, height: 192 });
+    expect(getFusionPlacement(primary, makeSeries('a', [0]), overlay, dwi)).toEqual({ x: 0, y: 0, width: 256, height: 256 });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Series, Study, HangingProtocol } from '../types';
+import {
+  BUILT_IN_HANGING_PROTOCOLS, findMatchingHangingProtocols, hangSeries, createHangingProtocol, parseHangingProtocols,
+} from '../utils/hangingProtocols';
+
+const makeSeries = (id: string, description: string, modality = 'MR'): Series => ({
+  id,
+  studyId: 'study',
+  description,
+  modality,
+  instanceCount: 20,
+  instances: Array.from({ length: 20 }, (_, i) => `${id}/${i}`),
+});
+
+const makeStudy = (description: string, modality = 'MR'): Study => ({
+  id: 'study',
+  patientName: 'Anonymous',
+  patientId: 'P1',
+  accessionNumber: 'A1',
+  studyDate: '20240101',
+  modality,
+  description,
+  seriesCount: 4,
+  instanceCount: 80,
+});
+
+// The demo study, in its series order
+const STROKE_STUDY = makeStudy('Brain Stroke Protocol (CC0)');
+const STROKE_SERIES = [
+  makeSeries('flair', 'FLAIR'),
+  makeSeries('t1', 'T1 Weighted'),
+  makeSeries('dwi', 'DWI Trace'),
+  makeSeries('adc', 'ADC Map'),
+];
+
+describe('hanging protocols', () => {
+  it('ranks the stroke protocol first for the demo study', () => {
+    const matches = findMatchingHangingProtocols(BUILT_IN_HANGING_PROTOCOLS, STROKE_STUDY, STROKE_SERIES);
+    expect(matches.map(p => p.id)).toEqual(['mr-brain-stroke', 'mr-brain-t1-flair']);
+    expect(findMatchingHangingProtocols(BUILT_IN_HANGING_PROTOCOLS, makeStudy('Knee', 'MR'), STROKE_SERIES)).toEqual([]);
+    expect(findMatchingHangingProtocols(BUILT_IN_HANGING_PROTOCOLS, makeStudy('Stroke', 'CT'), [makeSeries('ct', 'Axial', 'CT')])).toEqual([]);
+  });
+
+  it('hangs DWI | ADC | FLAIR with the brain window', () => {
+    const { layout, panes } = hangSeries(BUILT_IN_HANGING_PROTOCOLS[0], STROKE_SERIES);
+    expect(layout).toBe('1x3');
+    expect(panes).toEqual([
+      { id: 'pane-1', seriesId: 'dwi', sliceIndex: 10, windowPreset: 'Brain' },
+      { id: 'pane-2', seriesId: 'adc', sliceIndex: 10, windowPreset: 'Brain' },
+      { id: 'pane-3', seriesId: 'flair', sliceIndex: 10, windowPreset: 'Brain' },
+    ]);
+  });
+
+  it('fills unmatched panes with unused series, and repeats a series for window-only rules', () => {
+    const protocol: HangingProtocol = {
+      id: 'p', name: 'p', match: {}, layout: '2x2',
+      panes: [{ seriesDescription: 'ADC' }, { seriesDescription: 'SWI' }],
+    };
+    expect(hangSeries(protocol, STROKE_SERIES).panes.map(p => p.seriesId)).toEqual(['adc', 'flair', 't1', 'dwi']);
+
+    const chest = hangSeries(BUILT_IN_HANGING_PROTOCOLS[2], [makeSeries('ct', 'Chest 1mm', 'CT')]);
+    expect(chest.panes.map(p => [p.seriesId, p.windowPreset])).toEqual([['ct', 'Lung'], ['ct', 'Soft Tissue']]);
+  });
+
+  it('saves the current layout as a protocol for studies like this one', () => {
+    const saved = createHangingProtocol(
+      'My stroke view',
+      STROKE_STUDY,
+      '1x2',
+      [{ id: 'pane-1', seriesId: 'adc', sliceIndex: 3, windowPreset: 'Brain' }, { id: 'pane-2', seriesId: 't1', sliceIndex: 0 }],
+      STROKE_SERIES,
+      42
+    );
+    expect(saved.id).toBe('user-42');
+    expect(saved.match.studyDescription).toBe('^Brain Stroke Protocol \\(CC0\\)$');
+    expect(findMatchingHangingProtocols([saved], STROKE_STUDY, STROKE_SERIES)).toEqual([saved]);
+    expect(findMatchingHangingProtocols([saved], makeStudy('Brain Stroke Protocol'), STROKE_SERIES)).toEqual([]);
+    expect(hangSeries(saved, STROKE_SERIES).panes.map(p => p.seriesId)).toEqual(['adc', 't1']);
+
+    // Survives a round trip through JSON
+    expect(parseHangingProtocols(JSON.parse(JSON.stringify([saved])))).toEqual([saved]);
+  });
+
+  it('drops malformed protocols and treats bad patterns as text', () => {
+    expect(parseHangingProtocols([{ id: 'x', name: 'x', layout: '3x3', panes: [] }, 'junk'])).toEqual([]);
+    expect(parseHangingProtocols({})).toEqual([]);
+    const broken: HangingProtocol = { id: 'b', name: 'b', match: { studyDescription: '(CC0' }, layout: '1x1', panes: [{}] };
+    expect(findMatchingHangingProtocols([broken], STROKE_STUDY, STROKE_SERIES)).toEqual([broken]);
+  });
+});
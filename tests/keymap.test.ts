@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { keyFromEvent, formatKey, findCommandForKey, bindKey, unbindKey, parseKeymap, getDefaultKeymap } from '../utils/keymap';
+
+const press = (key: string, modifiers: { ctrlKey?: boolean; metaKey?: boolean; altKey?: boolean; shiftKey?: boolean } = {}) =>
+  keyFromEvent({ key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+describe('keymap', () => {
+  it('normalizes key events', () => {
+    expect(press('w')).toBe('W');
+    expect(press('W', { shiftKey: true })).toBe('Shift+W');
+    expect(press('?', { shiftKey: true })).toBe('?');
+    expect(press(' ')).toBe('Space');
+    expect(press('z', { metaKey: true, shiftKey: true })).toBe('Ctrl+Shift+Z');
+    expect(press('Shift', { shiftKey: true })).toBeNull();
+    expect(formatKey('Ctrl+ArrowUp')).toBe('Ctrl + ↑');
+  });
+
+  it('finds the command bound to a key', () => {
+    const keymap = getDefaultKeymap();
+    expect(findCommandForKey(keymap, 'W')).toBe('tool.windowLevel');
+    expect(findCommandForKey(keymap, 'PageDown')).toBe('slice.pageForward');
+    expect(findCommandForKey(keymap, 'Ctrl+Y')).toBe('segmentation.redo');
+    expect(findCommandForKey(keymap, 'Q')).toBeNull();
+  });
+
+  it('moves a key to the command it is bound to last', () => {
+    const keymap = bindKey(getDefaultKeymap(), 'view.reset', 'W');
+    expect(keymap['view.reset']).toEqual(['R', 'W']);
+    expect(keymap['tool.windowLevel']).toEqual([]);
+    expect(unbindKey(keymap, 'view.reset', 'R')['view.reset']).toEqual(['W']);
+  });
+
+  it('applies stored bindings over the defaults and ignores malformed ones', () => {
+    const keymap = parseKeymap({ 'tool.zoom': ['X'], 'tool.pan': 'P', 'no.such.command': ['Y'] });
+    expect(keymap['tool.zoom']).toEqual(['X']);
+    expect(keymap['tool.pan']).toEqual(['P']);
+    expect('no.such.command' in keymap).toBe(false);
+    expect(parseKeymap(null)).toEqual(getDefaultKeymap());
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeRle, decodeRle, removeLabelFromRle, getRleSegmentIds, packLabels, paintStroke, renderLabelsToRgba, LabelSlice,
+} from '../utils/labelMap';
+import { createMaskStore } from '../utils/maskStore';
+import { createLabelWorker } from '../utils/labelWorker';
+
+describe('label maps', () => {
+  it('run-length encodes slices and drops empty ones', () => {
+    const labels = Uint16Array.from([0, 0, 700, 700, 700, 3, 0, 0]);
+    const rle = encodeRle(labels, 4, 2)!;
+    expect(Array.from(rle.values)).toEqual([0, 700, 3, 0]);
+    expect(Array.from(rle.lengths)).toEqual([2, 3, 1, 2]);
+    expect(decodeRle(rle)).toEqual(labels);
+    expect([...getRleSegmentIds(rle)]).toEqual([700, 3]);
+    expect(encodeRle(new Uint16Array(8), 4, 2)).toBeNull();
+  });
+
+  it('removes a segment from an encoded slice, merging the runs', () => {
+    const rle = encodeRle(Uint16Array.from([0, 5, 5, 0, 3, 3, 0, 0]), 4, 2)!;
+    const removed = removeLabelFromRle(rle, 5)!;
+    expect(Array.from(removed.values)).toEqual([0, 3, 0]);
+    expect(Array.from(removed.lengths)).toEqual([4, 2, 2]);
+    expect(removeLabelFromRle(removed, 3)).toBeNull();
+  });
+
+  it('packs labels into bytes while every id fits', () => {
+    expect(packLabels([0, 255])).toBeInstanceOf(Uint8Array);
+    expect(Array.from(packLabels([0, 256]))).toEqual([0, 256]);
+    expect(packLabels([0, 256])).toBeInstanceOf(Uint16Array);
+  });
+
+  it('paints and erases round brush strokes', () => {
+    const slice: LabelSlice = { width: 5, height: 5, labels: new Uint16Array(25) };
+    expect(paintStroke(slice, { x: 0.5, y: 2.5 }, { x: 4.5, y: 2.5 }, 0.5, 1000)).toEqual({ x: 0, y: 2, width: 5, height: 1 });
+    expect(Array.from(slice.labels.slice(10, 15))).toEqual([1000, 1000, 1000, 1000, 1000]);
+
+    paintStroke(slice, { x: 2.5, y: 2.5 }, { x: 2.5, y: 2.5 }, 0.5, 0);
+    expect(Array.from(slice.labels.slice(10, 15))).toEqual([1000, 1000, 0, 1000, 1000]);
+    expect(paintStroke(slice, { x: -10, y: -10 }, { x: -9, y: -10 }, 1, 1)).toBeNull();
+  });
+
+  it('colors only the visible segments inside a rect', () => {
+    const labels = Uint16Array.from([1, 2, 300, 0]);
+    const out = new Uint8ClampedArray(8);
+    renderLabelsToRgba(labels, 2, { x: 0, y: 1, width: 2, height: 1 }, new Map([[300, [10, 20, 30]]]), out);
+    expect(Array.from(out)).toEqual([10, 20, 30, 255, 0, 0, 0, 0]);
+  });
+});
+
+describe('mask store', () => {
+  const paintSquare = (store: ReturnType<typeof createMaskStore>, sliceIndex: number, id: number) => {
+    const slice = store.beginStroke('s', sliceIndex, 4, 4);
+    slice.labels.fill(id, 0, 8);
+    store.markDirty({ x: 0, y: 0, width: 4, height: 2 });
+    return store.endStroke();
+  };
+
+  it('records strokes for undo and redo', () => {
+    const store = createMaskStore(createLabelWorker());
+    expect(paintSquare(store, 2, 400)).toEqual({ seriesId: 's', sliceIndex: 2, labelCount: 1 });
+    expect(store.undo('s')).toEqual({ seriesId: 's', sliceIndex: 2, labelCount: 0 });
+    expect(store.getLabelSlice('s', 2)?.labels.some(v => v)).toBe(false);
+    expect(store.redo('s')?.labelCount).toBe(1);
+    expect(store.getLabelSlice('s', 2)?.labels[0]).toBe(400);
+  });
+
+  it('keeps slices that fell out of the decoded cache', () => {
+    const store = createMaskStore(createLabelWorker());
+    for (let i = 0; i < 40; i++) paintSquare(store, i, i + 1);
+    expect(store.getLabelSlice('s', 0)?.labels[7]).toBe(1);
+    expect(store.getLabelSlice('s', 39)?.labels[7]).toBe(40);
+    expect(store.getLabelSlice('s', 40)).toBeNull();
+  });
+
+  it('removes a segment from every slice', async () => {
+    const store = createMaskStore(createLabelWorker());
+    for (let i = 0; i < 30; i++) paintSquare(store, i, i % 2 ? 7 : 9);
+    const changes = await store.removeSegment(7);
+    expect(changes).toHaveLength(15);
+    expect(changes.every(c => c.labelCount === 0)).toBe(true);
+    expect(store.getLabelSlice('s', 1)?.labels.some(v => v) ?? false).toBe(false);
+    expect(store.getLabelSlice('s', 29)?.labels.some(v => v) ?? false).toBe(false);
+    expect(store.getLabelSlice('s', 28)?.labels[0]).toBe(9);
+  });
+
+  it('removes a segment from slices re-encoded while the worker runs', async () => {
+    const inner = createLabelWorker();
+    const store: ReturnType<typeof createMaskStore> = createMaskStore({
+      ...inner,
+      removeSegment: (slices, id) => {
+        // Repaint slice 0 and push it out of the decoded cache so its encoding changes
+        paintSquare(store, 0, 7);
+        for (let i = 100; i < 130; i++) paintSquare(store, i, 9);
+        return inner.removeSegment(slices, id);
+      },
+    });
+    const slice = store.beginStroke('s', 0, 4, 4);
+    slice.labels.fill(7, 8);
+    store.markDirty({ x: 0, y: 2, width: 4, height: 2 });
+    store.endStroke();
+    for (let i = 1; i < 30; i++) paintSquare(store, i, 9);
+
+    await store.removeSegment(7);
+    expect(store.getLabelSlice('s', 0)?.labels.some(v => v) ?? false).toBe(false);
+  });
+});
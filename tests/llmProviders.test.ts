@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMockProvider, defaultForSchema } from '../services/llm/mockProvider';
+import { createOpenAiCompatibleProvider, parseSseData, parseJsonReply, toOpenAiMessages } from '../services/llm/openAiCompatibleProvider';
+import { createLlmProvider, JsonSchema, LlmMessage, LlmProvider } from '../services/llm';
+
+const collect = async (provider: LlmProvider, messages: LlmMessage[], systemInstruction?: string) => {
+  let text = '';
+  for await (const chunk of provider.streamChat(messages, { systemInstruction })) text += chunk.text;
+  return text;
+};
+
+const ask = (text: string): LlmMessage[] => [{ role: 'user', parts: [{ text }] }];
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { items: { type: 'array', items: { type: 'string' } }, title: { type: 'string' }, count: { type: 'integer' } },
+};
+
+describe('mock provider', () => {
+  it('streams the same scripted reply every time', async () => {
+    const provider = createMockProvider(undefined, 0);
+    const first = await collect(provider, ask('Where is the hippocampus?'));
+    expect(first).toContain('medial temporal lobe');
+    expect(await collect(provider, ask('Where is the hippocampus?'))).toBe(first);
+  });
+
+  it('appends suggestions only when the system prompt asks for them', async () => {
+    const provider = createMockProvider([{ match: 'hello', reply: 'Hi there.' }], 0);
+    expect(await collect(provider, ask('hello'))).toBe('Hi there.');
+
+    const withSuggestions = await collect(provider, ask('hello'), 'End with a <SUGGESTIONS> block.');
+    const block = withSuggestions.match(/<SUGGESTIONS>([\s\S]*)<\/SUGGESTIONS>/)?.[1];
+    expect(Object.keys(JSON.parse(block!))).toEqual(['highschool', 'undergrad', 'medstudent', 'resident']);
+  });
+
+  it('emits scripted tool calls only for declared tools', async () => {
+    const provider = createMockProvider([{ match: 'show', reply: 'Here.', toolCalls: [{ name: 'jump_to_slice', args: { slice: 3 } }] }], 0);
+    const tools = [{ name: 'jump_to_slice', description: '', parameters: { type: 'object' as const } }];
+    const chunks = [];
+    for await (const chunk of provider.streamChat(ask('show me'), { tools })) chunks.push(chunk);
+    expect(chunks[chunks.length - 1].toolCalls).toEqual([{ name: 'jump_to_slice', args: { slice: 3 } }]);
+
+    for await (const chunk of provider.streamChat(ask('show me'))) expect(chunk.toolCalls).toBeUndefined();
+  });
+
+  it('returns scripted JSON, or a schema default', async () => {
+    const provider = createMockProvider([{ match: 'quiz', reply: '', json: { items: ['a'], title: 'Q', count: 1 } }], 0);
+    expect(await provider.generateJson(ask('quiz me'), SCHEMA)).toEqual({ items: ['a'], title: 'Q', count: 1 });
+    expect(await provider.generateJson(ask('other'), SCHEMA)).toEqual({ items: [], title: '', count: 0 });
+    expect(defaultForSchema({ type: 'boolean' })).toBe(false);
+  });
+});
+
+describe('OpenAI-compatible helpers', () => {
+  it('splits SSE data lines and keeps the partial tail', () => {
+    expect(parseSseData('data: {"a":1}\n\n: comment\ndata: [DONE]\ndata: {"b"')).toEqual({
+      events: ['{"a":1}', '[DONE]'],
+      rest: 'data: {"b"',
+    });
+  });
+
+  it('extracts JSON from fenced or chatty replies', () => {
+    expect(parseJsonReply('```json\n{"x": [1, 2]}\n```')).toEqual({ x: [1, 2] });
+    expect(parseJsonReply('Sure! {"ok": true} Hope this helps.')).toEqual({ ok: true });
+    expect(() => parseJsonReply('no json here')).toThrow('did not return JSON');
+  });
+
+  it('maps roles, system prompt and images', () => {
+    const out = toOpenAiMessages([
+      { role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data: 'AAAA' } }, { text: 'What is this?' }] },
+      { role: 'model', parts: [{ text: 'A slice.' }] },
+    ], 'Be brief.');
+    expect(out).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } }, { type: 'text', text: 'What is this?' }] },
+      { role: 'assistant', content: 'A slice.' },
+    ]);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const sseResponse = (chunks: string[]) => new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(c => controller.enqueue(new TextEncoder().encode(c)));
+      controller.close();
+    },
+  }));
+
+  it('streams deltas split across network chunks', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+      'ta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createOpenAiCompatibleProvider('http://example.test/v1/', 'tiny', 'secret');
+    expect(await collect(provider, ask('hi'), 'System.')).toBe('Hello');
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://example.test/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    const body = JSON.parse(init.body as string);
+    expect(body).toMatchObject({ model: 'tiny', stream: true });
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'System.' });
+  });
+
+  it('declares tools and assembles streamed tool calls', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"name":"place_arrow","arguments":"{\\"x\\":0.4,"}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"y\\":0.6}"}}]}}]}\n\n',
+      'data: [DONE]\n\n',
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createOpenAiCompatibleProvider();
+    const tools = [{ name: 'place_arrow', description: 'Arrow', parameters: { type: 'object' as const } }];
+    const chunks = [];
+    for await (const chunk of provider.streamChat(ask('where?'), { tools })) chunks.push(chunk);
+    expect(chunks).toEqual([{ text: '', toolCalls: [{ name: 'place_arrow', args: { x: 0.4, y: 0.6 } }] }]);
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.tools).toEqual([{ type: 'function', function: { name: 'place_arrow', description: 'Arrow', parameters: { type: 'object' } } }]);
+  });
+
+  it('surfaces server errors with their status', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('model not found', { status: 404 })));
+    const provider = createOpenAiCompatibleProvider();
+    await expect(provider.generateJson(ask('hi'), SCHEMA)).rejects.toThrow('AI server error 404: model not found');
+  });
+});
+
+describe('createLlmProvider', () => {
+  it('builds the selected provider with its defaults', () => {
+    expect(createLlmProvider({ id: 'mock' }).id).toBe('mock');
+    const local = createLlmProvider({ id: 'openai-compatible', model: 'qwen2.5-vl' });
+    expect(local.id).toBe('openai-compatible');
+    expect(local.model).toBe('qwen2.5-vl');
+    expect(createLlmProvider({ id: 'gemini', apiKey: 'k' }).model).toBe('gemini-3-pro-preview');
+  });
+});
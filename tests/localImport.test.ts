@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { sortInstances, groupInstances, importLocalFiles, ImportedInstance } from '../services/localImport';
+import { readZipEntries, isZip } from '../utils/zip';
+
+const instance = (overrides: Partial<ImportedInstance>): ImportedInstance => ({
+  url: `imported://${overrides.sopUid}`,
+  studyUid: '1.2.1',
+  seriesUid: '1.2.1.1',
+  sopUid: '1.2.1.1.1',
+  patientName: 'Doe, Jane',
+  patientId: 'P1',
+  accessionNumber: 'A1',
+  studyDate: '20240101',
+  studyDescription: 'CT Head',
+  seriesDescription: 'Axial',
+  modality: 'CT',
+  ...overrides,
+});
+
+// --- Tiny ZIP writer (CRCs are left at 0; the reader does not verify them) ---
+
+const deflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const buildZip = async (files: { name: string; data: Uint8Array; deflate: boolean }[]) => {
+  const enc = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = enc.encode(file.name);
+    const body = file.deflate ? await deflateRaw(file.data) : file.data;
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, file.deflate ? 8 : 0, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    locals.push(new Uint8Array(local.buffer), name, body);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, file.deflate ? 8 : 0, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, file.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centrals.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, files.length, true);
+  eocd.setUint16(10, files.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  const chunks = [...locals, ...centrals, new Uint8Array(eocd.buffer)];
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let o = 0;
+  chunks.forEach(c => { out.set(c, o); o += c.length; });
+  return out;
+};
+
+describe('local file import', () => {
+  it('orders slices by Instance Number', () => {
+    const sorted = sortInstances([
+      instance({ sopUid: 'c', instanceNumber: 3 }),
+      instance({ sopUid: 'a', instanceNumber: 1 }),
+      instance({ sopUid: 'b', instanceNumber: 2 }),
+    ]);
+    expect(sorted.map(i => i.sopUid)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('falls back to Image Position along the slice normal when Instance Numbers repeat', () => {
+    const axial = [1, 0, 0, 0, 1, 0];
+    const sorted = sortInstances([
+      instance({ sopUid: 'top', instanceNumber: 1, imageOrientation: axial, imagePosition: [0, 0, 20] }),
+      instance({ sopUid: 'bottom', instanceNumber: 1, imageOrientation: axial, imagePosition: [0, 0, -10] }),
+      instance({ sopUid: 'middle', instanceNumber: 1, imageOrientation: axial, imagePosition: [0, 0, 5] }),
+    ]);
+    expect(sorted.map(i => i.sopUid)).toEqual(['bottom', 'middle', 'top']);
+  });
+
+  it('groups instances into studies and series by UID', () => {
+    const grouped = groupInstances([
+      instance({ sopUid: '1', seriesUid: 's2', seriesNumber: 2, seriesDescription: 'Coronal', instanceNumber: 1 }),
+      instance({ sopUid: '2', seriesUid: 's1', seriesNumber: 1, instanceNumber: 2 }),
+      instance({ sopUid: '3', seriesUid: 's1', seriesNumber: 1, instanceNumber: 1 }),
+      instance({ sopUid: '4', studyUid: '9.9', seriesUid: 's9', modality: 'MR' }),
+    ]);
+
+    expect(grouped).toHaveLength(2);
+    const { study, series } = grouped[0];
+    expect(study).toMatchObject({ id: '1.2.1', patientName: 'Doe, Jane', seriesCount: 2, instanceCount: 3, isImported: true });
+    expect(series.map(s => s.id)).toEqual(['s1', 's2']);
+    expect(series[0].instances).toEqual(['imported://3', 'imported://2']);
+    expect(grouped[1].study.modality).toBe('MR');
+  });
+
+  it('reads stored and deflated ZIP entries and skips folders', async () => {
+    const payload = new Uint8Array(2048).map((_, i) => i % 7);
+    const zip = await buildZip([
+      { name: 'case/', data: new Uint8Array(0), deflate: false },
+      { name: 'case/IM0001.dcm', data: payload, deflate: true },
+      { name: 'case/IM0002.dcm', data: new Uint8Array([1, 2, 3]), deflate: false },
+    ]);
+
+    expect(isZip(zip)).toBe(true);
+    const entries = await readZipEntries(zip);
+    expect(entries.map(e => e.name)).toEqual(['case/IM0001.dcm', 'case/IM0002.dcm']);
+    expect(Array.from(entries[0].data)).toEqual(Array.from(payload));
+    expect(Array.from(entries[1].data)).toEqual([1, 2, 3]);
+  });
+
+  it('skips an unreadable archive and keeps going', async () => {
+    const broken = new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04, 1, 2, 3])], 'broken.zip');
+    const notes = new File(['hello'], 'notes.txt');
+    const result = await importLocalFiles([broken, notes]);
+    expect(result.importedCount).toBe(0);
+    expect(result.skipped.map(s => s.name)).toEqual(['broken.zip', 'notes.txt']);
+    expect(result.skipped[0].reason).not.toBe('Not a DICOM Part 10 file');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { createMaskHistory, unionRect, clipRect, cropLabels, pasteLabels, MaskEdit } from '../utils/maskHistory';
+
+const edit = (sliceIndex: number): MaskEdit => ({
+  sliceIndex,
+  rect: { x: 0, y: 0, width: 1, height: 1 },
+  before: new Uint16Array(1),
+  after: Uint16Array.of(sliceIndex),
+});
+
+describe('maskHistory', () => {
+  it('unions and clips dirty rects to whole pixels', () => {
+    const rect = unionRect(unionRect(null, { x: 2, y: 2, width: 2, height: 2 }), { x: -1.5, y: 3, width: 2, height: 4 });
+    expect(rect).toEqual({ x: -1.5, y: 2, width: 5.5, height: 5 });
+    expect(clipRect(rect, 4, 5)).toEqual({ x: 0, y: 2, width: 4, height: 3 });
+    expect(clipRect({ x: 10, y: 0, width: 2, height: 2 }, 4, 4)).toBeNull();
+  });
+
+  it('crops only the dirty rect out of a full mask, and pastes it back', () => {
+    // 3×2 slice, label = pixel number
+    const labels = Uint16Array.from([0, 1, 2, 3, 4, 5]);
+    const rect = { x: 1, y: 0, width: 2, height: 2 };
+    const crop = cropLabels(labels, 3, rect);
+    expect(Array.from(crop)).toEqual([1, 2, 4, 5]);
+
+    const target = new Uint16Array(6);
+    pasteLabels(target, 3, rect, crop);
+    expect(Array.from(target)).toEqual([0, 1, 2, 0, 4, 5]);
+  });
+
+  it('undoes and redoes per series, dropping redo on a new edit', () => {
+    const history = createMaskHistory();
+    history.push('a', edit(1));
+    history.push('a', edit(2));
+    history.push('b', edit(7));
+
+    expect(history.undo('a')?.sliceIndex).toBe(2);
+    expect(history.canRedo('a')).toBe(true);
+    expect(history.redo('a')?.sliceIndex).toBe(2);
+    expect(history.undo('b')?.sliceIndex).toBe(7);
+    expect(history.undo('b')).toBeNull();
+
+    history.undo('a');
+    history.push('a', edit(3));
+    expect(history.canRedo('a')).toBe(false);
+
+    history.push('b', edit(8));
+    history.clear('a');
+    expect(history.canUndo('a')).toBe(false);
+    expect(history.canUndo('b')).toBe(true);
+  });
+
+  it('is bounded', () => {
+    const history = createMaskHistory(2);
+    [1, 2, 3].forEach(i => history.push('a', edit(i)));
+    expect(history.undo('a')?.sliceIndex).toBe(3);
+    expect(history.undo('a')?.sliceIndex).toBe(2);
+    expect(history.canUndo('a')).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { DicomImage, Measurement, EllipseRoi, FreehandRoi } from '../types';
+import { Calibration, UNCALIBRATED } from '../utils/calibration';
+import {
+  measureAngle, measureCobbAngle, ellipseArea, polygonArea, getMeasurementValue, formatMeasurementValue,
+  computeRoiStats, hitTestMeasurement, normalizeMeasurement, createDraftMeasurement, setMeasurementPoint, isMeasurementLargeEnough,
+  hitTestHandle, translateMeasurement,
+} from '../utils/measurements';
+
+// Pixels twice as tall as wide
+const ANISOTROPIC: Calibration = { rowSpacing: 2, columnSpacing: 1, unit: 'mm' };
+
+// 4×4 CT slice, stored value = column + 4 × row, rescaled by 2x - 1000
+const IMAGE: DicomImage = {
+  rows: 4,
+  columns: 4,
+  bitsAllocated: 16,
+  bitsStored: 12,
+  pixelRepresentation: 0,
+  samplesPerPixel: 1,
+  photometricInterpretation: 'MONOCHROME2',
+  rescaleSlope: 2,
+  rescaleIntercept: -1000,
+  pixelData: Uint16Array.from({ length: 16 }, (_, i) => i),
+  minPixelValue: 0,
+  maxPixelValue: 15,
+};
+
+const base = { sliceIndex: 0, createdAt: 0 };
+
+describe('measurement geometry', () => {
+  it('measures angles in calibrated space', () => {
+    expect(measureAngle({ x: 10, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 10 }, UNCALIBRATED)).toBeCloseTo(90);
+    // 45° in pixels, but rows are twice as far apart
+    expect(measureAngle({ x: 10, y: 0 }, { x: 0, y: 0 }, { x: 10, y: 10 }, ANISOTROPIC)).toBeCloseTo(Math.atan(2) * 180 / Math.PI);
+    expect(measureAngle({ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 1, y: 1 }, UNCALIBRATED)).toBe(0);
+  });
+
+  it('reports Cobb angles as the acute angle between the lines', () => {
+    const lines = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 0 }] as const;
+    expect(measureCobbAngle([...lines], UNCALIBRATED)).toBeCloseTo(45);
+    expect(measureCobbAngle([lines[1], lines[0], lines[2], lines[3]], UNCALIBRATED)).toBeCloseTo(45);
+  });
+
+  it('computes ellipse and polygon areas', () => {
+    expect(ellipseArea({ x: 0, y: 0 }, { x: 20, y: 10 }, ANISOTROPIC)).toBeCloseTo(Math.PI * 10 * 10);
+    expect(polygonArea([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }], ANISOTROPIC)).toBe(200);
+  });
+
+  it('formats values with their units', () => {
+    const angle: Measurement = { ...base, id: 'a', type: 'angle', points: [{ x: 1, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 1 }] };
+    expect(formatMeasurementValue(getMeasurementValue(angle, ANISOTROPIC)!)).toBe('90.0°');
+    const roi: Measurement = { ...base, id: 'r', type: 'freehand', points: [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }] };
+    expect(formatMeasurementValue(getMeasurementValue(roi, UNCALIBRATED)!)).toBe('2.0 px²');
+    expect(getMeasurementValue({ ...base, id: 't', type: 'arrow', start: { x: 0, y: 0 }, end: { x: 1, y: 1 } }, UNCALIBRATED)).toBeNull();
+  });
+});
+
+describe('ROI statistics', () => {
+  it('summarizes modality values of the pixels inside an ellipse', () => {
+    // Inscribed in the top-left 2×2 pixels: all four centers are inside
+    const roi: EllipseRoi = { ...base, id: 'e', type: 'ellipse', start: { x: 0, y: 0 }, end: { x: 2, y: 2 } };
+    const stats = computeRoiStats(IMAGE, roi)!;
+    // Stored 0, 1, 4, 5 → -1000, -998, -992, -990
+    expect(stats.pixelCount).toBe(4);
+    expect(stats.mean).toBe(-995);
+    expect(stats.min).toBe(-1000);
+    expect(stats.max).toBe(-990);
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt((25 + 9 + 9 + 25) / 4));
+  });
+
+  it('uses pixel centers inside a freehand polygon and clips to the image', () => {
+    // Triangle below the diagonal, extending past the image: rows 1–3 hold 1, 2 and 3 pixels
+    const roi: FreehandRoi = { ...base, id: 'f', type: 'freehand', points: [{ x: -2, y: -1.5 }, { x: 6, y: 6.5 }, { x: -2, y: 6.5 }] };
+    expect(computeRoiStats(IMAGE, roi)!.pixelCount).toBe(6);
+    expect(computeRoiStats(IMAGE, { ...roi, points: [{ x: 10, y: 10 }, { x: 12, y: 10 }, { x: 12, y: 12 }] })).toBeNull();
+  });
+});
+
+describe('measurement hit-testing and drawing', () => {
+  const line: Measurement = { ...base, id: 'line', type: 'length', start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, value: 100 };
+  const ellipse: Measurement = { ...base, id: 'ellipse', type: 'ellipse', start: { x: 40, y: -20 }, end: { x: 60, y: 20 } };
+
+  it('picks the latest measurement near the cursor, and ROIs from inside', () => {
+    expect(hitTestMeasurement([line], { x: 30, y: 3 }, 4)?.id).toBe('line');
+    expect(hitTestMeasurement([line], { x: 30, y: 5 }, 4)).toBeNull();
+    expect(hitTestMeasurement([line, ellipse], { x: 50, y: 0 }, 4)?.id).toBe('ellipse');
+    expect(hitTestMeasurement([ellipse, line], { x: 50, y: 0 }, 4)?.id).toBe('line');
+    expect(hitTestMeasurement([line, ellipse], { x: 50, y: 10 }, 4)?.id).toBe('ellipse');
+  });
+
+  it('shapes drafts point by point and rejects stray clicks', () => {
+    let draft = createDraftMeasurement('angle', { x: 0, y: 0 }, 3, 1);
+    expect(isMeasurementLargeEnough(draft)).toBe(false);
+    draft = setMeasurementPoint(draft, 1, { x: 10, y: 0 });
+    draft = setMeasurementPoint(draft, 2, { x: 10, y: 10 });
+    expect(draft).toEqual({ id: 'draft', type: 'angle', sliceIndex: 3, createdAt: 1, points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }] });
+    expect(isMeasurementLargeEnough(draft)).toBe(true);
+
+    const length = setMeasurementPoint(createDraftMeasurement('length', { x: 0, y: 0 }, 0), 1, { x: 3, y: 4 });
+    expect(length.type === 'length' && length.value).toBe(5);
+  });
+
+  it('drops ROI statistics when the outline moves', () => {
+    const roi: EllipseRoi = { ...base, id: 'e', type: 'ellipse', start: { x: 0, y: 0 }, end: { x: 2, y: 2 }, stats: computeRoiStats(IMAGE, { ...base, id: 'e', type: 'ellipse', start: { x: 0, y: 0 }, end: { x: 2, y: 2 } })! };
+    expect((setMeasurementPoint(roi, 1, { x: 4, y: 4 }) as EllipseRoi).stats).toBeUndefined();
+  });
+
+  it('finds the nearest handle, but none on freehand outlines', () => {
+    expect(hitTestHandle(line, { x: 98, y: 2 }, 4)).toBe(1);
+    expect(hitTestHandle(line, { x: 50, y: 0 }, 4)).toBeNull();
+    const close: Measurement = { ...base, id: 'a', type: 'angle', points: [{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 20, y: 20 }] };
+    expect(hitTestHandle(close, { x: 2, y: 0 }, 4)).toBe(1);
+    const freehand: Measurement = { ...base, id: 'f', type: 'freehand', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }] };
+    expect(hitTestHandle(freehand, { x: 0, y: 0 }, 4)).toBeNull();
+  });
+
+  it('moves whole measurements, keeping lengths and dropping ROI statistics', () => {
+    const moved = translateMeasurement(line, 5, -2);
+    expect(moved).toEqual({ ...line, start: { x: 5, y: -2 }, end: { x: 105, y: -2 } });
+    const roi: FreehandRoi = { ...base, id: 'f', type: 'freehand', points: [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 2 }], stats: { pixelCount: 1, mean: 0, stdDev: 0, min: 0, max: 0 } };
+    const movedRoi = translateMeasurement(roi, 1, 1) as FreehandRoi;
+    expect(movedRoi.points).toEqual([{ x: 1, y: 1 }, { x: 3, y: 1 }, { x: 1, y: 3 }]);
+    expect(movedRoi.stats).toBeUndefined();
+  });
+
+  it('reads untyped measurements from older sessions as lengths', () => {
+    const legacy = { id: 'm1', start: { x: 0, y: 0 }, end: { x: 1, y: 0 }, value: 1, sliceIndex: 0, createdAt: 0 };
+    expect(normalizeMeasurement(legacy).type).toBe('length');
+    expect(normalizeMeasurement(ellipse)).toBe(ellipse);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Study, Series, Segment } from '../types';
+import { LabelVolume, buildSegmentLut } from '../utils/labelVolume';
+import { encodeNiftiLabels } from '../utils/nifti';
+import { encodeDicomSeg, canExportDicomSeg, rgbToDicomLab } from '../utils/dicomSeg';
+import { parseDicom, getString, getNumber, getSequence, getBytes } from '../utils/dicomParser';
+
+const STUDY: Study = {
+  id: '1.2.3',
+  patientName: 'Doe, Jane',
+  patientId: 'P1',
+  accessionNumber: 'A1',
+  studyDate: '20250101',
+  modality: 'MR',
+  description: 'Brain',
+  seriesCount: 1,
+  instanceCount: 2,
+};
+
+const SERIES: Series = {
+  id: '1.2.3.4',
+  studyId: '1.2.3',
+  description: 'DWI',
+  modality: 'MR',
+  instanceCount: 2,
+  instances: ['http://pacs/studies/1.2.3/series/1.2.3.4/instances/1.2.3.4.1', 'http://pacs/studies/1.2.3/series/1.2.3.4/instances/1.2.3.4.2'],
+  pixelSpacing: [0.5, 0.5],
+};
+
+const SEGMENTS: Segment[] = [
+  { id: 3, label: 'Infarct', color: [255, 0, 0], isVisible: true },
+  { id: 7, label: 'Edema', color: [0, 255, 0], isVisible: true },
+];
+
+// 4×2 pixels, 2 slices. Slice 0: infarct at pixel 0 and 5; slice 1: edema at pixel 3
+const VOLUME: LabelVolume = {
+  columns: 4,
+  rows: 2,
+  slices: 2,
+  labels: new Uint8Array([3, 0, 0, 0, 0, 3, 0, 0, /* slice 1 */ 0, 0, 0, 7, 0, 0, 0, 0]),
+};
+
+describe('segmentation export', () => {
+  it('writes a NIfTI-1 label volume', () => {
+    const bytes = encodeNiftiLabels(VOLUME, { spacing: { column: 0.5, row: 0.5, slice: 5 }, isCalibrated: true });
+    const view = new DataView(bytes.buffer);
+    expect(view.getInt32(0, true)).toBe(348);
+    expect([1, 2, 3].map(i => view.getInt16(40 + i * 2, true))).toEqual([4, 2, 2]);
+    expect(view.getInt16(70, true)).toBe(2); // UINT8
+    expect(view.getFloat32(88, true)).toBe(5); // pixdim[3]
+    expect(String.fromCharCode(...bytes.subarray(344, 347))).toBe('n+1');
+    expect(Array.from(bytes.subarray(352))).toEqual(Array.from(VOLUME.labels));
+  });
+
+  it('builds the segment table for the labels present', () => {
+    expect(buildSegmentLut(VOLUME, SEGMENTS.slice(0, 1))).toEqual([
+      { value: 3, label: 'Infarct', color: [255, 0, 0] },
+      { value: 7, label: 'Segment 7', color: [255, 255, 255] },
+    ]);
+  });
+
+  it('writes a binary DICOM SEG that references the source instances', () => {
+    const { dataset, meta } = parseDicom(encodeDicomSeg(VOLUME, SEGMENTS, STUDY, SERIES));
+
+    expect(getString(meta, '00020002')).toBe('1.2.840.10008.5.1.4.1.1.66.4');
+    expect(getString(dataset, '00080060')).toBe('SEG');
+    expect(getString(dataset, '0020000D')).toBe('1.2.3');
+    expect(getString(dataset, '00100010')).toBe('Doe^Jane');
+    expect(getNumber(dataset, '00280008')).toBe(2);
+
+    const segments = getSequence(dataset, '00620002');
+    expect(segments.map(s => getString(s, '00620005'))).toEqual(['Infarct', 'Edema']);
+    expect(segments.map(s => getString(s, '00620008'))).toEqual(['MANUAL', 'MANUAL']);
+    expect(getNumber(segments[0], '00620004')).toBe(1);
+
+    const frames = getSequence(dataset, '52009230');
+    const sourceOf = (frame: typeof frames[number]) =>
+      getString(getSequence(getSequence(frame, '00089124')[0], '00082112')[0], '00081155');
+    expect(frames.map(sourceOf)).toEqual(['1.2.3.4.1', '1.2.3.4.2']);
+
+    // Frame 1 bits 0 and 5, frame 2 bit 3 (8 + 3 = 11)
+    const pixels = getBytes(dataset, '7FE00010')!;
+    expect(pixels[0]).toBe(0b00100001);
+    expect(pixels[1]).toBe(0b00001000);
+  });
+
+  it('writes non-ASCII labels as UTF-8 padded to an even byte length', () => {
+    const labelled = [{ ...SEGMENTS[0], label: 'Läsion' }, { ...SEGMENTS[1], label: 'µ' }];
+    const { dataset } = parseDicom(encodeDicomSeg(VOLUME, labelled, STUDY, SERIES));
+
+    expect(getString(dataset, '00080005')).toBe('ISO_IR 192');
+    const segments = getSequence(dataset, '00620002');
+    expect(segments.map(s => getString(s, '00620005'))).toEqual(['Läsion', 'µ']);
+    expect(segments.map(s => s.elements['00620005'].length % 2)).toEqual([0, 0]);
+  });
+
+  it('only allows SEG export for DICOM series and converts colors to CIELab', () => {
+    expect(canExportDicomSeg(STUDY, SERIES)).toBe(true);
+    expect(canExportDicomSeg({ ...STUDY, id: 'local-study-sub1' }, { ...SERIES, instances: ['/images/1.png'] })).toBe(false);
+    // White: L* = 100, a* = b* ≈ 0 (scaled 0..65535, a*/b* offset by 128)
+    const [L, a, b] = rgbToDicomLab([255, 255, 255]);
+    expect(L).toBe(65535);
+    expect(Math.abs(a - 32896)).toBeLessThan(10);
+    expect(Math.abs(b - 32896)).toBeLessThan(10);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { Study, Series, Segment } from '../types';
+import { LabelVolume, resampleLabelSlice, mergeImportedSegments } from '../utils/labelVolume';
+import { encodeNiftiLabels, decodeNiftiLabels } from '../utils/nifti';
+import { encodeDicomSeg, decodeDicomSeg, mapSegFramesToSlices, rgbToDicomLab, dicomLabToRgb } from '../utils/dicomSeg';
+import { getPngSliceIndices, parseLabelSidecar } from '../services/segmentationImport';
+
+const STUDY: Study = {
+  id: '1.2.3',
+  patientName: 'Doe, Jane',
+  patientId: 'P1',
+  accessionNumber: 'A1',
+  studyDate: '20250101',
+  modality: 'MR',
+  description: 'Brain',
+  seriesCount: 1,
+  instanceCount: 2,
+};
+
+const SERIES: Series = {
+  id: '1.2.3.4',
+  studyId: '1.2.3',
+  description: 'DWI',
+  modality: 'MR',
+  instanceCount: 2,
+  instances: ['http://pacs/studies/1.2.3/series/1.2.3.4/instances/1.2.3.4.1', 'http://pacs/studies/1.2.3/series/1.2.3.4/instances/1.2.3.4.2'],
+};
+
+const SEGMENTS: Segment[] = [
+  { id: 3, label: 'Infarct', color: [255, 0, 0], isVisible: true },
+  { id: 7, label: 'Edema', color: [0, 255, 0], isVisible: true },
+];
+
+const VOLUME: LabelVolume = {
+  columns: 4,
+  rows: 2,
+  slices: 2,
+  labels: new Uint8Array([3, 0, 0, 0, 0, 3, 0, 0, /* slice 1 */ 0, 0, 0, 7, 0, 0, 0, 0]),
+};
+
+describe('segmentation import', () => {
+  it('reads back an exported NIfTI label volume', () => {
+    const bytes = encodeNiftiLabels(VOLUME, { spacing: { column: 0.5, row: 0.5, slice: 5 }, isCalibrated: true });
+    const nifti = decodeNiftiLabels(bytes);
+    expect([nifti.columns, nifti.rows, nifti.slices]).toEqual([4, 2, 2]);
+    expect(Array.from(nifti.values)).toEqual(Array.from(VOLUME.labels));
+    expect(nifti.spacing).toEqual({ column: 0.5, row: 0.5, slice: 5 });
+  });
+
+  it('writes 16-bit NIfTI labels when a segment ID exceeds 255', () => {
+    const volume: LabelVolume = { ...VOLUME, labels: Uint16Array.from(VOLUME.labels, v => (v === 7 ? 700 : v)) };
+    const bytes = encodeNiftiLabels(volume, { spacing: { column: 0.5, row: 0.5, slice: 5 }, isCalibrated: true });
+    expect(new DataView(bytes.buffer).getInt16(70, true)).toBe(512);
+    expect(Array.from(decodeNiftiLabels(bytes).values)).toEqual(Array.from(volume.labels));
+  });
+
+  it('rejects files that are not NIfTI-1', () => {
+    expect(() => decodeNiftiLabels(new Uint8Array(400))).toThrow(/NIfTI/);
+  });
+
+  it('reads back an exported DICOM SEG and places frames by SOP Instance UID', () => {
+    const seg = decodeDicomSeg(encodeDicomSeg(VOLUME, SEGMENTS, STUDY, SERIES));
+    expect([seg.columns, seg.rows]).toEqual([4, 2]);
+    expect(seg.referencedSeriesUid).toBe(SERIES.id);
+    expect(seg.segments.map(s => [s.value, s.label])).toEqual([[1, 'Infarct'], [2, 'Edema']]);
+    expect(seg.frames.map(f => f.sopInstanceUid)).toEqual(['1.2.3.4.1', '1.2.3.4.2']);
+
+    const { slices, unplaced } = mapSegFramesToSlices(seg, SERIES);
+    expect(unplaced).toBe(0);
+    expect(Array.from(slices.get(0)!)).toEqual([1, 0, 0, 0, 0, 1, 0, 0]);
+    expect(Array.from(slices.get(1)!)).toEqual([0, 0, 0, 2, 0, 0, 0, 0]);
+  });
+
+  it('falls back to In-Stack Position when the SOP Instance UIDs do not match', () => {
+    const seg = decodeDicomSeg(encodeDicomSeg(VOLUME, SEGMENTS, STUDY, SERIES));
+    const other: Series = { ...SERIES, instances: ['a.png', 'b.png', 'c.png'] };
+    const { slices } = mapSegFramesToSlices(seg, other);
+    expect(Array.from(slices.keys()).sort()).toEqual([0, 1]);
+  });
+
+  it('converts DICOM Lab back to RGB', () => {
+    const rgb = dicomLabToRgb(rgbToDicomLab([248, 230, 80]));
+    rgb.forEach((c, i) => expect(Math.abs(c - [248, 230, 80][i])).toBeLessThanOrEqual(2));
+  });
+
+  it('resamples label slices with nearest neighbour and maps values to segment IDs', () => {
+    const labels = resampleLabelSlice([1, 2, 3, 4], 2, 2, 4, 4, new Map([[1, 10], [4, 40]]));
+    expect(Array.from(labels)).toEqual([
+      10, 10, 0, 0,
+      10, 10, 0, 0,
+      0, 0, 40, 40,
+      0, 0, 40, 40,
+    ]);
+  });
+
+  it('merges imported labels into the segment list by name', () => {
+    const { segments, idByValue } = mergeImportedSegments(SEGMENTS, [
+      { value: 1, label: 'edema' },
+      { value: 2, label: 'Tumor', color: [1, 2, 3] },
+      { value: 5 },
+    ]);
+    expect(idByValue.get(1)).toBe(7);
+    expect(idByValue.get(2)).toBe(8);
+    expect(idByValue.get(5)).toBe(9);
+    expect(segments.slice(2).map(s => [s.label, s.color])).toEqual([['Tumor', [1, 2, 3]], ['Label 5', [248, 230, 80]]]);
+  });
+
+  it('numbers PNG masks from the file names', () => {
+    expect(getPngSliceIndices(['mask_001.png', 'mask_002.png', 'notes.png'])).toEqual([0, 1, null]);
+    expect(getPngSliceIndices(['s2_0.png', 's2_1.png'])).toEqual([0, 1]);
+  });
+
+  it('reads label names from a sidecar', () => {
+    expect(parseLabelSidecar({ labels: [{ value: 3, label: 'Infarct', color: [255, 0, 0] }] }))
+      .toEqual([{ value: 3, label: 'Infarct', color: [255, 0, 0] }]);
+    expect(parseLabelSidecar({ nothing: true })).toEqual([]);
+  });
+});
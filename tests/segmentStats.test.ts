@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Segment, Series } from '../types';
+import { computeSegmentStats, segmentStatsToCsv, formatSegmentStatsForReport } from '../utils/segmentStats';
+
+const SEGMENTS: Segment[] = [
+  { id: 1, label: 'Lesion, left', color: [255, 0, 0], isVisible: true },
+  { id: 2, label: 'Ventricle', color: [0, 0, 255], isVisible: true },
+];
+
+const makeSeries = (extra: Partial<Series> = {}): Series => ({
+  id: 'ct',
+  studyId: 'study',
+  description: 'CT',
+  modality: 'CT',
+  instanceCount: 10,
+  instances: Array.from({ length: 10 }, (_, i) => `ct/${i}`),
+  ...extra,
+});
+
+// 2x2 slices: segment 1 on slices 2 and 4, segment 2 on slice 4 only
+const SLICES = [
+  { sliceIndex: 2, labels: Uint8Array.from([1, 1, 0, 0]), values: Float32Array.from([10, 20, 0, 0]) },
+  { sliceIndex: 4, labels: Uint8Array.from([1, 1, 2, 2]), values: Float32Array.from([30, 40, -5, 5]) },
+];
+
+describe('segment statistics', () => {
+  it('computes area, volume, centroid and intensity per segment', () => {
+    const [lesion, ventricle] = computeSegmentStats(SLICES, SEGMENTS, makeSeries({ pixelSpacing: [0.5, 2], sliceThickness: 5 }));
+    expect(lesion.label).toBe('Lesion, left');
+    expect(lesion.slices).toEqual([
+      { sliceIndex: 2, pixelCount: 2, area: 2 },
+      { sliceIndex: 4, pixelCount: 2, area: 2 },
+    ]);
+    expect(lesion.areaUnit).toBe('mm2');
+    // 4 voxels of 0.5 × 2 × 5 mm = 20 mm³
+    expect(lesion.volumeMl).toBeCloseTo(0.02);
+    expect(lesion.centroidSlice).toBe(3);
+    expect(lesion.intensity?.mean).toBe(25);
+    expect(lesion.intensity?.stdDev).toBeCloseTo(Math.sqrt(125));
+    expect([lesion.intensity?.min, lesion.intensity?.max]).toEqual([10, 40]);
+
+    expect(ventricle.pixelCount).toBe(2);
+    expect(ventricle.centroidSlice).toBe(4);
+    expect(ventricle.intensity).toMatchObject({ mean: 0, stdDev: 5 });
+  });
+
+  it('falls back to pixels without spacing and skips missing images for intensity', () => {
+    const slices = [SLICES[0], { ...SLICES[1], values: null }];
+    const [lesion, ventricle] = computeSegmentStats(slices, SEGMENTS, makeSeries());
+    expect(lesion.areaUnit).toBe('px2');
+    expect(lesion.volumeMl).toBeNull();
+    expect(lesion.intensity).toMatchObject({ pixelCount: 2, mean: 15 });
+    expect(ventricle.intensity).toBeNull();
+
+    // Spacing without thickness gives areas but no volume
+    expect(computeSegmentStats(SLICES, SEGMENTS, makeSeries({ pixelSpacing: [1, 1] }))[0].volumeMl).toBeNull();
+  });
+
+  it('exports per-slice and total rows as CSV', () => {
+    const stats = computeSegmentStats(SLICES, SEGMENTS, makeSeries({ pixelSpacing: [0.5, 2], sliceThickness: 5 }));
+    expect(segmentStatsToCsv(stats).split('\n')).toEqual([
+      'segment_id,label,slice,pixels,area_mm2,volume_ml,centroid_slice,mean,std_dev,min,max',
+      '1,"Lesion, left",3,2,2,,,,,,',
+      '1,"Lesion, left",5,2,2,,,,,,',
+      '1,"Lesion, left",all,4,4,0.02,4,25,11.18,10,40',
+      '2,Ventricle,5,2,2,,,,,,',
+      '2,Ventricle,all,2,2,0.01,5,0,5,-5,5',
+      '',
+    ]);
+  });
+
+  it('summarizes segments for the report payload', () => {
+    const stats = computeSegmentStats(SLICES, SEGMENTS, makeSeries({ pixelSpacing: [0.5, 2], sliceThickness: 5 }));
+    expect(formatSegmentStatsForReport(stats, 'CT')[0]).toEqual({
+      label: 'Lesion, left',
+      slices: ['Slice 3: 2.0 mm²', 'Slice 5: 2.0 mm²'],
+      volume: '0.02 mL',
+      centroidSlice: 4,
+      intensity: '25.0 ± 11.2 HU (min 10.0, max 40.0)',
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  selectThresholdStroke, growRegion, floodFillContour, applySelectionToLabels, countSelected,
+} from '../utils/segmentationTools';
+import { createLabelWorker } from '../utils/labelWorker';
+
+// 5x5 slice with a bright 3x3 block in the middle
+const BLOCK = Float32Array.from([
+  0, 0, 0, 0, 0,
+  0, 100, 100, 100, 0,
+  0, 100, 100, 100, 0,
+  0, 100, 100, 100, 0,
+  0, 0, 0, 0, 0,
+]);
+
+const selectedIndices = (selected: Uint8Array | undefined) =>
+  selected ? Array.from(selected).flatMap((v, i) => (v ? [i] : [])) : [];
+
+describe('semi-automatic segmentation', () => {
+  it('paints only pixels within the threshold range under the brush', () => {
+    const selected = new Uint8Array(25);
+    selectThresholdStroke(BLOCK, 5, 5, { x: 0.5, y: 2.5 }, { x: 4.5, y: 2.5 }, 0.5, [50, 200], selected);
+    expect(selectedIndices(selected)).toEqual([11, 12, 13]);
+
+    selectThresholdStroke(BLOCK, 5, 5, { x: 2.5, y: 0.5 }, { x: 2.5, y: 0.5 }, 0.5, [-10, 10], selected);
+    expect(selectedIndices(selected)).toEqual([2, 11, 12, 13]);
+  });
+
+  it('grows in-plane in 2D and through neighbouring slices in 3D', () => {
+    const empty = new Float32Array(25);
+    const slices = [BLOCK, BLOCK, empty, BLOCK];
+    const seed = { x: 2, y: 2, sliceIndex: 1 };
+
+    const flat = growRegion(slices, 5, 5, seed, 10, false);
+    expect([...flat.slices.keys()]).toEqual([1]);
+    expect(countSelected(flat)).toBe(9);
+
+    // The empty slice stops the region before the last one
+    const volume = growRegion(slices, 5, 5, seed, 10, true);
+    expect(selectedIndices(volume.slices.get(0))).toEqual(selectedIndices(volume.slices.get(1)));
+    expect(countSelected(volume)).toBe(18);
+    expect(volume.slices.has(3)).toBe(false);
+
+    expect(() => growRegion(slices, 5, 5, { x: 7, y: 2, sliceIndex: 1 }, 10, false)).toThrow(/inside the image/);
+  });
+
+  it('grows 3D regions as a label worker job', async () => {
+    const worker = createLabelWorker();
+    const selection = await worker.growRegion([BLOCK, BLOCK, null], 5, 5, { x: 2, y: 2, sliceIndex: 0 }, 10, true);
+    expect([...selection.slices.keys()]).toEqual([0, 1]);
+    expect(countSelected(selection)).toBe(18);
+    await expect(worker.growRegion([BLOCK], 5, 5, { x: -1, y: 2, sliceIndex: 0 }, 10, true)).rejects.toThrow(/inside the image/);
+  });
+
+  it('fills closed contours and refuses open ones', () => {
+    // Ring around the centre pixel
+    const ring = Uint8Array.from(BLOCK, v => (v ? 1 : 0));
+    ring[12] = 0;
+    expect(selectedIndices(floodFillContour(ring, 5, 5, { x: 2.5, y: 2.5 }))).toEqual([12]);
+    expect(() => floodFillContour(ring, 5, 5, { x: 1.5, y: 1.5 })).toThrow(/not on it/);
+
+    ring[13] = 0;
+    expect(() => floodFillContour(ring, 5, 5, { x: 2.5, y: 2.5 })).toThrow(/not closed/);
+    expect(() => floodFillContour(null, 5, 5, { x: 2.5, y: 2.5 })).toThrow(/closed contour/);
+  });
+
+  it('writes the selection into the label slice with the segment id', () => {
+    // Segment 2 already labels pixel 0
+    const labels = Uint16Array.from([2, 0, 0, 0]);
+    const selected = Uint8Array.from([0, 0, 1, 1]);
+    expect(applySelectionToLabels(labels, 2, selected, 300)).toEqual({ x: 0, y: 1, width: 2, height: 1 });
+    expect(Array.from(labels)).toEqual([2, 0, 300, 300]);
+    expect(applySelectionToLabels(labels, 2, new Uint8Array(4), 5)).toBeNull();
+  });
+});
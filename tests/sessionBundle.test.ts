@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { StudySession } from '../types';
+import { encodeSessionBundle, decodeSessionBundle } from '../utils/sessionBundle';
+import { isGzip } from '../utils/zip';
+
+const SESSION: StudySession = {
+  studyId: '1.2.3',
+  savedAt: 1700000000000,
+  measurementsBySeries: {
+    '1.2.3.4': [{ id: 'm1', type: 'length', start: { x: 1, y: 2 }, end: { x: 3, y: 4 }, value: 2.8, sliceIndex: 5, label: 'Lesion', createdAt: 1 }],
+  },
+  segmentation: {
+    opacity: 0.4,
+    isVisible: true,
+    activeSegmentId: 2,
+    segments: [{ id: 2, label: 'Edema', color: [0, 255, 0], isVisible: true }],
+    brushSize: 9,
+    thresholdRange: [100, 400],
+    growTolerance: 0.1,
+    growIn3d: true,
+  },
+  masks: [
+    { seriesId: '1.2.3.4', sliceIndex: 5, width: 3, height: 2, labels: new Uint8Array([0, 2, 2, 0, 0, 2]) },
+    { seriesId: '1.2.3.4', sliceIndex: 6, width: 3, height: 2, labels: new Uint8Array([2, 0, 0, 0, 0, 0]) },
+    { seriesId: '1.2.3.4', sliceIndex: 7, width: 3, height: 2, labels: new Uint16Array([0, 300, 0, 2, 0, 65535]) },
+  ],
+  chatMessages: [{ id: 'welcome', role: 'model', text: 'Hello' }],
+};
+
+describe('session bundle', () => {
+  it('round-trips a session with its masks', async () => {
+    const bytes = await encodeSessionBundle(SESSION, { id: '1.2.3', description: 'Brain MRI' });
+    expect(isGzip(bytes)).toBe(true);
+
+    const { study, session } = await decodeSessionBundle(bytes);
+    expect(study).toEqual({ id: '1.2.3', description: 'Brain MRI' });
+    expect(session.segmentation).toEqual(SESSION.segmentation);
+    expect(session.measurementsBySeries).toEqual(SESSION.measurementsBySeries);
+    expect(session.chatMessages).toEqual(SESSION.chatMessages);
+    expect(session.masks.map(m => [m.sliceIndex, Array.from(m.labels)])).toEqual([
+      [5, [0, 2, 2, 0, 0, 2]],
+      [6, [2, 0, 0, 0, 0, 0]],
+      [7, [0, 300, 0, 2, 0, 65535]],
+    ]);
+  });
+
+  it('rejects files that are not session bundles', async () => {
+    await expect(decodeSessionBundle(new TextEncoder().encode('{"hello":1}'))).rejects.toThrow(/Not a VibeRad session bundle/);
+  });
+});
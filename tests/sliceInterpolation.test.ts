@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { signedDistance, interpolateBetweenSlices } from '../utils/sliceInterpolation';
+
+const SIZE = 11;
+
+// Centred square of side 2 * half + 1
+const square = (half: number) => {
+  const mask = new Uint8Array(SIZE * SIZE);
+  const c = (SIZE - 1) / 2;
+  for (let y = c - half; y <= c + half; y++) {
+    for (let x = c - half; x <= c + half; x++) mask[y * SIZE + x] = 1;
+  }
+  return mask;
+};
+
+const count = (mask: Uint8Array | undefined) => (mask ? mask.reduce((sum, v) => sum + v, 0) : 0);
+const centreRow = (mask: Uint8Array) => Array.from(mask.slice(5 * SIZE, 6 * SIZE)).join('');
+
+describe('slice interpolation', () => {
+  it('computes signed distances to the mask boundary', () => {
+    expect(Array.from(signedDistance(Uint8Array.from([0, 1, 1, 0, 0]), 5, 1))).toEqual([0.5, -0.5, -0.5, 0.5, 1.5]);
+    const sdf = signedDistance(square(2), SIZE, SIZE);
+    expect(sdf[5 * SIZE + 5]).toBe(-2.5);
+    expect(sdf[5 * SIZE + 10]).toBe(2.5);
+  });
+
+  it('morphs a small shape into a large one across the gap', () => {
+    const result = interpolateBetweenSlices(new Map([[0, square(1)], [3, square(4)]]), SIZE, SIZE);
+    expect([...result.keys()]).toEqual([1, 2]);
+    expect(centreRow(result.get(1)!)).toBe('00011111000');
+    expect(centreRow(result.get(2)!)).toBe('00111111100');
+    expect(count(square(1))).toBeLessThan(count(result.get(1)));
+    expect(count(result.get(1))).toBeLessThan(count(result.get(2)));
+    expect(count(result.get(2))).toBeLessThan(count(square(4)));
+  });
+
+  it('fills every gap between several key slices, and nothing outside them', () => {
+    const result = interpolateBetweenSlices(new Map([[6, square(2)], [2, square(2)], [3, square(2)]]), SIZE, SIZE);
+    expect([...result.keys()].sort((a, b) => a - b)).toEqual([4, 5]);
+    expect(result.get(4)).toEqual(square(2));
+  });
+
+  it('needs at least two key slices', () => {
+    expect(() => interpolateBetweenSlices(new Map([[0, square(1)]]), SIZE, SIZE)).toThrow(/at least two slices/);
+  });
+});
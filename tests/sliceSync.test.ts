@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Series } from '../types';
+import { computeSliceGeometry, findSyncedSliceIndex } from '../utils/sliceSync';
+
+const AXIAL = [1, 0, 0, 0, 1, 0];
+
+const makeSeries = (id: string, zs: number[] | null, extra: Partial<Series> = {}): Series => ({
+  id,
+  studyId: 'study',
+  description: id,
+  modality: 'MR',
+  instanceCount: zs?.length ?? 10,
+  instances: (zs ?? Array.from({ length: 10 }, (_, i) => i)).map((_, i) => `${id}/${i}`),
+  ...(zs ? { ...computeSliceGeometry(zs.map(z => [0, 0, z]), AXIAL), frameOfReferenceUid: '1.2.3' } : {}),
+  ...extra,
+});
+
+describe('sliceSync', () => {
+  it('projects Image Position (Patient) onto the stack normal', () => {
+    const geometry = computeSliceGeometry([[10, 20, -5], [10, 20, 0]], AXIAL);
+    expect(geometry.slicePositions).toEqual([-5, 0]);
+    expect(geometry.sliceNormal).toEqual([0, 0, 1]);
+    expect(computeSliceGeometry([[0, 0, 1], undefined], AXIAL)).toEqual({});
+  });
+
+  it('matches slices by position across series with different spacing', () => {
+    const dwi = makeSeries('dwi', [0, 5, 10, 15, 20]);
+    const flair = makeSeries('flair', [0, 2.5, 5, 7.5, 10, 12.5, 15, 17.5, 20]);
+    expect(findSyncedSliceIndex(dwi, 2, flair)).toBe(4);
+    expect(findSyncedSliceIndex(flair, 3, dwi)).toBe(1); // 7.5 mm → nearest 5 mm
+  });
+
+  it('handles stacks acquired in the opposite direction', () => {
+    const up = makeSeries('up', [0, 5, 10]);
+    const down = makeSeries('down', [10, 5, 0], { sliceNormal: [0, 0, -1], slicePositions: [-10, -5, 0] });
+    expect(findSyncedSliceIndex(up, 0, down)).toBe(2);
+  });
+
+  it('falls back to the slice index without geometry or across frames of reference', () => {
+    const a = makeSeries('a', null);
+    const b = makeSeries('b', null, { instances: ['b/0', 'b/1', 'b/2'], instanceCount: 3 });
+    expect(findSyncedSliceIndex(a, 1, b)).toBe(1);
+    expect(findSyncedSliceIndex(a, 7, b)).toBe(2);
+
+    const c = makeSeries('c', [0, 5, 10], { frameOfReferenceUid: '1.2.3' });
+    const d = makeSeries('d', [10, 15, 20], { frameOfReferenceUid: '4.5.6' });
+    expect(findSyncedSliceIndex(c, 0, d)).toBe(0);
+
+    // A missing UID does not count as the same frame
+    const e = makeSeries('e', [10, 15, 20], { frameOfReferenceUid: undefined });
+    expect(findSyncedSliceIndex(c, 0, e)).toBe(0);
+    expect(findSyncedSliceIndex(e, 0, { ...c, frameOfReferenceUid: undefined })).toBe(0);
+  });
+
+  it('finds no slice for a location outside the target stack', () => {
+    const head = makeSeries('head', [0, 5, 10]);
+    const body = makeSeries('body', [0, 5, 10, 15, 20, 25, 30]);
+    expect(findSyncedSliceIndex(body, 3, head)).toBe(2); // 15 mm is one spacing past the last slice
+    expect(findSyncedSliceIndex(body, 6, head)).toBeNull();
+  });
+});
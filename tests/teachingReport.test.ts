@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { Study, Series, Measurement } from '../types';
+import { Calibration } from '../utils/calibration';
+import { buildTeachingReport, reportToMarkdown, reportToHtml, reportToPdf, DEFAULT_SAFETY_NOTE } from '../utils/teachingReport';
+import { wrapText } from '../utils/pdfWriter';
+import { encodeTeachingReportSr, decodeMeasurementReportSr, mapSrMeasurementsToSeries, canExportDicomSr } from '../utils/dicomSr';
+import { parseDicom, getString } from '../utils/dicomParser';
+
+const STUDY: Study = {
+  id: '1.2.3',
+  patientName: 'Doe, Jane',
+  patientId: 'P1',
+  accessionNumber: 'A1',
+  studyDate: '20250101',
+  modality: 'MR',
+  description: 'Brain',
+  seriesCount: 1,
+  instanceCount: 2,
+};
+
+const SERIES: Series = {
+  id: '1.2.3.4',
+  studyId: '1.2.3',
+  description: 'DWI',
+  modality: 'MR',
+  instanceCount: 2,
+  instances: ['http://pacs/studies/1.2.3/series/1.2.3.4/instances/1.2.3.4.1', 'http://pacs/studies/1.2.3/series/1.2.3.4/instances/1.2.3.4.2'],
+  pixelSpacing: [0.5, 0.5],
+};
+
+const MM: Calibration = { rowSpacing: 0.5, columnSpacing: 0.5, unit: 'mm' };
+
+const MEASUREMENTS: Measurement[] = [
+  { id: 'm1', type: 'length', start: { x: 0, y: 0 }, end: { x: 30, y: 40 }, value: 50, sliceIndex: 1, label: 'Lesion <A>', createdAt: 1 },
+  { id: 'm2', type: 'length', start: { x: 10, y: 10 }, end: { x: 10, y: 30 }, value: 20, sliceIndex: 0, createdAt: 2 },
+  { id: 'm3', type: 'arrow', start: { x: 5, y: 5 }, end: { x: 9, y: 9 }, sliceIndex: 0, label: 'Look', createdAt: 3 },
+  { id: 'm4', type: 'angle', points: [{ x: 10, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 10 }], sliceIndex: 0, label: 'Angle', createdAt: 4 },
+  {
+    id: 'm5', type: 'ellipse', start: { x: 0, y: 0 }, end: { x: 20, y: 10 }, sliceIndex: 1, label: 'ROI', createdAt: 5,
+    stats: { pixelCount: 150, mean: 30, stdDev: 4, min: 20, max: 41 },
+  },
+  { id: 'm6', type: 'freehand', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }], sliceIndex: 0, label: 'Lasso', createdAt: 6 },
+  { id: 'm7', type: 'cobb', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }, { x: 10, y: 20 }], sliceIndex: 1, label: 'Cobb', createdAt: 7 },
+];
+
+const RAW = {
+  title: 'Teaching Summary',
+  studyContext: { modality: 'MR', region: 'Brain', seriesDescription: '', plane: 'Axial' },
+  features: ['Symmetric ventricles', 42, ''],
+  teachingPoints: ['Compare both sides.'],
+  learnerQuestions: ['Which sequence is this?'],
+  measurementComments: [{ measurementId: 'm1', comment: 'Long axis' }, { measurementId: 'unknown', comment: 'Dropped' }],
+};
+
+const build = () => buildTeachingReport(RAW, MEASUREMENTS, MM, { modality: 'MR', seriesDescription: 'DWI' }, new Date('2025-01-01T00:00:00Z'));
+
+describe('teaching report', () => {
+  it('links model comments to viewer measurements by id and computes values locally', () => {
+    const report = build();
+    expect(report.features).toEqual(['Symmetric ventricles']);
+    expect(report.studyContext.seriesDescription).toBe('DWI');
+    expect(report.safetyNote).toBe(DEFAULT_SAFETY_NOTE);
+    expect(report.measurements.slice(0, 2)).toEqual([
+      { measurementId: 'm1', type: 'length', label: 'Lesion <A>', value: 25, unit: 'mm', sliceIndex: 1, points: [{ x: 0, y: 0 }, { x: 30, y: 40 }], comment: 'Long axis' },
+      { measurementId: 'm2', type: 'length', label: 'M2', value: 10, unit: 'mm', sliceIndex: 0, points: [{ x: 10, y: 10 }, { x: 10, y: 30 }] },
+    ]);
+    // Arrows have no value; angles and areas are reported with their units
+    expect(report.measurements.map(m => [m.measurementId, m.value, m.unit])).toEqual([
+      ['m1', 25, 'mm'], ['m2', 10, 'mm'], ['m4', 90, 'deg'], ['m5', 39.27, 'mm2'], ['m6', 12.5, 'mm2'], ['m7', 45, 'deg'],
+    ]);
+    expect(report.measurements[3].stats?.mean).toBe(30);
+  });
+
+  it('renders Markdown and escaped HTML from the structure', () => {
+    const report = build();
+    const md = reportToMarkdown(report);
+    expect(md).toContain('# Teaching Summary');
+    expect(md).toContain('- Lesion <A>: 25.0 mm (slice 2) – Long axis');
+    expect(md).toContain('- Angle: 90.0° (slice 1)');
+    expect(md).toContain('- ROI: 39.3 mm², 30.0 ± 4.0 (min 20.0, max 41.0) (slice 2)');
+    expect(md).toContain('## Safety Note');
+
+    const html = reportToHtml(report);
+    expect(html).toContain('<tr data-measurement-id="m1"><td>Lesion &lt;A&gt;</td>');
+    expect(html).not.toContain('<A>');
+
+    // Without imaging features the table still comes before the teaching points
+    const bare = reportToHtml({ ...report, features: [] });
+    expect(bare).not.toContain('Key Imaging Features');
+    expect(bare.indexOf('<h2>Measurements</h2>')).toBeLessThan(bare.indexOf('<h2>Teaching Points</h2>'));
+  });
+
+  it('writes a PDF with a valid cross-reference table', () => {
+    const bytes = reportToPdf(build());
+    const text = String.fromCharCode(...bytes);
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const xrefOffset = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    // Each entry points at its "n 0 obj"
+    const entries = text.slice(xrefOffset).split('\n').slice(3).filter(l => / n $/.test(l));
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+    // The en dash is WinAnsi 0x96
+    expect(text).toContain('(Lesion <A>: 25.0 mm \\(slice 2\\) \x96 Long axis) Tj');
+  });
+
+  it('wraps text to the line width', () => {
+    const lines = wrapText('one two three four five six', 10, 60);
+    expect(lines.every(l => l.length <= 12)).toBe(true);
+    expect(lines.join(' ')).toBe('one two three four five six');
+  });
+});
+
+describe('DICOM SR teaching report', () => {
+  it('requires DICOM source images', () => {
+    expect(canExportDicomSr(STUDY, SERIES)).toBe(true);
+    expect(canExportDicomSr(STUDY, { ...SERIES, instances: ['/demo/1.png'] })).toBe(false);
+    expect(() => encodeTeachingReportSr(build(), STUDY, { ...SERIES, instances: ['/demo/1.png'] })).toThrow(/DICOM source series/);
+  });
+
+  it('writes a TID 1500 measurement report', () => {
+    const { dataset, meta } = parseDicom(encodeTeachingReportSr(build(), STUDY, SERIES));
+    expect(getString(meta, '00020002')).toBe('1.2.840.10008.5.1.4.1.1.88.33');
+    expect(getString(dataset, '00080060')).toBe('SR');
+    expect(getString(dataset, '0040A040')).toBe('CONTAINER');
+    expect(getString(dataset, '00100010')).toBe('Doe^Jane');
+    expect(getString(dataset, '0040A493')).toBe('UNVERIFIED');
+  });
+
+  it('round-trips measurements back onto the series by SOP instance', () => {
+    const decoded = decodeMeasurementReportSr(encodeTeachingReportSr(build(), STUDY, SERIES));
+    expect(decoded).toHaveLength(6);
+    expect(decoded[0]).toMatchObject({
+      measurementId: 'm1', type: 'length', label: 'Lesion <A>', value: 25, unit: 'mm', sopInstanceUid: '1.2.3.4.2',
+      points: [{ x: 0, y: 0 }, { x: 30, y: 40 }], comment: 'Long axis',
+    });
+
+    const restored = mapSrMeasurementsToSeries(decoded, SERIES, 1000);
+    // Every measurement type comes back with its geometry; ROI statistics are recomputed in the viewer
+    expect(restored.map(({ createdAt, text, ...m }) => m)).toEqual([
+      { ...MEASUREMENTS[0] }, { ...MEASUREMENTS[1], label: 'M2' }, MEASUREMENTS[3],
+      { ...MEASUREMENTS[4], stats: undefined }, MEASUREMENTS[5], MEASUREMENTS[6],
+    ].map(({ createdAt, stats, ...m }: any) => m));
+    // Images outside the series are skipped
+    expect(mapSrMeasurementsToSeries(decoded, { ...SERIES, instances: [SERIES.instances[0]] })).toHaveLength(3);
+  });
+
+  it('writes non-ASCII comments as UTF-8', () => {
+    const report = buildTeachingReport(
+      { ...RAW, measurementComments: [{ measurementId: 'm1', comment: 'Läsion 5 µm' }] },
+      MEASUREMENTS, MM, { modality: 'MR', seriesDescription: 'DWI' }, new Date('2025-01-01T00:00:00Z')
+    );
+    const bytes = encodeTeachingReportSr(report, STUDY, SERIES);
+    expect(getString(parseDicom(bytes).dataset, '00080005')).toBe('ISO_IR 192');
+    expect(decodeMeasurementReportSr(bytes)[0].comment).toBe('Läsion 5 µm');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { resolveViewerToolCall, toChatToolActions, describeViewerToolContext, ViewerToolContext, VIEWER_TOOL_DECLARATIONS } from '../utils/viewerTools';
+
+const context: ViewerToolContext = {
+  series: [
+    { id: 's1', description: 'T1 AX', instanceCount: 24 },
+    { id: 's2', description: 'T2 AX', instanceCount: 20 },
+    { id: 's3', description: 'FLAIR COR', instanceCount: 30 },
+  ],
+  activeSeriesId: 's1',
+  sliceIndex: 11,
+  windowPresets: ['Full Range', 'Brain', 'High Contrast'],
+  segments: [
+    { id: 1, label: 'Tumor', isVisible: true },
+    { id: 2, label: 'Edema', isVisible: false },
+  ],
+};
+
+const resolve = (name: string, args: Record<string, unknown>) => resolveViewerToolCall({ name, args }, context);
+
+describe('viewer tools', () => {
+  it('declares a function for every action', () => {
+    expect(VIEWER_TOOL_DECLARATIONS.map(d => d.name)).toEqual([
+      'jump_to_slice', 'switch_series', 'apply_window_preset', 'zoom_to_region', 'place_arrow', 'toggle_segment',
+    ]);
+  });
+
+  it('maps 1-based slices to indices and rejects slices outside the series', () => {
+    expect(resolve('jump_to_slice', { slice: 5 })).toEqual({ action: { type: 'jump_to_slice', sliceIndex: 4 }, summary: 'Jump to slice 5 of 24' });
+    expect(resolve('jump_to_slice', { slice: '24' }).action).toEqual({ type: 'jump_to_slice', sliceIndex: 23 });
+    expect(() => resolve('jump_to_slice', { slice: 25 })).toThrow('outside this series (1–24)');
+    expect(() => resolve('jump_to_slice', {})).toThrow('Missing or invalid "slice"');
+  });
+
+  it('finds series by number, exact name or a unique partial name', () => {
+    expect(resolve('switch_series', { series: '3' }).action).toEqual({ type: 'switch_series', seriesId: 's3' });
+    expect(resolve('switch_series', { series: 't2 ax' }).action).toEqual({ type: 'switch_series', seriesId: 's2' });
+    expect(resolve('switch_series', { series: 'flair' }).action).toEqual({ type: 'switch_series', seriesId: 's3' });
+    expect(() => resolve('switch_series', { series: 'AX' })).toThrow('Ambiguous series "AX"');
+    expect(() => resolve('switch_series', { series: 'T1 AX' })).toThrow('already shown');
+  });
+
+  it('only applies presets the series offers', () => {
+    expect(resolve('apply_window_preset', { preset: 'brain' })).toEqual({ action: { type: 'apply_window_preset', preset: 'Brain' }, summary: 'Apply the Brain window' });
+    expect(() => resolve('apply_window_preset', { preset: 'Lung' })).toThrow('Unknown window preset "Lung"');
+  });
+
+  it('clips zoom regions to the image', () => {
+    expect(resolve('zoom_to_region', { x: 0.5, y: 0.25, width: 0.8, height: 0.5 }).action)
+      .toEqual({ type: 'zoom_to_region', region: { x: 0.5, y: 0.25, width: 0.5, height: 0.5 } });
+    expect(() => resolve('zoom_to_region', { x: 1.2, y: 0, width: 0.1, height: 0.1 })).toThrow('"x" must be between 0 and 1');
+    expect(() => resolve('zoom_to_region', { x: 1, y: 0, width: 0.1, height: 0.1 })).toThrow('empty');
+  });
+
+  it('places arrows on the current slice unless one is given', () => {
+    expect(resolve('place_arrow', { x: 0.4, y: 0.6, label: 'Hippocampus' })).toEqual({
+      action: { type: 'place_arrow', sliceIndex: 11, x: 0.4, y: 0.6, label: 'Hippocampus' },
+      summary: 'Place arrow "Hippocampus" on slice 12',
+    });
+    expect(resolve('place_arrow', { x: 0.4, y: 0.6, label: ' x ', slice: 3 }).action).toMatchObject({ sliceIndex: 2, label: 'x' });
+    expect(() => resolve('place_arrow', { x: 0.4, y: 0.6, label: '' })).toThrow('Missing "label"');
+  });
+
+  it('shows or hides segments by label or id', () => {
+    expect(resolve('toggle_segment', { segment: 'edema', visible: true })).toEqual({
+      action: { type: 'toggle_segment', segmentId: 2, visible: true },
+      summary: 'Show segment "Edema"',
+    });
+    expect(resolve('toggle_segment', { segment: 1, visible: false }).action).toEqual({ type: 'toggle_segment', segmentId: 1, visible: false });
+    expect(resolve('toggle_segment', { segment: 'Tumor' }).action).toMatchObject({ visible: false });
+  });
+
+  it('keeps rejected calls with their reason', () => {
+    const actions = toChatToolActions([
+      { name: 'jump_to_slice', args: { slice: 2 } },
+      { name: 'delete_study', args: {} },
+    ], context, 'm1');
+    expect(actions[0]).toMatchObject({ id: 'm1-tool-0', status: 'pending', summary: 'Jump to slice 2 of 24' });
+    expect(actions[1]).toMatchObject({ id: 'm1-tool-1', status: 'rejected', summary: 'delete study', error: 'Unknown viewer tool "delete_study".' });
+  });
+
+  it('describes the viewer for the model', () => {
+    const text = describeViewerToolContext(context);
+    expect(text).toContain('1. "T1 AX" (24 slices)');
+    expect(text).toContain('Active: "T1 AX", slice 12 of 24');
+    expect(text).toContain('2. "Edema" (hidden)');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { applyVoi, renderVoiToRgba } from '../utils/voiLut';
+import { getDefaultWindow, resolveWindowPreset } from '../utils/imageRendering';
+import { DicomImage } from '../types';
+
+const ctImage = (pixels: number[], overrides: Partial<DicomImage> = {}): DicomImage => ({
+  rows: 1,
+  columns: pixels.length,
+  bitsAllocated: 16,
+  bitsStored: 16,
+  pixelRepresentation: 1,
+  samplesPerPixel: 1,
+  photometricInterpretation: 'MONOCHROME2',
+  rescaleSlope: 1,
+  rescaleIntercept: -1024,
+  pixelData: new Int16Array(pixels),
+  minPixelValue: Math.min(...pixels),
+  maxPixelValue: Math.max(...pixels),
+  ...overrides,
+});
+
+const grays = (image: DicomImage, windowCenter: number, windowWidth: number, voiLutFunction: 'LINEAR' | 'SIGMOID' = 'LINEAR') => {
+  const out = new Uint8ClampedArray(image.rows * image.columns * 4);
+  renderVoiToRgba(image, { windowCenter, windowWidth, voiLutFunction }, out);
+  return Array.from(out.filter((_, i) => i % 4 === 0));
+};
+
+describe('VOI LUT', () => {
+  it('applies the DICOM linear function in modality units', () => {
+    expect(applyVoi(-200, 40, 400, 'LINEAR')).toBe(0);
+    expect(applyVoi(240, 40, 400, 'LINEAR')).toBe(255);
+    expect(applyVoi(39.5, 40, 400, 'LINEAR')).toBeCloseTo(127.5, 5);
+    expect(applyVoi(0, 0, 10, 'LINEAR_EXACT')).toBeCloseTo(127.5, 5);
+  });
+
+  it('applies the sigmoid function around the window center', () => {
+    expect(applyVoi(40, 40, 400, 'SIGMOID')).toBeCloseTo(127.5, 5);
+    expect(applyVoi(-2000, 40, 400, 'SIGMOID')).toBeLessThan(1);
+    expect(applyVoi(2000, 40, 400, 'SIGMOID')).toBeGreaterThan(254);
+  });
+
+  it('windows stored values after the rescale (Hounsfield) stage', () => {
+    // Stored -500 → -1524 HU, 424 → -600 HU (lung center), 1024 → 0 HU, 1324 → 300 HU
+    const image = ctImage([-500, 424, 1024, 1324, 4000]);
+    expect(grays(image, -600, 1500)).toEqual([0, 128, 230, 255, 255]);
+    expect(grays(image, 300, 2000)).toEqual([0, 13, 89, 128, 255]);
+  });
+
+  it('inverts MONOCHROME1 after the VOI stage', () => {
+    const image = ctImage([0, 1024, 4000], { photometricInterpretation: 'MONOCHROME1' });
+    expect(grays(image, 0, 400)).toEqual([255, 127, 0]);
+  });
+
+  it('prefers the dataset window and resolves relative presets against the image range', () => {
+    const image = ctImage([0, 255], { rescaleIntercept: 0, windowCenter: 100, windowWidth: 50 });
+    expect(getDefaultWindow(image)).toEqual({ windowCenter: 100, windowWidth: 50, voiLutFunction: 'LINEAR' });
+    expect(getDefaultWindow({ ...image, windowCenter: undefined, windowWidth: undefined }))
+      .toEqual({ windowCenter: 127.5, windowWidth: 255, voiLutFunction: 'LINEAR' });
+
+    expect(resolveWindowPreset({ label: 'Half', ww: 0.5, wc: 0.25, relative: true }, image))
+      .toEqual({ windowCenter: 63.75, windowWidth: 127.5, voiLutFunction: 'LINEAR' });
+    expect(resolveWindowPreset({ label: 'Lung', ww: 1500, wc: -600 }, image))
+      .toEqual({ windowCenter: -600, windowWidth: 1500, voiLutFunction: 'LINEAR' });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildVolume, extractSlice, getPlaneGeometry, planeToVoxel, voxelToPlane } from '../utils/volume';
+import { DicomImage, Series } from '../types';
+
+// 3 columns × 2 rows × 4 slices; voxel value encodes its position as z*100 + y*10 + x
+const frame = (z: number, overrides: Partial<DicomImage> = {}): DicomImage => {
+  const pixels = [0, 1, 2, 10, 11, 12].map(v => v + z * 100);
+  return {
+    rows: 2,
+    columns: 3,
+    bitsAllocated: 16,
+    bitsStored: 16,
+    pixelRepresentation: 0,
+    samplesPerPixel: 1,
+    photometricInterpretation: 'MONOCHROME2',
+    rescaleSlope: 1,
+    rescaleIntercept: 0,
+    pixelData: new Uint16Array(pixels),
+    minPixelValue: Math.min(...pixels),
+    maxPixelValue: Math.max(...pixels),
+    ...overrides,
+  };
+};
+
+const series: Series = {
+  id: 's1', studyId: 'st1', description: 'Axial', modality: 'CT',
+  instanceCount: 4, instances: ['a', 'b', 'c', 'd'],
+  pixelSpacing: [0.5, 0.5], sliceThickness: 2,
+};
+
+describe('MPR volume', () => {
+  const volume = buildVolume([0, 1, 2, 3].map(z => frame(z)), series);
+
+  it('stacks frames with the series geometry', () => {
+    expect(volume.data).toBeInstanceOf(Uint16Array);
+    expect([volume.columns, volume.rows, volume.slices]).toEqual([3, 2, 4]);
+    expect(volume.spacing).toEqual({ column: 0.5, row: 0.5, slice: 2 });
+    expect([volume.minPixelValue, volume.maxPixelValue]).toEqual([0, 312]);
+  });
+
+  it('reslices coronal and sagittal planes with the last slice at the top', () => {
+    expect(getPlaneGeometry(volume, 'coronal')).toMatchObject({ columns: 3, rows: 4, sliceCount: 2, rowSpacing: 2 });
+    expect(Array.from(extractSlice(volume, 'coronal', 1).pixelData)).toEqual([
+      310, 311, 312,
+      210, 211, 212,
+      110, 111, 112,
+      10, 11, 12,
+    ]);
+    expect(Array.from(extractSlice(volume, 'sagittal', 2).pixelData)).toEqual([302, 312, 202, 212, 102, 112, 2, 12]);
+  });
+
+  it('maps plane pixels to voxels and back', () => {
+    const voxel = planeToVoxel(volume, 'sagittal', 1, 0, 2);
+    expect(voxel).toEqual({ x: 2, y: 1, z: 3 });
+    expect(voxelToPlane(volume, 'coronal', voxel)).toEqual({ u: 2, v: 0, index: 1 });
+    expect(voxelToPlane(volume, 'axial', voxel)).toEqual({ u: 2, v: 1, index: 3 });
+  });
+
+  it('converts to modality values when rescale differs between slices', () => {
+    const mixed = buildVolume([frame(0), frame(1, { rescaleSlope: 2, rescaleIntercept: -10 })], { ...series, instanceCount: 2 });
+    expect(mixed.data).toBeInstanceOf(Float32Array);
+    expect(mixed.data[6]).toBe(100 * 2 - 10);
+  });
+
+  it('rejects stacks with mixed dimensions', () => {
+    expect(() => buildVolume([frame(0), frame(1, { rows: 3 })], series)).toThrow(/uniform stack/);
+  });
+});
@@ -12,6 +12,7 @@ export interface Study {
   description: string;
   seriesCount: number;
   instanceCount: number;
+  isImported?: boolean; // Built from files the user dropped into the StudyList
 }
 
 export interface Series {
@@ -21,6 +22,49 @@ export interface Series {
   modality: string;
   instanceCount: number;
   instances: string[]; 
+  seriesNumber?: number;
+  // Geometry, from Pixel Spacing / Imager Pixel Spacing and Slice Thickness (or localData config)
+  pixelSpacing?: [number, number]; // mm, [row spacing, column spacing] as in (0028,0030)
+  pixelSpacingSource?: PixelSpacingSource;
+  sliceThickness?: number; // mm
+  // Slice location along the stack normal (mm), per instance in `instances` order.
+  // From Image Position / Orientation (Patient); used to match slices between series.
+  slicePositions?: number[];
+  sliceNormal?: [number, number, number];
+  frameOfReferenceUid?: string;
+  sopClassUid?: string; // of the first instance; referenced by derived objects (e.g. DICOM SEG)
+}
+
+// Where a series' mm calibration came from. Imager Pixel Spacing is measured at the detector (not magnification corrected).
+export type PixelSpacingSource = 'PixelSpacing' | 'ImagerPixelSpacing' | 'Config';
+
+// Decoded Image Types
+
+export type PixelArray = Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array;
+
+/**
+ * A single decoded frame with its stored pixel values and the attributes needed
+ * to map them to modality values (rescale) and on to display (VOI).
+ * PNG assets are decoded into the same shape (8-bit, slope 1 / intercept 0).
+ */
+export interface DicomImage {
+  rows: number;
+  columns: number;
+  bitsAllocated: number;
+  bitsStored: number;
+  pixelRepresentation: number; // 0 = unsigned, 1 = two's complement
+  samplesPerPixel: number;
+  photometricInterpretation: string;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  pixelData: PixelArray; // stored values, row-major (interleaved RGB when samplesPerPixel = 3)
+  minPixelValue: number; // stored value range, used for a default window
+  maxPixelValue: number;
+  windowCenter?: number;
+  windowWidth?: number;
+  voiLutFunction?: VoiLutFunction;
+  modality?: string;
+  sopInstanceUid?: string;
 }
 
 // App State Types
@@ -32,6 +76,16 @@ export interface DicomWebConfig {
   name: string;
 }
 
+// QIDO-RS study search filters (dates are DICOM DA format: YYYYMMDD)
+export interface StudyQuery {
+  patientName?: string;
+  accessionNumber?: string;
+  modality?: string;
+  description?: string;
+  studyDateFrom?: string;
+  studyDateTo?: string;
+}
+
 // Diagnostics
 export interface DiagnosticStep {
   id: string;
@@ -49,8 +103,16 @@ export enum ToolMode {
   ZOOM = 'ZOOM',
   SCROLL = 'SCROLL',
   MEASURE = 'MEASURE',
+  ANGLE = 'ANGLE',
+  COBB_ANGLE = 'COBB_ANGLE',
+  ELLIPSE_ROI = 'ELLIPSE_ROI',
+  FREEHAND_ROI = 'FREEHAND_ROI',
+  TEXT_ARROW = 'TEXT_ARROW',
   BRUSH = 'BRUSH',
-  ERASER = 'ERASER'
+  ERASER = 'ERASER',
+  THRESHOLD_BRUSH = 'THRESHOLD_BRUSH',
+  REGION_GROW = 'REGION_GROW',
+  FLOOD_FILL = 'FLOOD_FILL'
 }
 
 export interface Point {
@@ -58,29 +120,198 @@ export interface Point {
   y: number;
 }
 
-export interface Measurement {
+// Measurements and annotations drawn on a slice, tagged by `type`. Points are in image pixels.
+interface MeasurementBase {
   id: string;
-  start: Point;
-  end: Point;
-  value: number; // pixel distance
   sliceIndex: number; // Which slice this belongs to
-  label?: string; // e.g. "Tumor 1"
+  label?: string; // e.g. "Tumor 1"; the text of a text arrow
   text?: string; // Optional description
   color?: string; // Custom color
   createdAt: number;
 }
 
+export interface LengthMeasurement extends MeasurementBase {
+  type: 'length';
+  start: Point;
+  end: Point;
+  value: number; // pixel distance
+}
+
+// Simple angle at the vertex between two arms
+export interface AngleMeasurement extends MeasurementBase {
+  type: 'angle';
+  points: [Point, Point, Point]; // arm end, vertex, arm end
+}
+
+// Cobb angle: the angle between two independently drawn lines
+export interface CobbAngleMeasurement extends MeasurementBase {
+  type: 'cobb';
+  points: [Point, Point, Point, Point]; // first line, second line
+}
+
+// Pixel value summary inside an ROI, in modality units (e.g. HU); recomputed from the image when missing
+export interface RoiStats {
+  pixelCount: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+// Axis-aligned ellipse inscribed in the box from `start` to `end`
+export interface EllipseRoi extends MeasurementBase {
+  type: 'ellipse';
+  start: Point;
+  end: Point;
+  stats?: RoiStats;
+}
+
+// Closed polygon drawn freehand
+export interface FreehandRoi extends MeasurementBase {
+  type: 'freehand';
+  points: Point[];
+  stats?: RoiStats;
+}
+
+// Arrow pointing at `end` with its label at the tail (`start`)
+export interface TextArrowAnnotation extends MeasurementBase {
+  type: 'arrow';
+  start: Point;
+  end: Point;
+}
+
+export type Measurement = LengthMeasurement | AngleMeasurement | CobbAngleMeasurement | EllipseRoi | FreehandRoi | TextArrowAnnotation;
+export type MeasurementType = Measurement['type'];
+
+// Structured teaching report (AiReportModal). Measurement values and geometry come from the viewer,
+// linked by Measurement.id; the model only contributes the text and per-measurement comments.
+// Text arrows carry no value and are not part of the report.
+export interface ReportMeasurement {
+  measurementId: string;
+  type: Exclude<MeasurementType, 'arrow'>;
+  label: string;
+  value: number; // length, angle or area
+  unit: 'mm' | 'px' | 'deg' | 'mm2' | 'px2';
+  sliceIndex: number;
+  points: Point[]; // as in the measurement; an ellipse is its two box corners
+  stats?: RoiStats;
+  comment?: string;
+}
+
+export interface TeachingReport {
+  title: string;
+  studyContext: {
+    modality: string;
+    region: string;
+    seriesDescription: string;
+    plane: string;
+  };
+  features: string[];
+  teachingPoints: string[];
+  learnerQuestions: string[];
+  measurements: ReportMeasurement[];
+  safetyNote: string;
+  generatedAt: string; // ISO 8601
+}
+
+// Labeled arrow pointing at a spot on one slice (placed by the AI tutor); `tip` is a fraction of the image (0–1)
+export interface ArrowAnnotation {
+  id: string;
+  sliceIndex: number;
+  tip: Point;
+  label: string;
+  createdAt: number;
+}
+
+export type VoiLutFunction = 'LINEAR' | 'LINEAR_EXACT' | 'SIGMOID';
+
 export interface ViewportState {
   scale: number;
   pan: Point;
   windowWidth: number;
   windowCenter: number;
+  voiLutFunction: VoiLutFunction;
+}
+
+// Viewport changes pushed into a pane from a linked pane; `seq` increments per update
+export interface LinkedViewportUpdate {
+  patch: Partial<ViewportState>;
+  seq: number;
+}
+
+// --- MULTI-VIEWPORT ---
+export type ViewportLayout = '1x1' | '1x2' | '2x2' | '1x3';
+
+export interface ViewerPane {
+  id: string;
+  seriesId: string | null;
+  sliceIndex: number;
+  // Window preset (label) for the first frame of the series, set by hanging protocols
+  windowPreset?: string;
+  fusion?: FusionSettings;
+}
+
+// --- FUSION ---
+// A secondary series drawn color-mapped over the pane's series (e.g. DWI over FLAIR)
+export type FusionColormap = 'hot' | 'jet' | 'grayscale';
+
+export interface FusionSettings {
+  seriesId: string | null; // null: fusion off
+  colormap: FusionColormap;
+  threshold: number; // 0–1 of the overlay's display range; darker pixels stay transparent
+  opacity: number; // 0–1
+  sliceMatching: 'position' | 'index';
+}
+
+// --- HANGING PROTOCOLS ---
+// Declarative rules for how a study is laid out when it is opened. Patterns are case-insensitive
+// regular expressions; a missing pattern matches anything.
+export interface HangingProtocolPane {
+  seriesDescription?: string;
+  modality?: string;
+  windowPreset?: string;
+}
+
+export interface HangingProtocol {
+  id: string;
+  name: string;
+  match: { modality?: string; studyDescription?: string };
+  layout: ViewportLayout;
+  panes: HangingProtocolPane[];
+  isBuiltIn?: boolean;
+}
+
+// Which viewport properties follow the active pane
+export interface SyncOptions {
+  scroll: boolean;
+  zoomPan: boolean;
+  windowLevel: boolean;
+}
+
+/**
+ * Window/level preset. Absolute presets are in modality units (e.g. Hounsfield for CT).
+ * Relative presets are fractions of the image's modality value range, for modalities
+ * such as MR whose signal scale is arbitrary.
+ */
+export interface WindowPreset {
+  label: string;
+  ww: number;
+  wc: number;
+  relative?: boolean;
+  voiLutFunction?: VoiLutFunction;
 }
 
 // Viewer Capability Interface
 export interface ViewerHandle {
   captureScreenshot: () => string | null;
-  removeSegment: (id: number) => void;
+  applyWindowPreset: (preset: WindowPreset) => void;
+  getViewport: () => ViewportState;
+  // Reported to linked panes like a user change
+  setViewport: (changes: Partial<ViewportState>) => void;
+  // Fits a region of the image (fractions 0–1, origin top-left) to the viewport
+  zoomToRegion: (region: { x: number; y: number; width: number; height: number }) => void;
+  // Fits the image to the viewport and restores its default window
+  resetView: () => void;
 }
 
 // Cursor Context for AI
@@ -102,6 +333,31 @@ export interface Segment {
 export interface SegmentedSlice {
   sliceIndex: number;
   labelCount: number;
+  // Generated by slice interpolation and not yet accepted
+  isInterpolated?: boolean;
+}
+
+export type SegmentationExportFormat = 'nifti' | 'dicom-seg';
+
+// Numbers for one segment on a series, computed from the mask canvases (see utils/segmentStats.ts)
+export interface SegmentSliceStats {
+  sliceIndex: number;
+  pixelCount: number;
+  area: number; // in the segment's areaUnit
+}
+
+export interface SegmentStats {
+  segmentId: number;
+  label: string;
+  slices: SegmentSliceStats[];
+  pixelCount: number;
+  areaUnit: 'mm2' | 'px2';
+  // Needs Pixel Spacing and Slice Thickness
+  volumeMl: number | null;
+  // Pixel-weighted mean slice index
+  centroidSlice: number;
+  // Modality values under the mask; null when no underlying image could be read
+  intensity: RoiStats | null;
 }
 
 export interface SegmentationLayer {
@@ -110,13 +366,19 @@ export interface SegmentationLayer {
   activeSegmentId: number | null; // The segment currently being drawn
   segments: Segment[];
   brushSize: number;
+  // Threshold brush: modality values it paints; null = the viewer's current window
+  thresholdRange: [number, number] | null;
+  // Region growing: values within this fraction of the image's value range from the seed
+  growTolerance: number;
+  growIn3d: boolean;
   segmentedSlices: SegmentedSlice[];
 }
 
 // AI Types
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'model' | 'error';
+  // 'divider' starts a fresh thread: earlier messages stay visible but are no longer sent as history
+  role: 'user' | 'model' | 'error' | 'divider';
   text: string;
   isThinking?: boolean;
   sources?: Array<{ uri: string; title: string }>;
@@ -131,4 +393,53 @@ export interface ChatMessage {
 
   // Error Handling
   originalPrompt?: string; // For retry logic
-}
\ No newline at end of file
+
+  // Viewer actions proposed by the AI (function calls), applied only after the learner confirms
+  toolActions?: ChatToolAction[];
+}
+
+// A validated viewer change. Regions and arrow positions are fractions of the image (0–1, origin top-left).
+export type ViewerAction =
+  | { type: 'jump_to_slice'; sliceIndex: number }
+  | { type: 'switch_series'; seriesId: string }
+  | { type: 'apply_window_preset'; preset: string }
+  | { type: 'zoom_to_region'; region: { x: number; y: number; width: number; height: number } }
+  | { type: 'place_arrow'; sliceIndex: number; x: number; y: number; label: string }
+  | { type: 'toggle_segment'; segmentId: number; visible: boolean };
+
+export interface ChatToolAction {
+  id: string;
+  summary: string;
+  // Missing when the call was rejected (see `error`)
+  action?: ViewerAction;
+  status: 'pending' | 'applied' | 'dismissed' | 'undone' | 'rejected';
+  error?: string;
+}
+// Session Persistence
+export interface SessionMaskSlice {
+  seriesId: string;
+  sliceIndex: number;
+  width: number;
+  height: number;
+  labels: Uint8Array | Uint16Array; // segment ID per pixel, 0 = unlabelled (Uint16 once IDs exceed 255)
+}
+
+// Everything a learner builds up on one study; autosaved and stored in snapshots / bundles
+export interface StudySession {
+  studyId: string;
+  savedAt: number;
+  measurementsBySeries: Record<string, Measurement[]>;
+  // segmentedSlices is derived from the masks on restore
+  segmentation: Omit<SegmentationLayer, 'segmentedSlices'>;
+  masks: SessionMaskSlice[];
+  chatMessages: ChatMessage[];
+  // Missing in sessions saved before arrows existed
+  annotationsBySeries?: Record<string, ArrowAnnotation[]>;
+}
+
+export interface SessionSnapshotInfo {
+  id: string;
+  studyId: string;
+  name: string;
+  savedAt: number;
+}
@@ -0,0 +1,66 @@
+import { Point, Series, PixelSpacingSource } from '../types';
+
+// Measurement calibration
+// Lengths are only reported in mm when the series carries a spacing; otherwise they stay in image pixels.
+
+export interface Calibration {
+  rowSpacing: number; // mm between rows (vertical)
+  columnSpacing: number; // mm between columns (horizontal)
+  unit: 'mm' | 'px';
+  source?: PixelSpacingSource;
+}
+
+export const UNCALIBRATED: Calibration = { rowSpacing: 1, columnSpacing: 1, unit: 'px' };
+
+const toSpacing = (values?: number[]): [number, number] | undefined => {
+  if (!values || values.length === 0) return undefined;
+  const [row, col = row] = values;
+  if (!(row > 0) || !(col > 0)) return undefined;
+  return [row, col];
+};
+
+/**
+ * Picks the series spacing from header values. Pixel Spacing wins over Imager Pixel Spacing,
+ * which (per PS3.3 C.8.11.7) is at the detector plane and used for projection images without it.
+ */
+export const resolvePixelSpacing = (
+  pixelSpacing?: number[],
+  imagerPixelSpacing?: number[]
+): Pick<Series, 'pixelSpacing' | 'pixelSpacingSource'> => {
+  const direct = toSpacing(pixelSpacing);
+  if (direct) return { pixelSpacing: direct, pixelSpacingSource: 'PixelSpacing' };
+  const imager = toSpacing(imagerPixelSpacing);
+  if (imager) return { pixelSpacing: imager, pixelSpacingSource: 'ImagerPixelSpacing' };
+  return {};
+};
+
+export const getCalibration = (series?: Series | null): Calibration => {
+  if (!series?.pixelSpacing) return UNCALIBRATED;
+  const [rowSpacing, columnSpacing] = series.pixelSpacing;
+  return { rowSpacing, columnSpacing, unit: 'mm', source: series.pixelSpacingSource };
+};
+
+/**
+ * Length between two image-space points in calibrated units (handles anisotropic pixels).
+ */
+export const measureLength = (start: Point, end: Point, calibration: Calibration): number => {
+  const dx = (end.x - start.x) * calibration.columnSpacing;
+  const dy = (end.y - start.y) * calibration.rowSpacing;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export const formatLength = (start: Point, end: Point, calibration: Calibration, digits = 1): string =>
+  `${measureLength(start, end, calibration).toFixed(digits)} ${calibration.unit}`;
+
+/**
+ * Short human-readable description for tooltips and overlays.
+ */
+export const describeCalibration = (calibration: Calibration): string => {
+  if (calibration.unit === 'px') return 'Uncalibrated (no pixel spacing in metadata)';
+  const spacing = `${calibration.rowSpacing.toFixed(3)} × ${calibration.columnSpacing.toFixed(3)} mm`;
+  switch (calibration.source) {
+    case 'ImagerPixelSpacing': return `${spacing} (Imager Pixel Spacing, at detector)`;
+    case 'Config': return `${spacing} (configured)`;
+    default: return `${spacing} (Pixel Spacing)`;
+  }
+};
@@ -0,0 +1,149 @@
+import { ChatMessage } from '../types';
+
+// CHAT HISTORY
+// Turns the visible AI chat into multi-turn `contents` for the model, within a token budget.
+// Newest turns are sent verbatim; turns that no longer fit are condensed into one summary turn.
+// Captured slices are expensive, so only the most recent ones are re-sent and repeats are dropped.
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  // Base64 JPEG (no data: prefix) sent with this user turn
+  imageBase64?: string;
+}
+
+// Same shape as `LlmMessage` (services/llm), kept local so this module has no service imports
+export type ChatHistoryPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+export interface ChatHistoryContent {
+  role: 'user' | 'model';
+  parts: ChatHistoryPart[];
+}
+
+export interface ChatHistoryBudget {
+  maxTokens: number;
+  // Earlier captured slices re-sent with their turns (0 = text only)
+  maxImages: number;
+}
+
+export const DEFAULT_CHAT_HISTORY_BUDGET: ChatHistoryBudget = { maxTokens: 6000, maxImages: 1 };
+
+// Rough costs: ~4 characters per text token; one medium-resolution image
+const CHARS_PER_TOKEN = 4;
+export const IMAGE_TOKEN_ESTIMATE = 560;
+// Share of the budget the summary of older turns may use
+const SUMMARY_BUDGET_SHARE = 0.25;
+const SUMMARY_SNIPPET_LENGTH = 160;
+
+export const estimateTextTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const stripDataUrl = (dataUrl: string) => dataUrl.replace(/^data:image\/\w+;base64,/, '');
+
+/**
+ * Conversation turns since the last thread divider. Unanswered questions (e.g. failed requests),
+ * errors, the welcome message and replies still streaming are left out.
+ */
+export const toChatTurns = (messages: ChatMessage[]): ChatTurn[] => {
+  const lastDivider = messages.map(m => m.role).lastIndexOf('divider');
+  const thread = messages.slice(lastDivider + 1);
+  const turns: ChatTurn[] = [];
+
+  thread.forEach((m, i) => {
+    if (m.role !== 'user') return;
+    const reply = thread[i + 1];
+    if (!reply || reply.role !== 'model' || !reply.text || reply.isThinking) return;
+    // The slice sent with a question is kept on its answer (for the thumbnail)
+    const image = reply.attachedSliceThumbnailDataUrl;
+    turns.push({ role: 'user', text: m.text, imageBase64: image ? stripDataUrl(image) : undefined });
+    turns.push({ role: 'model', text: reply.text });
+  });
+  return turns;
+};
+
+const snippet = (text: string) => {
+  // Headings carry no content of their own
+  const plain = text.replace(/^#+ .*$/gm, '').replace(/[#*_>`]/g, '').replace(/\s+/g, ' ').trim();
+  const firstSentence = plain.match(/^.*?[.!?](\s|$)/)?.[0].trim() ?? plain;
+  return firstSentence.length > SUMMARY_SNIPPET_LENGTH ? `${firstSentence.slice(0, SUMMARY_SNIPPET_LENGTH - 1)}…` : firstSentence;
+};
+
+/**
+ * Extractive summary of older turns, newest lines kept when it exceeds `maxTokens`.
+ */
+export const summarizeTurns = (turns: ChatTurn[], maxTokens: number): string => {
+  const lines = turns.map(t => `- ${t.role === 'user' ? 'Learner asked' : 'You answered'}: ${snippet(t.text)}`);
+  const header = 'Summary of the earlier conversation (older turns condensed):';
+  const kept: string[] = [];
+  let used = estimateTextTokens(header);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const cost = estimateTextTokens(lines[i]) + 1;
+    if (used + cost > maxTokens) break;
+    kept.unshift(lines[i]);
+    used += cost;
+  }
+  const omitted = lines.length - kept.length;
+  return [header, ...(omitted > 0 ? [`- (${omitted} earlier turns omitted)`] : []), ...kept].join('\n');
+};
+
+export interface ChatHistoryResult {
+  contents: ChatHistoryContent[];
+  keptTurns: number;
+  summarizedTurns: number;
+  droppedImages: number;
+  estimatedTokens: number;
+}
+
+export const buildChatHistory = (turns: ChatTurn[], budget: ChatHistoryBudget = DEFAULT_CHAT_HISTORY_BUDGET): ChatHistoryResult => {
+  const summaryBudget = Math.floor(budget.maxTokens * SUMMARY_BUDGET_SHARE);
+  const turnBudget = budget.maxTokens - summaryBudget;
+  const kept: ChatHistoryContent[] = [];
+  const sentImages = new Set<string>();
+  let used = 0;
+  let droppedImages = 0;
+  let firstKept = turns.length;
+
+  // Newest first, so the most recent turns and images win the budget
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    let image = turn.imageBase64;
+    if (image && (sentImages.size >= budget.maxImages || sentImages.has(image))) image = undefined;
+
+    const parts: ChatHistoryPart[] = [];
+    if (image) parts.push({ inlineData: { mimeType: 'image/jpeg', data: image } });
+    const note = turn.imageBase64 && !image ? '[A captured slice was attached here; not re-sent.]\n' : '';
+    parts.push({ text: note + turn.text });
+
+    const cost = estimateTextTokens(note + turn.text) + (image ? IMAGE_TOKEN_ESTIMATE : 0);
+    if (used + cost > turnBudget) break;
+
+    used += cost;
+    if (image) sentImages.add(image);
+    if (turn.imageBase64 && !image) droppedImages++;
+    kept.unshift({ role: turn.role, parts });
+    firstKept = i;
+  }
+
+  // History has to open with a user turn; a leading answer is summarized with the older turns
+  if (kept[0]?.role === 'model') {
+    kept.shift();
+    firstKept++;
+  }
+
+  const contents: ChatHistoryContent[] = [];
+  const older = turns.slice(0, firstKept);
+  if (older.length > 0) {
+    const summary = summarizeTurns(older, summaryBudget);
+    used += estimateTextTokens(summary);
+    contents.push({ role: 'user', parts: [{ text: summary }] });
+    contents.push({ role: 'model', parts: [{ text: 'Understood, I will keep that earlier discussion in mind.' }] });
+    droppedImages += older.filter(t => t.imageBase64).length;
+  }
+  contents.push(...kept);
+
+  return {
+    contents,
+    keptTurns: kept.length,
+    summarizedTurns: older.length,
+    droppedImages,
+    estimatedTokens: used,
+  };
+};
@@ -0,0 +1,59 @@
+// CINE PLAYBACK
+// Frame stepping for playing a stack as a movie, within an inclusive [start, end] slice range.
+// 'loop' jumps back to the start after the end; 'bounce' reverses direction at either end.
+
+export type CineMode = 'loop' | 'bounce';
+export type CineDirection = 1 | -1;
+
+export interface CineRange {
+  start: number;
+  end: number;
+}
+
+export const clampCineRange = (range: CineRange, sliceCount: number): CineRange => {
+  const last = Math.max(0, sliceCount - 1);
+  const start = Math.max(0, Math.min(last, Math.round(range.start)));
+  const end = Math.max(0, Math.min(last, Math.round(range.end)));
+  return start <= end ? { start, end } : { start: end, end: start };
+};
+
+/**
+ * Next frame and direction. A playhead outside the range re-enters at the start.
+ */
+export const getNextCineFrame = (
+  index: number,
+  direction: CineDirection,
+  range: CineRange,
+  mode: CineMode
+): { index: number; direction: CineDirection } => {
+  const { start, end } = range;
+  if (start === end) return { index: start, direction };
+  if (index < start || index > end) return { index: start, direction: 1 };
+
+  const next = index + direction;
+  if (next >= start && next <= end) return { index: next, direction };
+
+  if (mode === 'loop') return { index: direction === 1 ? start : end, direction };
+  const reversed: CineDirection = direction === 1 ? -1 : 1;
+  return { index: index + reversed, direction: reversed };
+};
+
+/**
+ * The next `count` frames the playhead will visit, for prefetching.
+ */
+export const getCineLookahead = (
+  index: number,
+  direction: CineDirection,
+  range: CineRange,
+  mode: CineMode,
+  count: number
+): number[] => {
+  const frames: number[] = [];
+  let state = { index, direction };
+  const limit = Math.min(count, range.end - range.start);
+  for (let i = 0; i < limit; i++) {
+    state = getNextCineFrame(state.index, state.direction, range, mode);
+    frames.push(state.index);
+  }
+  return frames;
+};
@@ -0,0 +1,92 @@
+// DICOM JSON Model helpers (PS3.18 Annex F)
+// QIDO-RS responses are arrays of datasets keyed by 8-digit uppercase hex tags.
+
+export interface DicomJsonElement {
+  vr: string;
+  Value?: any[];
+  InlineBinary?: string;
+  BulkDataURI?: string;
+}
+
+export type DicomJsonDataset = Record<string, DicomJsonElement>;
+
+// Tags used by the study/series/instance queries
+export const TAGS = {
+  StudyInstanceUID: '0020000D',
+  SeriesInstanceUID: '0020000E',
+  SOPInstanceUID: '00080018',
+  SOPClassUID: '00080016',
+  PatientName: '00100010',
+  PatientID: '00100020',
+  AccessionNumber: '00080050',
+  StudyDate: '00080020',
+  StudyDescription: '00081030',
+  ModalitiesInStudy: '00080061',
+  Modality: '00080060',
+  SeriesDescription: '0008103E',
+  SeriesNumber: '00200011',
+  InstanceNumber: '00200013',
+  NumberOfStudyRelatedSeries: '00201206',
+  NumberOfStudyRelatedInstances: '00201208',
+  NumberOfSeriesRelatedInstances: '00201209',
+  PixelSpacing: '00280030',
+  ImagerPixelSpacing: '00181164',
+  SliceThickness: '00180050',
+  ImagePositionPatient: '00200032',
+  ImageOrientationPatient: '00200037',
+  FrameOfReferenceUID: '00200052',
+} as const;
+
+/**
+ * Returns the first value of an element, or undefined if absent/empty.
+ */
+export const getFirstValue = (ds: DicomJsonDataset, tag: string): any => {
+  const el = ds[tag];
+  if (!el || !el.Value || el.Value.length === 0) return undefined;
+  return el.Value[0];
+};
+
+export const getString = (ds: DicomJsonDataset, tag: string, fallback = ''): string => {
+  const v = getFirstValue(ds, tag);
+  if (v === undefined || v === null) return fallback;
+  return String(v);
+};
+
+export const getNumber = (ds: DicomJsonDataset, tag: string): number | undefined => {
+  const v = getFirstValue(ds, tag);
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = typeof v === 'number' ? v : parseFloat(v);
+  return isNaN(n) ? undefined : n;
+};
+
+/**
+ * All values of a multi-valued numeric element (e.g. Pixel Spacing).
+ */
+export const getNumbers = (ds: DicomJsonDataset, tag: string): number[] | undefined => {
+  const el = ds[tag];
+  if (!el || !el.Value || el.Value.length === 0) return undefined;
+  const values = el.Value.map(v => (typeof v === 'number' ? v : parseFloat(v)));
+  return values.some(v => isNaN(v)) ? undefined : values;
+};
+
+/**
+ * Person Name (PN) values are objects with Alphabetic/Ideographic/Phonetic groups.
+ * Components are '^' separated: Family^Given^Middle^Prefix^Suffix.
+ */
+export const getPersonName = (ds: DicomJsonDataset, tag: string, fallback = ''): string => {
+  const v = getFirstValue(ds, tag);
+  if (!v) return fallback;
+  const alphabetic: string = typeof v === 'string' ? v : (v.Alphabetic || '');
+  if (!alphabetic) return fallback;
+  const [family, given] = alphabetic.split('^');
+  return given ? `${family}, ${given}` : family;
+};
+
+/**
+ * Multi-valued strings (e.g. ModalitiesInStudy) joined for display.
+ */
+export const getJoined = (ds: DicomJsonDataset, tag: string, separator = '/'): string => {
+  const el = ds[tag];
+  if (!el || !el.Value) return '';
+  return el.Value.filter(v => v !== null && v !== undefined).join(separator);
+};
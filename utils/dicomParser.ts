@@ -0,0 +1,385 @@
+// Minimal DICOM Part 10 reader
+// Supports uncompressed little-endian transfer syntaxes (implicit and explicit VR).
+// Anything else is rejected with a descriptive error instead of rendering garbage.
+
+export const TRANSFER_SYNTAX = {
+  ImplicitVRLittleEndian: '1.2.840.10008.1.2',
+  ExplicitVRLittleEndian: '1.2.840.10008.1.2.1',
+  DeflatedExplicitVRLittleEndian: '1.2.840.10008.1.2.1.99',
+  ExplicitVRBigEndian: '1.2.840.10008.1.2.2',
+} as const;
+
+const SUPPORTED_TRANSFER_SYNTAXES: string[] = [
+  TRANSFER_SYNTAX.ImplicitVRLittleEndian,
+  TRANSFER_SYNTAX.ExplicitVRLittleEndian,
+];
+
+// Human readable names for the error path
+const TRANSFER_SYNTAX_NAMES: Record<string, string> = {
+  '1.2.840.10008.1.2.1.99': 'Deflated Explicit VR Little Endian',
+  '1.2.840.10008.1.2.2': 'Explicit VR Big Endian',
+  '1.2.840.10008.1.2.4.50': 'JPEG Baseline',
+  '1.2.840.10008.1.2.4.51': 'JPEG Extended',
+  '1.2.840.10008.1.2.4.57': 'JPEG Lossless',
+  '1.2.840.10008.1.2.4.70': 'JPEG Lossless SV1',
+  '1.2.840.10008.1.2.4.80': 'JPEG-LS Lossless',
+  '1.2.840.10008.1.2.4.81': 'JPEG-LS Near-Lossless',
+  '1.2.840.10008.1.2.4.90': 'JPEG 2000 Lossless',
+  '1.2.840.10008.1.2.4.91': 'JPEG 2000',
+  '1.2.840.10008.1.2.5': 'RLE Lossless',
+};
+
+// VRs whose explicit encoding uses a 2-byte reserved field and a 4-byte length
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+const UNDEFINED_LENGTH = 0xffffffff;
+const ITEM_TAG = 'FFFEE000';
+const ITEM_DELIMITATION_TAG = 'FFFEE00D';
+const SEQUENCE_DELIMITATION_TAG = 'FFFEE0DD';
+const PIXEL_DATA_TAG = '7FE00010';
+
+export interface DicomElement {
+  tag: string;       // 8-digit uppercase hex, e.g. "00280010"
+  vr: string;        // explicit VR, or inferred for implicit VR datasets
+  offset: number;    // start of the value in the byte array
+  length: number;    // value length in bytes (undefined lengths are resolved)
+  items?: DicomDataset[];
+  fragments?: Array<{ offset: number; length: number }>; // encapsulated pixel data
+}
+
+export interface DicomDataset {
+  bytes: Uint8Array;
+  elements: Record<string, DicomElement>;
+  isUtf8?: boolean; // Specific Character Set (0008,0005) of the file is ISO_IR 192
+}
+
+export interface ParsedDicom {
+  transferSyntaxUid: string;
+  meta: DicomDataset;
+  dataset: DicomDataset;
+}
+
+// Implicit VR datasets carry no VR, so we keep a small dictionary of the tags we read
+const IMPLICIT_VR_DICTIONARY: Record<string, string> = {
+  '00020010': 'UI',
+  '00080016': 'UI', '00080018': 'UI', '00080060': 'CS', '0008103E': 'LO', '00081030': 'LO',
+  '00080020': 'DA', '00080050': 'SH', '00100010': 'PN', '00100020': 'LO',
+  '00180050': 'DS', '00180088': 'DS', '00181164': 'DS',
+  '0020000D': 'UI', '0020000E': 'UI', '00200011': 'IS', '00200013': 'IS',
+  '00200032': 'DS', '00200037': 'DS', '00201041': 'DS',
+  '00280002': 'US', '00280004': 'CS', '00280006': 'US', '00280008': 'IS',
+  '00280010': 'US', '00280011': 'US', '00280030': 'DS',
+  '00280100': 'US', '00280101': 'US', '00280102': 'US', '00280103': 'US',
+  '00281050': 'DS', '00281051': 'DS', '00281052': 'DS', '00281053': 'DS', '00281056': 'CS',
+  '7FE00010': 'OW',
+};
+
+const toHex4 = (n: number) => n.toString(16).toUpperCase().padStart(4, '0');
+
+const decodeAscii = (bytes: Uint8Array, offset: number, length: number): string => {
+  let out = '';
+  for (let i = 0; i < length; i++) out += String.fromCharCode(bytes[offset + i]);
+  return out;
+};
+
+class ByteReader {
+  private view: DataView;
+  position: number;
+
+  constructor(public bytes: Uint8Array, start = 0) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.position = start;
+  }
+
+  get remaining() {
+    return this.bytes.length - this.position;
+  }
+
+  uint16() {
+    const v = this.view.getUint16(this.position, true);
+    this.position += 2;
+    return v;
+  }
+
+  uint32() {
+    const v = this.view.getUint32(this.position, true);
+    this.position += 4;
+    return v;
+  }
+
+  tag() {
+    const group = this.uint16();
+    const element = this.uint16();
+    return toHex4(group) + toHex4(element);
+  }
+
+  ascii(length: number) {
+    const s = decodeAscii(this.bytes, this.position, length);
+    this.position += length;
+    return s;
+  }
+}
+
+const readElementHeader = (reader: ByteReader, explicit: boolean) => {
+  const tag = reader.tag();
+
+  // Item and delimiter tags never carry a VR, even in explicit VR datasets
+  if (tag.startsWith('FFFE')) {
+    return { tag, vr: '', length: reader.uint32() };
+  }
+
+  if (!explicit) {
+    return { tag, vr: IMPLICIT_VR_DICTIONARY[tag] || 'UN', length: reader.uint32() };
+  }
+
+  const vr = reader.ascii(2);
+  if (LONG_LENGTH_VRS.has(vr)) {
+    reader.position += 2; // reserved
+    return { tag, vr, length: reader.uint32() };
+  }
+  return { tag, vr, length: reader.uint16() };
+};
+
+// In implicit VR, a value whose first bytes are an Item tag is a sequence
+const looksLikeSequence = (bytes: Uint8Array, offset: number) => {
+  return offset + 4 <= bytes.length &&
+    bytes[offset] === 0xfe && bytes[offset + 1] === 0xff &&
+    bytes[offset + 2] === 0x00 && bytes[offset + 3] === 0xe0;
+};
+
+const parseSequenceItems = (
+  reader: ByteReader,
+  explicit: boolean,
+  length: number
+): DicomDataset[] => {
+  const items: DicomDataset[] = [];
+  const end = length === UNDEFINED_LENGTH ? reader.bytes.length : reader.position + length;
+
+  while (reader.position < end && reader.remaining >= 8) {
+    const tag = reader.tag();
+    const itemLength = reader.uint32();
+
+    if (tag === SEQUENCE_DELIMITATION_TAG) break;
+    if (tag !== ITEM_TAG) {
+      throw new Error(`Malformed sequence: expected item tag, found (${tag.slice(0, 4)},${tag.slice(4)})`);
+    }
+
+    const itemEnd = itemLength === UNDEFINED_LENGTH ? undefined : reader.position + itemLength;
+    items.push(parseElements(reader, explicit, itemEnd, true));
+  }
+  return items;
+};
+
+const parseEncapsulatedFragments = (reader: ByteReader) => {
+  const fragments: Array<{ offset: number; length: number }> = [];
+  while (reader.remaining >= 8) {
+    const tag = reader.tag();
+    const length = reader.uint32();
+    if (tag === SEQUENCE_DELIMITATION_TAG) break;
+    fragments.push({ offset: reader.position, length });
+    reader.position += length;
+  }
+  // First fragment is the Basic Offset Table
+  return fragments.slice(1);
+};
+
+const parseElements = (
+  reader: ByteReader,
+  explicit: boolean,
+  end?: number,
+  isItem = false
+): DicomDataset => {
+  const elements: Record<string, DicomElement> = {};
+  const limit = end ?? reader.bytes.length;
+
+  while (reader.position < limit && reader.remaining >= 8) {
+    const header = readElementHeader(reader, explicit);
+
+    if (header.tag === ITEM_DELIMITATION_TAG) {
+      if (isItem) break;
+      continue;
+    }
+
+    const offset = reader.position;
+    const element: DicomElement = { tag: header.tag, vr: header.vr, offset, length: header.length };
+
+    const isSequence = header.vr === 'SQ' ||
+      (!explicit && header.vr === 'UN' && header.tag !== PIXEL_DATA_TAG &&
+        (header.length === UNDEFINED_LENGTH || looksLikeSequence(reader.bytes, offset)));
+
+    if (header.tag === PIXEL_DATA_TAG && header.length === UNDEFINED_LENGTH) {
+      element.fragments = parseEncapsulatedFragments(reader);
+      element.length = reader.position - offset;
+    } else if (isSequence) {
+      element.vr = 'SQ';
+      element.items = parseSequenceItems(reader, explicit, header.length);
+      element.length = reader.position - offset;
+    } else {
+      if (header.length === UNDEFINED_LENGTH) {
+        throw new Error(`Undefined length on non-sequence element (${header.tag.slice(0, 4)},${header.tag.slice(4)})`);
+      }
+      if (offset + header.length > reader.bytes.length) {
+        throw new Error(`Truncated DICOM data: element (${header.tag.slice(0, 4)},${header.tag.slice(4)}) runs past end of file`);
+      }
+      reader.position += header.length;
+    }
+
+    elements[header.tag] = element;
+  }
+
+  return { bytes: reader.bytes, elements };
+};
+
+/**
+ * True if the bytes carry the Part 10 preamble + "DICM" magic.
+ */
+export const isDicomPart10 = (bytes: Uint8Array): boolean => {
+  return bytes.length >= 132 && decodeAscii(bytes, 128, 4) === 'DICM';
+};
+
+/**
+ * Parses a DICOM Part 10 file. Throws for unsupported transfer syntaxes.
+ */
+export const parseDicom = (input: ArrayBuffer | Uint8Array): ParsedDicom => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (!isDicomPart10(bytes)) {
+    throw new Error('Not a DICOM Part 10 file (missing DICM preamble).');
+  }
+
+  // File Meta Information is always Explicit VR Little Endian
+  const reader = new ByteReader(bytes, 132);
+  const metaElements: Record<string, DicomElement> = {};
+  while (reader.remaining >= 8) {
+    const peekGroup = bytes[reader.position] | (bytes[reader.position + 1] << 8);
+    if (peekGroup !== 0x0002) break;
+    const header = readElementHeader(reader, true);
+    metaElements[header.tag] = { tag: header.tag, vr: header.vr, offset: reader.position, length: header.length };
+    reader.position += header.length;
+  }
+  const meta: DicomDataset = { bytes, elements: metaElements };
+
+  const transferSyntaxUid = getString(meta, '00020010') || TRANSFER_SYNTAX.ExplicitVRLittleEndian;
+  if (!SUPPORTED_TRANSFER_SYNTAXES.includes(transferSyntaxUid)) {
+    const name = TRANSFER_SYNTAX_NAMES[transferSyntaxUid];
+    throw new Error(
+      `Unsupported transfer syntax ${name ? `${name} (${transferSyntaxUid})` : transferSyntaxUid}. ` +
+      `Only uncompressed little-endian DICOM can be decoded.`
+    );
+  }
+
+  const explicit = transferSyntaxUid !== TRANSFER_SYNTAX.ImplicitVRLittleEndian;
+  const dataset = parseElements(reader, explicit);
+  if (getString(dataset, '00080005')?.split('\\').includes('ISO_IR 192')) markUtf8(dataset);
+  return { transferSyntaxUid, meta, dataset };
+};
+
+// Nested items inherit the character set of the file
+const markUtf8 = (ds: DicomDataset) => {
+  ds.isUtf8 = true;
+  Object.values(ds.elements).forEach(el => el.items?.forEach(markUtf8));
+};
+
+// --- VALUE ACCESSORS ---
+
+export const hasElement = (ds: DicomDataset, tag: string) => !!ds.elements[tag];
+
+/**
+ * Reads a string value with trailing padding (space / NUL) removed.
+ */
+export const getString = (ds: DicomDataset, tag: string): string | undefined => {
+  const el = ds.elements[tag];
+  if (!el) return undefined;
+  const text = ds.isUtf8
+    ? new TextDecoder().decode(ds.bytes.subarray(el.offset, el.offset + el.length))
+    : decodeAscii(ds.bytes, el.offset, el.length);
+  return text.replace(/[\0\s]+$/, '').replace(/^\s+/, '');
+};
+
+/**
+ * Reads backslash-separated numeric strings (DS / IS) as numbers.
+ */
+export const getNumbers = (ds: DicomDataset, tag: string): number[] | undefined => {
+  const s = getString(ds, tag);
+  if (!s) return undefined;
+  const values = s.split('\\').map(v => parseFloat(v));
+  return values.some(v => isNaN(v)) ? undefined : values;
+};
+
+export const getNumber = (ds: DicomDataset, tag: string, index = 0): number | undefined => {
+  const el = ds.elements[tag];
+  if (!el) return undefined;
+  const view = new DataView(ds.bytes.buffer, ds.bytes.byteOffset + el.offset, el.length);
+
+  switch (el.vr) {
+    case 'US': return el.length >= 2 * (index + 1) ? view.getUint16(index * 2, true) : undefined;
+    case 'SS': return el.length >= 2 * (index + 1) ? view.getInt16(index * 2, true) : undefined;
+    case 'UL': return el.length >= 4 * (index + 1) ? view.getUint32(index * 4, true) : undefined;
+    case 'SL': return el.length >= 4 * (index + 1) ? view.getInt32(index * 4, true) : undefined;
+    case 'FL': return el.length >= 4 * (index + 1) ? view.getFloat32(index * 4, true) : undefined;
+    case 'FD': return el.length >= 8 * (index + 1) ? view.getFloat64(index * 8, true) : undefined;
+    default: return getNumbers(ds, tag)?.[index];
+  }
+};
+
+export const getSequence = (ds: DicomDataset, tag: string): DicomDataset[] => {
+  return ds.elements[tag]?.items || [];
+};
+
+/**
+ * Raw value bytes (no copy).
+ */
+export const getBytes = (ds: DicomDataset, tag: string): Uint8Array | undefined => {
+  const el = ds.elements[tag];
+  if (!el) return undefined;
+  return ds.bytes.subarray(el.offset, el.offset + el.length);
+};
+
+// --- MULTIPART (WADO-RS) ---
+
+const CRLF_CRLF = [13, 10, 13, 10];
+
+const indexOfSequence = (bytes: Uint8Array, pattern: number[], from: number) => {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+/**
+ * True if the bytes start like a MIME multipart body ("--boundary").
+ */
+export const isMultipart = (bytes: Uint8Array): boolean => {
+  return bytes.length > 4 && bytes[0] === 0x2d && bytes[1] === 0x2d;
+};
+
+/**
+ * Splits a multipart/related body (WADO-RS) into its part payloads.
+ * The boundary is read from the first line so we don't depend on response headers.
+ */
+export const parseMultipartRelated = (bytes: Uint8Array): Uint8Array[] => {
+  const firstLineEnd = indexOfSequence(bytes, [13, 10], 0);
+  if (firstLineEnd < 0) throw new Error('Malformed multipart response: no boundary line.');
+  const boundary = Array.from(bytes.subarray(0, firstLineEnd));
+  const delimiter = [13, 10, ...boundary];
+
+  const parts: Uint8Array[] = [];
+  let cursor = firstLineEnd + 2;
+  while (cursor < bytes.length) {
+    const headersEnd = indexOfSequence(bytes, CRLF_CRLF, cursor);
+    if (headersEnd < 0) break;
+    const bodyStart = headersEnd + 4;
+    const next = indexOfSequence(bytes, delimiter, bodyStart);
+    const bodyEnd = next < 0 ? bytes.length : next;
+    parts.push(bytes.subarray(bodyStart, bodyEnd));
+    if (next < 0) break;
+
+    // "--" after the boundary marks the closing delimiter
+    const afterBoundary = next + delimiter.length;
+    if (bytes[afterBoundary] === 0x2d && bytes[afterBoundary + 1] === 0x2d) break;
+    cursor = afterBoundary + 2;
+  }
+  return parts;
+};
@@ -0,0 +1,396 @@
+import { Study, Series, Segment } from '../types';
+import { LabelVolume, buildSegmentLut } from './labelVolume';
+import { DicomWriteDataset, generateUid, formatDicomDateTime, writeDicomPart10 } from './dicomWriter';
+import { DicomDataset, parseDicom, getString, getNumber, getNumbers, getSequence, getBytes } from './dicomParser';
+
+// DICOM SEG writer and reader (PS3.3 A.51).
+// One frame per (segment, slice) that contains the segment, referencing the source instance it was
+// painted on. Frames are 1 bit per pixel, packed LSB first and back to back across frames.
+
+export const SEGMENTATION_STORAGE_UID = '1.2.840.10008.5.1.4.1.1.66.4';
+
+// Used when the source series does not report its SOP Class (e.g. some QIDO servers)
+const STORAGE_CLASS_BY_MODALITY: Record<string, string> = {
+  CT: '1.2.840.10008.5.1.4.1.1.2',
+  MR: '1.2.840.10008.5.1.4.1.1.4',
+  PT: '1.2.840.10008.5.1.4.1.1.128',
+  US: '1.2.840.10008.5.1.4.1.1.6.1',
+  CR: '1.2.840.10008.5.1.4.1.1.1',
+  DX: '1.2.840.10008.5.1.4.1.1.1.1',
+  MG: '1.2.840.10008.5.1.4.1.1.1.2',
+};
+const SECONDARY_CAPTURE_UID = '1.2.840.10008.5.1.4.1.1.7';
+
+const UID_PATTERN = /^[0-9]+(\.[0-9]+)+$/;
+
+/**
+ * SOP Class UID of the series' images, for references from derived objects (SEG, SR).
+ */
+export const getSourceSopClassUid = (series: Series): string =>
+  series.sopClassUid ?? STORAGE_CLASS_BY_MODALITY[series.modality.toUpperCase()] ?? SECONDARY_CAPTURE_UID;
+
+export const code = (value: string, scheme: string, meaning: string): DicomWriteDataset => ({
+  '00080100': { vr: 'SH', value },
+  '00080102': { vr: 'SH', value: scheme },
+  '00080104': { vr: 'LO', value: meaning },
+});
+
+/**
+ * SOP Instance UID from a WADO-RS or imported:// instance URL (last path segment).
+ */
+export const getSopInstanceUidFromUrl = (url: string): string | null => {
+  const last = url.split('?')[0].split('/').pop() ?? '';
+  return UID_PATTERN.test(last) && last.length <= 64 ? last : null;
+};
+
+/**
+ * SEG (and SR) objects have to reference DICOM source images; PNG demo series cannot be referenced.
+ */
+export const canExportDicomSeg = (study: Study, series: Series): boolean =>
+  UID_PATTERN.test(study.id) && UID_PATTERN.test(series.id) &&
+  series.instances.length > 0 && series.instances.every(url => getSopInstanceUidFromUrl(url) !== null);
+
+/**
+ * sRGB (0–255) → DICOM CIELab (PS3.3 C.10.7.1.1), each component scaled to 0–65535.
+ */
+export const rgbToDicomLab = ([r, g, b]: [number, number, number]): [number, number, number] => {
+  const lin = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  const [R, G, B] = [lin(r), lin(g), lin(b)];
+  // D65 white
+  const x = (0.4124 * R + 0.3576 * G + 0.1805 * B) / 0.95047;
+  const y = 0.2126 * R + 0.7152 * G + 0.0722 * B;
+  const z = (0.0193 * R + 0.1192 * G + 0.9505 * B) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const L = 116 * f(y) - 16;
+  const a = 500 * (f(x) - f(y));
+  const bb = 200 * (f(y) - f(z));
+  const scale = (v: number, min: number, max: number) =>
+    Math.round(Math.max(0, Math.min(65535, ((v - min) / (max - min)) * 65535)));
+  return [scale(L, 0, 100), scale(a, -128, 127), scale(bb, -128, 127)];
+};
+
+/**
+ * DICOM CIELab (0–65535 scaled) → sRGB, inverse of rgbToDicomLab.
+ */
+export const dicomLabToRgb = ([l, a, b]: number[]): [number, number, number] => {
+  const L = (l / 65535) * 100;
+  const A = (a / 65535) * 255 - 128;
+  const B = (b / 65535) * 255 - 128;
+  const fy = (L + 16) / 116;
+  const fx = fy + A / 500;
+  const fz = fy - B / 200;
+  const finv = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+  const [x, y, z] = [finv(fx) * 0.95047, finv(fy), finv(fz) * 1.08883];
+  const toSrgb = (c: number) => {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.round(Math.max(0, Math.min(1, v)) * 255);
+  };
+  return [
+    toSrgb(3.2406 * x - 1.5372 * y - 0.4986 * z),
+    toSrgb(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+    toSrgb(0.0557 * x - 0.2040 * y + 1.0570 * z),
+  ];
+};
+
+// PN uses ^ between name components; the Study model stores "Family, Given"
+export const toPersonName = (name: string) => name.replace(/,\s*/, '^');
+
+export interface DicomSegOptions {
+  seriesDescription?: string;
+  seriesNumber?: number;
+  now?: Date;
+}
+
+export const encodeDicomSeg = (
+  volume: LabelVolume,
+  segments: Segment[],
+  study: Study,
+  series: Series,
+  options: DicomSegOptions = {}
+): Uint8Array => {
+  if (!canExportDicomSeg(study, series)) {
+    throw new Error('DICOM SEG export needs a DICOM source series (study, series and instance UIDs).');
+  }
+  if (volume.slices !== series.instances.length) {
+    throw new Error(`Label volume has ${volume.slices} slices but the series has ${series.instances.length} instances.`);
+  }
+
+  const lut = buildSegmentLut(volume, segments);
+  if (lut.length === 0) throw new Error('Nothing to export: no painted segments on this series.');
+
+  const sourceClassUid = getSourceSopClassUid(series);
+  const sourceSopUids = series.instances.map(url => getSopInstanceUidFromUrl(url)!);
+  const sliceSize = volume.columns * volume.rows;
+
+  // --- FRAMES ---
+  const frames: { segmentNumber: number; slice: number }[] = [];
+  lut.forEach((entry, i) => {
+    for (let z = 0; z < volume.slices; z++) {
+      const slice = volume.labels.subarray(z * sliceSize, (z + 1) * sliceSize);
+      if (slice.includes(entry.value)) frames.push({ segmentNumber: i + 1, slice: z });
+    }
+  });
+
+  const pixelData = new Uint8Array(Math.ceil((frames.length * sliceSize) / 8));
+  frames.forEach((frame, f) => {
+    const value = lut[frame.segmentNumber - 1].value;
+    const base = frame.slice * sliceSize;
+    for (let p = 0; p < sliceSize; p++) {
+      if (volume.labels[base + p] === value) {
+        const bit = f * sliceSize + p;
+        pixelData[bit >> 3] |= 1 << (bit & 7);
+      }
+    }
+  });
+
+  // --- DATASET ---
+  const { date, time } = formatDicomDateTime(options.now ?? new Date());
+  const dimensionOrganizationUid = generateUid();
+  const sourceImage = (slice: number): DicomWriteDataset => ({
+    '00081150': { vr: 'UI', value: sourceClassUid },
+    '00081155': { vr: 'UI', value: sourceSopUids[slice] },
+    '0040A170': { vr: 'SQ', value: [code('121322', 'DCM', 'Source image for image processing operation')] },
+  });
+
+  const dataset: DicomWriteDataset = {
+    // Labels and descriptions are written as UTF-8
+    '00080005': { vr: 'CS', value: 'ISO_IR 192' },
+    '00080008': { vr: 'CS', value: ['DERIVED', 'PRIMARY'] },
+    '00080016': { vr: 'UI', value: SEGMENTATION_STORAGE_UID },
+    '00080018': { vr: 'UI', value: generateUid() },
+    '00080020': { vr: 'DA', value: study.studyDate },
+    '00080023': { vr: 'DA', value: date },
+    '00080033': { vr: 'TM', value: time },
+    '00080050': { vr: 'SH', value: study.accessionNumber },
+    '00080060': { vr: 'CS', value: 'SEG' },
+    '00080070': { vr: 'LO', value: 'VibeRad' },
+    '0008103E': { vr: 'LO', value: options.seriesDescription ?? `Segmentation of ${series.description}` },
+    '00081115': { vr: 'SQ', value: [{
+      '00081199': { vr: 'SQ', value: sourceSopUids.map(uid => ({
+        '00081150': { vr: 'UI', value: sourceClassUid },
+        '00081155': { vr: 'UI', value: uid },
+      })) },
+      '0020000E': { vr: 'UI', value: series.id },
+    }] },
+    '00100010': { vr: 'PN', value: toPersonName(study.patientName) },
+    '00100020': { vr: 'LO', value: study.patientId },
+    '00100030': { vr: 'DA', value: '' },
+    '00100040': { vr: 'CS', value: '' },
+    '0020000D': { vr: 'UI', value: study.id },
+    '0020000E': { vr: 'UI', value: generateUid() },
+    '00200010': { vr: 'SH', value: '' },
+    '00200011': { vr: 'IS', value: options.seriesNumber ?? 300 },
+    '00200013': { vr: 'IS', value: 1 },
+    '00209221': { vr: 'SQ', value: [{ '00209164': { vr: 'UI', value: dimensionOrganizationUid } }] },
+    '00209222': { vr: 'SQ', value: [
+      {
+        '00209164': { vr: 'UI', value: dimensionOrganizationUid },
+        '00209165': { vr: 'AT', value: '0062000B' },
+        '00209167': { vr: 'AT', value: '0062000A' },
+        '00209421': { vr: 'LO', value: 'ReferencedSegmentNumber' },
+      },
+      {
+        '00209164': { vr: 'UI', value: dimensionOrganizationUid },
+        '00209165': { vr: 'AT', value: '00209057' },
+        '00209167': { vr: 'AT', value: '00209111' },
+        '00209421': { vr: 'LO', value: 'InStackPositionNumber' },
+      },
+    ] },
+    '00280002': { vr: 'US', value: 1 },
+    '00280004': { vr: 'CS', value: 'MONOCHROME2' },
+    '00280008': { vr: 'IS', value: frames.length },
+    '00280010': { vr: 'US', value: volume.rows },
+    '00280011': { vr: 'US', value: volume.columns },
+    '00280100': { vr: 'US', value: 1 },
+    '00280101': { vr: 'US', value: 1 },
+    '00280102': { vr: 'US', value: 0 },
+    '00280103': { vr: 'US', value: 0 },
+    '00282110': { vr: 'CS', value: '00' },
+    '00620001': { vr: 'CS', value: 'BINARY' },
+    '00620002': { vr: 'SQ', value: lut.map((entry, i) => ({
+      '00620003': { vr: 'SQ', value: [code('91723000', 'SCT', 'Anatomical Structure')] },
+      '00620004': { vr: 'US', value: i + 1 },
+      '00620005': { vr: 'LO', value: entry.label },
+      '00620008': { vr: 'CS', value: 'MANUAL' },
+      '0062000D': { vr: 'US', value: rgbToDicomLab(entry.color) },
+      '0062000F': { vr: 'SQ', value: [code('85756007', 'SCT', 'Tissue')] },
+    })) },
+    '00700080': { vr: 'CS', value: 'VIBERAD_SEG' },
+    '00700081': { vr: 'LO', value: 'Manual segmentation' },
+    '00700084': { vr: 'PN', value: '' },
+    '52009230': { vr: 'SQ', value: frames.map(frame => ({
+      '00089124': { vr: 'SQ', value: [{
+        '00082112': { vr: 'SQ', value: [sourceImage(frame.slice)] },
+        '00089215': { vr: 'SQ', value: [code('113076', 'DCM', 'Segmentation')] },
+      }] },
+      '00209111': { vr: 'SQ', value: [{
+        '00209056': { vr: 'SH', value: '1' },
+        '00209057': { vr: 'UL', value: frame.slice + 1 },
+        '00209157': { vr: 'UL', value: [frame.segmentNumber, frame.slice + 1] },
+      }] },
+      '0062000A': { vr: 'SQ', value: [{ '0062000B': { vr: 'US', value: frame.segmentNumber } }] },
+    })) },
+    '7FE00010': { vr: 'OB', value: pixelData },
+  };
+
+  if (series.frameOfReferenceUid) {
+    dataset['00200052'] = { vr: 'UI', value: series.frameOfReferenceUid };
+    dataset['00201040'] = { vr: 'LO', value: '' };
+  }
+  if (series.pixelSpacing) {
+    dataset['52009229'] = { vr: 'SQ', value: [{
+      '00289110': { vr: 'SQ', value: [{
+        '00280030': { vr: 'DS', value: series.pixelSpacing },
+        ...(series.sliceThickness ? { '00180050': { vr: 'DS', value: series.sliceThickness } } : {}),
+      }] },
+    }] };
+  }
+
+  return writeDicomPart10(dataset);
+};
+
+// --- READING ---
+
+export interface DecodedSegFrame {
+  segmentNumber: number;
+  // Where the frame belongs, by whatever the file provides
+  sopInstanceUid?: string;
+  imagePosition?: number[];
+  inStackPosition?: number;
+  pixels: Uint8Array; // 0 / 1 per pixel
+}
+
+export interface DecodedSeg {
+  columns: number;
+  rows: number;
+  referencedSeriesUid?: string;
+  segments: { value: number; label?: string; color?: [number, number, number] }[];
+  frames: DecodedSegFrame[];
+}
+
+// Functional group attributes may be per frame or shared by all frames
+const getFunctionalGroup = (frame: DicomDataset | undefined, shared: DicomDataset | undefined, tag: string) => {
+  const own = frame ? getSequence(frame, tag)[0] : undefined;
+  return own ?? (shared ? getSequence(shared, tag)[0] : undefined);
+};
+
+/**
+ * Reads a BINARY or FRACTIONAL DICOM SEG (uncompressed) into per-frame binary masks.
+ */
+export const decodeDicomSeg = (bytes: Uint8Array): DecodedSeg => {
+  const { dataset } = parseDicom(bytes);
+  if (getString(dataset, '00080016') !== SEGMENTATION_STORAGE_UID) {
+    throw new Error('DICOM file is not a Segmentation object.');
+  }
+  const type = getString(dataset, '00620001');
+  if (type !== 'BINARY' && type !== 'FRACTIONAL') {
+    throw new Error(`Unsupported segmentation type "${type ?? 'missing'}".`);
+  }
+  const pixelElement = dataset.elements['7FE00010'];
+  if (!pixelElement || pixelElement.fragments) {
+    throw new Error('Compressed or missing SEG pixel data is not supported.');
+  }
+
+  const rows = getNumber(dataset, '00280010') ?? 0;
+  const columns = getNumber(dataset, '00280011') ?? 0;
+  const frameCount = getNumber(dataset, '00280008') ?? 1;
+  const frameSize = rows * columns;
+  const pixelData = getBytes(dataset, '7FE00010')!;
+  const bitsAllocated = getNumber(dataset, '00280100') ?? (type === 'BINARY' ? 1 : 8);
+  // Fractional values at or above half the maximum count as inside
+  const threshold = (getNumber(dataset, '0062000E') ?? 255) / 2;
+
+  const segments = getSequence(dataset, '00620002').map(item => {
+    const lab = [0, 1, 2].map(i => getNumber(item, '0062000D', i));
+    return {
+      value: getNumber(item, '00620004') ?? 0,
+      label: getString(item, '00620005'),
+      color: lab.every(v => v !== undefined) ? dicomLabToRgb(lab as number[]) : undefined,
+    };
+  });
+
+  const shared = getSequence(dataset, '52009229')[0];
+  const perFrame = getSequence(dataset, '52009230');
+
+  const frames: DecodedSegFrame[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    const item = perFrame[f];
+    const pixels = new Uint8Array(frameSize);
+    for (let p = 0; p < frameSize; p++) {
+      if (bitsAllocated === 1) {
+        const bit = f * frameSize + p;
+        pixels[p] = (pixelData[bit >> 3] >> (bit & 7)) & 1;
+      } else {
+        pixels[p] = pixelData[f * frameSize + p] >= threshold ? 1 : 0;
+      }
+    }
+
+    const derivation = getFunctionalGroup(item, shared, '00089124');
+    const source = derivation ? getSequence(derivation, '00082112')[0] : undefined;
+    const position = getFunctionalGroup(item, shared, '00209113');
+    const content = item ? getSequence(item, '00209111')[0] : undefined;
+
+    frames.push({
+      segmentNumber: getNumber(getFunctionalGroup(item, shared, '0062000A') ?? dataset, '0062000B') ?? 1,
+      sopInstanceUid: source ? getString(source, '00081155') : undefined,
+      imagePosition: position ? getNumbers(position, '00200032') : undefined,
+      inStackPosition: content ? getNumber(content, '00209057') : undefined,
+      pixels,
+    });
+  }
+
+  const referenced = getSequence(dataset, '00081115')[0];
+  const referencedSeriesUid = referenced ? getString(referenced, '0020000E') : undefined;
+  return { columns, rows, referencedSeriesUid, segments, frames };
+};
+
+/**
+ * Places SEG frames on the series' slices: by referenced SOP Instance UID, then by position along
+ * the slice normal, then by In-Stack Position. Returns per-slice segment numbers and unplaced frames.
+ */
+export const mapSegFramesToSlices = (seg: DecodedSeg, series: Series) => {
+  const indexBySop = new Map<string, number>();
+  series.instances.forEach((url, idx) => {
+    const uid = getSopInstanceUidFromUrl(url);
+    if (uid) indexBySop.set(uid, idx);
+  });
+
+  const findSlice = (frame: DecodedSegFrame): number | null => {
+    if (frame.sopInstanceUid && indexBySop.has(frame.sopInstanceUid)) return indexBySop.get(frame.sopInstanceUid)!;
+
+    const { slicePositions, sliceNormal } = series;
+    if (frame.imagePosition && slicePositions && sliceNormal && slicePositions.length > 0) {
+      const location = frame.imagePosition.reduce((sum, v, axis) => sum + v * sliceNormal[axis], 0);
+      let best = 0;
+      slicePositions.forEach((p, idx) => {
+        if (Math.abs(p - location) < Math.abs(slicePositions[best] - location)) best = idx;
+      });
+      const spacing = slicePositions.length > 1 ? Math.abs(slicePositions[1] - slicePositions[0]) : Infinity;
+      if (Math.abs(slicePositions[best] - location) <= spacing / 2) return best;
+    }
+
+    if (frame.inStackPosition !== undefined && frame.inStackPosition >= 1 && frame.inStackPosition <= series.instances.length) {
+      return frame.inStackPosition - 1;
+    }
+    return null;
+  };
+
+  const slices = new Map<number, Int32Array>();
+  let unplaced = 0;
+  seg.frames.forEach(frame => {
+    const slice = findSlice(frame);
+    if (slice === null) {
+      unplaced++;
+      return;
+    }
+    if (!slices.has(slice)) slices.set(slice, new Int32Array(seg.columns * seg.rows));
+    const values = slices.get(slice)!;
+    // Overlapping segments: the later segment wins
+    frame.pixels.forEach((on, p) => { if (on) values[p] = frame.segmentNumber; });
+  });
+
+  return { slices, unplaced };
+};
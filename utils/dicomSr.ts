@@ -0,0 +1,336 @@
+import { Study, Series, Measurement, TeachingReport, ReportMeasurement, Point } from '../types';
+import { DicomWriteDataset, generateUid, formatDicomDateTime, writeDicomPart10 } from './dicomWriter';
+import { DicomDataset, parseDicom, getString, getNumber, getNumbers, getSequence } from './dicomParser';
+import { canExportDicomSeg, getSourceSopClassUid, getSopInstanceUidFromUrl, code, toPersonName } from './dicomSeg';
+
+// DICOM Structured Report writer and reader for teaching reports.
+// Comprehensive SR following TID 1500 (Measurement Report): one TID 1501 measurement group per length,
+// angle or ROI area, with its geometry as a SCOORD on the source image (and the ROI pixel statistics as
+// further NUMs). The report text goes into a Qualitative Evaluations container. VibeRad measurement ids are kept under a private coding scheme
+// (99VIBERAD) so measurements can be matched up again after a round trip.
+
+export const COMPREHENSIVE_SR_UID = '1.2.840.10008.5.1.4.1.1.88.33';
+
+const PRIVATE_SCHEME = '99VIBERAD';
+const CONCEPTS = {
+  report: code('126000', 'DCM', 'Imaging Measurement Report'),
+  language: code('121049', 'DCM', 'Language of Content Item and Descendants'),
+  procedure: code('121058', 'DCM', 'Procedure reported'),
+  measurements: code('126010', 'DCM', 'Imaging Measurements'),
+  group: code('125007', 'DCM', 'Measurement Group'),
+  trackingId: code('112039', 'DCM', 'Tracking Identifier'),
+  trackingUid: code('112040', 'DCM', 'Tracking Unique Identifier'),
+  measurementId: code('measurement-id', PRIVATE_SCHEME, 'VibeRad Measurement ID'),
+  length: code('410668003', 'SCT', 'Length'),
+  angle: code('1483009', 'SCT', 'Angle'),
+  area: code('42798000', 'SCT', 'Area'),
+  mean: code('373098007', 'SCT', 'Mean'),
+  stdDev: code('386136009', 'SCT', 'Standard Deviation'),
+  min: code('255605001', 'SCT', 'Minimum'),
+  max: code('56851009', 'SCT', 'Maximum'),
+  comment: code('121106', 'DCM', 'Comment'),
+  qualitative: code('C0034375', 'UMLS', 'Qualitative Evaluations'),
+  finding: code('121071', 'DCM', 'Finding'),
+  teachingPoint: code('teaching-point', PRIVATE_SCHEME, 'Teaching Point'),
+  learnerQuestion: code('learner-question', PRIVATE_SCHEME, 'Learner Question'),
+  safetyNote: code('safety-note', PRIVATE_SCHEME, 'Safety Note'),
+};
+const UNITS: Record<ReportMeasurement['unit'], DicomWriteDataset> = {
+  mm: code('mm', 'UCUM', 'millimeter'),
+  px: code('{pixels}', 'UCUM', 'pixels'),
+  deg: code('deg', 'UCUM', 'degree'),
+  mm2: code('mm2', 'UCUM', 'square millimeter'),
+  px2: code('{square pixels}', 'UCUM', 'square pixels'),
+};
+const PIXEL_VALUE_UNITS = {
+  CT: code("[hnsf'U]", 'UCUM', 'Hounsfield unit'),
+  other: code('1', 'UCUM', 'no units'),
+};
+
+// Concept and SCOORD graphic type per measurement type
+const GEOMETRY: Record<ReportMeasurement['type'], { concept: DicomWriteDataset; graphicType: string }> = {
+  length: { concept: CONCEPTS.length, graphicType: 'POLYLINE' },
+  angle: { concept: CONCEPTS.angle, graphicType: 'POLYLINE' },
+  cobb: { concept: CONCEPTS.angle, graphicType: 'MULTIPOINT' },
+  ellipse: { concept: CONCEPTS.area, graphicType: 'ELLIPSE' },
+  freehand: { concept: CONCEPTS.area, graphicType: 'POLYGON' },
+};
+
+/**
+ * SCOORD graphic data: an ELLIPSE is its major then minor axis end points, a POLYGON repeats its first point.
+ */
+const toGraphicData = (m: ReportMeasurement): number[] => {
+  let points = m.points;
+  if (m.type === 'ellipse') {
+    const [a, b] = m.points;
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const rx = Math.abs(b.x - a.x) / 2;
+    const ry = Math.abs(b.y - a.y) / 2;
+    const horizontal = [{ x: center.x - rx, y: center.y }, { x: center.x + rx, y: center.y }];
+    const vertical = [{ x: center.x, y: center.y - ry }, { x: center.x, y: center.y + ry }];
+    points = rx >= ry ? [...horizontal, ...vertical] : [...vertical, ...horizontal];
+  } else if (m.type === 'freehand') {
+    points = [...m.points, m.points[0]];
+  }
+  return points.flatMap(p => [p.x, p.y]);
+};
+
+/**
+ * Same requirement as SEG: measurements reference their source images by UID.
+ */
+export const canExportDicomSr = (study: Study, series: Series): boolean => canExportDicomSeg(study, series);
+
+// --- CONTENT ITEMS ---
+
+const item = (relationship: string | null, valueType: string, concept: DicomWriteDataset, extra: DicomWriteDataset = {}): DicomWriteDataset => ({
+  ...(relationship ? { '0040A010': { vr: 'CS', value: relationship } } : {}),
+  '0040A040': { vr: 'CS', value: valueType },
+  '0040A043': { vr: 'SQ', value: [concept] },
+  ...extra,
+});
+
+const container = (relationship: string | null, concept: DicomWriteDataset, children: DicomWriteDataset[], extra: DicomWriteDataset = {}) =>
+  item(relationship, 'CONTAINER', concept, {
+    '0040A050': { vr: 'CS', value: 'SEPARATE' },
+    '0040A730': { vr: 'SQ', value: children },
+    ...extra,
+  });
+
+const textItem = (relationship: string, concept: DicomWriteDataset, text: string) =>
+  item(relationship, 'TEXT', concept, { '0040A160': { vr: 'UT', value: text } });
+
+export interface DicomSrOptions {
+  seriesNumber?: number;
+  now?: Date;
+}
+
+/**
+ * TID 1500 measurement report for the measurements of one series, with the teaching text.
+ */
+export const encodeTeachingReportSr = (report: TeachingReport, study: Study, series: Series, options: DicomSrOptions = {}): Uint8Array => {
+  if (!canExportDicomSr(study, series)) {
+    throw new Error('DICOM SR export needs a DICOM source series (study, series and instance UIDs).');
+  }
+  const sourceClassUid = getSourceSopClassUid(series);
+  const sopUidForSlice = (slice: number) => {
+    const url = series.instances[slice];
+    if (!url) throw new Error(`Measurement on slice ${slice + 1} is outside the series.`);
+    return getSopInstanceUidFromUrl(url)!;
+  };
+
+  const numItem = (concept: DicomWriteDataset, value: number, unit: DicomWriteDataset, extra: DicomWriteDataset = {}) =>
+    item('CONTAINS', 'NUM', concept, {
+      '0040A300': { vr: 'SQ', value: [{
+        '004008EA': { vr: 'SQ', value: [unit] },
+        '0040A30A': { vr: 'DS', value: Number(value.toFixed(4)) },
+      }] },
+      ...extra,
+    });
+  const pixelValueUnit = series.modality === 'CT' ? PIXEL_VALUE_UNITS.CT : PIXEL_VALUE_UNITS.other;
+
+  const groups = report.measurements.map(m => container('CONTAINS', CONCEPTS.group, [
+    textItem('HAS OBS CONTEXT', CONCEPTS.trackingId, m.label),
+    item('HAS OBS CONTEXT', 'UIDREF', CONCEPTS.trackingUid, { '0040A124': { vr: 'UI', value: generateUid() } }),
+    textItem('HAS OBS CONTEXT', CONCEPTS.measurementId, m.measurementId),
+    numItem(GEOMETRY[m.type].concept, m.value, UNITS[m.unit], {
+      '0040A730': { vr: 'SQ', value: [item('INFERRED FROM', 'SCOORD', code('111030', 'DCM', 'Image Region'), {
+        '00700022': { vr: 'FL', value: toGraphicData(m) },
+        '00700023': { vr: 'CS', value: GEOMETRY[m.type].graphicType },
+        '0040A730': { vr: 'SQ', value: [item('SELECTED FROM', 'IMAGE', code('111040', 'DCM', 'Original Source'), {
+          '00081199': { vr: 'SQ', value: [{
+            '00081150': { vr: 'UI', value: sourceClassUid },
+            '00081155': { vr: 'UI', value: sopUidForSlice(m.sliceIndex) },
+          }] },
+        })] },
+      })] },
+    }),
+    ...(m.stats ? [
+      numItem(CONCEPTS.mean, m.stats.mean, pixelValueUnit),
+      numItem(CONCEPTS.stdDev, m.stats.stdDev, pixelValueUnit),
+      numItem(CONCEPTS.min, m.stats.min, pixelValueUnit),
+      numItem(CONCEPTS.max, m.stats.max, pixelValueUnit),
+    ] : []),
+    ...(m.comment ? [textItem('CONTAINS', CONCEPTS.comment, m.comment)] : []),
+  ]));
+
+  const evaluations = [
+    ...report.features.map(t => textItem('CONTAINS', CONCEPTS.finding, t)),
+    ...report.teachingPoints.map(t => textItem('CONTAINS', CONCEPTS.teachingPoint, t)),
+    ...report.learnerQuestions.map(t => textItem('CONTAINS', CONCEPTS.learnerQuestion, t)),
+    textItem('CONTAINS', CONCEPTS.safetyNote, report.safetyNote),
+  ];
+
+  const referencedSops = Array.from(new Set(report.measurements.map(m => m.sliceIndex))).map(slice => ({
+    '00081150': { vr: 'UI', value: sourceClassUid },
+    '00081155': { vr: 'UI', value: sopUidForSlice(slice) },
+  }) as DicomWriteDataset);
+
+  const { date, time } = formatDicomDateTime(options.now ?? new Date());
+  const root = container(null, CONCEPTS.report, [
+    item('HAS CONCEPT MOD', 'CODE', CONCEPTS.language, { '0040A168': { vr: 'SQ', value: [code('eng', 'RFC5646', 'English')] } }),
+    item('HAS CONCEPT MOD', 'CODE', CONCEPTS.procedure, { '0040A168': { vr: 'SQ', value: [code('363679005', 'SCT', 'Imaging procedure')] } }),
+    container('CONTAINS', CONCEPTS.measurements, groups),
+    container('CONTAINS', CONCEPTS.qualitative, evaluations),
+  ], {
+    '0040A504': { vr: 'SQ', value: [{ '00080105': { vr: 'CS', value: 'DCMR' }, '0040DB00': { vr: 'CS', value: '1500' } }] },
+  });
+
+  const dataset: DicomWriteDataset = {
+    ...root,
+    // Labels and comments (free text from the model) are written as UTF-8
+    '00080005': { vr: 'CS', value: 'ISO_IR 192' },
+    '00080016': { vr: 'UI', value: COMPREHENSIVE_SR_UID },
+    '00080018': { vr: 'UI', value: generateUid() },
+    '00080020': { vr: 'DA', value: study.studyDate },
+    '00080023': { vr: 'DA', value: date },
+    '00080033': { vr: 'TM', value: time },
+    '00080050': { vr: 'SH', value: study.accessionNumber },
+    '00080060': { vr: 'CS', value: 'SR' },
+    '00080070': { vr: 'LO', value: 'VibeRad' },
+    '0008103E': { vr: 'LO', value: report.title.slice(0, 64) },
+    '00100010': { vr: 'PN', value: toPersonName(study.patientName) },
+    '00100020': { vr: 'LO', value: study.patientId },
+    '00100030': { vr: 'DA', value: '' },
+    '00100040': { vr: 'CS', value: '' },
+    '0020000D': { vr: 'UI', value: study.id },
+    '0020000E': { vr: 'UI', value: generateUid() },
+    '00200010': { vr: 'SH', value: '' },
+    '00200011': { vr: 'IS', value: options.seriesNumber ?? 400 },
+    '00200013': { vr: 'IS', value: 1 },
+    '0040A375': { vr: 'SQ', value: referencedSops.length === 0 ? [] : [{
+      '00081115': { vr: 'SQ', value: [{
+        '00081199': { vr: 'SQ', value: referencedSops },
+        '0020000E': { vr: 'UI', value: series.id },
+      }] },
+      '0020000D': { vr: 'UI', value: study.id },
+    }] },
+    '0040A491': { vr: 'CS', value: 'COMPLETE' },
+    '0040A493': { vr: 'CS', value: 'UNVERIFIED' },
+  };
+
+  return writeDicomPart10(dataset);
+};
+
+// --- READING ---
+
+export interface DecodedSrMeasurement {
+  measurementId?: string;
+  type?: ReportMeasurement['type'];
+  label?: string;
+  value?: number;
+  unit?: ReportMeasurement['unit'];
+  sopInstanceUid?: string;
+  points?: Point[]; // as in ReportMeasurement
+  comment?: string;
+}
+
+const conceptOf = (ds: DicomDataset) => {
+  const concept = getSequence(ds, '0040A043')[0];
+  return concept ? `${getString(concept, '00080100')}|${getString(concept, '00080102')}` : '';
+};
+
+const is = (ds: DicomDataset, concept: DicomWriteDataset) =>
+  conceptOf(ds) === `${concept['00080100'].value}|${concept['00080102'].value}`;
+
+const children = (ds: DicomDataset) => getSequence(ds, '0040A730');
+
+const readGraphicData = (scoord: DicomDataset): Point[] => {
+  const count = Math.floor((scoord.elements['00700022']?.length ?? 0) / 8);
+  return Array.from({ length: count }, (_, i) => ({
+    x: getNumber(scoord, '00700022', i * 2) ?? 0,
+    y: getNumber(scoord, '00700022', i * 2 + 1) ?? 0,
+  }));
+};
+
+// Inverse of toGraphicData: measurement type and points from the concept and the SCOORD
+const readGeometry = (num: DicomDataset, scoord: DicomDataset): Pick<DecodedSrMeasurement, 'type' | 'points'> => {
+  const graphicType = getString(scoord, '00700023');
+  const points = readGraphicData(scoord);
+  if (is(num, CONCEPTS.length) && points.length >= 2) return { type: 'length', points: points.slice(0, 2) };
+  if (is(num, CONCEPTS.angle) && graphicType === 'POLYLINE' && points.length === 3) return { type: 'angle', points };
+  if (is(num, CONCEPTS.angle) && points.length === 4) return { type: 'cobb', points };
+  if (is(num, CONCEPTS.area) && graphicType === 'ELLIPSE' && points.length === 4) {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return { type: 'ellipse', points: [{ x: Math.min(...xs), y: Math.min(...ys) }, { x: Math.max(...xs), y: Math.max(...ys) }] };
+  }
+  if (is(num, CONCEPTS.area) && graphicType === 'POLYGON' && points.length >= 4) return { type: 'freehand', points: points.slice(0, -1) };
+  return {};
+};
+
+const UNIT_BY_CODE = Object.fromEntries(
+  Object.entries(UNITS).map(([unit, concept]) => [concept['00080100'].value, unit])
+) as Record<string, ReportMeasurement['unit']>;
+
+const readGroup = (group: DicomDataset): DecodedSrMeasurement => {
+  const result: DecodedSrMeasurement = {};
+  children(group).forEach(child => {
+    if (is(child, CONCEPTS.trackingId)) result.label = getString(child, '0040A160');
+    else if (is(child, CONCEPTS.measurementId)) result.measurementId = getString(child, '0040A160');
+    else if (is(child, CONCEPTS.comment)) result.comment = getString(child, '0040A160');
+    else if (getString(child, '0040A040') === 'NUM') {
+      // The measurement is the NUM with the geometry; statistics NUMs have none
+      const scoord = children(child).find(c => getString(c, '0040A040') === 'SCOORD');
+      if (!scoord || result.type) return;
+      Object.assign(result, readGeometry(child, scoord));
+      const measured = getSequence(child, '0040A300')[0];
+      if (measured) {
+        result.value = getNumbers(measured, '0040A30A')?.[0];
+        const unit = getSequence(measured, '004008EA')[0];
+        if (unit) result.unit = UNIT_BY_CODE[getString(unit, '00080100') ?? ''];
+      }
+      const image = children(scoord).find(c => getString(c, '0040A040') === 'IMAGE');
+      const sop = image ? getSequence(image, '00081199')[0] : undefined;
+      if (sop) result.sopInstanceUid = getString(sop, '00081155');
+    }
+  });
+  return result;
+};
+
+/**
+ * Measurement groups of a TID 1500 report (from VibeRad or another TID 1500 writer).
+ */
+export const decodeMeasurementReportSr = (bytes: Uint8Array): DecodedSrMeasurement[] => {
+  const { dataset } = parseDicom(bytes);
+  if (getString(dataset, '00080060') !== 'SR') throw new Error('DICOM file is not a Structured Report.');
+  const measurements = children(dataset).find(c => is(c, CONCEPTS.measurements));
+  if (!measurements) throw new Error('Structured Report has no Imaging Measurements container (not TID 1500).');
+  return children(measurements).filter(c => is(c, CONCEPTS.group)).map(readGroup);
+};
+
+const toMeasurement = (m: DecodedSrMeasurement, base: { id: string; sliceIndex: number; label?: string; text?: string; createdAt: number }): Measurement | null => {
+  const p = m.points ?? [];
+  switch (m.type) {
+    case 'length': return { ...base, type: 'length', start: p[0], end: p[1], value: Math.hypot(p[1].x - p[0].x, p[1].y - p[0].y) };
+    case 'angle': return { ...base, type: 'angle', points: [p[0], p[1], p[2]] };
+    case 'cobb': return { ...base, type: 'cobb', points: [p[0], p[1], p[2], p[3]] };
+    // ROI statistics are recomputed from the image when the slice is shown
+    case 'ellipse': return { ...base, type: 'ellipse', start: p[0], end: p[1] };
+    case 'freehand': return { ...base, type: 'freehand', points: p };
+    default: return null;
+  }
+};
+
+/**
+ * Viewer measurements for the decoded groups whose image is in the series (others are skipped).
+ */
+export const mapSrMeasurementsToSeries = (decoded: DecodedSrMeasurement[], series: Series, now = Date.now()): Measurement[] => {
+  const sliceBySop = new Map<string, number>();
+  series.instances.forEach((url, i) => {
+    const uid = getSopInstanceUidFromUrl(url);
+    if (uid) sliceBySop.set(uid, i);
+  });
+
+  return decoded.flatMap((m, i) => {
+    const sliceIndex = m.sopInstanceUid !== undefined ? sliceBySop.get(m.sopInstanceUid) : undefined;
+    if (sliceIndex === undefined) return [];
+    const measurement = toMeasurement(m, {
+      id: m.measurementId ?? `sr-${now}-${i}`,
+      sliceIndex,
+      label: m.label,
+      text: m.comment,
+      createdAt: now,
+    });
+    return measurement ? [measurement] : [];
+  });
+};
@@ -0,0 +1,165 @@
+// Minimal DICOM Part 10 writer
+// Encodes datasets as Explicit VR Little Endian with defined-length sequences and items,
+// enough for the objects VibeRad creates itself (e.g. DICOM SEG). Counterpart of dicomParser.ts.
+
+import { TRANSFER_SYNTAX } from './dicomParser';
+
+export type DicomWriteValue = string | number | (string | number)[] | Uint8Array | DicomWriteDataset[];
+
+export interface DicomWriteElement {
+  vr: string;
+  value: DicomWriteValue;
+}
+
+// Keyed by 8-digit uppercase hex tag, e.g. "00280010"
+export type DicomWriteDataset = Record<string, DicomWriteElement>;
+
+// VRs whose explicit encoding uses a 2-byte reserved field and a 4-byte length
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+const ITEM_TAG = 'FFFEE000';
+
+// Identifies VibeRad as the writing implementation (UUID-derived root, PS3.5 B.2)
+export const IMPLEMENTATION_CLASS_UID = '2.25.215829137125634474935720473716950236283';
+const IMPLEMENTATION_VERSION_NAME = 'VIBERAD_1';
+
+/**
+ * New UID under the 2.25 (UUID) root, so no registered organization root is needed.
+ */
+export const generateUid = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `2.25.${BigInt(`0x${hex}`).toString()}`;
+};
+
+/**
+ * DICOM DA (YYYYMMDD) and TM (HHMMSS) for a date.
+ */
+export const formatDicomDateTime = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    date: `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  };
+};
+
+// DS is limited to 16 characters
+const formatDecimalString = (n: number): string => {
+  const s = String(n);
+  if (s.length <= 16) return s;
+  return String(parseFloat(n.toPrecision(10)));
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const asArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+const encodeNumbers = (values: number[], bytesPer: number, write: (view: DataView, offset: number, v: number) => void) => {
+  const out = new Uint8Array(values.length * bytesPer);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => write(view, i * bytesPer, v));
+  return out;
+};
+
+const encodeTag = (view: DataView, offset: number, tag: string) => {
+  view.setUint16(offset, parseInt(tag.slice(0, 4), 16), true);
+  view.setUint16(offset + 2, parseInt(tag.slice(4, 8), 16), true);
+};
+
+const encodeValue = (vr: string, value: DicomWriteValue): Uint8Array => {
+  if (vr === 'SQ') {
+    const items = value as DicomWriteDataset[];
+    return concat(items.map(item => {
+      const content = encodeDataset(item);
+      const header = new Uint8Array(8);
+      const view = new DataView(header.buffer);
+      encodeTag(view, 0, ITEM_TAG);
+      view.setUint32(4, content.length, true);
+      return concat([header, content]);
+    }));
+  }
+
+  if (value instanceof Uint8Array) {
+    return value.length % 2 === 0 ? value : concat([value, new Uint8Array(1)]);
+  }
+
+  const values = asArray(value as string | number | (string | number)[]);
+  switch (vr) {
+    case 'US': return encodeNumbers(values.map(Number), 2, (v, o, n) => v.setUint16(o, n, true));
+    case 'SS': return encodeNumbers(values.map(Number), 2, (v, o, n) => v.setInt16(o, n, true));
+    case 'UL': return encodeNumbers(values.map(Number), 4, (v, o, n) => v.setUint32(o, n, true));
+    case 'SL': return encodeNumbers(values.map(Number), 4, (v, o, n) => v.setInt32(o, n, true));
+    case 'FL': return encodeNumbers(values.map(Number), 4, (v, o, n) => v.setFloat32(o, n, true));
+    case 'FD': return encodeNumbers(values.map(Number), 8, (v, o, n) => v.setFloat64(o, n, true));
+    case 'AT': {
+      const out = new Uint8Array(values.length * 4);
+      const view = new DataView(out.buffer);
+      values.forEach((tag, i) => encodeTag(view, i * 4, String(tag)));
+      return out;
+    }
+  }
+
+  const text = values
+    .map(v => (vr === 'DS' && typeof v === 'number' ? formatDecimalString(v) : vr === 'IS' ? String(Math.round(Number(v))) : String(v)))
+    .join('\\');
+  // Padded by byte length: non-ASCII text (ISO_IR 192, UTF-8) takes more bytes than characters
+  const bytes = new TextEncoder().encode(text);
+  return bytes.length % 2 === 0 ? bytes : concat([bytes, Uint8Array.of(vr === 'UI' ? 0 : 0x20)]);
+};
+
+const encodeElement = (tag: string, element: DicomWriteElement): Uint8Array => {
+  const { vr } = element;
+  const value = encodeValue(vr, element.value);
+  const isLong = LONG_LENGTH_VRS.has(vr);
+  if (!isLong && value.length > 0xffff) {
+    throw new Error(`Value of (${tag.slice(0, 4)},${tag.slice(4)}) is too long for VR ${vr}.`);
+  }
+
+  const header = new Uint8Array(isLong ? 12 : 8);
+  const view = new DataView(header.buffer);
+  encodeTag(view, 0, tag);
+  header[4] = vr.charCodeAt(0);
+  header[5] = vr.charCodeAt(1);
+  if (isLong) view.setUint32(8, value.length, true);
+  else view.setUint16(6, value.length, true);
+  return concat([header, value]);
+};
+
+/**
+ * Encodes a dataset (elements in ascending tag order) without preamble or meta header.
+ */
+export const encodeDataset = (dataset: DicomWriteDataset): Uint8Array =>
+  concat(Object.keys(dataset).sort().map(tag => encodeElement(tag, dataset[tag])));
+
+/**
+ * Wraps a dataset in a Part 10 file: preamble, "DICM" and the File Meta Information group.
+ * SOP Class / Instance UIDs are taken from (0008,0016) / (0008,0018).
+ */
+export const writeDicomPart10 = (dataset: DicomWriteDataset): Uint8Array => {
+  const sopClassUid = dataset['00080016']?.value;
+  const sopInstanceUid = dataset['00080018']?.value;
+  if (typeof sopClassUid !== 'string' || typeof sopInstanceUid !== 'string') {
+    throw new Error('Cannot write a DICOM file without SOP Class UID and SOP Instance UID.');
+  }
+
+  const meta = encodeDataset({
+    '00020001': { vr: 'OB', value: new Uint8Array([0, 1]) },
+    '00020002': { vr: 'UI', value: sopClassUid },
+    '00020003': { vr: 'UI', value: sopInstanceUid },
+    '00020010': { vr: 'UI', value: TRANSFER_SYNTAX.ExplicitVRLittleEndian },
+    '00020012': { vr: 'UI', value: IMPLEMENTATION_CLASS_UID },
+    '00020013': { vr: 'SH', value: IMPLEMENTATION_VERSION_NAME },
+  });
+  const groupLength = encodeElement('00020000', { vr: 'UL', value: meta.length });
+
+  const preamble = new Uint8Array(132);
+  preamble.set(new TextEncoder().encode('DICM'), 128);
+  return concat([preamble, groupLength, meta, encodeDataset(dataset)]);
+};
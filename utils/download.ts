@@ -0,0 +1,12 @@
+/**
+ * Saves a blob through a temporary object URL (browser "download" of generated files).
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Let the click start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,118 @@
+import { DicomImage, FusionColormap, FusionSettings, Series } from '../types';
+import { VoiSettings, buildVoiLut, applyVoi } from './voiLut';
+import { findSyncedSliceIndex } from './sliceSync';
+
+// FUSION
+// Draws a secondary series over the primary one: the overlay frame goes through its own window, then a
+// colormap; pixels darker than the threshold stay transparent so the anatomy underneath shows through.
+// The overlay is placed in the primary image's pixel space, so it follows the viewport's pan and zoom.
+
+export const FUSION_COLORMAPS: { id: FusionColormap; label: string }[] = [
+  { id: 'hot', label: 'Hot' },
+  { id: 'jet', label: 'Jet' },
+  { id: 'grayscale', label: 'Grayscale' },
+];
+
+export const DEFAULT_FUSION_SETTINGS: FusionSettings = {
+  seriesId: null,
+  colormap: 'hot',
+  threshold: 0.2,
+  opacity: 0.5,
+  sliceMatching: 'position',
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * RGB triplets for display values 0–255 (length 256 * 3).
+ */
+export const buildColormapLut = (colormap: FusionColormap): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const t = i / 255;
+    const rgb =
+      colormap === 'hot' ? [clamp01(3 * t), clamp01(3 * t - 1), clamp01(3 * t - 2)] :
+      colormap === 'jet' ? [clamp01(1.5 - Math.abs(4 * t - 3)), clamp01(1.5 - Math.abs(4 * t - 2)), clamp01(1.5 - Math.abs(4 * t - 1))] :
+      [t, t, t];
+    lut.set(rgb.map(v => Math.round(v * 255)), i * 3);
+  }
+  return lut;
+};
+
+/**
+ * Writes the color-mapped overlay into `out` (length rows * columns * 4). RGB frames are mapped by luminance.
+ */
+export const renderFusionToRgba = (
+  image: DicomImage,
+  voi: VoiSettings,
+  colormap: FusionColormap,
+  threshold: number,
+  out: Uint8ClampedArray
+) => {
+  const { pixelData, rows, columns } = image;
+  const colors = buildColormapLut(colormap);
+  const table = image.samplesPerPixel === 1 ? buildVoiLut(image, voi) : null;
+  const invert = image.photometricInterpretation === 'MONOCHROME1';
+  const cutoff = threshold * 255;
+
+  for (let p = 0; p < rows * columns; p++) {
+    let gray: number;
+    if (image.samplesPerPixel === 3) {
+      gray = 0.299 * pixelData[p * 3] + 0.587 * pixelData[p * 3 + 1] + 0.114 * pixelData[p * 3 + 2];
+    } else {
+      const stored = pixelData[p];
+      gray = table
+        ? table.lut[Math.floor(stored) - table.offset]
+        : applyVoi(stored * image.rescaleSlope + image.rescaleIntercept, voi.windowCenter, voi.windowWidth, voi.voiLutFunction);
+      if (invert) gray = 255 - gray;
+    }
+    const o = p * 4;
+    // Background (black) is never drawn, even with no threshold
+    if (gray < cutoff || gray <= 0) {
+      out[o + 3] = 0;
+      continue;
+    }
+    const c = Math.round(gray) * 3;
+    out[o] = colors[c];
+    out[o + 1] = colors[c + 1];
+    out[o + 2] = colors[c + 2];
+    out[o + 3] = 255;
+  }
+};
+
+export const renderFusionToCanvas = (image: DicomImage, canvas: HTMLCanvasElement, voi: VoiSettings, colormap: FusionColormap, threshold: number) => {
+  if (canvas.width !== image.columns) canvas.width = image.columns;
+  if (canvas.height !== image.rows) canvas.height = image.rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const out = ctx.createImageData(image.columns, image.rows);
+  renderFusionToRgba(image, voi, colormap, threshold, out.data);
+  ctx.putImageData(out, 0, 0);
+};
+
+/**
+ * Overlay slice for a primary slice: the nearest by position (falling back to the index, see sliceSync;
+ * null outside the overlay stack), or simply the same index clamped to the overlay series.
+ */
+export const findFusionSliceIndex = (primary: Series, sliceIndex: number, overlay: Series, matching: FusionSettings['sliceMatching']): number | null => {
+  if (matching === 'position') return findSyncedSliceIndex(primary, sliceIndex, overlay);
+  return Math.max(0, Math.min(Math.max(overlay.instances.length, 1) - 1, sliceIndex));
+};
+
+/**
+ * Overlay rectangle in primary image pixels. Both images are assumed to share their centre (no registration);
+ * with Pixel Spacing on both series the overlay keeps its physical size, otherwise it is stretched to fit.
+ */
+export const getFusionPlacement = (
+  primary: DicomImage,
+  primarySeries: Series,
+  overlay: DicomImage,
+  overlaySeries: Series
+): { x: number; y: number; width: number; height: number } => {
+  const primarySpacing = primarySeries.pixelSpacing;
+  const overlaySpacing = overlaySeries.pixelSpacing;
+  if (!primarySpacing || !overlaySpacing) return { x: 0, y: 0, width: primary.columns, height: primary.rows };
+  const width = (overlay.columns * overlaySpacing[1]) / primarySpacing[1];
+  const height = (overlay.rows * overlaySpacing[0]) / primarySpacing[0];
+  return { x: (primary.columns - width) / 2, y: (primary.rows - height) / 2, width, height };
+};
@@ -0,0 +1,193 @@
+import { HangingProtocol, HangingProtocolPane, Series, Study, ViewerPane, ViewportLayout } from '../types';
+import { VIEWPORT_LAYOUTS } from '../constants';
+
+// HANGING PROTOCOLS
+// When a study is opened, the protocols whose rules match its modality and description are ranked, and the
+// best one decides the layout, which series goes in which pane and the initial window of each pane.
+// Built-in protocols ship with the app; protocols saved from the viewer are kept in localStorage.
+
+const STORAGE_KEY = 'viberad.hangingProtocols';
+
+export const BUILT_IN_HANGING_PROTOCOLS: HangingProtocol[] = [
+  {
+    id: 'mr-brain-stroke',
+    name: 'Brain stroke: DWI | ADC | FLAIR',
+    match: { modality: '^MR$', studyDescription: 'stroke' },
+    layout: '1x3',
+    panes: [
+      { seriesDescription: 'DWI|diffusion|trace', windowPreset: 'Brain' },
+      { seriesDescription: 'ADC', windowPreset: 'Brain' },
+      { seriesDescription: 'FLAIR', windowPreset: 'Brain' },
+    ],
+    isBuiltIn: true,
+  },
+  {
+    id: 'mr-brain-t1-flair',
+    name: 'Brain MR: T1 | FLAIR',
+    match: { modality: '^MR$', studyDescription: 'brain|head|stroke' },
+    layout: '1x2',
+    panes: [
+      { seriesDescription: 'T1', windowPreset: 'Brain' },
+      { seriesDescription: 'FLAIR', windowPreset: 'Brain' },
+    ],
+    isBuiltIn: true,
+  },
+  {
+    id: 'ct-chest',
+    name: 'CT chest: Lung | Soft tissue',
+    match: { modality: '^CT$', studyDescription: 'chest|thorax|lung' },
+    layout: '1x2',
+    panes: [
+      { windowPreset: 'Lung' },
+      { windowPreset: 'Soft Tissue' },
+    ],
+    isBuiltIn: true,
+  },
+];
+
+const LAYOUT_IDS = VIEWPORT_LAYOUTS.map(l => l.id);
+
+const getPaneCount = (layout: ViewportLayout) => {
+  const def = VIEWPORT_LAYOUTS.find(l => l.id === layout)!;
+  return def.columns * def.rows;
+};
+
+// Unusable patterns fall back to a plain substring test
+const matchesPattern = (pattern: string | undefined, value: string) => {
+  if (!pattern) return true;
+  try {
+    return new RegExp(pattern, 'i').test(value);
+  } catch {
+    return value.toLowerCase().includes(pattern.toLowerCase());
+  }
+};
+
+const escapePattern = (s: string) => `^${s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`;
+
+const matchesSeries = (rule: HangingProtocolPane, series: Series) =>
+  matchesPattern(rule.seriesDescription, series.description) && matchesPattern(rule.modality, series.modality);
+
+/**
+ * Protocols whose study rules match and that place at least one series, best first.
+ * Ranking: more study rules met, then more panes filled by a series rule; ties keep the given order.
+ */
+export const findMatchingHangingProtocols = (protocols: HangingProtocol[], study: Study, seriesList: Series[]): HangingProtocol[] =>
+  protocols
+    .filter(p => matchesPattern(p.match.modality, study.modality) && matchesPattern(p.match.studyDescription, study.description))
+    .map(p => {
+      const studyRules = [p.match.modality, p.match.studyDescription].filter(Boolean).length;
+      const seriesRules = p.panes.filter(rule => rule.seriesDescription && seriesList.some(s => matchesSeries(rule, s))).length;
+      const placed = p.panes.some(rule => seriesList.some(s => matchesSeries(rule, s)));
+      return { protocol: p, score: studyRules * 100 + seriesRules, placed };
+    })
+    .filter(r => r.placed)
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.protocol);
+
+/**
+ * Panes for a protocol. Each pane takes the first matching series not shown yet (or an already shown one);
+ * panes without a rule, or whose rule finds nothing, take the next unused series. Panes open mid-stack.
+ */
+export const hangSeries = (protocol: HangingProtocol, seriesList: Series[]): { layout: ViewportLayout; panes: ViewerPane[] } => {
+  const used = new Set<string>();
+  const rules = Array.from({ length: getPaneCount(protocol.layout) }, (_, i) => protocol.panes[i]);
+  const chosen = rules.map(rule => {
+    if (!rule) return undefined;
+    const candidates = seriesList.filter(s => matchesSeries(rule, s));
+    const series = candidates.find(s => !used.has(s.id)) ?? candidates[0];
+    if (series) used.add(series.id);
+    return series;
+  });
+
+  const panes = chosen.map((picked, i): ViewerPane => {
+    let series = picked;
+    if (!series) {
+      series = seriesList.find(s => !used.has(s.id)) ?? seriesList[0];
+      if (series) used.add(series.id);
+    }
+    return {
+      id: `pane-${i + 1}`,
+      seriesId: series?.id ?? null,
+      sliceIndex: series ? Math.floor(series.instanceCount / 2) : 0,
+      ...(rules[i]?.windowPreset ? { windowPreset: rules[i]!.windowPreset } : {}),
+    };
+  });
+  return { layout: protocol.layout, panes };
+};
+
+/**
+ * Protocol reproducing the current layout for studies like this one (same modality and description,
+ * each pane matched by its series description). Panes keep the window preset they were hung with.
+ */
+export const createHangingProtocol = (
+  name: string,
+  study: Study,
+  layout: ViewportLayout,
+  panes: ViewerPane[],
+  seriesList: Series[],
+  now = Date.now()
+): HangingProtocol => ({
+  id: `user-${now}`,
+  name: name.trim() || `${study.description} layout`,
+  match: { modality: escapePattern(study.modality), studyDescription: escapePattern(study.description) },
+  layout,
+  panes: panes.slice(0, getPaneCount(layout)).map(pane => {
+    const series = seriesList.find(s => s.id === pane.seriesId);
+    return {
+      ...(series ? { seriesDescription: escapePattern(series.description) } : {}),
+      ...(pane.windowPreset ? { windowPreset: pane.windowPreset } : {}),
+    };
+  }),
+});
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+// Fields of a JSON object; anything else reads as having none
+const fieldsOf = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+
+const isLayoutId = (value: unknown): value is ViewportLayout =>
+  typeof value === 'string' && (LAYOUT_IDS as string[]).includes(value);
+
+/**
+ * Validates protocols read from JSON; malformed entries are dropped.
+ */
+export const parseHangingProtocols = (value: unknown): HangingProtocol[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry: unknown): HangingProtocol[] => {
+    const { id, name, match, layout, panes } = fieldsOf(entry);
+    if (typeof id !== 'string' || typeof name !== 'string' || !isLayoutId(layout) || !Array.isArray(panes)) return [];
+    const { modality, studyDescription } = fieldsOf(match);
+    return [{
+      id,
+      name,
+      match: { modality: optionalString(modality), studyDescription: optionalString(studyDescription) },
+      layout,
+      panes: panes.map((rule: unknown) => {
+        const fields = fieldsOf(rule);
+        return {
+          seriesDescription: optionalString(fields.seriesDescription),
+          modality: optionalString(fields.modality),
+          windowPreset: optionalString(fields.windowPreset),
+        };
+      }),
+    }];
+  });
+};
+
+export const loadSavedHangingProtocols = (): HangingProtocol[] => {
+  try {
+    return parseHangingProtocols(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+  } catch {
+    // Unreadable or unavailable storage: built-in protocols only
+    return [];
+  }
+};
+
+export const saveHangingProtocols = (protocols: HangingProtocol[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(protocols.filter(p => !p.isBuiltIn)));
+  } catch {
+    // Private mode: saved protocols last for this page only
+  }
+};
@@ -0,0 +1,49 @@
+import { DicomImage, WindowPreset } from '../types';
+import { VoiSettings, renderVoiToRgba, getModalityRange } from './voiLut';
+
+/**
+ * Default display window for an image: the dataset's own Window Center/Width (and VOI LUT Function)
+ * if present, otherwise the full range of modality values (stored values after rescale).
+ */
+export const getDefaultWindow = (image: DicomImage): VoiSettings => {
+  const voiLutFunction = image.voiLutFunction ?? 'LINEAR';
+  if (image.windowCenter !== undefined && image.windowWidth !== undefined && image.windowWidth > 0) {
+    return { windowCenter: image.windowCenter, windowWidth: image.windowWidth, voiLutFunction };
+  }
+  const { min, max } = getModalityRange(image);
+  return { windowCenter: (min + max) / 2, windowWidth: Math.max(1, max - min), voiLutFunction };
+};
+
+/**
+ * Maps the decoded frame through the VOI LUT (defaulting to the image's own window) and paints it
+ * into the given canvas (resized to the image).
+ */
+export const renderImageToCanvas = (image: DicomImage, canvas: HTMLCanvasElement, voi: VoiSettings = getDefaultWindow(image)) => {
+  const { rows, columns } = image;
+  if (canvas.width !== columns) canvas.width = columns;
+  if (canvas.height !== rows) canvas.height = rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const out = ctx.createImageData(columns, rows);
+  renderVoiToRgba(image, voi, out.data);
+  ctx.putImageData(out, 0, 0);
+};
+
+/**
+ * Resolves a preset into absolute modality units. Relative presets scale against the
+ * modality value range of the given image.
+ */
+export const resolveWindowPreset = (preset: WindowPreset, image: DicomImage | null): VoiSettings => {
+  const voiLutFunction = preset.voiLutFunction ?? 'LINEAR';
+  if (!preset.relative || !image) {
+    return { windowCenter: preset.wc, windowWidth: preset.ww, voiLutFunction };
+  }
+  const { min, max } = getModalityRange(image);
+  const span = Math.max(1, max - min);
+  return {
+    windowCenter: min + span * preset.wc,
+    windowWidth: Math.max(1, span * preset.ww),
+    voiLutFunction,
+  };
+};
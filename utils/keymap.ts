@@ -0,0 +1,147 @@
+import { ToolMode } from '../types';
+
+// KEYBOARD SHORTCUTS
+// Every viewer command with a keyboard shortcut is listed here with its default keys. Users can rebind
+// them; only the bindings that differ from the defaults are kept in localStorage, so commands added later
+// get their default keys. Keys are written like "W", "Shift+ArrowUp" or "Ctrl+Z" (Ctrl also matches Cmd).
+
+export type CommandId =
+  | 'tool.pointer' | 'tool.scroll' | 'tool.windowLevel' | 'tool.pan' | 'tool.zoom' | 'tool.measure' | 'tool.brush' | 'tool.eraser'
+  | 'slice.previous' | 'slice.next' | 'slice.pageBack' | 'slice.pageForward' | 'slice.first' | 'slice.last'
+  | 'preset.1' | 'preset.2' | 'preset.3' | 'preset.4' | 'view.reset' | 'cine.toggle'
+  | 'segmentation.undo' | 'segmentation.redo'
+  | 'ai.capture' | 'help.shortcuts';
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  group: 'Tools' | 'Slices' | 'View' | 'Segmentation' | 'AI' | 'Help';
+  defaultKeys: string[];
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'tool.pointer', label: 'Select tool', group: 'Tools', defaultKeys: ['V'] },
+  { id: 'tool.scroll', label: 'Scroll tool', group: 'Tools', defaultKeys: ['S'] },
+  { id: 'tool.windowLevel', label: 'Window/level tool', group: 'Tools', defaultKeys: ['W'] },
+  { id: 'tool.pan', label: 'Pan tool', group: 'Tools', defaultKeys: ['P'] },
+  { id: 'tool.zoom', label: 'Zoom tool', group: 'Tools', defaultKeys: ['Z'] },
+  { id: 'tool.measure', label: 'Measure tool', group: 'Tools', defaultKeys: ['M'] },
+  { id: 'tool.brush', label: 'Paint brush', group: 'Tools', defaultKeys: ['B'] },
+  { id: 'tool.eraser', label: 'Eraser', group: 'Tools', defaultKeys: ['E'] },
+  { id: 'slice.previous', label: 'Previous slice', group: 'Slices', defaultKeys: ['ArrowUp', 'ArrowLeft'] },
+  { id: 'slice.next', label: 'Next slice', group: 'Slices', defaultKeys: ['ArrowDown', 'ArrowRight'] },
+  { id: 'slice.pageBack', label: 'Back 10 slices', group: 'Slices', defaultKeys: ['PageUp'] },
+  { id: 'slice.pageForward', label: 'Forward 10 slices', group: 'Slices', defaultKeys: ['PageDown'] },
+  { id: 'slice.first', label: 'First slice', group: 'Slices', defaultKeys: ['Home'] },
+  { id: 'slice.last', label: 'Last slice', group: 'Slices', defaultKeys: ['End'] },
+  { id: 'preset.1', label: 'Window preset 1', group: 'View', defaultKeys: ['1'] },
+  { id: 'preset.2', label: 'Window preset 2', group: 'View', defaultKeys: ['2'] },
+  { id: 'preset.3', label: 'Window preset 3', group: 'View', defaultKeys: ['3'] },
+  { id: 'preset.4', label: 'Window preset 4', group: 'View', defaultKeys: ['4'] },
+  { id: 'view.reset', label: 'Reset zoom, pan and window', group: 'View', defaultKeys: ['R'] },
+  { id: 'cine.toggle', label: 'Play/pause cine', group: 'View', defaultKeys: ['Space'] },
+  { id: 'segmentation.undo', label: 'Undo mask edit', group: 'Segmentation', defaultKeys: ['Ctrl+Z'] },
+  { id: 'segmentation.redo', label: 'Redo mask edit', group: 'Segmentation', defaultKeys: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+  { id: 'ai.capture', label: 'Capture view for the AI', group: 'AI', defaultKeys: ['C'] },
+  { id: 'help.shortcuts', label: 'Show keyboard shortcuts', group: 'Help', defaultKeys: ['?'] },
+];
+
+// Commands that switch the active tool
+export const TOOL_COMMANDS: Partial<Record<CommandId, ToolMode>> = {
+  'tool.pointer': ToolMode.POINTER,
+  'tool.scroll': ToolMode.SCROLL,
+  'tool.windowLevel': ToolMode.WINDOW_LEVEL,
+  'tool.pan': ToolMode.PAN,
+  'tool.zoom': ToolMode.ZOOM,
+  'tool.measure': ToolMode.MEASURE,
+  'tool.brush': ToolMode.BRUSH,
+  'tool.eraser': ToolMode.ERASER,
+};
+
+export type Keymap = Record<CommandId, string[]>;
+
+const STORAGE_KEY = 'viberad.keymap';
+
+export const getDefaultKeymap = (): Keymap =>
+  Object.fromEntries(COMMANDS.map(c => [c.id, [...c.defaultKeys]])) as Keymap;
+
+// Pressed on their own these only modify other keys
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'CapsLock', 'Dead', 'Unidentified']);
+
+/**
+ * The key a keydown event stands for, in keymap notation; null for a bare modifier.
+ * Shift is left out for symbols that need it anyway ("?", not "Shift+?").
+ */
+export const keyFromEvent = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && (e.key.length > 1 || /[a-z]/i.test(e.key))) parts.push('Shift');
+  return [...parts, key].join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→', PageUp: 'PgUp', PageDown: 'PgDn',
+};
+
+export const formatKey = (key: string) =>
+  key.split(/\+(?!$)/).map(part => KEY_LABELS[part] ?? part).join(' + ');
+
+/**
+ * " (W)" style suffix for button titles; empty when the command has no key.
+ */
+export const formatKeyHint = (keymap: Keymap, id: CommandId) =>
+  keymap[id].length > 0 ? ` (${formatKey(keymap[id][0])})` : '';
+
+export const findCommandForKey = (keymap: Keymap, key: string): CommandId | null =>
+  COMMANDS.find(c => keymap[c.id].includes(key))?.id ?? null;
+
+/**
+ * Binds `key` to a command, taking it away from whichever command had it.
+ */
+export const bindKey = (keymap: Keymap, id: CommandId, key: string): Keymap => {
+  const next = { ...keymap };
+  COMMANDS.forEach(c => {
+    if (next[c.id].includes(key)) next[c.id] = next[c.id].filter(k => k !== key);
+  });
+  next[id] = [...next[id], key];
+  return next;
+};
+
+export const unbindKey = (keymap: Keymap, id: CommandId, key: string): Keymap => ({
+  ...keymap,
+  [id]: keymap[id].filter(k => k !== key),
+});
+
+/**
+ * Defaults with the stored bindings applied. Unknown commands and malformed entries are ignored.
+ */
+export const parseKeymap = (raw: unknown): Keymap => {
+  const keymap = getDefaultKeymap();
+  if (!raw || typeof raw !== 'object') return keymap;
+  COMMANDS.forEach(c => {
+    const keys = (raw as Record<string, unknown>)[c.id];
+    if (Array.isArray(keys) && keys.every(k => typeof k === 'string')) keymap[c.id] = keys;
+  });
+  return keymap;
+};
+
+export const loadKeymap = (): Keymap => {
+  try {
+    return parseKeymap(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+  } catch {
+    // Unreadable or unavailable storage: default bindings
+    return getDefaultKeymap();
+  }
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+  const changed = COMMANDS.filter(c => keymap[c.id].join() !== c.defaultKeys.join());
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(changed.map(c => [c.id, keymap[c.id]]))));
+  } catch {
+    // Private mode: the bindings last for this page only
+  }
+};
@@ -0,0 +1,43 @@
+import { RleSlice, removeLabelFromRle } from './labelMap';
+import { interpolateBetweenSlices } from './sliceInterpolation';
+import { growRegion } from './segmentationTools';
+
+// LABEL JOBS
+// Bulk label-map operations, written as plain data in → plain data out so they can run in the
+// label worker (see labelWorker.ts) or, where workers are unavailable, on the main thread.
+
+export type LabelJob =
+  | { type: 'removeSegment'; id: number; slices: RleSlice[] }
+  | { type: 'interpolate'; width: number; height: number; keySlices: [number, Uint8Array][] }
+  // Modality values per slice; null slices act as walls
+  | { type: 'growRegion'; width: number; height: number; slices: (Float32Array | null)[]; seed: { x: number; y: number; sliceIndex: number }; tolerance: number; in3d: boolean };
+
+export type LabelJobResult =
+  // Same order as the job's slices; null = the slice is empty now
+  | { type: 'removeSegment'; slices: (RleSlice | null)[] }
+  | { type: 'interpolate'; slices: [number, Uint8Array][] }
+  | { type: 'growRegion'; slices: [number, Uint8Array][]; truncated?: boolean };
+
+export interface LabelJobMessage {
+  id: number;
+  job: LabelJob;
+}
+
+export interface LabelJobReply {
+  id: number;
+  result?: LabelJobResult;
+  error?: string;
+}
+
+export const runLabelJob = (job: LabelJob): LabelJobResult => {
+  switch (job.type) {
+    case 'removeSegment':
+      return { type: 'removeSegment', slices: job.slices.map(slice => removeLabelFromRle(slice, job.id)) };
+    case 'interpolate':
+      return { type: 'interpolate', slices: [...interpolateBetweenSlices(new Map(job.keySlices), job.width, job.height)] };
+    case 'growRegion': {
+      const selection = growRegion(job.slices, job.width, job.height, job.seed, job.tolerance, job.in3d);
+      return { type: 'growRegion', slices: [...selection.slices], truncated: selection.truncated };
+    }
+  }
+};
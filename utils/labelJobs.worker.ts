@@ -0,0 +1,15 @@
+import { runLabelJob, LabelJobMessage, LabelJobReply } from './labelJobs';
+
+// Entry point of the label worker; see labelWorker.ts for the main-thread side.
+
+// The DOM lib types `self` as a Window, whose postMessage needs a target origin
+const reply = (message: LabelJobReply) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<LabelJobMessage>) => {
+  const { id, job } = e.data;
+  try {
+    reply({ id, result: runLabelJob(job) });
+  } catch (err: any) {
+    reply({ id, error: err.message || 'Label job failed' });
+  }
+};
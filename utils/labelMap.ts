@@ -0,0 +1,156 @@
+import { Point } from '../types';
+import { MaskRect } from './maskHistory';
+
+// LABEL MAPS
+// Segmentation labels are one Uint16 segment ID per pixel (0 = unlabelled), so up to 65535 segments.
+// Slices that are not being edited or viewed are kept run-length encoded, and empty slices are not
+// stored at all; the viewer colors label slices into canvases only when it draws them.
+
+export const MAX_SEGMENT_ID = 65535;
+
+export interface LabelSlice {
+  width: number;
+  height: number;
+  labels: Uint16Array;
+}
+
+// Runs of equal labels in row-major order
+export interface RleSlice {
+  width: number;
+  height: number;
+  values: Uint16Array;
+  lengths: Uint32Array;
+}
+
+/**
+ * Run-length encodes a slice; null when every pixel is unlabelled.
+ */
+export const encodeRle = (labels: ArrayLike<number>, width: number, height: number): RleSlice | null => {
+  const values: number[] = [];
+  const lengths: number[] = [];
+  let hasLabels = false;
+  for (let i = 0; i < labels.length; i++) {
+    const v = labels[i];
+    if (v) hasLabels = true;
+    if (values.length > 0 && values[values.length - 1] === v) lengths[lengths.length - 1]++;
+    else {
+      values.push(v);
+      lengths.push(1);
+    }
+  }
+  return hasLabels ? { width, height, values: Uint16Array.from(values), lengths: Uint32Array.from(lengths) } : null;
+};
+
+export const decodeRle = (rle: RleSlice): Uint16Array => {
+  const labels = new Uint16Array(rle.width * rle.height);
+  let offset = 0;
+  for (let r = 0; r < rle.values.length; r++) {
+    if (rle.values[r]) labels.fill(rle.values[r], offset, offset + rle.lengths[r]);
+    offset += rle.lengths[r];
+  }
+  return labels;
+};
+
+export const getRleSegmentIds = (rle: RleSlice): Set<number> => {
+  const ids = new Set<number>();
+  rle.values.forEach(v => { if (v) ids.add(v); });
+  return ids;
+};
+
+/**
+ * Clears one segment from an encoded slice, merging the runs it leaves behind. Null when nothing is left.
+ */
+export const removeLabelFromRle = (rle: RleSlice, id: number): RleSlice | null => {
+  const values: number[] = [];
+  const lengths: number[] = [];
+  for (let r = 0; r < rle.values.length; r++) {
+    const v = rle.values[r] === id ? 0 : rle.values[r];
+    if (values.length > 0 && values[values.length - 1] === v) lengths[lengths.length - 1] += rle.lengths[r];
+    else {
+      values.push(v);
+      lengths.push(rle.lengths[r]);
+    }
+  }
+  if (!values.some(v => v)) return null;
+  return { width: rle.width, height: rle.height, values: Uint16Array.from(values), lengths: Uint32Array.from(lengths) };
+};
+
+export const getSegmentIds = (labels: ArrayLike<number>): Set<number> => {
+  const ids = new Set<number>();
+  for (let i = 0; i < labels.length; i++) if (labels[i]) ids.add(labels[i]);
+  return ids;
+};
+
+/**
+ * Smallest typed array that holds the labels (a copy): Uint8Array while every ID is below 256.
+ */
+export const packLabels = (labels: ArrayLike<number>): Uint8Array | Uint16Array => {
+  let max = 0;
+  for (let i = 0; i < labels.length; i++) if (labels[i] > max) max = labels[i];
+  return max > 255 ? Uint16Array.from(labels) : Uint8Array.from(labels);
+};
+
+/**
+ * Calls `visit` with the index of every pixel whose centre lies within `radius` of the segment p1–p2
+ * (a brush stroke with round caps). Returns the pixel rect covered, or null if the stroke misses the image.
+ */
+export const forEachStrokePixel = (
+  width: number,
+  height: number,
+  p1: Point,
+  p2: Point,
+  radius: number,
+  visit: (index: number) => void
+): MaskRect | null => {
+  // Pixels whose centre (x + 0.5) can be within reach
+  const x0 = Math.max(0, Math.ceil(Math.min(p1.x, p2.x) - radius - 0.5));
+  const x1 = Math.min(width - 1, Math.floor(Math.max(p1.x, p2.x) + radius - 0.5));
+  const y0 = Math.max(0, Math.ceil(Math.min(p1.y, p2.y) - radius - 0.5));
+  const y1 = Math.min(height - 1, Math.floor(Math.max(p1.y, p2.y) + radius - 0.5));
+  if (x1 < x0 || y1 < y0) return null;
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const cx = x + 0.5;
+      const cy = y + 0.5;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((cx - p1.x) * dx + (cy - p1.y) * dy) / lengthSq));
+      if (Math.hypot(cx - (p1.x + t * dx), cy - (p1.y + t * dy)) <= radius) visit(y * width + x);
+    }
+  }
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+/**
+ * Paints (or, with `segmentId` 0, erases) a brush stroke into the labels. Returns the rect to redraw.
+ */
+export const paintStroke = (slice: LabelSlice, p1: Point, p2: Point, radius: number, segmentId: number): MaskRect | null =>
+  forEachStrokePixel(slice.width, slice.height, p1, p2, radius, i => { slice.labels[i] = segmentId; });
+
+/**
+ * Colors the labels inside `rect` into `out` (RGBA, rect-sized). IDs without a color stay transparent.
+ */
+export const renderLabelsToRgba = (
+  labels: Uint16Array,
+  width: number,
+  rect: MaskRect,
+  colors: Map<number, [number, number, number]>,
+  out: Uint8ClampedArray
+) => {
+  for (let row = 0; row < rect.height; row++) {
+    for (let col = 0; col < rect.width; col++) {
+      const o = (row * rect.width + col) * 4;
+      const color = colors.get(labels[(rect.y + row) * width + rect.x + col]);
+      if (color) {
+        out[o] = color[0];
+        out[o + 1] = color[1];
+        out[o + 2] = color[2];
+        out[o + 3] = 255;
+      } else {
+        out[o + 3] = 0;
+      }
+    }
+  }
+};
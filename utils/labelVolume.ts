@@ -0,0 +1,132 @@
+import { Series, Segment } from '../types';
+import { MaskStore } from './maskStore';
+import { MAX_SEGMENT_ID, packLabels } from './labelMap';
+
+// LABEL VOLUME
+// The painted masks of a series flattened into one voxel array for export.
+// Voxels are slice-major like utils/volume.ts: index = z * rows * columns + y * columns + x,
+// with z following the series' instance order and the value being the segment ID (0 = background).
+// Labels are Uint8 while every segment ID fits in a byte, Uint16 otherwise.
+
+export interface LabelVolume {
+  columns: number;
+  rows: number;
+  slices: number;
+  labels: Uint8Array | Uint16Array;
+}
+
+/**
+ * Collects every painted slice of a series. Returns null if nothing has been painted.
+ */
+export const buildLabelVolume = (maskStore: MaskStore, series: Series): LabelVolume | null => {
+  const slices = series.instances.length || series.instanceCount;
+  const painted: { index: number; labels: Uint16Array }[] = [];
+  let columns = 0;
+  let rows = 0;
+
+  for (let z = 0; z < slices; z++) {
+    const slice = maskStore.getLabelSlice(series.id, z);
+    if (!slice) continue;
+    if (columns && (slice.width !== columns || slice.height !== rows)) {
+      throw new Error(`Mask on slice ${z + 1} is ${slice.width}×${slice.height} but earlier masks are ${columns}×${rows}.`);
+    }
+    columns = slice.width;
+    rows = slice.height;
+    painted.push({ index: z, labels: slice.labels });
+  }
+
+  if (!painted.some(p => p.labels.some(v => v !== 0))) return null;
+
+  const labels = new Uint16Array(columns * rows * slices);
+  painted.forEach(p => labels.set(p.labels, p.index * columns * rows));
+  return { columns, rows, slices, labels: packLabels(labels) };
+};
+
+/**
+ * Segment IDs that occur in the volume, ascending.
+ */
+export const getPresentLabels = (volume: LabelVolume): number[] => {
+  const seen = new Set<number>();
+  volume.labels.forEach(v => { if (v) seen.add(v); });
+  return Array.from(seen).sort((a, b) => a - b);
+};
+
+/**
+ * Segment lookup table for the labels present (sidecar for label volumes).
+ * Labels painted with a segment that has since been removed from the palette get a placeholder name.
+ */
+export const buildSegmentLut = (volume: LabelVolume, segments: Segment[]) =>
+  getPresentLabels(volume).map(value => {
+    const segment = segments.find(s => s.id === value);
+    return {
+      value,
+      label: segment?.label ?? `Segment ${value}`,
+      color: segment?.color ?? [255, 255, 255] as [number, number, number],
+    };
+  });
+
+// --- IMPORT ---
+
+export interface ImportedSegment {
+  value: number; // label value in the imported file
+  label?: string;
+  color?: [number, number, number];
+}
+
+// Colors for imported labels that carry none
+const IMPORT_PALETTE: [number, number, number][] = [
+  [248, 230, 80], [80, 244, 236], [239, 68, 68], [34, 197, 94],
+  [59, 130, 246], [236, 72, 153], [249, 115, 22], [168, 85, 247],
+];
+
+/**
+ * Nearest-neighbour resample of one label slice onto the mask grid, mapping file values to segment IDs.
+ * Values without an entry in `idByValue` become background.
+ */
+export const resampleLabelSlice = (
+  values: ArrayLike<number>,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
+  idByValue: Map<number, number>
+): Uint16Array => {
+  const out = new Uint16Array(dstWidth * dstHeight);
+  for (let y = 0; y < dstHeight; y++) {
+    const sy = Math.min(srcHeight - 1, Math.floor(((y + 0.5) * srcHeight) / dstHeight));
+    for (let x = 0; x < dstWidth; x++) {
+      const sx = Math.min(srcWidth - 1, Math.floor(((x + 0.5) * srcWidth) / dstWidth));
+      out[y * dstWidth + x] = idByValue.get(values[sy * srcWidth + sx]) ?? 0;
+    }
+  }
+  return out;
+};
+
+/**
+ * Adds imported label definitions to the segment list. A label whose name matches an existing
+ * segment (case-insensitive) reuses that segment; others get the next free ID.
+ */
+export const mergeImportedSegments = (existing: Segment[], imported: ImportedSegment[]) => {
+  const segments = [...existing];
+  const idByValue = new Map<number, number>();
+  let nextId = existing.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+
+  imported.filter(entry => entry.value !== 0).forEach(entry => {
+    const label = entry.label?.trim() || `Label ${entry.value}`;
+    const match = segments.find(s => s.label.toLowerCase() === label.toLowerCase());
+    if (match) {
+      idByValue.set(entry.value, match.id);
+      return;
+    }
+    if (nextId > MAX_SEGMENT_ID) throw new Error(`Too many segments: masks hold at most ${MAX_SEGMENT_ID} labels.`);
+    segments.push({
+      id: nextId,
+      label,
+      color: entry.color ?? IMPORT_PALETTE[(nextId - 1) % IMPORT_PALETTE.length],
+      isVisible: true,
+    });
+    idByValue.set(entry.value, nextId++);
+  });
+
+  return { segments, idByValue };
+};
@@ -0,0 +1,78 @@
+import { LabelJob, LabelJobResult, LabelJobReply, runLabelJob } from './labelJobs';
+import { RleSlice } from './labelMap';
+import { SegmentationSelection } from './segmentationTools';
+
+// LABEL WORKER
+// Runs bulk label jobs (removing a segment from every slice, interpolating between slices, 3D region
+// growing) in a Web Worker so painting stays responsive. Without worker support (e.g. tests), or after
+// the worker fails, jobs run on the main thread instead.
+
+export interface LabelWorker {
+  removeSegment: (slices: RleSlice[], id: number) => Promise<(RleSlice | null)[]>;
+  interpolate: (keySlices: Map<number, Uint8Array>, width: number, height: number) => Promise<Map<number, Uint8Array>>;
+  growRegion: (
+    slices: (Float32Array | null)[], width: number, height: number,
+    seed: { x: number; y: number; sliceIndex: number }, tolerance: number, in3d: boolean
+  ) => Promise<SegmentationSelection>;
+  dispose: () => void;
+}
+
+export const createLabelWorker = (): LabelWorker => {
+  let worker: Worker | null = null;
+  try {
+    if (typeof Worker !== 'undefined') {
+      worker = new Worker(new URL('./labelJobs.worker.ts', import.meta.url), { type: 'module' });
+    }
+  } catch (e) {
+    console.warn('Label worker unavailable, running label jobs on the main thread', e);
+  }
+
+  const pending = new Map<number, { resolve: (result: LabelJobResult) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+
+  if (worker) {
+    worker.onmessage = (e: MessageEvent<LabelJobReply>) => {
+      const job = pending.get(e.data.id);
+      if (!job) return;
+      pending.delete(e.data.id);
+      if (e.data.result) job.resolve(e.data.result);
+      else job.reject(new Error(e.data.error || 'Label job failed'));
+    };
+    worker.onerror = () => {
+      pending.forEach(job => job.reject(new Error('The label worker stopped unexpectedly.')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  const run = (job: LabelJob): Promise<LabelJobResult> => {
+    if (!worker) return Promise.resolve().then(() => runLabelJob(job));
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker!.postMessage({ id, job });
+    });
+  };
+
+  return {
+    removeSegment: async (slices, id) => {
+      const result = await run({ type: 'removeSegment', id, slices });
+      return result.type === 'removeSegment' ? result.slices : [];
+    },
+    interpolate: async (keySlices, width, height) => {
+      const result = await run({ type: 'interpolate', width, height, keySlices: [...keySlices] });
+      return new Map(result.type === 'interpolate' ? result.slices : []);
+    },
+    growRegion: async (slices, width, height, seed, tolerance, in3d) => {
+      const result = await run({ type: 'growRegion', width, height, slices, seed, tolerance, in3d });
+      return result.type === 'growRegion'
+        ? { width, height, slices: new Map(result.slices), truncated: result.truncated }
+        : { width, height, slices: new Map() };
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
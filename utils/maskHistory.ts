@@ -0,0 +1,119 @@
+// SEGMENTATION UNDO / REDO
+// Each brush or eraser stroke is recorded as a dirty-rect patch: the label IDs of the
+// touched rectangle before and after the stroke. Undo pastes `before` back, redo pastes `after`.
+// Stacks are kept per series and bounded, oldest edits are dropped first.
+
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MaskEdit {
+  sliceIndex: number;
+  rect: MaskRect;
+  before: Uint16Array;
+  after: Uint16Array;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export const unionRect = (a: MaskRect | null, b: MaskRect): MaskRect => {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+/**
+ * Snaps a rect outwards to whole pixels and clips it to the mask. Returns null if nothing is left.
+ */
+export const clipRect = (rect: MaskRect, width: number, height: number): MaskRect | null => {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+/**
+ * Copies the labels of `rect` out of a full slice `width` pixels wide.
+ */
+export const cropLabels = (labels: Uint16Array, width: number, rect: MaskRect): Uint16Array => {
+  const out = new Uint16Array(rect.width * rect.height);
+  for (let row = 0; row < rect.height; row++) {
+    const start = (rect.y + row) * width + rect.x;
+    out.set(labels.subarray(start, start + rect.width), row * rect.width);
+  }
+  return out;
+};
+
+/**
+ * Writes a patch taken with `cropLabels` back into the slice.
+ */
+export const pasteLabels = (labels: Uint16Array, width: number, rect: MaskRect, patch: Uint16Array) => {
+  for (let row = 0; row < rect.height; row++) {
+    labels.set(patch.subarray(row * rect.width, (row + 1) * rect.width), (rect.y + row) * width + rect.x);
+  }
+};
+
+export interface MaskHistory {
+  push: (seriesId: string, edit: MaskEdit) => void;
+  // Both return the edit to apply (undo → paste `before`, redo → paste `after`)
+  undo: (seriesId: string) => MaskEdit | null;
+  redo: (seriesId: string) => MaskEdit | null;
+  canUndo: (seriesId: string) => boolean;
+  canRedo: (seriesId: string) => boolean;
+  // Drops the stacks of one series, or of every series when none is given
+  clear: (seriesId?: string) => void;
+}
+
+export const createMaskHistory = (limit = DEFAULT_HISTORY_LIMIT): MaskHistory => {
+  const stacks = new Map<string, { undo: MaskEdit[]; redo: MaskEdit[] }>();
+
+  const getStacks = (seriesId: string) => {
+    if (!stacks.has(seriesId)) stacks.set(seriesId, { undo: [], redo: [] });
+    return stacks.get(seriesId)!;
+  };
+
+  return {
+    push: (seriesId, edit) => {
+      const s = getStacks(seriesId);
+      s.undo.push(edit);
+      if (s.undo.length > limit) s.undo.shift();
+      // A new edit invalidates the redo branch
+      s.redo = [];
+    },
+
+    undo: (seriesId) => {
+      const s = getStacks(seriesId);
+      const edit = s.undo.pop();
+      if (!edit) return null;
+      s.redo.push(edit);
+      return edit;
+    },
+
+    redo: (seriesId) => {
+      const s = getStacks(seriesId);
+      const edit = s.redo.pop();
+      if (!edit) return null;
+      s.undo.push(edit);
+      return edit;
+    },
+
+    canUndo: (seriesId) => (stacks.get(seriesId)?.undo.length ?? 0) > 0,
+    canRedo: (seriesId) => (stacks.get(seriesId)?.redo.length ?? 0) > 0,
+
+    clear: (seriesId) => {
+      if (seriesId === undefined) stacks.clear();
+      else stacks.delete(seriesId);
+    },
+  };
+};
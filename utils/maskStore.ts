@@ -0,0 +1,332 @@
+// SEGMENTATION MASK STORE
+// Label maps shared by every viewport, keyed by Series ID → Slice Index, so several panes showing
+// the same series paint into and display the same data. A slice holds one Uint16 segment ID per pixel
+// (see labelMap.ts): recently used slices stay decoded, the others are run-length encoded, and empty
+// slices are not stored. Removing a segment from every slice runs in the label worker.
+// Strokes are recorded between beginStroke/endStroke for per-series undo/redo (see maskHistory.ts).
+// Slices generated by interpolation stay flagged until accepted; editing, undoing or redoing a slice accepts it.
+
+import { MaskRect, MaskEdit, createMaskHistory, unionRect, clipRect, cropLabels, pasteLabels } from './maskHistory';
+import { LabelSlice, RleSlice, encodeRle, decodeRle, getRleSegmentIds, getSegmentIds, removeLabelFromRle } from './labelMap';
+import { LabelWorker, createLabelWorker } from './labelWorker';
+
+export interface SliceLabelChange {
+  seriesId: string;
+  sliceIndex: number;
+  labelCount: number;
+}
+
+export type MaskChangeListener = (seriesId: string | null, sliceIndex: number | null, source?: unknown) => void;
+
+export interface MaskStore {
+  // Labels of a slice, decoded on demand, or null if it was never painted.
+  // The array is live: write to it only between beginStroke and endStroke.
+  getLabelSlice: (seriesId: string, sliceIndex: number) => LabelSlice | null;
+  getSliceSegmentIds: (seriesId: string) => Map<number, Set<number>>;
+  // Series that have at least one painted slice
+  getSeriesIds: () => string[];
+  // Drops every mask of a series (e.g. before restoring a saved session)
+  clearSeries: (seriesId: string) => void;
+  // Removes a segment ID from every mask; resolves with the slices whose label count changed
+  removeSegment: (id: number) => Promise<SliceLabelChange[]>;
+  // Paints imported labels (0 = leave as is) into a slice, creating it if needed
+  writeLabelSlice: (seriesId: string, sliceIndex: number, width: number, height: number, labels: ArrayLike<number>) => SliceLabelChange;
+  // seriesId/sliceIndex null = everything changed. `source` lets the painting viewport skip its own update.
+  notify: (seriesId: string | null, sliceIndex: number | null, source?: unknown) => void;
+  subscribe: (listener: MaskChangeListener) => () => void;
+  // Undo/redo recording: a stroke spans mouse down → up on one slice. beginStroke returns the slice to paint into.
+  beginStroke: (seriesId: string, sliceIndex: number, width: number, height: number) => LabelSlice;
+  markDirty: (rect: MaskRect) => void;
+  // Records the stroke and recounts the slice's segments
+  endStroke: () => SliceLabelChange | null;
+  undo: (seriesId: string) => SliceLabelChange | null;
+  redo: (seriesId: string) => SliceLabelChange | null;
+  // Interpolated slices awaiting review: slice index → segment IDs generated there
+  getInterpolatedSlices: (seriesId: string) => Map<number, Set<number>>;
+  // Paints `segmentId` onto the unlabelled pixels of `selected` (undoable) and flags the slice as interpolated
+  writeInterpolatedSlice: (seriesId: string, sliceIndex: number, width: number, height: number, segmentId: number, selected: Uint8Array) => SliceLabelChange;
+  acceptInterpolated: (seriesId: string) => void;
+  // Erases the generated segments from every flagged slice; returns the slices whose label count changed
+  rejectInterpolated: (seriesId: string) => SliceLabelChange[];
+}
+
+// Decoded slices kept around; a few per pane is enough for scrolling and painting
+const HOT_SLICE_LIMIT = 24;
+
+interface HotSlice {
+  seriesId: string;
+  sliceIndex: number;
+  slice: LabelSlice;
+  // Changed since it was last encoded
+  isDirty: boolean;
+}
+
+export const createMaskStore = (worker: LabelWorker = createLabelWorker()): MaskStore => {
+  const encoded = new Map<string, Map<number, RleSlice>>();
+  // Least recently used first
+  const hot = new Map<string, HotSlice>();
+  // Every slice of a series has the image size; kept to recreate slices that were erased empty
+  const sliceSizes = new Map<string, { width: number; height: number }>();
+  const sliceSegmentIds = new Map<string, Map<number, Set<number>>>();
+  const interpolated = new Map<string, Map<number, Set<number>>>();
+  const listeners = new Set<MaskChangeListener>();
+  const history = createMaskHistory();
+  // Slice labels at stroke start; only the dirty rect is kept once the stroke ends
+  let stroke: { hot: HotSlice; base: Uint16Array; dirty: MaskRect | null } | null = null;
+
+  const keyOf = (seriesId: string, sliceIndex: number) => `${seriesId}#${sliceIndex}`;
+
+  const getSliceSegmentIds = (seriesId: string) => {
+    if (!sliceSegmentIds.has(seriesId)) sliceSegmentIds.set(seriesId, new Map());
+    return sliceSegmentIds.get(seriesId)!;
+  };
+
+  const getInterpolatedSlices = (seriesId: string) => {
+    if (!interpolated.has(seriesId)) interpolated.set(seriesId, new Map());
+    return interpolated.get(seriesId)!;
+  };
+
+  const notify = (seriesId: string | null, sliceIndex: number | null, source?: unknown) => {
+    listeners.forEach(l => l(seriesId, sliceIndex, source));
+  };
+
+  // Encodes a changed slice back into its series; empty slices are dropped
+  const flush = (h: HotSlice) => {
+    if (!h.isDirty) return;
+    h.isDirty = false;
+    if (!encoded.has(h.seriesId)) encoded.set(h.seriesId, new Map());
+    const rle = encodeRle(h.slice.labels, h.slice.width, h.slice.height);
+    if (rle) encoded.get(h.seriesId)!.set(h.sliceIndex, rle);
+    else encoded.get(h.seriesId)!.delete(h.sliceIndex);
+  };
+
+  const evict = () => {
+    for (const [key, h] of hot) {
+      if (hot.size <= HOT_SLICE_LIMIT) break;
+      if (stroke?.hot === h) continue;
+      flush(h);
+      hot.delete(key);
+    }
+  };
+
+  // Decoded slice, marked as most recently used; null if the slice is not stored
+  const touch = (seriesId: string, sliceIndex: number): HotSlice | null => {
+    const key = keyOf(seriesId, sliceIndex);
+    let h = hot.get(key);
+    if (h) {
+      hot.delete(key);
+      hot.set(key, h);
+      return h;
+    }
+    const rle = encoded.get(seriesId)?.get(sliceIndex);
+    if (!rle) return null;
+    h = { seriesId, sliceIndex, slice: { width: rle.width, height: rle.height, labels: decodeRle(rle) }, isDirty: false };
+    hot.set(key, h);
+    evict();
+    return h;
+  };
+
+  const getOrCreateHot = (seriesId: string, sliceIndex: number, width: number, height: number): HotSlice => {
+    const existing = touch(seriesId, sliceIndex);
+    if (existing) return existing;
+    if (!sliceSizes.has(seriesId)) sliceSizes.set(seriesId, { width, height });
+    const h = { seriesId, sliceIndex, slice: { width, height, labels: new Uint16Array(width * height) }, isDirty: false };
+    hot.set(keyOf(seriesId, sliceIndex), h);
+    evict();
+    return h;
+  };
+
+  const recount = (seriesId: string, sliceIndex: number, labels: Uint16Array): SliceLabelChange => {
+    const ids = getSegmentIds(labels);
+    getSliceSegmentIds(seriesId).set(sliceIndex, ids);
+    return { seriesId, sliceIndex, labelCount: ids.size };
+  };
+
+  // Whole-slice change made outside a brush stroke, recorded so it can be undone
+  const recordSliceEdit = (seriesId: string, h: HotSlice, before: Uint16Array) => {
+    const { width, height, labels } = h.slice;
+    history.push(seriesId, { sliceIndex: h.sliceIndex, rect: { x: 0, y: 0, width, height }, before, after: labels.slice() });
+  };
+
+  // Restores one side of a recorded edit and recounts the slice's labels
+  const applyEdit = (seriesId: string, edit: MaskEdit, patch: Uint16Array): SliceLabelChange | null => {
+    const size = sliceSizes.get(seriesId);
+    if (!size) return null;
+    const h = getOrCreateHot(seriesId, edit.sliceIndex, size.width, size.height);
+    interpolated.get(seriesId)?.delete(edit.sliceIndex);
+    pasteLabels(h.slice.labels, h.slice.width, edit.rect, patch);
+    h.isDirty = true;
+    const change = recount(seriesId, edit.sliceIndex, h.slice.labels);
+    notify(seriesId, edit.sliceIndex);
+    return change;
+  };
+
+  return {
+    getLabelSlice: (seriesId, sliceIndex) => touch(seriesId, sliceIndex)?.slice ?? null,
+    getSliceSegmentIds,
+
+    getSeriesIds: () => {
+      const ids = new Set(encoded.keys());
+      hot.forEach(h => ids.add(h.seriesId));
+      return Array.from(ids);
+    },
+
+    clearSeries: (seriesId) => {
+      encoded.delete(seriesId);
+      hot.forEach((h, key) => { if (h.seriesId === seriesId) hot.delete(key); });
+      sliceSizes.delete(seriesId);
+      sliceSegmentIds.delete(seriesId);
+      interpolated.delete(seriesId);
+      history.clear(seriesId);
+      notify(seriesId, null);
+    },
+
+    removeSegment: async (id) => {
+      // Changed slices are encoded first so the worker sees every slice
+      hot.forEach(flush);
+      const jobs: { seriesId: string; sliceIndex: number; rle: RleSlice }[] = [];
+      encoded.forEach((bySlice, seriesId) => bySlice.forEach((rle, sliceIndex) => {
+        if (getRleSegmentIds(rle).has(id)) jobs.push({ seriesId, sliceIndex, rle });
+      }));
+      const results = await worker.removeSegment(jobs.map(j => j.rle), id);
+      const resultByKey = new Map(jobs.map((job, i) => [keyOf(job.seriesId, job.sliceIndex), { rle: job.rle, result: results[i] }]));
+
+      // Slices may have been painted on (decoded copies) or re-encoded while the worker ran, so they are cleared here
+      hot.forEach(h => {
+        const { labels } = h.slice;
+        let found = false;
+        for (let p = 0; p < labels.length; p++) if (labels[p] === id) { labels[p] = 0; found = true; }
+        if (found) h.isDirty = true;
+      });
+      encoded.forEach((bySlice, seriesId) => bySlice.forEach((rle, sliceIndex) => {
+        const key = keyOf(seriesId, sliceIndex);
+        if (hot.has(key)) return;
+        const job = resultByKey.get(key);
+        const next = job?.rle === rle ? job.result : getRleSegmentIds(rle).has(id) ? removeLabelFromRle(rle, id) : rle;
+        if (next) bySlice.set(sliceIndex, next);
+        else bySlice.delete(sliceIndex);
+      }));
+
+      // Recorded patches no longer match the masks
+      history.clear();
+      interpolated.forEach(bySlice => bySlice.forEach((ids, sliceIndex) => {
+        if (ids.delete(id) && ids.size === 0) bySlice.delete(sliceIndex);
+      }));
+
+      const changed: SliceLabelChange[] = [];
+      sliceSegmentIds.forEach((bySlice, seriesId) => {
+        bySlice.forEach((ids, sliceIndex) => {
+          if (ids.delete(id)) changed.push({ seriesId, sliceIndex, labelCount: ids.size });
+        });
+      });
+      notify(null, null);
+      return changed;
+    },
+
+    writeLabelSlice: (seriesId, sliceIndex, width, height, labels) => {
+      const h = getOrCreateHot(seriesId, sliceIndex, width, height);
+      const { slice } = h;
+      if (labels.length !== slice.width * slice.height) {
+        throw new Error(`Label slice is ${width}×${height} but the mask is ${slice.width}×${slice.height}.`);
+      }
+      for (let i = 0; i < labels.length; i++) if (labels[i]) slice.labels[i] = labels[i];
+      h.isDirty = true;
+
+      // Imports are not undoable; recorded patches of this series would no longer match its masks
+      history.clear(seriesId);
+      const change = recount(seriesId, sliceIndex, slice.labels);
+      notify(seriesId, sliceIndex);
+      return change;
+    },
+
+    notify,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    beginStroke: (seriesId, sliceIndex, width, height) => {
+      const h = getOrCreateHot(seriesId, sliceIndex, width, height);
+      stroke = { hot: h, base: h.slice.labels.slice(), dirty: null };
+      return h.slice;
+    },
+
+    markDirty: (rect) => {
+      if (!stroke) return;
+      stroke.dirty = unionRect(stroke.dirty, rect);
+      stroke.hot.isDirty = true;
+    },
+
+    endStroke: () => {
+      if (!stroke) return null;
+      const { hot: h, base, dirty } = stroke;
+      stroke = null;
+      const { seriesId, sliceIndex, slice } = h;
+      interpolated.get(seriesId)?.delete(sliceIndex);
+      const rect = dirty && clipRect(dirty, slice.width, slice.height);
+      if (rect) {
+        history.push(seriesId, {
+          sliceIndex,
+          rect,
+          before: cropLabels(base, slice.width, rect),
+          after: cropLabels(slice.labels, slice.width, rect),
+        });
+      }
+      evict();
+      return recount(seriesId, sliceIndex, slice.labels);
+    },
+
+    undo: (seriesId) => {
+      const edit = history.undo(seriesId);
+      return edit ? applyEdit(seriesId, edit, edit.before) : null;
+    },
+
+    redo: (seriesId) => {
+      const edit = history.redo(seriesId);
+      return edit ? applyEdit(seriesId, edit, edit.after) : null;
+    },
+
+    getInterpolatedSlices,
+
+    writeInterpolatedSlice: (seriesId, sliceIndex, width, height, segmentId, selected) => {
+      const h = getOrCreateHot(seriesId, sliceIndex, width, height);
+      const { labels } = h.slice;
+      const before = labels.slice();
+      selected.forEach((v, i) => {
+        if (v && !labels[i]) labels[i] = segmentId;
+      });
+      h.isDirty = true;
+      recordSliceEdit(seriesId, h, before);
+
+      const bySlice = getInterpolatedSlices(seriesId);
+      bySlice.set(sliceIndex, (bySlice.get(sliceIndex) ?? new Set()).add(segmentId));
+      const change = recount(seriesId, sliceIndex, labels);
+      notify(seriesId, sliceIndex);
+      return change;
+    },
+
+    acceptInterpolated: (seriesId) => {
+      interpolated.delete(seriesId);
+      notify(seriesId, null);
+    },
+
+    rejectInterpolated: (seriesId) => {
+      const bySlice = interpolated.get(seriesId);
+      interpolated.delete(seriesId);
+      const changes: SliceLabelChange[] = [];
+      bySlice?.forEach((ids, sliceIndex) => {
+        const h = touch(seriesId, sliceIndex);
+        if (!h) return;
+        const { labels } = h.slice;
+        const before = labels.slice();
+        for (let i = 0; i < labels.length; i++) if (ids.has(labels[i])) labels[i] = 0;
+        h.isDirty = true;
+        recordSliceEdit(seriesId, h, before);
+        changes.push(recount(seriesId, sliceIndex, labels));
+        notify(seriesId, sliceIndex);
+      });
+      return changes;
+    },
+  };
+};
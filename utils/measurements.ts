@@ -0,0 +1,304 @@
+import { DicomImage, Measurement, MeasurementType, Point, RoiStats, ReportMeasurement, ToolMode, EllipseRoi, FreehandRoi } from '../types';
+import { Calibration, measureLength } from './calibration';
+
+// MEASUREMENTS
+// Geometry, pixel statistics and hit-testing for the measurement tools (length, angle, Cobb angle,
+// ellipse and freehand ROI, text arrow). Everything works in image pixels; calibration only scales results,
+// so angles and areas stay correct on anisotropic pixels.
+
+export const MEASUREMENT_TOOL_TYPES: Partial<Record<ToolMode, MeasurementType>> = {
+  [ToolMode.MEASURE]: 'length',
+  [ToolMode.ANGLE]: 'angle',
+  [ToolMode.COBB_ANGLE]: 'cobb',
+  [ToolMode.ELLIPSE_ROI]: 'ellipse',
+  [ToolMode.FREEHAND_ROI]: 'freehand',
+  [ToolMode.TEXT_ARROW]: 'arrow',
+};
+
+export const MEASUREMENT_TYPE_LABELS: Record<MeasurementType, string> = {
+  length: 'Length',
+  angle: 'Angle',
+  cobb: 'Cobb angle',
+  ellipse: 'Ellipse ROI',
+  freehand: 'Freehand ROI',
+  arrow: 'Arrow',
+};
+
+// Default label prefix, numbered per series ("M1", "A2", …)
+export const MEASUREMENT_LABEL_PREFIXES: Record<MeasurementType, string> = {
+  length: 'M',
+  angle: 'A',
+  cobb: 'Cobb',
+  ellipse: 'ROI',
+  freehand: 'ROI',
+  arrow: 'Note',
+};
+
+/**
+ * Points of a measurement in drawing order (an ellipse is its two box corners).
+ */
+export const getMeasurementPoints = (m: Measurement): Point[] => ('points' in m ? m.points : [m.start, m.end]);
+
+/**
+ * Sessions saved before the measurement tools were added hold untyped length measurements.
+ */
+export const normalizeMeasurement = (m: Measurement | Omit<Measurement, 'type'>): Measurement =>
+  'type' in m && m.type ? m : ({ ...m, type: 'length' } as Measurement);
+
+// --- DRAWING ---
+
+/**
+ * New measurement of `type` with all its points at `p`, to be shaped by the tool.
+ */
+export const createDraftMeasurement = (type: MeasurementType, p: Point, sliceIndex: number, now = Date.now()): Measurement => {
+  const base = { id: 'draft', sliceIndex, createdAt: now };
+  switch (type) {
+    case 'length': return { ...base, type, start: p, end: p, value: 0 };
+    case 'angle': return { ...base, type, points: [p, p, p] };
+    case 'cobb': return { ...base, type, points: [p, p, p, p] };
+    case 'ellipse': return { ...base, type, start: p, end: p };
+    case 'freehand': return { ...base, type, points: [p] };
+    case 'arrow': return { ...base, type, start: p, end: p };
+  }
+};
+
+/**
+ * Moves point `index` (as in getMeasurementPoints) of a measurement; ROI statistics are dropped.
+ */
+export const setMeasurementPoint = (m: Measurement, index: number, p: Point): Measurement => {
+  if ('points' in m) {
+    const points = m.points.map((q, i) => (i === index ? p : q));
+    return m.type === 'freehand' ? { ...m, points, stats: undefined } : ({ ...m, points } as Measurement);
+  }
+  const moved = index === 0 ? { ...m, start: p } : { ...m, end: p };
+  if (moved.type === 'length') return { ...moved, value: Math.hypot(moved.end.x - moved.start.x, moved.end.y - moved.start.y) };
+  return moved.type === 'ellipse' ? { ...moved, stats: undefined } : moved;
+};
+
+/**
+ * Moves the whole measurement by (dx, dy) image pixels; ROI statistics are dropped.
+ */
+export const translateMeasurement = (m: Measurement, dx: number, dy: number): Measurement => {
+  const shift = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+  const moved = 'points' in m ? ({ ...m, points: m.points.map(shift) } as Measurement) : { ...m, start: shift(m.start), end: shift(m.end) };
+  return moved.type === 'ellipse' || moved.type === 'freehand' ? { ...moved, stats: undefined } : moved;
+};
+
+// Smallest shapes kept when drawing ends, in image pixels (anything smaller is taken as a stray click)
+export const MIN_MEASUREMENT_SIZE = 5;
+
+export const isMeasurementLargeEnough = (m: Measurement): boolean => {
+  const points = getMeasurementPoints(m);
+  const span = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  switch (m.type) {
+    case 'angle': return span(points[0], points[1]) > MIN_MEASUREMENT_SIZE && span(points[1], points[2]) > MIN_MEASUREMENT_SIZE;
+    case 'cobb': return span(points[0], points[1]) > MIN_MEASUREMENT_SIZE && span(points[2], points[3]) > MIN_MEASUREMENT_SIZE;
+    case 'ellipse': return Math.abs(m.end.x - m.start.x) > MIN_MEASUREMENT_SIZE / 2 && Math.abs(m.end.y - m.start.y) > MIN_MEASUREMENT_SIZE / 2;
+    case 'freehand': return points.length >= 3 && polygonArea(points, { rowSpacing: 1, columnSpacing: 1, unit: 'px' }) > MIN_MEASUREMENT_SIZE * MIN_MEASUREMENT_SIZE;
+    default: return span(points[0], points[1]) > MIN_MEASUREMENT_SIZE;
+  }
+};
+
+// --- GEOMETRY ---
+
+const toMm = (from: Point, to: Point, calibration: Calibration) => ({
+  x: (to.x - from.x) * calibration.columnSpacing,
+  y: (to.y - from.y) * calibration.rowSpacing,
+});
+
+const angleBetween = (u: Point, v: Point): number => {
+  const lengths = Math.hypot(u.x, u.y) * Math.hypot(v.x, v.y);
+  if (lengths === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (u.x * v.x + u.y * v.y) / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+};
+
+/**
+ * Angle at `vertex` in degrees (0–180).
+ */
+export const measureAngle = (armA: Point, vertex: Point, armB: Point, calibration: Calibration): number =>
+  angleBetween(toMm(vertex, armA, calibration), toMm(vertex, armB, calibration));
+
+/**
+ * Angle between two lines in degrees (0–90), ignoring the direction they were drawn in.
+ */
+export const measureCobbAngle = (points: [Point, Point, Point, Point], calibration: Calibration): number => {
+  const angle = angleBetween(toMm(points[0], points[1], calibration), toMm(points[2], points[3], calibration));
+  return angle > 90 ? 180 - angle : angle;
+};
+
+export const ellipseArea = (start: Point, end: Point, calibration: Calibration): number => {
+  const { x, y } = toMm(start, end, calibration);
+  return (Math.PI * Math.abs(x) * Math.abs(y)) / 4;
+};
+
+/**
+ * Shoelace area of a closed polygon.
+ */
+export const polygonArea = (points: Point[], calibration: Calibration): number => {
+  let twice = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    twice += p.x * q.y - q.x * p.y;
+  });
+  return (Math.abs(twice) / 2) * calibration.columnSpacing * calibration.rowSpacing;
+};
+
+// --- VALUES ---
+
+export interface MeasurementValue {
+  value: number;
+  unit: ReportMeasurement['unit'];
+}
+
+/**
+ * The number a measurement reports (length, angle or area); null for text arrows.
+ */
+export const getMeasurementValue = (m: Measurement, calibration: Calibration): MeasurementValue | null => {
+  const areaUnit = calibration.unit === 'mm' ? 'mm2' : 'px2';
+  switch (m.type) {
+    case 'length': return { value: measureLength(m.start, m.end, calibration), unit: calibration.unit };
+    case 'angle': return { value: measureAngle(m.points[0], m.points[1], m.points[2], calibration), unit: 'deg' };
+    case 'cobb': return { value: measureCobbAngle(m.points, calibration), unit: 'deg' };
+    case 'ellipse': return { value: ellipseArea(m.start, m.end, calibration), unit: areaUnit };
+    case 'freehand': return { value: polygonArea(m.points, calibration), unit: areaUnit };
+    case 'arrow': return null;
+  }
+};
+
+const UNIT_SYMBOLS: Record<MeasurementValue['unit'], string> = { mm: ' mm', px: ' px', deg: '°', mm2: ' mm²', px2: ' px²' };
+
+export const formatMeasurementValue = ({ value, unit }: MeasurementValue, digits = 1): string =>
+  `${value.toFixed(digits)}${UNIT_SYMBOLS[unit]}`;
+
+// Integers for HU-style values, one decimal for small ranges (e.g. normalized MR)
+const formatPixelValue = (v: number) => (Math.abs(v) >= 100 ? Math.round(v).toString() : v.toFixed(1));
+
+/**
+ * One-line ROI summary, e.g. "35.2 ± 4.1 HU (min 20, max 51)".
+ */
+export const formatRoiStats = (stats: RoiStats, unit = ''): string => {
+  const suffix = unit ? ` ${unit}` : '';
+  return `${formatPixelValue(stats.mean)} ± ${formatPixelValue(stats.stdDev)}${suffix} (min ${formatPixelValue(stats.min)}, max ${formatPixelValue(stats.max)})`;
+};
+
+/**
+ * Unit of modality pixel values, where there is one.
+ */
+export const getPixelValueUnit = (modality?: string) => (modality === 'CT' ? 'HU' : '');
+
+// --- PIXEL STATISTICS ---
+
+// Even-odd rule
+const isInsidePolygon = (p: Point, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const isInsideEllipse = (p: Point, start: Point, end: Point, margin = 0) => {
+  const rx = Math.abs(end.x - start.x) / 2 + margin;
+  const ry = Math.abs(end.y - start.y) / 2 + margin;
+  if (rx === 0 || ry === 0) return false;
+  const dx = (p.x - (start.x + end.x) / 2) / rx;
+  const dy = (p.y - (start.y + end.y) / 2) / ry;
+  return dx * dx + dy * dy <= 1;
+};
+
+export const isInsideRoi = (roi: EllipseRoi | FreehandRoi, p: Point): boolean =>
+  roi.type === 'ellipse' ? isInsideEllipse(p, roi.start, roi.end) : isInsidePolygon(p, roi.points);
+
+/**
+ * Statistics of the modality values whose pixel centers lie inside the ROI (RGB pixels use the channel mean).
+ * Null when the ROI covers no pixel.
+ */
+export const computeRoiStats = (image: DicomImage, roi: EllipseRoi | FreehandRoi): RoiStats | null => {
+  const points = getMeasurementPoints(roi);
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x0 = Math.max(0, Math.floor(Math.min(...xs)));
+  const x1 = Math.min(image.columns - 1, Math.ceil(Math.max(...xs)));
+  const y0 = Math.max(0, Math.floor(Math.min(...ys)));
+  const y1 = Math.min(image.rows - 1, Math.ceil(Math.max(...ys)));
+  const samples = image.samplesPerPixel;
+
+  let count = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      if (!isInsideRoi(roi, { x: x + 0.5, y: y + 0.5 })) continue;
+      const offset = (y * image.columns + x) * samples;
+      let stored = 0;
+      for (let s = 0; s < samples; s++) stored += image.pixelData[offset + s];
+      const value = (stored / samples) * image.rescaleSlope + image.rescaleIntercept;
+      count++;
+      sum += value;
+      sumSquares += value * value;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  if (count === 0) return null;
+  const mean = sum / count;
+  return { pixelCount: count, mean, stdDev: Math.sqrt(Math.max(0, sumSquares / count - mean * mean)), min, max };
+};
+
+// --- HIT-TESTING ---
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Line segments that make up the drawn outline
+const getSegments = (m: Measurement): [Point, Point][] => {
+  const points = getMeasurementPoints(m);
+  switch (m.type) {
+    case 'cobb': return [[points[0], points[1]], [points[2], points[3]]];
+    case 'freehand': return points.map((p, i) => [p, points[(i + 1) % points.length]]);
+    default: return points.slice(1).map((p, i) => [points[i], p]);
+  }
+};
+
+/**
+ * Index of the handle (as in getMeasurementPoints) within `tolerance` of `p`; freehand outlines have none.
+ */
+export const hitTestHandle = (m: Measurement, p: Point, tolerance: number): number | null => {
+  if (m.type === 'freehand') return null;
+  let best: number | null = null;
+  let bestDistance = tolerance;
+  getMeasurementPoints(m).forEach((q, i) => {
+    const d = Math.hypot(p.x - q.x, p.y - q.y);
+    if (d <= bestDistance) {
+      best = i;
+      bestDistance = d;
+    }
+  });
+  return best;
+};
+
+/**
+ * Topmost (latest) measurement within `tolerance` image pixels of `p`; ROIs are also hit from inside.
+ */
+export const hitTestMeasurement = (measurements: Measurement[], p: Point, tolerance: number): Measurement | null => {
+  for (let i = measurements.length - 1; i >= 0; i--) {
+    const m = measurements[i];
+    if (m.type === 'ellipse') {
+      if (isInsideEllipse(p, m.start, m.end, tolerance)) return m;
+      continue;
+    }
+    if (m.type === 'freehand' && isInsidePolygon(p, m.points)) return m;
+    if (getSegments(m).some(([a, b]) => distanceToSegment(p, a, b) <= tolerance)) return m;
+  }
+  return null;
+};
@@ -0,0 +1,128 @@
+import { LabelVolume } from './labelVolume';
+
+// NIfTI-1 single-file (.nii) reader and writer for label maps.
+// Voxels keep the image axes (i = column, j = row, k = instance order); no patient orientation
+// is written (qform/sform codes 0), so viewers place the volume using pixdim only.
+
+const HEADER_SIZE = 348;
+const VOX_OFFSET = 352; // header + 4-byte extension flag
+const DT_UINT8 = 2;
+const DT_UINT16 = 512;
+const NIFTI_INTENT_LABEL = 1002;
+const NIFTI_UNITS_MM = 2;
+
+export interface NiftiOptions {
+  // Voxel size; mm when `isCalibrated`, otherwise unit-less
+  spacing: { column: number; row: number; slice: number };
+  isCalibrated: boolean;
+  description?: string;
+}
+
+const writeAscii = (bytes: Uint8Array, offset: number, text: string, maxLength: number) => {
+  for (let i = 0; i < Math.min(text.length, maxLength - 1); i++) {
+    bytes[offset + i] = text.charCodeAt(i) & 0x7f;
+  }
+};
+
+export const encodeNiftiLabels = (volume: LabelVolume, options: NiftiOptions): Uint8Array => {
+  // 16-bit labels only when some segment ID needs them
+  const bytesPerVoxel = volume.labels.BYTES_PER_ELEMENT;
+  const out = new Uint8Array(VOX_OFFSET + volume.labels.length * bytesPerVoxel);
+  const view = new DataView(out.buffer);
+  let maxLabel = 0;
+  for (const v of volume.labels) if (v > maxLabel) maxLabel = v;
+
+  view.setInt32(0, HEADER_SIZE, true); // sizeof_hdr
+  // dim[8]
+  [3, volume.columns, volume.rows, volume.slices, 1, 1, 1, 1].forEach((d, i) => view.setInt16(40 + i * 2, d, true));
+  view.setInt16(68, NIFTI_INTENT_LABEL, true); // intent_code
+  view.setInt16(70, bytesPerVoxel === 2 ? DT_UINT16 : DT_UINT8, true); // datatype
+  view.setInt16(72, bytesPerVoxel * 8, true); // bitpix
+  // pixdim[8]: qfac, then voxel size
+  [1, options.spacing.column, options.spacing.row, options.spacing.slice, 0, 0, 0, 0]
+    .forEach((d, i) => view.setFloat32(76 + i * 4, d, true));
+  view.setFloat32(108, VOX_OFFSET, true); // vox_offset
+  view.setFloat32(112, 1, true); // scl_slope
+  view.setFloat32(116, 0, true); // scl_inter
+  out[123] = options.isCalibrated ? NIFTI_UNITS_MM : 0; // xyzt_units
+  view.setFloat32(124, maxLabel, true); // cal_max
+  view.setFloat32(128, 0, true); // cal_min
+  writeAscii(out, 148, options.description ?? 'VibeRad label map', 80); // descrip
+  writeAscii(out, 328, 'labels', 16); // intent_name
+  writeAscii(out, 344, 'n+1', 4); // magic (NUL terminated)
+
+  if (bytesPerVoxel === 2) volume.labels.forEach((v, i) => view.setUint16(VOX_OFFSET + i * 2, v, true));
+  else out.set(volume.labels, VOX_OFFSET);
+  return out;
+};
+
+// --- READING ---
+
+export interface NiftiLabelData {
+  columns: number;
+  rows: number;
+  slices: number;
+  // Label value per voxel (x fastest), rounded to integers
+  values: Int32Array;
+  spacing: { column: number; row: number; slice: number };
+}
+
+const NIFTI2_HEADER_SIZE = 540;
+
+/**
+ * Reads a single-file NIfTI-1 volume (already gunzipped) as integer labels.
+ */
+export const decodeNiftiLabels = (bytes: Uint8Array): NiftiLabelData => {
+  if (bytes.length < VOX_OFFSET) throw new Error('File is too small to be a NIfTI volume.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let le = true;
+  if (view.getInt32(0, true) !== HEADER_SIZE) {
+    if (view.getInt32(0, false) === HEADER_SIZE) le = false;
+    else if (view.getInt32(0, true) === NIFTI2_HEADER_SIZE) throw new Error('NIfTI-2 files are not supported; save as NIfTI-1.');
+    else throw new Error('Not a NIfTI-1 file (unexpected header size).');
+  }
+
+  const magic = String.fromCharCode(bytes[344], bytes[345], bytes[346]);
+  if (magic === 'ni1') throw new Error('Header/image pairs (.hdr/.img) are not supported; use a single .nii file.');
+  if (magic !== 'n+1') throw new Error('Not a NIfTI-1 file (bad magic).');
+
+  const dim = Array.from({ length: 8 }, (_, i) => view.getInt16(40 + i * 2, le));
+  if (dim[0] < 2 || dim[0] > 7) throw new Error(`Unsupported NIfTI dimensionality (${dim[0]}).`);
+  if (dim[0] > 3 && dim.slice(4, dim[0] + 1).some(d => d > 1)) {
+    throw new Error('4D NIfTI volumes are not supported for label maps.');
+  }
+  const [columns, rows] = [dim[1], dim[2]];
+  const slices = dim[0] >= 3 ? Math.max(1, dim[3]) : 1;
+  const count = columns * rows * slices;
+
+  const datatype = view.getInt16(70, le);
+  const voxOffset = Math.round(view.getFloat32(108, le));
+  const slope = view.getFloat32(112, le);
+  const inter = view.getFloat32(116, le);
+
+  const readers: Record<number, [number, (offset: number) => number]> = {
+    2: [1, o => view.getUint8(o)],
+    256: [1, o => view.getInt8(o)],
+    4: [2, o => view.getInt16(o, le)],
+    512: [2, o => view.getUint16(o, le)],
+    8: [4, o => view.getInt32(o, le)],
+    768: [4, o => view.getUint32(o, le)],
+    16: [4, o => view.getFloat32(o, le)],
+    64: [8, o => view.getFloat64(o, le)],
+  };
+  const reader = readers[datatype];
+  if (!reader) throw new Error(`Unsupported NIfTI datatype ${datatype} for a label map.`);
+  const [size, read] = reader;
+  if (voxOffset + count * size > bytes.length) throw new Error('NIfTI file is truncated.');
+
+  const scale = slope !== 0 && !(slope === 1 && inter === 0);
+  const values = new Int32Array(count);
+  for (let i = 0; i < count; i++) {
+    const v = read(voxOffset + i * size);
+    values[i] = Math.round(scale ? v * slope + inter : v);
+  }
+
+  const pixdim = (i: number) => Math.abs(view.getFloat32(76 + i * 4, le)) || 1;
+  return { columns, rows, slices, values, spacing: { column: pixdim(1), row: pixdim(2), slice: pixdim(3) } };
+};
@@ -0,0 +1,121 @@
+// Minimal PDF writer for text documents (PDF 1.4, A4 portrait).
+// Uses the standard Helvetica fonts with WinAnsi encoding, so no font data is embedded; characters outside
+// WinAnsi are replaced by "?". Line breaking uses an average glyph width, which is close enough for prose.
+
+export interface PdfBlock {
+  style: 'title' | 'heading' | 'body' | 'bullet' | 'small';
+  text: string;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const BULLET_INDENT = 14;
+
+const STYLES: Record<PdfBlock['style'], { size: number; bold: boolean; spaceBefore: number }> = {
+  title: { size: 18, bold: true, spaceBefore: 0 },
+  heading: { size: 13, bold: true, spaceBefore: 12 },
+  body: { size: 10.5, bold: false, spaceBefore: 2 },
+  bullet: { size: 10.5, bold: false, spaceBefore: 2 },
+  small: { size: 8, bold: false, spaceBefore: 14 },
+};
+
+// Average Helvetica advance width in em, for line breaking
+const AVERAGE_CHAR_WIDTH = { regular: 0.5, bold: 0.55 };
+const LINE_HEIGHT = 1.35;
+
+// Unicode → WinAnsi for the typographic characters reports commonly contain
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const toWinAnsi = (s: string) =>
+  Array.from(s, ch => {
+    const code = WIN_ANSI[ch] ?? ch.charCodeAt(0);
+    return code <= 0xff && ch.length === 1 ? String.fromCharCode(code) : '?';
+  }).join('');
+
+const escapePdfString = (s: string) => s.replace(/[\\()]/g, m => `\\${m}`);
+
+/**
+ * Greedy word wrap to `maxWidth` points; words longer than a line are split.
+ */
+export const wrapText = (text: string, size: number, maxWidth: number, bold = false): string[] => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * (bold ? AVERAGE_CHAR_WIDTH.bold : AVERAGE_CHAR_WIDTH.regular))));
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > maxChars) {
+      if (line) { lines.push(line); line = ''; }
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= maxChars) line += ` ${word}`;
+    else { lines.push(line); line = word; }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+export const createTextPdf = (blocks: PdfBlock[]): Uint8Array => {
+  // --- LAYOUT ---
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  blocks.forEach(block => {
+    const style = STYLES[block.style];
+    const indent = block.style === 'bullet' ? BULLET_INDENT : 0;
+    const lines = wrapText(block.text, style.size, PAGE_WIDTH - 2 * MARGIN - indent, style.bold);
+    const lineHeight = style.size * LINE_HEIGHT;
+    y -= style.spaceBefore;
+    // Keep headings with the first line that follows them
+    if (block.style === 'heading' && y - 2 * lineHeight < MARGIN) newPage();
+
+    lines.forEach((line, i) => {
+      if (y - lineHeight < MARGIN) newPage();
+      y -= lineHeight;
+      const font = style.bold ? 'F2' : 'F1';
+      const ops = pages[pages.length - 1];
+      if (block.style === 'bullet' && i === 0) {
+        ops.push(`BT /F1 ${style.size} Tf ${MARGIN} ${y.toFixed(2)} Td (${toWinAnsi('•')}) Tj ET`);
+      }
+      ops.push(`BT /${font} ${style.size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td (${escapePdfString(toWinAnsi(line))}) Tj ET`);
+    });
+  });
+
+  // --- OBJECTS ---
+  // 1 catalog, 2 page tree, 3–4 fonts, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  pages.forEach((ops, i) => {
+    const content = ops.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is one byte (WinAnsi), so string offsets are byte offsets
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(out, ch => ch.charCodeAt(0));
+};
@@ -0,0 +1,153 @@
+import { DicomImage, Segment, SegmentStats, Series } from '../types';
+import { MaskStore } from './maskStore';
+import { getModalityValues } from './segmentationTools';
+import { formatRoiStats, getPixelValueUnit } from './measurements';
+
+// SEGMENT STATISTICS
+// Pixel counts, areas and volume per segment, plus the intensity of the image underneath, computed from
+// the label maps of a series. Areas are in mm² when the series has Pixel Spacing (px² otherwise);
+// the volume additionally needs Slice Thickness and treats every painted slice as a slab of that thickness.
+
+export interface LabelSliceInput {
+  sliceIndex: number;
+  labels: ArrayLike<number>;
+  // Modality values of the same slice, or null when the image is unavailable (or a different size)
+  values: Float32Array | null;
+}
+
+interface Accumulator {
+  slices: Map<number, number>;
+  pixelCount: number;
+  sliceSum: number;
+  valueCount: number;
+  sum: number;
+  sumSq: number;
+  min: number;
+  max: number;
+}
+
+export const computeSegmentStats = (slices: LabelSliceInput[], segments: Segment[], series: Series): SegmentStats[] => {
+  const bySegment = new Map<number, Accumulator>();
+  slices.forEach(({ sliceIndex, labels, values }) => {
+    for (let i = 0; i < labels.length; i++) {
+      const id = labels[i];
+      if (!id) continue;
+      let acc = bySegment.get(id);
+      if (!acc) {
+        acc = { slices: new Map(), pixelCount: 0, sliceSum: 0, valueCount: 0, sum: 0, sumSq: 0, min: Infinity, max: -Infinity };
+        bySegment.set(id, acc);
+      }
+      acc.slices.set(sliceIndex, (acc.slices.get(sliceIndex) ?? 0) + 1);
+      acc.pixelCount++;
+      acc.sliceSum += sliceIndex;
+      if (values) {
+        const v = values[i];
+        acc.valueCount++;
+        acc.sum += v;
+        acc.sumSq += v * v;
+        acc.min = Math.min(acc.min, v);
+        acc.max = Math.max(acc.max, v);
+      }
+    }
+  });
+
+  const pixelArea = series.pixelSpacing ? series.pixelSpacing[0] * series.pixelSpacing[1] : 1;
+  const voxelMl = series.pixelSpacing && series.sliceThickness ? (pixelArea * series.sliceThickness) / 1000 : null;
+
+  return [...bySegment.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([segmentId, acc]) => {
+      const mean = acc.valueCount > 0 ? acc.sum / acc.valueCount : 0;
+      return {
+        segmentId,
+        label: segments.find(s => s.id === segmentId)?.label ?? `Segment ${segmentId}`,
+        slices: [...acc.slices.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([sliceIndex, pixelCount]) => ({ sliceIndex, pixelCount, area: pixelCount * pixelArea })),
+        pixelCount: acc.pixelCount,
+        areaUnit: series.pixelSpacing ? 'mm2' : 'px2',
+        volumeMl: voxelMl === null ? null : acc.pixelCount * voxelMl,
+        centroidSlice: acc.sliceSum / acc.pixelCount,
+        intensity: acc.valueCount > 0
+          ? {
+              pixelCount: acc.valueCount,
+              mean,
+              stdDev: Math.sqrt(Math.max(0, acc.sumSq / acc.valueCount - mean * mean)),
+              min: acc.min,
+              max: acc.max,
+            }
+          : null,
+      };
+    });
+};
+
+/**
+ * Statistics for every segment painted on a series. Slices whose image fails to load still count
+ * towards areas and volume, just not towards the intensity summary.
+ */
+export const collectSegmentStats = async (
+  store: MaskStore,
+  series: Series,
+  segments: Segment[],
+  loadImage: (url: string) => Promise<DicomImage>
+): Promise<SegmentStats[]> => {
+  const slices: LabelSliceInput[] = [];
+  for (const [sliceIndex, ids] of store.getSliceSegmentIds(series.id)) {
+    const slice = ids.size > 0 ? store.getLabelSlice(series.id, sliceIndex) : null;
+    const url = series.instances[sliceIndex];
+    if (!slice || !url) continue;
+    const image = await loadImage(url).catch(() => null);
+    const values = image && image.columns === slice.width && image.rows === slice.height ? getModalityValues(image) : null;
+    slices.push({ sliceIndex, labels: slice.labels, values });
+  }
+  return computeSegmentStats(slices, segments, series);
+};
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const round = (v: number, digits: number) => Number(v.toFixed(digits));
+
+/**
+ * One row per segment and slice, followed by a total row per segment (slice "all").
+ */
+export const segmentStatsToCsv = (stats: SegmentStats[]): string => {
+  const unit = stats[0]?.areaUnit === 'px2' ? 'px2' : 'mm2';
+  const header = ['segment_id', 'label', 'slice', 'pixels', `area_${unit}`, 'volume_ml', 'centroid_slice', 'mean', 'std_dev', 'min', 'max'];
+  const rows = stats.flatMap(s => [
+    ...s.slices.map(slice => [s.segmentId, s.label, slice.sliceIndex + 1, slice.pixelCount, round(slice.area, 2), null, null, null, null, null, null]),
+    [
+      s.segmentId,
+      s.label,
+      'all',
+      s.pixelCount,
+      round(s.slices.reduce((sum, slice) => sum + slice.area, 0), 2),
+      s.volumeMl === null ? null : round(s.volumeMl, 3),
+      round(s.centroidSlice + 1, 1),
+      s.intensity ? round(s.intensity.mean, 2) : null,
+      s.intensity ? round(s.intensity.stdDev, 2) : null,
+      s.intensity ? round(s.intensity.min, 2) : null,
+      s.intensity ? round(s.intensity.max, 2) : null,
+    ],
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+const UNIT_LABELS: Record<SegmentStats['areaUnit'], string> = { mm2: 'mm²', px2: 'px²' };
+
+export const formatSegmentArea = (area: number, unit: SegmentStats['areaUnit']) => `${area.toFixed(1)} ${UNIT_LABELS[unit]}`;
+
+/**
+ * Readable summary per segment for the AI report payload.
+ */
+export const formatSegmentStatsForReport = (stats: SegmentStats[], modality?: string) =>
+  stats.map(s => ({
+    label: s.label,
+    slices: s.slices.map(slice => `Slice ${slice.sliceIndex + 1}: ${formatSegmentArea(slice.area, s.areaUnit)}`),
+    ...(s.volumeMl !== null ? { volume: `${s.volumeMl.toFixed(2)} mL` } : {}),
+    centroidSlice: Math.round(s.centroidSlice) + 1,
+    ...(s.intensity ? { intensity: formatRoiStats(s.intensity, getPixelValueUnit(modality)) } : {}),
+  }));
@@ -0,0 +1,169 @@
+import { DicomImage, Point } from '../types';
+import { MaskRect } from './maskHistory';
+import { forEachStrokePixel } from './labelMap';
+
+// SEMI-AUTOMATIC SEGMENTATION
+// Threshold brush, region growing (2D or 3D) and flood fill. Each tool builds a selection (1 = pixel picked,
+// per slice) that the viewer previews; committing writes it into the label maps with the active segment.
+// Intensities are modality values (stored value * slope + intercept; luminance for RGB frames).
+
+export interface SegmentationSelection {
+  width: number;
+  height: number;
+  // Slice index → one byte per pixel
+  slices: Map<number, Uint8Array>;
+  // Region growing stopped at MAX_REGION_VOXELS
+  truncated?: boolean;
+}
+
+// Keeps a runaway 3D region (e.g. a seed in the background) from freezing the tab
+export const MAX_REGION_VOXELS = 4_000_000;
+
+export const getModalityValues = (image: DicomImage): Float32Array => {
+  const { pixelData, rows, columns } = image;
+  const values = new Float32Array(rows * columns);
+  for (let p = 0; p < values.length; p++) {
+    values[p] = image.samplesPerPixel === 3
+      ? 0.299 * pixelData[p * 3] + 0.587 * pixelData[p * 3 + 1] + 0.114 * pixelData[p * 3 + 2]
+      : pixelData[p] * image.rescaleSlope + image.rescaleIntercept;
+  }
+  return values;
+};
+
+export const countSelected = (selection: SegmentationSelection) => {
+  let count = 0;
+  selection.slices.forEach(pixels => pixels.forEach(v => { count += v; }));
+  return count;
+};
+
+/**
+ * Adds the pixels under a brush stroke from `p1` to `p2` whose value lies in [min, max] to `selected`.
+ */
+export const selectThresholdStroke = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  p1: Point,
+  p2: Point,
+  radius: number,
+  [min, max]: [number, number],
+  selected: Uint8Array
+) => {
+  forEachStrokePixel(width, height, p1, p2, radius, i => {
+    if (values[i] >= min && values[i] <= max) selected[i] = 1;
+  });
+};
+
+/**
+ * Pixels connected to the seed (4-neighbours in-plane, plus the slices above and below in 3D) whose value is
+ * within `tolerance` of the seed's. `slices` holds the values of every slice (null where not loaded).
+ */
+export const growRegion = (
+  slices: (Float32Array | null)[],
+  width: number,
+  height: number,
+  seed: { x: number; y: number; sliceIndex: number },
+  tolerance: number,
+  in3d: boolean
+): SegmentationSelection => {
+  const seedValues = slices[seed.sliceIndex];
+  const sx = Math.floor(seed.x);
+  const sy = Math.floor(seed.y);
+  if (!seedValues || sx < 0 || sy < 0 || sx >= width || sy >= height) throw new Error('Click inside the image to place the seed.');
+
+  const seedValue = seedValues[sy * width + sx];
+  const planeSize = width * height;
+  const result: SegmentationSelection = { width, height, slices: new Map() };
+  const getSelected = (z: number) => {
+    if (!result.slices.has(z)) result.slices.set(z, new Uint8Array(planeSize));
+    return result.slices.get(z)!;
+  };
+
+  // Queue of (slice, pixel) pairs
+  const queue: number[] = [seed.sliceIndex, sy * width + sx];
+  getSelected(seed.sliceIndex)[sy * width + sx] = 1;
+  let count = 1;
+
+  const visit = (z: number, i: number) => {
+    const values = slices[z];
+    if (!values || Math.abs(values[i] - seedValue) > tolerance) return;
+    const selected = getSelected(z);
+    if (selected[i]) return;
+    selected[i] = 1;
+    queue.push(z, i);
+    count++;
+  };
+
+  for (let head = 0; head < queue.length; head += 2) {
+    if (count >= MAX_REGION_VOXELS) {
+      result.truncated = true;
+      break;
+    }
+    const z = queue[head];
+    const i = queue[head + 1];
+    const x = i % width;
+    if (x > 0) visit(z, i - 1);
+    if (x < width - 1) visit(z, i + 1);
+    if (i >= width) visit(z, i - width);
+    if (i < planeSize - width) visit(z, i + width);
+    if (in3d) {
+      if (z > 0) visit(z - 1, i);
+      if (z < slices.length - 1) visit(z + 1, i);
+    }
+  }
+  return result;
+};
+
+/**
+ * Fills the unlabelled area around `seed` that is enclosed by labelled pixels (any segment) on one slice.
+ * Throws when the seed is on a label or the area reaches the image border (the contour is not closed).
+ */
+export const floodFillContour = (labels: ArrayLike<number> | null, width: number, height: number, seed: Point): Uint8Array => {
+  const sx = Math.floor(seed.x);
+  const sy = Math.floor(seed.y);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) throw new Error('Click inside the image to fill.');
+  if (!labels) throw new Error('Draw a closed contour with the brush first, then click inside it.');
+  if (labels[sy * width + sx]) throw new Error('Click inside the contour, not on it.');
+
+  const filled = new Uint8Array(width * height);
+  const stack = [sy * width + sx];
+  filled[stack[0]] = 1;
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+      throw new Error('The contour is not closed: the fill reached the image border.');
+    }
+    for (const n of [i - 1, i + 1, i - width, i + width]) {
+      if (!filled[n] && !labels[n]) {
+        filled[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+  return filled;
+};
+
+/**
+ * Writes the selected pixels into a label slice with `segmentId` (overwriting other labels, like the brush).
+ * Returns the touched rect, or null when nothing was selected.
+ */
+export const applySelectionToLabels = (
+  labels: Uint16Array,
+  width: number,
+  selected: Uint8Array,
+  segmentId: number
+): MaskRect | null => {
+  let x0 = Infinity, y0 = Infinity, x1 = -1, y1 = -1;
+  for (let i = 0; i < selected.length; i++) {
+    if (selected[i]) {
+      labels[i] = segmentId;
+      const x = i % width;
+      const y = (i - x) / width;
+      x0 = Math.min(x0, x); x1 = Math.max(x1, x);
+      y0 = Math.min(y0, y); y1 = Math.max(y1, y);
+    }
+  }
+  return x1 < 0 ? null : { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
@@ -0,0 +1,90 @@
+import { StudySession, SessionMaskSlice } from '../types';
+import { gzip, gunzip, isGzip } from './zip';
+
+// SESSION BUNDLE
+// A whole study session in one file, for handing a prepared case to a class.
+// Layout (gzipped): "VRSB" magic, uint32 LE JSON length, UTF-8 JSON, then the label masks back to back.
+// The JSON carries the session without mask pixels plus, per mask, its byte offset into the binary part
+// and its label size (1 byte, or 2 bytes little-endian once segment IDs exceed 255; version 2).
+
+const MAGIC = 'VRSB';
+export const SESSION_BUNDLE_VERSION = 2;
+export const SESSION_BUNDLE_EXTENSION = '.viberad';
+
+// Shown when a bundle is opened on the wrong study
+export interface SessionBundleStudy {
+  id: string;
+  description: string;
+}
+
+interface BundleManifest {
+  format: 'viberad-session';
+  version: number;
+  study: SessionBundleStudy;
+  session: Omit<StudySession, 'masks'>;
+  // bytesPerLabel is missing in version 1 bundles (always 1)
+  masks: (Omit<SessionMaskSlice, 'labels'> & { offset: number; bytesPerLabel?: number })[];
+}
+
+export const encodeSessionBundle = async (session: StudySession, study: SessionBundleStudy): Promise<Uint8Array> => {
+  const { masks, ...rest } = session;
+  let offset = 0;
+  const manifest: BundleManifest = {
+    format: 'viberad-session',
+    version: SESSION_BUNDLE_VERSION,
+    study,
+    session: rest,
+    masks: masks.map(({ labels, ...mask }) => {
+      const entry = { ...mask, offset, bytesPerLabel: labels.BYTES_PER_ELEMENT };
+      offset += labels.byteLength;
+      return entry;
+    }),
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const out = new Uint8Array(8 + json.length + offset);
+  out.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(out.buffer).setUint32(4, json.length, true);
+  out.set(json, 8);
+  let position = 8 + json.length;
+  const view = new DataView(out.buffer);
+  masks.forEach(m => {
+    if (m.labels instanceof Uint16Array) m.labels.forEach((v, i) => view.setUint16(position + i * 2, v, true));
+    else out.set(m.labels, position);
+    position += m.labels.byteLength;
+  });
+  return gzip(out);
+};
+
+export const decodeSessionBundle = async (bytes: Uint8Array): Promise<{ study: SessionBundleStudy; session: StudySession }> => {
+  const raw = isGzip(bytes) ? await gunzip(bytes) : bytes;
+  if (raw.length < 8 || new TextDecoder().decode(raw.subarray(0, 4)) !== MAGIC) {
+    throw new Error('Not a VibeRad session bundle.');
+  }
+  const jsonLength = new DataView(raw.buffer, raw.byteOffset, raw.byteLength).getUint32(4, true);
+  if (8 + jsonLength > raw.length) throw new Error('Session bundle is truncated.');
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(raw.subarray(8, 8 + jsonLength)));
+  } catch {
+    throw new Error('Session bundle is corrupt (unreadable manifest).');
+  }
+  if (manifest.format !== 'viberad-session') throw new Error('Not a VibeRad session bundle.');
+  if (manifest.version > SESSION_BUNDLE_VERSION) {
+    throw new Error(`Session bundle version ${manifest.version} is newer than this app supports; please update.`);
+  }
+
+  const binary = raw.subarray(8 + jsonLength);
+  const view = new DataView(binary.buffer, binary.byteOffset, binary.byteLength);
+  const masks = manifest.masks.map(({ offset, bytesPerLabel = 1, ...mask }) => {
+    const count = mask.width * mask.height;
+    if (offset + count * bytesPerLabel > binary.length) throw new Error('Session bundle is truncated (mask data missing).');
+    const labels = bytesPerLabel === 2
+      ? Uint16Array.from({ length: count }, (_, i) => view.getUint16(offset + i * 2, true))
+      : binary.slice(offset, offset + count);
+    return { ...mask, labels };
+  });
+
+  return { study: manifest.study, session: { ...manifest.session, masks } };
+};
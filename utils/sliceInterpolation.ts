@@ -0,0 +1,140 @@
+import { MaskStore, SliceLabelChange } from './maskStore';
+import { LabelWorker } from './labelWorker';
+
+// SLICE INTERPOLATION
+// Fills the slices between painted key slices of one segment by morphing signed distance maps:
+// each key mask becomes a distance field (negative inside, positive outside), the fields of the two
+// nearest key slices are blended linearly, and the zero level set is the intermediate shape.
+// Generated slices are flagged in the mask store as interpolated until the user accepts them.
+
+const INF = 1e20;
+
+// Squared distance transform of one row or column (Felzenszwalb & Huttenlocher), in place
+const distanceTransform1d = (f: Float64Array, n: number, v: Int32Array, z: Float64Array, d: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+  for (let q = 0; q < n; q++) f[q] = d[q];
+};
+
+// Euclidean distance from every pixel to the nearest one whose mask bit equals `feature`
+const distanceTo = (mask: Uint8Array, width: number, height: number, feature: number): Float64Array => {
+  const grid = new Float64Array(width * height);
+  for (let i = 0; i < grid.length; i++) grid[i] = (mask[i] ? 1 : 0) === feature ? 0 : INF;
+
+  const n = Math.max(width, height);
+  const f = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+  const d = new Float64Array(n);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distanceTransform1d(f, height, v, z, d);
+    for (let y = 0; y < height; y++) grid[y * width + x] = f[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distanceTransform1d(f, width, v, z, d);
+    for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(f[x]);
+  }
+  return grid;
+};
+
+/**
+ * Signed distance (in pixels) to the mask boundary: negative inside, positive outside.
+ */
+export const signedDistance = (mask: Uint8Array, width: number, height: number): Float32Array => {
+  const toInside = distanceTo(mask, width, height, 1);
+  const toOutside = distanceTo(mask, width, height, 0);
+  const sdf = new Float32Array(width * height);
+  // The boundary lies half a pixel from the centres on either side
+  for (let i = 0; i < sdf.length; i++) sdf[i] = mask[i] ? 0.5 - toOutside[i] : toInside[i] - 0.5;
+  return sdf;
+};
+
+/**
+ * Masks for the slices strictly between consecutive key slices (slice index → 1 = inside).
+ * Slices whose blended shape is empty are left out.
+ */
+export const interpolateBetweenSlices = (keySlices: Map<number, Uint8Array>, width: number, height: number): Map<number, Uint8Array> => {
+  const keys = [...keySlices.keys()].sort((a, b) => a - b);
+  if (keys.length < 2) throw new Error('Paint the segment on at least two slices to interpolate between them.');
+
+  const result = new Map<number, Uint8Array>();
+  let lower = signedDistance(keySlices.get(keys[0])!, width, height);
+  for (let k = 1; k < keys.length; k++) {
+    const upper = signedDistance(keySlices.get(keys[k])!, width, height);
+    const [a, b] = [keys[k - 1], keys[k]];
+    for (let z = a + 1; z < b; z++) {
+      const t = (z - a) / (b - a);
+      const mask = new Uint8Array(width * height);
+      let any = false;
+      for (let i = 0; i < mask.length; i++) {
+        if ((1 - t) * lower[i] + t * upper[i] < 0) {
+          mask[i] = 1;
+          any = true;
+        }
+      }
+      if (any) result.set(z, mask);
+    }
+    lower = upper;
+  }
+  return result;
+};
+
+/**
+ * Interpolates `segmentId` across the gaps between its painted slices on a series (in the label worker)
+ * and writes the result into the mask store (only onto unlabelled pixels). Resolves with the changed slices.
+ */
+export const interpolateSegment = async (
+  store: MaskStore,
+  seriesId: string,
+  segmentId: number,
+  worker: LabelWorker
+): Promise<{ keySlices: number; changes: SliceLabelChange[] }> => {
+  if (store.getInterpolatedSlices(seriesId).size > 0) {
+    throw new Error('Accept or reject the pending interpolation first.');
+  }
+
+  const keySlices = new Map<number, Uint8Array>();
+  let size: { width: number; height: number } | null = null;
+  for (const [sliceIndex, ids] of store.getSliceSegmentIds(seriesId)) {
+    if (!ids.has(segmentId)) continue;
+    const slice = store.getLabelSlice(seriesId, sliceIndex);
+    if (!slice) continue;
+    if (size && (slice.width !== size.width || slice.height !== size.height)) {
+      throw new Error('Cannot interpolate: the painted slices differ in size.');
+    }
+    size = { width: slice.width, height: slice.height };
+    keySlices.set(sliceIndex, Uint8Array.from(slice.labels, id => (id === segmentId ? 1 : 0)));
+  }
+  if (!size) throw new Error('Paint the segment on at least two slices to interpolate between them.');
+
+  const { width, height } = size;
+  if (keySlices.size < 2) throw new Error('Paint the segment on at least two slices to interpolate between them.');
+  const generated = await worker.interpolate(keySlices, width, height);
+  // Another interpolation may have finished while this one ran
+  if (store.getInterpolatedSlices(seriesId).size > 0) throw new Error('Accept or reject the pending interpolation first.');
+  if (generated.size === 0) throw new Error('Nothing to interpolate: the painted slices have no gaps between them.');
+  const changes = [...generated.entries()].map(([sliceIndex, mask]) =>
+    store.writeInterpolatedSlice(seriesId, sliceIndex, width, height, segmentId, mask)
+  );
+  return { keySlices: keySlices.size, changes };
+};
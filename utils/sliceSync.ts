@@ -0,0 +1,78 @@
+import { Series } from '../types';
+
+// SLICE SYNCHRONIZATION
+// Matches a slice in one series to the corresponding slice in another for linked scrolling.
+// Uses patient-space slice locations when both series are parallel stacks with the same frame of
+// reference UID, and falls back to the same slice index otherwise. A location outside the other
+// stack has no matching slice.
+
+// Normals closer than ~8° are treated as parallel
+const PARALLEL_TOLERANCE = 0.99;
+
+/**
+ * Stack normal (row cosines × column cosines) from Image Orientation (Patient).
+ */
+export const getSliceNormal = (orientation?: number[]): [number, number, number] | undefined => {
+  if (!orientation || orientation.length < 6) return undefined;
+  const [rx, ry, rz, cx, cy, cz] = orientation;
+  const normal: [number, number, number] = [ry * cz - rz * cy, rz * cx - rx * cz, rx * cy - ry * cx];
+  const length = Math.hypot(...normal);
+  if (!(length > 0)) return undefined;
+  return [normal[0] / length, normal[1] / length, normal[2] / length];
+};
+
+/**
+ * Slice locations for a series, given the Image Position (Patient) of each instance in display order.
+ * Returns nothing unless every instance has a position.
+ */
+export const computeSliceGeometry = (
+  positions: (number[] | undefined)[],
+  orientation?: number[]
+): Pick<Series, 'slicePositions' | 'sliceNormal'> => {
+  const normal = getSliceNormal(orientation);
+  if (!normal || positions.length === 0) return {};
+  if (positions.some(p => !p || p.length < 3)) return {};
+  const slicePositions = positions.map(p => p![0] * normal[0] + p![1] * normal[1] + p![2] * normal[2]);
+  return { slicePositions, sliceNormal: normal };
+};
+
+const clampIndex = (index: number, series: Series) =>
+  Math.max(0, Math.min(Math.max(series.instances.length, 1) - 1, index));
+
+// Mean distance between neighbouring slices; 0 for a single slice
+const getSliceSpacing = (positions: number[]) =>
+  positions.length < 2 ? 0 : Math.abs(positions[positions.length - 1] - positions[0]) / (positions.length - 1);
+
+/**
+ * Index of the slice in `target` that corresponds to `sourceIndex` in `source`, or null when the
+ * location lies more than a slice spacing outside the target stack.
+ */
+export const findSyncedSliceIndex = (source: Series, sourceIndex: number, target: Series): number | null => {
+  const sourcePositions = source.slicePositions;
+  const targetPositions = target.slicePositions;
+  // Without both UIDs the positions may be measured from different origins
+  const sameFrame = !!source.frameOfReferenceUid && source.frameOfReferenceUid === target.frameOfReferenceUid;
+
+  if (
+    sameFrame &&
+    sourcePositions && targetPositions && targetPositions.length > 0 &&
+    source.sliceNormal && target.sliceNormal &&
+    sourcePositions[sourceIndex] !== undefined
+  ) {
+    const dot = source.sliceNormal.reduce((sum, v, axis) => sum + v * target.sliceNormal![axis], 0);
+    if (Math.abs(dot) >= PARALLEL_TOLERANCE) {
+      // Antiparallel normals measure the same location with the opposite sign
+      const location = sourcePositions[sourceIndex] * Math.sign(dot);
+      let best = 0;
+      targetPositions.forEach((p, idx) => {
+        if (Math.abs(p - location) < Math.abs(targetPositions[best] - location)) best = idx;
+      });
+      const spacing = getSliceSpacing(targetPositions) || getSliceSpacing(sourcePositions);
+      // Small slack for rounding in the stored positions
+      if (spacing > 0 && Math.abs(targetPositions[best] - location) > spacing * 1.01) return null;
+      return best;
+    }
+  }
+
+  return clampIndex(sourceIndex, target);
+};
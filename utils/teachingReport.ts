@@ -0,0 +1,198 @@
+import { Measurement, TeachingReport, ReportMeasurement } from '../types';
+import type { JsonSchema } from '../services/llm/types';
+import { Calibration } from './calibration';
+import { getMeasurementValue, getMeasurementPoints, formatMeasurementValue, formatRoiStats, MEASUREMENT_LABEL_PREFIXES } from './measurements';
+import { PdfBlock, createTextPdf } from './pdfWriter';
+
+// TEACHING REPORT
+// The model fills a fixed JSON schema; the report is then rendered to Markdown, HTML and PDF from that
+// structure (DICOM SR lives in dicomSr.ts). Measurements are joined in from the viewer by id, so the
+// numbers in every export are the learner's own and never the model's.
+
+export const DEFAULT_SAFETY_NOTE =
+  'This is an educational teaching summary generated from anonymized demo data. It must NOT be used for diagnosis, triage, or treatment decisions.';
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+export const TEACHING_REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Report title, e.g. "Educational Teaching Summary – NOT FOR CLINICAL USE"' },
+    studyContext: {
+      type: 'object',
+      properties: {
+        modality: { type: 'string' },
+        region: { type: 'string', description: 'Body part / region' },
+        seriesDescription: { type: 'string' },
+        plane: { type: 'string', description: 'Approximate plane / orientation' },
+      },
+      required: ['modality', 'region', 'seriesDescription', 'plane'],
+    },
+    features: stringList('Key imaging features, descriptive only (no diagnoses)'),
+    teachingPoints: stringList('3–6 teaching points for trainees'),
+    learnerQuestions: stringList('2–4 self-test questions'),
+    measurementComments: {
+      type: 'array',
+      description: 'Optional teaching comment per measurement, by the measurement id from the metadata',
+      items: {
+        type: 'object',
+        properties: { measurementId: { type: 'string' }, comment: { type: 'string' } },
+        required: ['measurementId', 'comment'],
+      },
+    },
+    safetyNote: { type: 'string' },
+  },
+  required: ['title', 'studyContext', 'features', 'teachingPoints', 'learnerQuestions', 'measurementComments', 'safetyNote'],
+};
+
+// What the model returns (TEACHING_REPORT_SCHEMA); anything may be missing or mistyped
+export interface RawTeachingReport {
+  title?: unknown;
+  studyContext?: Record<string, unknown>;
+  features?: unknown;
+  teachingPoints?: unknown;
+  learnerQuestions?: unknown;
+  measurementComments?: unknown;
+  safetyNote?: unknown;
+}
+
+const text = (value: unknown, fallback = '') => (typeof value === 'string' && value.trim() ? value.trim() : fallback);
+const texts = (value: unknown): string[] => (Array.isArray(value) ? value.map(v => text(v)).filter(Boolean) : []);
+
+/**
+ * Validates the model output and links it to the viewer's measurements (comments for unknown ids are dropped).
+ * Text arrows carry no value and are left out.
+ */
+export const buildTeachingReport = (
+  raw: RawTeachingReport,
+  measurements: Measurement[],
+  calibration: Calibration,
+  fallbackContext: { modality: string; seriesDescription: string },
+  now = new Date()
+): TeachingReport => {
+  const comments = new Map<string, string>();
+  if (Array.isArray(raw.measurementComments)) {
+    raw.measurementComments.forEach((c: unknown) => {
+      if (typeof c !== 'object' || c === null) return;
+      const { measurementId, comment } = c as { measurementId?: unknown; comment?: unknown };
+      const commentText = text(comment);
+      if (typeof measurementId === 'string' && commentText) comments.set(measurementId, commentText);
+    });
+  }
+  const context = raw.studyContext ?? {};
+
+  return {
+    title: text(raw.title, 'Educational Teaching Summary – NOT FOR CLINICAL USE'),
+    studyContext: {
+      modality: text(context.modality, fallbackContext.modality),
+      region: text(context.region, 'Not specified'),
+      seriesDescription: text(context.seriesDescription, fallbackContext.seriesDescription),
+      plane: text(context.plane, 'Not specified'),
+    },
+    features: texts(raw.features),
+    teachingPoints: texts(raw.teachingPoints),
+    learnerQuestions: texts(raw.learnerQuestions),
+    measurements: measurements.flatMap((m, i): ReportMeasurement[] => {
+      const measured = getMeasurementValue(m, calibration);
+      if (!measured || m.type === 'arrow') return [];
+      return [{
+        measurementId: m.id,
+        type: m.type,
+        label: m.label || `${MEASUREMENT_LABEL_PREFIXES[m.type]}${i + 1}`,
+        value: Number(measured.value.toFixed(2)),
+        unit: measured.unit,
+        sliceIndex: m.sliceIndex,
+        points: getMeasurementPoints(m).map(p => ({ ...p })),
+        ...('stats' in m && m.stats ? { stats: { ...m.stats } } : {}),
+        ...(comments.has(m.id) ? { comment: comments.get(m.id) } : {}),
+      }];
+    }),
+    safetyNote: text(raw.safetyNote, DEFAULT_SAFETY_NOTE),
+    generatedAt: now.toISOString(),
+  };
+};
+
+export const formatReportValue = (m: ReportMeasurement) =>
+  formatMeasurementValue(m) + (m.stats ? `, ${formatRoiStats(m.stats)}` : '');
+
+const formatMeasurement = (m: ReportMeasurement) =>
+  `${m.label}: ${formatReportValue(m)} (slice ${m.sliceIndex + 1})${m.comment ? ` – ${m.comment}` : ''}`;
+
+// Shared section layout of the text exports
+const reportSections = (report: TeachingReport): { heading: string; items: string[] }[] => [
+  {
+    heading: 'Study Context',
+    items: [
+      `Modality: ${report.studyContext.modality}`,
+      `Body Part/Region: ${report.studyContext.region}`,
+      `Series Description: ${report.studyContext.seriesDescription}`,
+      `Plane/Orientation: ${report.studyContext.plane}`,
+    ],
+  },
+  { heading: 'Key Imaging Features (Descriptive Only)', items: report.features },
+  { heading: 'Measurements', items: report.measurements.map(formatMeasurement) },
+  { heading: 'Teaching Points', items: report.teachingPoints },
+  { heading: 'Questions for Learners', items: report.learnerQuestions },
+];
+
+// --- EXPORTS ---
+
+export const reportToMarkdown = (report: TeachingReport): string => {
+  const lines = [`# ${report.title}`, ''];
+  reportSections(report).forEach(section => {
+    if (section.items.length === 0) return;
+    lines.push(`## ${section.heading}`, ...section.items.map(item => `- ${item}`), '');
+  });
+  lines.push('## Safety Note', report.safetyNote, '');
+  return lines.join('\n');
+};
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone HTML document (inline styles, no scripts).
+ */
+export const reportToHtml = (report: TeachingReport): string => {
+  const list = (items: string[]) => `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+  const measurementTable = report.measurements.length === 0 ? '' : [
+    '<h2>Measurements</h2>',
+    '<table><thead><tr><th>Label</th><th>Value</th><th>Slice</th><th>Comment</th></tr></thead><tbody>',
+    ...report.measurements.map(m =>
+      `<tr data-measurement-id="${escapeHtml(m.measurementId)}"><td>${escapeHtml(m.label)}</td><td>${escapeHtml(formatReportValue(m))}</td>` +
+      `<td>${m.sliceIndex + 1}</td><td>${escapeHtml(m.comment ?? '')}</td></tr>`),
+    '</tbody></table>',
+  ].join('');
+
+  // The table takes the place of the Measurements section, as in the other exports
+  const sections = reportSections(report).map(s =>
+    s.heading === 'Measurements' ? measurementTable
+      : s.items.length > 0 ? `<h2>${escapeHtml(s.heading)}</h2>${list(s.items)}` : '')
+    .filter(html => html !== '');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(report.title)}</title>`,
+    '<style>body{font-family:system-ui,sans-serif;max-width:760px;margin:2rem auto;padding:0 1rem;color:#1e293b;line-height:1.5}',
+    'h1{font-size:1.5rem}h2{font-size:1.1rem;margin-top:1.5rem;border-bottom:1px solid #cbd5e1}',
+    'table{border-collapse:collapse;width:100%}th,td{border:1px solid #cbd5e1;padding:4px 8px;text-align:left}',
+    '.safety{background:#fef3c7;border:1px solid #f59e0b;padding:.75rem;border-radius:6px}</style></head><body>',
+    `<h1>${escapeHtml(report.title)}</h1>`,
+    ...sections,
+    `<h2>Safety Note</h2><p class="safety">${escapeHtml(report.safetyNote)}</p>`,
+    `<p><small>Generated ${escapeHtml(report.generatedAt)} by VibeRad.</small></p>`,
+    '</body></html>',
+  ].join('\n');
+};
+
+export const reportToPdf = (report: TeachingReport): Uint8Array => {
+  const blocks: PdfBlock[] = [{ style: 'title', text: report.title }];
+  reportSections(report).forEach(section => {
+    if (section.items.length === 0) return;
+    blocks.push({ style: 'heading', text: section.heading }, ...section.items.map(item => ({ style: 'bullet' as const, text: item })));
+  });
+  blocks.push({ style: 'heading', text: 'Safety Note' }, { style: 'body', text: report.safetyNote });
+  blocks.push({ style: 'small', text: `Generated ${report.generatedAt} by VibeRad.` });
+  return createTextPdf(blocks);
+};
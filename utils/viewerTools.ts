@@ -0,0 +1,211 @@
+import { ChatToolAction, ViewerAction } from '../types';
+import type { LlmToolCall, LlmToolDeclaration } from '../services/llm/types';
+
+// VIEWER TOOLS
+// Functions the AI tutor may call to drive the viewer ("look here"). Calls are model output, so each one is
+// validated against what is on screen before the learner is asked to confirm it. Slices are 1-based for
+// the model (as shown in the viewer) and 0-based in actions.
+
+// What the model is told about the viewer, and what calls are checked against
+export interface ViewerToolContext {
+  series: { id: string; description: string; instanceCount: number }[];
+  activeSeriesId: string | null;
+  sliceIndex: number;
+  windowPresets: string[];
+  segments: { id: number; label: string; isVisible: boolean }[];
+}
+
+const fraction = (description: string) => ({ type: 'number' as const, description: `${description} (0–1, fraction of the image)` });
+
+export const VIEWER_TOOL_DECLARATIONS: LlmToolDeclaration[] = [
+  {
+    name: 'jump_to_slice',
+    description: 'Scroll the active viewport of the current series to a slice.',
+    parameters: {
+      type: 'object',
+      properties: { slice: { type: 'integer', description: 'Slice number, 1-based as shown in the viewer' } },
+      required: ['slice'],
+    },
+  },
+  {
+    name: 'switch_series',
+    description: 'Show another series of the study in the active viewport.',
+    parameters: {
+      type: 'object',
+      properties: { series: { type: 'string', description: 'Series description, or its 1-based number in the series list' } },
+      required: ['series'],
+    },
+  },
+  {
+    name: 'apply_window_preset',
+    description: 'Apply a window/level preset to the active viewport.',
+    parameters: {
+      type: 'object',
+      properties: { preset: { type: 'string', description: 'Preset name from the viewer context' } },
+      required: ['preset'],
+    },
+  },
+  {
+    name: 'zoom_to_region',
+    description: 'Zoom and pan the active viewport so a rectangular region of the image fills it.',
+    parameters: {
+      type: 'object',
+      properties: { x: fraction('Left edge'), y: fraction('Top edge'), width: fraction('Width'), height: fraction('Height') },
+      required: ['x', 'y', 'width', 'height'],
+    },
+  },
+  {
+    name: 'place_arrow',
+    description: 'Place a labeled arrow pointing at a spot on a slice.',
+    parameters: {
+      type: 'object',
+      properties: {
+        x: fraction('Arrow tip, horizontal'),
+        y: fraction('Arrow tip, vertical'),
+        label: { type: 'string', description: 'Short label shown next to the arrow' },
+        slice: { type: 'integer', description: 'Slice number (1-based); defaults to the current slice' },
+      },
+      required: ['x', 'y', 'label'],
+    },
+  },
+  {
+    name: 'toggle_segment',
+    description: 'Show or hide a segmentation segment.',
+    parameters: {
+      type: 'object',
+      properties: {
+        segment: { type: 'string', description: 'Segment label (or its number)' },
+        visible: { type: 'boolean', description: 'true to show, false to hide' },
+      },
+      required: ['segment', 'visible'],
+    },
+  },
+];
+
+const MAX_LABEL_LENGTH = 40;
+
+/**
+ * Plain-text description of the viewer for the system context, so tool arguments can be valid.
+ */
+export const describeViewerToolContext = (context: ViewerToolContext): string => {
+  const active = context.series.find(s => s.id === context.activeSeriesId);
+  const lines = [
+    'Viewer state (for the viewer tools):',
+    `- Series: ${context.series.map((s, i) => `${i + 1}. "${s.description}" (${s.instanceCount} slices)`).join('; ') || 'none'}`,
+    `- Active: ${active ? `"${active.description}", slice ${context.sliceIndex + 1} of ${active.instanceCount}` : 'no series'}`,
+    `- Window presets: ${context.windowPresets.join(', ') || 'none'}`,
+    `- Segments: ${context.segments.map(s => `${s.id}. "${s.label}" (${s.isVisible ? 'shown' : 'hidden'})`).join('; ') || 'none'}`,
+  ];
+  return lines.join('\n');
+};
+
+const numberArg = (args: Record<string, unknown>, key: string): number => {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Missing or invalid "${key}".`);
+  return value;
+};
+
+const stringArg = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`Missing "${key}".`);
+  return value.trim();
+};
+
+const fractionArg = (args: Record<string, unknown>, key: string): number => {
+  const value = numberArg(args, key);
+  if (value < 0 || value > 1) throw new Error(`"${key}" must be between 0 and 1.`);
+  return value;
+};
+
+const sliceArg = (args: Record<string, unknown>, key: string, instanceCount: number): number => {
+  const slice = Math.round(numberArg(args, key));
+  if (slice < 1 || slice > instanceCount) throw new Error(`Slice ${slice} is outside this series (1–${instanceCount}).`);
+  return slice - 1;
+};
+
+// Exact name first, then a unique partial match (case-insensitive)
+const findByName = <T>(items: T[], name: (item: T) => string, query: string, kind: string): T => {
+  const q = query.toLowerCase();
+  const exact = items.filter(item => name(item).toLowerCase() === q);
+  if (exact.length === 1) return exact[0];
+  const partial = items.filter(item => name(item).toLowerCase().includes(q));
+  if (partial.length === 1) return partial[0];
+  const options = items.map(item => `"${name(item)}"`).join(', ') || 'none';
+  throw new Error(`${partial.length > 1 ? 'Ambiguous' : 'Unknown'} ${kind} "${query}" (available: ${options}).`);
+};
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+/**
+ * Checks a model tool call against the viewer and turns it into an action with a one-line summary.
+ * Throws with a learner-facing reason when the call cannot be applied.
+ */
+export const resolveViewerToolCall = (call: LlmToolCall, context: ViewerToolContext): { action: ViewerAction; summary: string } => {
+  const args = call.args ?? {};
+  const active = context.series.find(s => s.id === context.activeSeriesId);
+
+  switch (call.name) {
+    case 'jump_to_slice': {
+      if (!active) throw new Error('No series is open.');
+      const sliceIndex = sliceArg(args, 'slice', active.instanceCount);
+      return { action: { type: 'jump_to_slice', sliceIndex }, summary: `Jump to slice ${sliceIndex + 1} of ${active.instanceCount}` };
+    }
+    case 'switch_series': {
+      const query = stringArg(args, 'series');
+      const byNumber = /^\d+$/.test(query) ? context.series[Number(query) - 1] : undefined;
+      const series = byNumber ?? findByName(context.series, s => s.description, query, 'series');
+      if (series.id === context.activeSeriesId) throw new Error(`"${series.description}" is already shown.`);
+      return { action: { type: 'switch_series', seriesId: series.id }, summary: `Show series "${series.description}"` };
+    }
+    case 'apply_window_preset': {
+      const preset = findByName(context.windowPresets, p => p, stringArg(args, 'preset'), 'window preset');
+      return { action: { type: 'apply_window_preset', preset }, summary: `Apply the ${preset} window` };
+    }
+    case 'zoom_to_region': {
+      const x = fractionArg(args, 'x');
+      const y = fractionArg(args, 'y');
+      // Clipped to the image; a region of zero size has nothing to zoom to
+      const width = Math.min(fractionArg(args, 'width'), 1 - x);
+      const height = Math.min(fractionArg(args, 'height'), 1 - y);
+      if (width <= 0 || height <= 0) throw new Error('The zoom region is empty.');
+      return {
+        action: { type: 'zoom_to_region', region: { x, y, width, height } },
+        summary: `Zoom to region (${percent(x)}–${percent(x + width)} across, ${percent(y)}–${percent(y + height)} down)`,
+      };
+    }
+    case 'place_arrow': {
+      if (!active) throw new Error('No series is open.');
+      const x = fractionArg(args, 'x');
+      const y = fractionArg(args, 'y');
+      const sliceIndex = args.slice === undefined ? context.sliceIndex : sliceArg(args, 'slice', active.instanceCount);
+      const label = stringArg(args, 'label').slice(0, MAX_LABEL_LENGTH);
+      return { action: { type: 'place_arrow', sliceIndex, x, y, label }, summary: `Place arrow "${label}" on slice ${sliceIndex + 1}` };
+    }
+    case 'toggle_segment': {
+      const query = stringArg(args, 'segment');
+      const byId = /^\d+$/.test(query) ? context.segments.find(s => s.id === Number(query)) : undefined;
+      const segment = byId ?? findByName(context.segments, s => s.label, query, 'segment');
+      const visible = args.visible === undefined ? !segment.isVisible : args.visible === true || args.visible === 'true';
+      return {
+        action: { type: 'toggle_segment', segmentId: segment.id, visible },
+        summary: `${visible ? 'Show' : 'Hide'} segment "${segment.label}"`,
+      };
+    }
+    default:
+      throw new Error(`Unknown viewer tool "${call.name}".`);
+  }
+};
+
+/**
+ * Pending (or rejected) chat actions for the tool calls of one reply.
+ */
+export const toChatToolActions = (calls: LlmToolCall[], context: ViewerToolContext, idPrefix: string): ChatToolAction[] =>
+  calls.map((call, i) => {
+    const id = `${idPrefix}-tool-${i}`;
+    try {
+      return { id, status: 'pending', ...resolveViewerToolCall(call, context) };
+    } catch (e: any) {
+      return { id, status: 'rejected', summary: call.name.replace(/_/g, ' '), error: e.message };
+    }
+  });
@@ -0,0 +1,105 @@
+import { DicomImage, VoiLutFunction } from '../types';
+
+// VOI LUT stage (PS3.3 C.11.2.1.2)
+// Maps modality values (stored value * slope + intercept) through Window Center/Width
+// into 8-bit display values.
+
+export interface VoiSettings {
+  windowCenter: number;
+  windowWidth: number;
+  voiLutFunction: VoiLutFunction;
+}
+
+const Y_MIN = 0;
+const Y_MAX = 255;
+
+/**
+ * Applies a VOI LUT function to a single modality value.
+ */
+export const applyVoi = (x: number, c: number, w: number, fn: VoiLutFunction): number => {
+  switch (fn) {
+    case 'SIGMOID': {
+      // w must be > 0
+      const width = Math.max(w, Number.EPSILON);
+      return (Y_MAX - Y_MIN) / (1 + Math.exp((-4 * (x - c)) / width)) + Y_MIN;
+    }
+    case 'LINEAR_EXACT': {
+      const width = Math.max(w, Number.EPSILON);
+      if (x <= c - width / 2) return Y_MIN;
+      if (x > c + width / 2) return Y_MAX;
+      return ((x - c) / width + 0.5) * (Y_MAX - Y_MIN) + Y_MIN;
+    }
+    case 'LINEAR':
+    default: {
+      // w >= 1 for LINEAR
+      const width = Math.max(w, 1);
+      if (width === 1) return x <= c - 0.5 ? Y_MIN : Y_MAX;
+      if (x <= c - 0.5 - (width - 1) / 2) return Y_MIN;
+      if (x > c - 0.5 + (width - 1) / 2) return Y_MAX;
+      return ((x - (c - 0.5)) / (width - 1) + 0.5) * (Y_MAX - Y_MIN) + Y_MIN;
+    }
+  }
+};
+
+// Precomputing a LUT over the stored range is much cheaper than per-pixel math
+const MAX_LUT_ENTRIES = 1 << 17;
+
+/**
+ * Builds a stored-value → display-value LUT covering [minPixelValue, maxPixelValue].
+ * Returns null if the range is too large (e.g. 32-bit data), in which case callers map per pixel.
+ */
+export const buildVoiLut = (image: DicomImage, voi: VoiSettings): { lut: Uint8ClampedArray; offset: number } | null => {
+  const { minPixelValue, maxPixelValue, rescaleSlope, rescaleIntercept } = image;
+  const size = Math.floor(maxPixelValue) - Math.floor(minPixelValue) + 1;
+  if (size <= 0 || size > MAX_LUT_ENTRIES) return null;
+
+  const offset = Math.floor(minPixelValue);
+  const lut = new Uint8ClampedArray(size);
+  for (let i = 0; i < size; i++) {
+    const modalityValue = (i + offset) * rescaleSlope + rescaleIntercept;
+    lut[i] = Math.round(applyVoi(modalityValue, voi.windowCenter, voi.windowWidth, voi.voiLutFunction));
+  }
+  return { lut, offset };
+};
+
+/**
+ * Writes the frame as grayscale RGBA into `out` (length rows * columns * 4).
+ * MONOCHROME1 is inverted after the VOI stage; RGB frames bypass windowing.
+ */
+export const renderVoiToRgba = (image: DicomImage, voi: VoiSettings, out: Uint8ClampedArray) => {
+  const { pixelData, rows, columns } = image;
+  const pixelCount = rows * columns;
+
+  if (image.samplesPerPixel === 3) {
+    for (let p = 0; p < pixelCount; p++) {
+      out[p * 4] = pixelData[p * 3];
+      out[p * 4 + 1] = pixelData[p * 3 + 1];
+      out[p * 4 + 2] = pixelData[p * 3 + 2];
+      out[p * 4 + 3] = 255;
+    }
+    return;
+  }
+
+  const invert = image.photometricInterpretation === 'MONOCHROME1';
+  const table = buildVoiLut(image, voi);
+
+  for (let p = 0; p < pixelCount; p++) {
+    const stored = pixelData[p];
+    let gray = table
+      ? table.lut[Math.floor(stored) - table.offset]
+      : applyVoi(stored * image.rescaleSlope + image.rescaleIntercept, voi.windowCenter, voi.windowWidth, voi.voiLutFunction);
+    if (invert) gray = 255 - gray;
+    const o = p * 4;
+    out[o] = out[o + 1] = out[o + 2] = gray;
+    out[o + 3] = 255;
+  }
+};
+
+/**
+ * Range of modality values actually present in the frame.
+ */
+export const getModalityRange = (image: DicomImage): { min: number; max: number } => {
+  const a = image.minPixelValue * image.rescaleSlope + image.rescaleIntercept;
+  const b = image.maxPixelValue * image.rescaleSlope + image.rescaleIntercept;
+  return { min: Math.min(a, b), max: Math.max(a, b) };
+};
@@ -0,0 +1,198 @@
+import { DicomImage, PixelArray, Series, VoiLutFunction } from '../types';
+
+// VOLUME MODEL
+// A series stacked into a single voxel array so it can be resliced into orthogonal planes (MPR).
+// Voxels are stored slice-major: index = z * rows * columns + y * columns + x, with z following
+// the series' instance order.
+
+export type MprPlane = 'axial' | 'coronal' | 'sagittal';
+
+export interface VoxelPoint {
+  x: number; // column
+  y: number; // row
+  z: number; // slice (instance index)
+}
+
+export interface Volume {
+  columns: number;
+  rows: number;
+  slices: number;
+  data: PixelArray;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  minPixelValue: number;
+  maxPixelValue: number;
+  photometricInterpretation: string;
+  modality?: string;
+  windowCenter?: number;
+  windowWidth?: number;
+  voiLutFunction?: VoiLutFunction;
+  // Voxel size in mm, or in pixels when the series is uncalibrated
+  spacing: { column: number; row: number; slice: number };
+  isCalibrated: boolean;
+}
+
+export interface PlaneGeometry {
+  columns: number;
+  rows: number;
+  sliceCount: number;
+  columnSpacing: number;
+  rowSpacing: number;
+}
+
+const allocateLike = (source: PixelArray, length: number): PixelArray => {
+  const Ctor = source.constructor as new (length: number) => PixelArray;
+  return new Ctor(length);
+};
+
+/**
+ * Stacks decoded frames into a volume. All frames must be single-channel and the same size.
+ * Frames with differing rescale parameters are converted to modality values (Float32).
+ */
+export const buildVolume = (images: DicomImage[], series: Series): Volume => {
+  if (images.length === 0) throw new Error('Cannot build a volume from an empty series.');
+  const first = images[0];
+  const { rows, columns } = first;
+
+  images.forEach((img, idx) => {
+    if (img.samplesPerPixel !== 1) {
+      throw new Error('MPR requires grayscale images; this series contains color frames.');
+    }
+    if (img.rows !== rows || img.columns !== columns) {
+      throw new Error(`Slice ${idx + 1} is ${img.columns}×${img.rows} but slice 1 is ${columns}×${rows}; MPR needs a uniform stack.`);
+    }
+  });
+
+  const sliceSize = rows * columns;
+  const uniformRescale = images.every(img =>
+    img.rescaleSlope === first.rescaleSlope && img.rescaleIntercept === first.rescaleIntercept
+  );
+
+  const data = uniformRescale
+    ? allocateLike(first.pixelData, sliceSize * images.length)
+    : new Float32Array(sliceSize * images.length);
+
+  let min = Infinity;
+  let max = -Infinity;
+  images.forEach((img, z) => {
+    const offset = z * sliceSize;
+    if (uniformRescale) {
+      data.set(img.pixelData.subarray(0, sliceSize), offset);
+      min = Math.min(min, img.minPixelValue);
+      max = Math.max(max, img.maxPixelValue);
+    } else {
+      for (let i = 0; i < sliceSize; i++) {
+        const v = img.pixelData[i] * img.rescaleSlope + img.rescaleIntercept;
+        data[offset + i] = v;
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+    }
+  });
+
+  const isCalibrated = !!series.pixelSpacing;
+  const [rowSpacing, columnSpacing] = series.pixelSpacing ?? [1, 1];
+  // Without a slice thickness, assume slices as thick as pixels are wide (calibrated)
+  // or a roughly cubic field of view (uncalibrated PNG stacks)
+  const sliceSpacing = series.sliceThickness
+    ?? (isCalibrated ? columnSpacing : Math.max(1, Math.max(columns, rows) / images.length));
+
+  return {
+    columns,
+    rows,
+    slices: images.length,
+    data,
+    rescaleSlope: uniformRescale ? first.rescaleSlope : 1,
+    rescaleIntercept: uniformRescale ? first.rescaleIntercept : 0,
+    minPixelValue: isFinite(min) ? min : 0,
+    maxPixelValue: isFinite(max) ? max : 0,
+    photometricInterpretation: first.photometricInterpretation,
+    modality: first.modality ?? series.modality,
+    windowCenter: first.windowCenter,
+    windowWidth: first.windowWidth,
+    voiLutFunction: first.voiLutFunction,
+    spacing: { column: columnSpacing, row: rowSpacing, slice: sliceSpacing },
+    isCalibrated,
+  };
+};
+
+/**
+ * In-plane size and pixel spacing of a reformat. Coronal and sagittal planes put the
+ * slice axis vertically, with the last slice at the top.
+ */
+export const getPlaneGeometry = (volume: Volume, plane: MprPlane): PlaneGeometry => {
+  switch (plane) {
+    case 'coronal':
+      return { columns: volume.columns, rows: volume.slices, sliceCount: volume.rows, columnSpacing: volume.spacing.column, rowSpacing: volume.spacing.slice };
+    case 'sagittal':
+      return { columns: volume.rows, rows: volume.slices, sliceCount: volume.columns, columnSpacing: volume.spacing.row, rowSpacing: volume.spacing.slice };
+    default:
+      return { columns: volume.columns, rows: volume.rows, sliceCount: volume.slices, columnSpacing: volume.spacing.column, rowSpacing: volume.spacing.row };
+  }
+};
+
+/**
+ * Plane pixel (u, v) on reformat `index` → voxel.
+ */
+export const planeToVoxel = (volume: Volume, plane: MprPlane, u: number, v: number, index: number): VoxelPoint => {
+  switch (plane) {
+    case 'coronal': return { x: u, y: index, z: volume.slices - 1 - v };
+    case 'sagittal': return { x: index, y: u, z: volume.slices - 1 - v };
+    default: return { x: u, y: v, z: index };
+  }
+};
+
+/**
+ * Voxel → plane pixel (u, v) and the reformat index that contains it.
+ */
+export const voxelToPlane = (volume: Volume, plane: MprPlane, p: VoxelPoint): { u: number; v: number; index: number } => {
+  switch (plane) {
+    case 'coronal': return { u: p.x, v: volume.slices - 1 - p.z, index: p.y };
+    case 'sagittal': return { u: p.y, v: volume.slices - 1 - p.z, index: p.x };
+    default: return { u: p.x, v: p.y, index: p.z };
+  }
+};
+
+/**
+ * Reslices the volume into a single frame that the regular rendering path (VOI LUT) can draw.
+ * The frame carries the volume-wide value range so windows stay consistent across planes.
+ */
+export const extractSlice = (volume: Volume, plane: MprPlane, index: number): DicomImage => {
+  const { columns, rows, sliceCount } = getPlaneGeometry(volume, plane);
+  const i = Math.max(0, Math.min(sliceCount - 1, Math.round(index)));
+  const sliceSize = volume.rows * volume.columns;
+  const out = allocateLike(volume.data, columns * rows);
+
+  if (plane === 'axial') {
+    out.set(volume.data.subarray(i * sliceSize, (i + 1) * sliceSize));
+  } else {
+    for (let v = 0; v < rows; v++) {
+      const z = volume.slices - 1 - v;
+      const base = z * sliceSize;
+      for (let u = 0; u < columns; u++) {
+        out[v * columns + u] = plane === 'coronal'
+          ? volume.data[base + i * volume.columns + u]
+          : volume.data[base + u * volume.columns + i];
+      }
+    }
+  }
+
+  return {
+    rows,
+    columns,
+    bitsAllocated: out.BYTES_PER_ELEMENT * 8,
+    bitsStored: out.BYTES_PER_ELEMENT * 8,
+    pixelRepresentation: out instanceof Int8Array || out instanceof Int16Array || out instanceof Int32Array ? 1 : 0,
+    samplesPerPixel: 1,
+    photometricInterpretation: volume.photometricInterpretation,
+    rescaleSlope: volume.rescaleSlope,
+    rescaleIntercept: volume.rescaleIntercept,
+    pixelData: out,
+    minPixelValue: volume.minPixelValue,
+    maxPixelValue: volume.maxPixelValue,
+    windowCenter: volume.windowCenter,
+    windowWidth: volume.windowWidth,
+    voiLutFunction: volume.voiLutFunction,
+    modality: volume.modality,
+  };
+};
@@ -0,0 +1,100 @@
+// Minimal ZIP reader (PKWARE APPNOTE 4.3.x)
+// Supports stored and deflated entries using the browser's native DecompressionStream,
+// which covers archives produced by OS "Compress" menus and PACS export tools.
+// Also handles single gzip streams (.nii.gz imports, session bundles).
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export const isZip = (bytes: Uint8Array): boolean =>
+  bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // EOCD is 22 bytes plus an optional comment of up to 65535 bytes
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found).');
+};
+
+const inflateRaw = async (compressed: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const isGzip = (bytes: Uint8Array): boolean =>
+  bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+export const gunzip = async (compressed: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const gzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Lists and extracts all file entries. Directories and macOS resource forks are skipped.
+ */
+export const readZipEntries = async (bytes: Uint8Array): Promise<ZipEntry[]> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported. Please re-compress the folder without ZIP64.');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIR_SIGNATURE) {
+      throw new Error('Corrupt ZIP archive (bad central directory entry).');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`ZIP entry "${name}" is encrypted. Password-protected archives are not supported.`);
+    }
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP archive (bad local header for "${name}").`);
+    }
+    // Local header name/extra lengths can differ from the central directory copy
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: raw });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(`ZIP entry "${name}" uses unsupported compression method ${method}.`);
+    }
+  }
+
+  return entries;
+};